@@ -1,11 +1,90 @@
 const jwt = require('jsonwebtoken');
-const { User } = require('../models');
+const { Op } = require('sequelize');
+const { User, RefreshToken, ApiKey, ImpersonationLog, ImpersonationSession } = require('../models');
 
+// Sign a request in with a personal API key. The key acts as its owner, with
+// only the permissions that are both in its scopes and granted by the role.
+const authenticateApiKey = async (req, res, next, key) => {
+  const apiKey = await ApiKey.findByKey(key);
+  if (!apiKey || !apiKey.isActive()) {
+    return res.status(401).json({
+      success: false,
+      error: 'Invalid or expired API key',
+      code: 'AUTHENTICATION_ERROR'
+    });
+  }
+
+  const user = await User.findByPk(apiKey.user_id);
+  if (!user || !user.is_active) {
+    return res.status(401).json({
+      success: false,
+      error: user ? 'Account is deactivated' : 'User not found',
+      code: 'AUTHENTICATION_ERROR'
+    });
+  }
+
+  await apiKey.touch(req.ip);
+
+  req.user = user;
+  req.apiKey = apiKey;
+  req.permissions = (await user.getPermissions()).filter(permission => apiKey.scopes.includes(permission));
+  next();
+};
+
+// Check an access token and the session, user and impersonator behind it.
+// Returns { error } when it may not be used
+const verifyAccessToken = async (token) => {
+  let decoded;
+  try {
+    decoded = jwt.verify(token, process.env.JWT_SECRET || 'your-super-secret-jwt-key-here');
+  } catch (error) {
+    return { error: error.name === 'TokenExpiredError' ? 'Token expired' : 'Invalid token' };
+  }
+
+  // Access tokens die with the session they were issued for
+  if (!decoded.sessionId || !(await RefreshToken.isSessionActive(decoded.sessionId))) {
+    return { error: 'Session has been revoked' };
+  }
+
+  const user = await User.findByPk(decoded.userId);
+  if (!user || !user.is_active) {
+    return { error: user ? 'Account is deactivated' : 'User not found' };
+  }
+
+  // Impersonation tokens act as the user, but only until the impersonation is
+  // ended and while the admin who started it may still impersonate
+  let impersonator = null;
+  if (decoded.impersonatorId) {
+    if (!decoded.impersonationId || !(await ImpersonationSession.isActive(decoded.impersonationId, decoded.impersonatorId))) {
+      return { error: 'Impersonation has ended' };
+    }
+    impersonator = await User.findByPk(decoded.impersonatorId);
+    if (!impersonator || !impersonator.is_active || !(await impersonator.getPermissions()).includes('users:impersonate')) {
+      return { error: 'Impersonation is no longer allowed' };
+    }
+  }
+
+  return {
+    user,
+    impersonator,
+    impersonationId: decoded.impersonationId || null,
+    sessionId: decoded.sessionId,
+    expiresAt: new Date(decoded.exp * 1000)
+  };
+};
+
+// Accepts a JWT access token as `Authorization: Bearer <token>`, or an API key
+// as `X-API-Key: <key>` or `Authorization: Bearer <key>`
 const authenticateToken = async (req, res, next) => {
   try {
     const authHeader = req.headers['authorization'];
     const token = authHeader && authHeader.split(' ')[1];
 
+    const apiKey = req.headers['x-api-key'] || (ApiKey.isApiKey(token) ? token : null);
+    if (apiKey) {
+      return await authenticateApiKey(req, res, next, apiKey);
+    }
+
     if (!token) {
       return res.status(401).json({
         success: false,
@@ -14,28 +93,26 @@ const authenticateToken = async (req, res, next) => {
       });
     }
 
-    const decoded = jwt.verify(token, process.env.JWT_SECRET || 'your-super-secret-jwt-key-here');
-    const user = await User.findByPk(decoded.userId);
-    
-    if (!user) {
+    const session = await verifyAccessToken(token);
+    if (session.error) {
       return res.status(401).json({
         success: false,
-        error: 'User not found',
+        error: session.error,
         code: 'AUTHENTICATION_ERROR'
       });
     }
-    
-    req.user = user;
+
+    req.user = session.user;
+    req.sessionId = session.sessionId;
+    req.permissions = await session.user.getPermissions();
+    // Every request made while impersonating is logged
+    if (session.impersonator) {
+      req.impersonator = session.impersonator;
+      req.impersonationId = session.impersonationId;
+      await ImpersonationLog.record(req);
+    }
     next();
   } catch (error) {
-    if (error.name === 'TokenExpiredError') {
-      return res.status(401).json({
-        success: false,
-        error: 'Token expired',
-        code: 'AUTHENTICATION_ERROR'
-      });
-    }
-    
     return res.status(401).json({
       success: false,
       error: 'Invalid token',
@@ -44,7 +121,37 @@ const authenticateToken = async (req, res, next) => {
   }
 };
 
-const requireRole = (roles) => {
+// Turn away requests signed in with an API key from actions that need the
+// user to be signed in themselves, such as managing sessions and keys
+const requireSession = (req, res, next) => {
+  if (req.apiKey) {
+    return res.status(403).json({
+      success: false,
+      error: 'This action is not available to API keys',
+      code: 'AUTHORIZATION_ERROR'
+    });
+  }
+  next();
+};
+
+// Turn away requests made while impersonating from actions only the user
+// themselves should take, such as changing credentials or creating API keys
+const forbidImpersonation = (req, res, next) => {
+  if (req.impersonator) {
+    return res.status(403).json({
+      success: false,
+      error: 'This action is not available while impersonating',
+      code: 'AUTHORIZATION_ERROR'
+    });
+  }
+  next();
+};
+
+// Check whether the current user's role grants a permission
+const hasPermission = (req, permission) => !!req.permissions && req.permissions.includes(permission);
+
+// Allow the request when the user's role grants any of the given permissions
+const requirePermission = (...permissions) => {
   return (req, res, next) => {
     if (!req.user) {
       return res.status(401).json({
@@ -54,7 +161,7 @@ const requireRole = (roles) => {
       });
     }
     
-    if (!roles.includes(req.user.role)) {
+    if (!permissions.some(permission => hasPermission(req, permission))) {
       return res.status(403).json({
         success: false,
         error: 'Insufficient permissions',
@@ -66,12 +173,55 @@ const requireRole = (roles) => {
   };
 };
 
-const requireAdmin = requireRole(['admin']);
-const requireUser = requireRole(['admin', 'user']);
+// Whether the user may give out a role: those who manage roles may give out any,
+// everyone else only roles that grant nothing beyond their own permissions
+const canAssignRole = (req, role) => hasPermission(req, 'roles:manage')
+  || role.permissions.every(permission => hasPermission(req, permission));
+
+// Work out whose records the user may see for the visibility checks below
+const loadRecordVisibility = async (req, res, next) => {
+  try {
+    req.visibleUserIds = hasPermission(req, 'records:view_all')
+      ? null
+      : await req.user.getVisibleUserIds();
+    next();
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: error.message,
+      code: 'DATABASE_ERROR'
+    });
+  }
+};
+
+// Where condition matching records where any of the given user fields points to
+// one of the users; empty when there is no list of users to limit to
+const userRecordsWhere = (userIds, ...fields) => {
+  if (!userIds) {
+    return {};
+  }
+  return {
+    [Op.or]: fields.map(field => ({ [field]: { [Op.in]: userIds } }))
+  };
+};
+
+// Where condition matching records where any of the given user fields points to
+// a visible user; empty when the user sees every record
+const visibleRecordsWhere = (req, ...fields) => userRecordsWhere(req.visibleUserIds, ...fields);
+
+// Whether a user id falls within the records the user may see
+const canSeeUser = (req, userId) => !req.visibleUserIds || req.visibleUserIds.includes(userId);
 
 module.exports = {
+  verifyAccessToken,
   authenticateToken,
-  requireRole,
-  requireAdmin,
-  requireUser
+  requireSession,
+  forbidImpersonation,
+  hasPermission,
+  requirePermission,
+  canAssignRole,
+  loadRecordVisibility,
+  userRecordsWhere,
+  visibleRecordsWhere,
+  canSeeUser
 }; 
\ No newline at end of file
@@ -0,0 +1,24 @@
+const { AsyncLocalStorage } = require('async_hooks');
+const crypto = require('crypto');
+
+const storage = new AsyncLocalStorage();
+
+// Give every request an id (reusing an incoming X-Request-Id) and keep the
+// request reachable from code that has no access to it, such as model hooks.
+// Must run after the body parsers, which lose the async context.
+const requestContext = (req, res, next) => {
+  req.requestId = req.get('X-Request-Id') || crypto.randomUUID();
+  res.set('X-Request-Id', req.requestId);
+  storage.run({ req }, next);
+};
+
+// The request currently being handled, or null outside of a request
+const getCurrentRequest = () => {
+  const context = storage.getStore();
+  return context ? context.req : null;
+};
+
+module.exports = {
+  requestContext,
+  getCurrentRequest
+};
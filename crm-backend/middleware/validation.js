@@ -1,4 +1,5 @@
 const Joi = require('joi');
+const { CustomFieldDefinition, Role, User, Webhook } = require('../models');
 
 const validate = (schema) => {
   return (req, res, next) => {
@@ -41,10 +42,253 @@ const registerSchema = Joi.object({
   password: Joi.string().min(6).required().messages({
     'string.min': 'Password must be at least 6 characters long',
     'any.required': 'Password is required'
+  })
+});
+
+const inviteUserSchema = Joi.object({
+  email: Joi.string().email().required().messages({
+    'string.email': 'Please provide a valid email address',
+    'any.required': 'Email is required'
+  }),
+  name: Joi.string().min(2).max(255).allow('', null),
+  role: Joi.string().max(50).default('user'),
+  expiresInDays: Joi.number().integer().min(1).max(30).default(7)
+});
+
+const invitationTokenSchema = Joi.object({
+  token: Joi.string().required().messages({
+    'any.required': 'Invitation token is required'
+  })
+});
+
+const acceptInvitationSchema = invitationTokenSchema.keys({
+  name: Joi.string().min(2).max(255).required().messages({
+    'string.min': 'Name must be at least 2 characters long',
+    'string.max': 'Name cannot exceed 255 characters',
+    'any.required': 'Name is required'
+  }),
+  password: Joi.string().min(6).required().messages({
+    'string.min': 'Password must be at least 6 characters long',
+    'any.required': 'Password is required'
+  })
+});
+
+const refreshTokenSchema = Joi.object({
+  refreshToken: Joi.string().required().messages({
+    'any.required': 'Refresh token is required'
+  })
+});
+
+const forgotPasswordSchema = Joi.object({
+  email: Joi.string().email().required().messages({
+    'string.email': 'Please provide a valid email address',
+    'any.required': 'Email is required'
+  })
+});
+
+const resetPasswordSchema = Joi.object({
+  token: Joi.string().required().messages({
+    'any.required': 'Reset token is required'
+  }),
+  password: Joi.string().min(6).required().messages({
+    'string.min': 'Password must be at least 6 characters long',
+    'any.required': 'Password is required'
+  })
+});
+
+const verifyEmailSchema = Joi.object({
+  token: Joi.string().required().messages({
+    'any.required': 'Verification token is required'
+  })
+});
+
+const mfaCode = Joi.string().pattern(/^\d{6}$/).messages({
+  'string.pattern.base': 'Code must be 6 digits'
+});
+
+const mfaChallengeSchema = Joi.object({
+  challengeToken: Joi.string().required().messages({
+    'any.required': 'Challenge token is required'
+  })
+});
+
+const mfaLoginSchema = mfaChallengeSchema.keys({
+  code: mfaCode,
+  recoveryCode: Joi.string().max(20)
+}).xor('code', 'recoveryCode').messages({
+  'object.missing': 'A code or a recovery code is required'
+});
+
+const mfaEnrollLoginSchema = mfaChallengeSchema.keys({
+  code: mfaCode.required()
+});
+
+const mfaCodeSchema = Joi.object({
+  code: mfaCode.required().messages({
+    'any.required': 'Code is required'
+  })
+});
+
+const disableMfaSchema = Joi.object({
+  password: Joi.string().required().messages({
+    'any.required': 'Password is required'
+  })
+});
+
+const ssoCallbackSchema = Joi.object({
+  code: Joi.string().required().messages({
+    'any.required': 'Authorization code is required'
+  }),
+  state: Joi.string().required().messages({
+    'any.required': 'State is required'
+  }),
+  transaction: Joi.string().required().messages({
+    'any.required': 'Sign-in transaction is required'
+  })
+});
+
+const createApiKeySchema = Joi.object({
+  name: Joi.string().min(1).max(100).required().messages({
+    'any.required': 'Name is required'
+  }),
+  scopes: Joi.array().items(Joi.string().valid(...Role.PERMISSIONS)).unique().min(1).required().messages({
+    'any.required': 'At least one scope is required',
+    'array.min': 'At least one scope is required'
+  }),
+  expiresInDays: Joi.number().integer().min(1).max(365).default(90)
+});
+
+const updateUserSchema = Joi.object({
+  name: Joi.string().min(2).max(255).messages({
+    'string.min': 'Name must be at least 2 characters long',
+    'string.max': 'Name cannot exceed 255 characters'
+  }),
+  email: Joi.string().email().messages({
+    'string.email': 'Please provide a valid email address'
+  }),
+  role: Joi.string().max(50),
+  visibility: Joi.string().valid('own', 'team', 'everyone'),
+  teamId: Joi.number().integer().allow(null)
+});
+
+// IANA time zone names and BCP 47 locale tags, as understood by Intl
+const timeZone = Joi.string().max(64).custom((value, helpers) => {
+  try {
+    return new Intl.DateTimeFormat('en-US', { timeZone: value }).resolvedOptions().timeZone;
+  } catch (error) {
+    return helpers.message('Time zone is not recognised');
+  }
+});
+
+const locale = Joi.string().max(35).custom((value, helpers) => {
+  try {
+    return Intl.getCanonicalLocales(value)[0];
+  } catch (error) {
+    return helpers.message('Locale is not recognised');
+  }
+});
+
+const updateProfileSchema = Joi.object({
+  name: Joi.string().min(2).max(255).messages({
+    'string.min': 'Name must be at least 2 characters long',
+    'string.max': 'Name cannot exceed 255 characters'
+  }),
+  email: Joi.string().email().messages({
+    'string.email': 'Please provide a valid email address'
+  }),
+  // Needed to change the email address
+  currentPassword: Joi.string(),
+  timezone: timeZone.allow(null),
+  locale: locale.allow(null),
+  notificationPreferences: Joi.object(
+    Object.fromEntries(Object.keys(User.NOTIFICATION_DEFAULTS).map(type => [type, Joi.boolean()]))
+  )
+});
+
+const changePasswordSchema = Joi.object({
+  currentPassword: Joi.string().required().messages({
+    'any.required': 'Current password is required'
+  }),
+  newPassword: Joi.string().min(6).required().messages({
+    'string.min': 'Password must be at least 6 characters long',
+    'any.required': 'New password is required'
+  })
+});
+
+const impersonateSchema = Joi.object({
+  userId: Joi.number().integer().required()
+});
+
+const deactivateUserSchema = Joi.object({
+  // Who takes over the user's open leads and tasks; required when they have any
+  reassignTo: Joi.number().integer().allow(null)
+});
+
+const teamSchema = Joi.object({
+  name: Joi.string().min(1).max(100).required().messages({
+    'string.max': 'Name cannot exceed 100 characters',
+    'any.required': 'Name is required'
+  }),
+  description: Joi.string().max(255).allow('', null),
+  managerId: Joi.number().integer().allow(null)
+});
+
+const updateTeamSchema = Joi.object({
+  name: Joi.string().min(1).max(100).messages({
+    'string.max': 'Name cannot exceed 100 characters'
   }),
-  role: Joi.string().valid('admin', 'user').default('user')
+  description: Joi.string().max(255).allow('', null),
+  managerId: Joi.number().integer().allow(null)
 });
 
+const roleSchema = Joi.object({
+  name: Joi.string().pattern(/^[a-z][a-z0-9_-]*$/).max(50).required().messages({
+    'string.pattern.base': 'Name must start with a letter and contain only lowercase letters, numbers, dashes and underscores',
+    'any.required': 'Name is required'
+  }),
+  description: Joi.string().max(255).allow('', null),
+  permissions: Joi.array().items(Joi.string().valid(...Role.PERMISSIONS)).unique().default([]),
+  mfaRequired: Joi.boolean().default(false)
+});
+
+const updateRoleSchema = Joi.object({
+  description: Joi.string().max(255).allow('', null),
+  permissions: Joi.array().items(Joi.string().valid(...Role.PERMISSIONS)).unique(),
+  mfaRequired: Joi.boolean()
+});
+
+const webhookFields = {
+  name: Joi.string().min(1).max(100).messages({
+    'string.max': 'Name cannot exceed 100 characters'
+  }),
+  url: Joi.string().uri({ scheme: ['http', 'https'] }).max(2048).messages({
+    'string.uri': 'URL must be a valid http or https URL'
+  }),
+  events: Joi.array().items(Joi.string().valid(...Webhook.EVENTS)).unique().min(1).messages({
+    'array.min': 'Subscribe to at least one event'
+  }),
+  // Generated when left out
+  secret: Joi.string().min(16).max(128).messages({
+    'string.min': 'Secret must be at least 16 characters long'
+  }),
+  isActive: Joi.boolean()
+};
+
+const webhookSchema = Joi.object({
+  ...webhookFields,
+  name: webhookFields.name.required().messages({
+    'any.required': 'Name is required'
+  }),
+  url: webhookFields.url.required().messages({
+    'any.required': 'URL is required'
+  }),
+  events: webhookFields.events.required().messages({
+    'any.required': 'Subscribe to at least one event'
+  })
+});
+
+const updateWebhookSchema = Joi.object(webhookFields);
+
 const customerSchema = Joi.object({
   name: Joi.string().min(2).max(255).required().messages({
     'string.min': 'Name must be at least 2 characters long',
@@ -56,7 +300,21 @@ const customerSchema = Joi.object({
   }),
   phone: Joi.string().max(50).allow('', null),
   company: Joi.string().max(255).allow('', null),
+  accountId: Joi.number().integer().allow(null),
+  ownerId: Joi.number().integer().allow(null),
   tags: Joi.array().items(Joi.string()).default([]),
+  notes: Joi.string().max(1000).allow('', null),
+  customFields: Joi.object()
+});
+
+const accountSchema = Joi.object({
+  name: Joi.string().min(1).max(255).required().messages({
+    'string.max': 'Name cannot exceed 255 characters',
+    'any.required': 'Name is required'
+  }),
+  website: Joi.string().max(255).allow('', null),
+  industry: Joi.string().max(100).allow('', null),
+  phone: Joi.string().max(50).allow('', null),
   notes: Joi.string().max(1000).allow('', null)
 });
 
@@ -67,10 +325,16 @@ const leadSchema = Joi.object({
     'any.required': 'Title is required'
   }),
   description: Joi.string().max(2000).allow('', null),
-  stage: Joi.string().valid('lead', 'qualified', 'proposal', 'closed').default('lead'),
+  stage: Joi.string().max(50),
+  pipelineId: Joi.number().integer().allow(null),
   value: Joi.number().min(0).allow(null),
   customerId: Joi.number().integer().allow(null),
-  assignedTo: Joi.number().integer().allow(null)
+  accountId: Joi.number().integer().allow(null),
+  ownerId: Joi.number().integer().allow(null),
+  assignedTo: Joi.number().integer().allow(null),
+  expectedCloseDate: Joi.date().allow(null),
+  closeReason: Joi.string().max(255).allow('', null),
+  customFields: Joi.object()
 });
 
 const taskSchema = Joi.object({
@@ -84,26 +348,198 @@ const taskSchema = Joi.object({
   priority: Joi.string().valid('low', 'medium', 'high').default('medium'),
   dueDate: Joi.date().allow(null),
   assignedTo: Joi.number().integer().allow(null),
-  customerId: Joi.number().integer().allow(null)
+  customerId: Joi.number().integer().allow(null),
+  leadId: Joi.number().integer().allow(null),
+  customFields: Joi.object()
 });
 
 const interactionSchema = Joi.object({
-  customerId: Joi.number().integer().required().messages({
-    'any.required': 'Customer is required'
-  }),
+  customerId: Joi.number().integer(),
+  accountId: Joi.number().integer(),
+  leadId: Joi.number().integer(),
   type: Joi.string().valid('call', 'email', 'meeting', 'note').required().messages({
     'any.required': 'Interaction type is required'
   }),
   notes: Joi.string().max(2000).allow('', null),
   date: Joi.date().default(Date.now)
+}).or('customerId', 'accountId', 'leadId').messages({
+  'object.missing': 'A contact, an account or a lead is required'
 });
 
 const updateLeadStageSchema = Joi.object({
-  stage: Joi.string().valid('lead', 'qualified', 'proposal', 'closed').required().messages({
+  stage: Joi.string().max(50).required().messages({
     'any.required': 'Stage is required'
+  }),
+  closeReason: Joi.string().max(255).allow('', null)
+});
+
+const pipelineStageFields = {
+  key: Joi.string().pattern(/^[a-z0-9_-]+$/).max(50).required().messages({
+    'string.pattern.base': 'Key may only contain lowercase letters, numbers, dashes and underscores',
+    'any.required': 'Key is required'
+  }),
+  name: Joi.string().min(1).max(100).required().messages({
+    'string.max': 'Name cannot exceed 100 characters',
+    'any.required': 'Name is required'
+  }),
+  position: Joi.number().integer().min(0),
+  color: Joi.string().pattern(/^#[0-9a-fA-F]{6}$/).messages({
+    'string.pattern.base': 'Color must be a hex value like #3B82F6'
+  }),
+  probability: Joi.number().integer().min(0).max(100),
+  is_won: Joi.boolean(),
+  is_lost: Joi.boolean()
+};
+
+const wonOrLost = (value, helpers) => {
+  if (value.is_won && value.is_lost) {
+    return helpers.message('A stage cannot be both won and lost');
+  }
+  return value;
+};
+
+const pipelineStageSchema = Joi.object({
+  ...pipelineStageFields,
+  pipelineId: Joi.number().integer()
+}).custom(wonOrLost);
+
+const pipelineSchema = Joi.object({
+  name: Joi.string().min(1).max(100).required().messages({
+    'string.max': 'Name cannot exceed 100 characters',
+    'any.required': 'Name is required'
+  }),
+  description: Joi.string().max(1000).allow('', null),
+  is_default: Joi.boolean(),
+  stages: Joi.array().items(Joi.object(pipelineStageFields).custom(wonOrLost)).min(1).unique('key').messages({
+    'array.unique': 'Stage keys must be unique within a pipeline'
   })
 });
 
+const reorderPipelineStagesSchema = Joi.object({
+  pipelineId: Joi.number().integer(),
+  stageIds: Joi.array().items(Joi.number().integer()).min(1).required().messages({
+    'any.required': 'Stage order is required'
+  })
+});
+
+const lossReasonSchema = Joi.object({
+  name: Joi.string().min(1).max(100).required().messages({
+    'string.max': 'Name cannot exceed 100 characters',
+    'any.required': 'Name is required'
+  }),
+  position: Joi.number().integer().min(0),
+  is_active: Joi.boolean()
+});
+
+const customFieldFields = {
+  label: Joi.string().min(1).max(100).required().messages({
+    'string.max': 'Label cannot exceed 100 characters',
+    'any.required': 'Label is required'
+  }),
+  options: Joi.array().items(Joi.string().min(1).max(100)).unique().messages({
+    'array.unique': 'Options must be unique'
+  }),
+  required: Joi.boolean(),
+  position: Joi.number().integer().min(0),
+  is_active: Joi.boolean()
+};
+
+const customFieldSchema = Joi.object({
+  ...customFieldFields,
+  entity: Joi.string().valid('customer', 'lead', 'task').required().messages({
+    'any.required': 'Entity is required'
+  }),
+  key: Joi.string().pattern(/^[a-z][a-z0-9_]*$/).max(50).required().messages({
+    'string.pattern.base': 'Key must start with a letter and may only contain lowercase letters, numbers and underscores',
+    'any.required': 'Key is required'
+  }),
+  type: Joi.string().valid('text', 'number', 'date', 'select', 'multi-select', 'boolean').required().messages({
+    'any.required': 'Type is required'
+  }),
+  options: customFieldFields.options.when('type', {
+    is: Joi.valid('select', 'multi-select'),
+    then: Joi.array().min(1).required().messages({
+      'array.min': 'Select fields need at least one option',
+      'any.required': 'Select fields need at least one option'
+    })
+  })
+});
+
+// Key, entity and type are fixed once values may have been stored against them
+const updateCustomFieldSchema = Joi.object(customFieldFields);
+
+// Build the schema for the customFields object of a record from the active
+// field definitions of its entity
+const buildCustomFieldSchema = (definitions) => {
+  const keys = {};
+
+  definitions.forEach(definition => {
+    let field;
+    switch (definition.type) {
+      case 'number':
+        field = Joi.number();
+        break;
+      case 'date':
+        field = Joi.date().iso().raw();
+        break;
+      case 'select':
+        field = Joi.string().valid(...definition.options);
+        break;
+      case 'multi-select':
+        field = Joi.array().items(Joi.string().valid(...definition.options)).unique();
+        break;
+      case 'boolean':
+        field = Joi.boolean();
+        break;
+      default:
+        field = Joi.string().max(1000);
+    }
+
+    field = field.label(definition.label);
+    if (definition.required) {
+      field = definition.type === 'multi-select' ? field.min(1).required() : field.required();
+    } else {
+      field = definition.type === 'text' ? field.allow('', null) : field.allow(null);
+    }
+    keys[definition.key] = field;
+  });
+
+  return Joi.object(keys).messages({
+    'object.unknown': '{{#label}} is not a custom field'
+  });
+};
+
+// Validate req.body.customFields against the custom fields defined for an
+// entity. Required fields are enforced on create, and on update when
+// customFields is sent.
+const validateCustomFields = (entity) => {
+  return async (req, res, next) => {
+    try {
+      const isCreate = req.method === 'POST';
+      if (!isCreate && req.body.customFields === undefined) {
+        return next();
+      }
+
+      const definitions = await CustomFieldDefinition.getForEntity(entity);
+      const schema = buildCustomFieldSchema(definitions);
+      const { error, value } = schema.validate(req.body.customFields || {});
+
+      if (error) {
+        return res.status(400).json({
+          success: false,
+          error: error.details[0].message,
+          code: 'VALIDATION_ERROR'
+        });
+      }
+
+      req.body.customFields = value;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
 const updateTaskStatusSchema = Joi.object({
   status: Joi.string().valid('pending', 'in-progress', 'completed').required().messages({
     'any.required': 'Status is required'
@@ -114,10 +550,44 @@ module.exports = {
   validate,
   loginSchema,
   registerSchema,
+  inviteUserSchema,
+  invitationTokenSchema,
+  acceptInvitationSchema,
+  refreshTokenSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  verifyEmailSchema,
+  mfaChallengeSchema,
+  mfaLoginSchema,
+  mfaEnrollLoginSchema,
+  mfaCodeSchema,
+  disableMfaSchema,
+  ssoCallbackSchema,
+  createApiKeySchema,
+  updateUserSchema,
+  deactivateUserSchema,
+  impersonateSchema,
+  updateProfileSchema,
+  changePasswordSchema,
+  teamSchema,
+  updateTeamSchema,
+  roleSchema,
+  updateRoleSchema,
+  webhookSchema,
+  updateWebhookSchema,
   customerSchema,
+  accountSchema,
   leadSchema,
   taskSchema,
   interactionSchema,
   updateLeadStageSchema,
-  updateTaskStatusSchema
+  updateTaskStatusSchema,
+  pipelineSchema,
+  pipelineStageSchema,
+  reorderPipelineStagesSchema,
+  lossReasonSchema,
+  customFieldSchema,
+  updateCustomFieldSchema,
+  buildCustomFieldSchema,
+  validateCustomFields
 }; 
\ No newline at end of file
@@ -0,0 +1,116 @@
+const { DataTypes, Op } = require('sequelize');
+
+module.exports = (sequelize) => {
+  const Account = sequelize.define('Account', {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true
+    },
+    name: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      validate: {
+        len: [1, 255]
+      }
+    },
+    website: {
+      type: DataTypes.STRING,
+      validate: {
+        len: [0, 255]
+      }
+    },
+    industry: {
+      type: DataTypes.STRING(100),
+      validate: {
+        len: [0, 100]
+      }
+    },
+    phone: {
+      type: DataTypes.STRING,
+      validate: {
+        len: [0, 50]
+      }
+    },
+    notes: {
+      type: DataTypes.TEXT,
+      validate: {
+        len: [0, 1000]
+      }
+    }
+  }, {
+    tableName: 'accounts',
+    indexes: [
+      {
+        fields: ['name']
+      }
+    ]
+  });
+
+  // Find an account by name, ignoring case and surrounding whitespace
+  Account.findByName = function(name, options = {}) {
+    return this.findOne({
+      ...options,
+      where: sequelize.where(sequelize.fn('lower', sequelize.col('name')), name.trim().toLowerCase())
+    });
+  };
+
+  // Group customers without an account into accounts by their company text, then
+  // link their leads and interactions to the same account. Safe to run repeatedly.
+  Account.migrateFromCustomers = async function(options = {}) {
+    const { Customer, Lead, Interaction } = sequelize.models;
+    const { transaction } = options;
+    const summary = { accountsCreated: 0, contactsLinked: 0, leadsLinked: 0, interactionsLinked: 0 };
+
+    const customers = await Customer.findAll({
+      where: { account_id: null, company: { [Op.ne]: null } },
+      order: [['id', 'ASC']],
+      transaction
+    });
+
+    const groups = new Map();
+    customers.forEach(customer => {
+      const company = customer.company.trim();
+      if (!company) {
+        return;
+      }
+      const key = company.toLowerCase();
+      if (!groups.has(key)) {
+        groups.set(key, { name: company, customerIds: [] });
+      }
+      groups.get(key).customerIds.push(customer.id);
+    });
+
+    for (const { name, customerIds } of groups.values()) {
+      let account = await this.findByName(name, { transaction });
+      if (!account) {
+        account = await this.create({ name }, { transaction });
+        summary.accountsCreated += 1;
+      }
+
+      const [contactsLinked] = await Customer.update({ account_id: account.id }, {
+        where: { id: customerIds },
+        transaction
+      });
+      summary.contactsLinked += contactsLinked;
+    }
+
+    // Leads and interactions follow the account of their contact
+    const linked = await Customer.findAll({
+      where: { account_id: { [Op.ne]: null } },
+      attributes: ['id', 'account_id'],
+      transaction
+    });
+    for (const customer of linked) {
+      const where = { customer_id: customer.id, account_id: null };
+      const [leadsLinked] = await Lead.update({ account_id: customer.account_id }, { where, transaction });
+      const [interactionsLinked] = await Interaction.update({ account_id: customer.account_id }, { where, transaction });
+      summary.leadsLinked += leadsLinked;
+      summary.interactionsLinked += interactionsLinked;
+    }
+
+    return summary;
+  };
+
+  return Account;
+};
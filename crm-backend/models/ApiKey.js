@@ -0,0 +1,125 @@
+const crypto = require('crypto');
+const { DataTypes } = require('sequelize');
+
+// Every key starts with this, which tells API keys apart from JWTs in a
+// bearer Authorization header
+const PREFIX = 'crm_';
+
+module.exports = (sequelize) => {
+  const ApiKey = sequelize.define('ApiKey', {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true
+    },
+    user_id: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id'
+      }
+    },
+    name: {
+      type: DataTypes.STRING(100),
+      allowNull: false
+    },
+    // Start of the key, kept so users can tell their keys apart
+    prefix: {
+      type: DataTypes.STRING(16),
+      allowNull: false
+    },
+    // SHA-256 of the key; the key itself is only shown once, when created
+    key_hash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      unique: true
+    },
+    // Permissions the key may use, as far as the owner's role grants them
+    scopes: {
+      type: DataTypes.TEXT,
+      defaultValue: '[]',
+      get() {
+        const rawValue = this.getDataValue('scopes');
+        return rawValue ? JSON.parse(rawValue) : [];
+      },
+      set(value) {
+        this.setDataValue('scopes', JSON.stringify(value || []));
+      }
+    },
+    expires_at: {
+      type: DataTypes.DATE,
+      allowNull: false
+    },
+    last_used_at: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    last_used_ip: {
+      type: DataTypes.STRING(45),
+      allowNull: true
+    },
+    revoked_at: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    // User who revoked the key: the owner or an admin
+    revoked_by: {
+      type: DataTypes.INTEGER,
+      allowNull: true
+    }
+  }, {
+    tableName: 'api_keys',
+    indexes: [
+      {
+        fields: ['user_id']
+      }
+    ]
+  });
+
+  ApiKey.PREFIX = PREFIX;
+
+  ApiKey.hashKey = function(key) {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  };
+
+  // Whether a credential looks like an API key rather than a JWT
+  ApiKey.isApiKey = function(credential) {
+    return typeof credential === 'string' && credential.startsWith(PREFIX);
+  };
+
+  // Create a key for a user; returns the plain key with its row
+  ApiKey.issue = async function(user, { name, scopes, expiresInDays }, options = {}) {
+    const key = `${PREFIX}${crypto.randomBytes(24).toString('hex')}`;
+    const record = await this.create({
+      user_id: user.id,
+      name,
+      prefix: key.slice(0, PREFIX.length + 8),
+      key_hash: this.hashKey(key),
+      scopes,
+      expires_at: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+    }, options);
+    return { key, record };
+  };
+
+  ApiKey.findByKey = function(key, options = {}) {
+    return this.findOne({ ...options, where: { key_hash: this.hashKey(key) } });
+  };
+
+  ApiKey.prototype.isActive = function() {
+    return !this.revoked_at && this.expires_at > new Date();
+  };
+
+  // Remember when and from where the key was last used
+  ApiKey.prototype.touch = function(ip) {
+    return this.update({ last_used_at: new Date(), last_used_ip: ip || null });
+  };
+
+  ApiKey.prototype.toJSON = function() {
+    const values = Object.assign({}, this.get());
+    delete values.key_hash;
+    return values;
+  };
+
+  return ApiKey;
+};
@@ -0,0 +1,130 @@
+const { DataTypes } = require('sequelize');
+const { getCurrentRequest } = require('../middleware/requestContext');
+
+// Attributes left out of diffs, and attributes whose values are never logged
+const IGNORED_ATTRIBUTES = ['createdAt', 'updatedAt'];
+const REDACTED_ATTRIBUTES = ['password', 'mfa_secret', 'mfa_recovery_codes'];
+
+module.exports = (sequelize) => {
+  const AuditLog = sequelize.define('AuditLog', {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true
+    },
+    // User who made the change; null for changes made outside a signed-in request
+    actor_id: {
+      type: DataTypes.INTEGER,
+      allowNull: true
+    },
+    // Admin who was impersonating the actor when the change was made
+    impersonator_id: {
+      type: DataTypes.INTEGER,
+      allowNull: true
+    },
+    entity_type: {
+      type: DataTypes.STRING(50),
+      allowNull: false
+    },
+    entity_id: {
+      type: DataTypes.INTEGER,
+      allowNull: false
+    },
+    action: {
+      type: DataTypes.ENUM('create', 'update', 'delete'),
+      allowNull: false
+    },
+    // { attribute: { before, after } } for every attribute the change touched
+    changes: {
+      type: DataTypes.TEXT,
+      defaultValue: '{}',
+      get() {
+        const rawValue = this.getDataValue('changes');
+        return rawValue ? JSON.parse(rawValue) : {};
+      },
+      set(value) {
+        this.setDataValue('changes', JSON.stringify(value || {}));
+      }
+    },
+    ip_address: {
+      type: DataTypes.STRING(45),
+      allowNull: true
+    },
+    request_id: {
+      type: DataTypes.STRING(64),
+      allowNull: true
+    }
+  }, {
+    tableName: 'audit_logs',
+    updatedAt: false,
+    indexes: [
+      {
+        fields: ['entity_type', 'entity_id']
+      },
+      {
+        fields: ['actor_id']
+      },
+      {
+        fields: ['created_at']
+      }
+    ]
+  });
+
+  const diffValue = (attribute, value) => {
+    return REDACTED_ATTRIBUTES.includes(attribute) ? '[redacted]' : value;
+  };
+
+  // Build the before/after diff of a created, updated or deleted record
+  const buildChanges = (instance, action) => {
+    const attributes = action === 'update'
+      ? instance.changed() || []
+      : Object.keys(instance.constructor.rawAttributes);
+
+    const changes = {};
+    attributes
+      .filter(attribute => !IGNORED_ATTRIBUTES.includes(attribute))
+      .forEach(attribute => {
+        const current = instance.getDataValue(attribute);
+        const before = action === 'create' ? null : (action === 'update' ? instance.previous(attribute) : current);
+        const after = action === 'delete' ? null : current;
+        if (before === undefined && after === undefined) {
+          return;
+        }
+        changes[attribute] = {
+          before: diffValue(attribute, before === undefined ? null : before),
+          after: diffValue(attribute, after === undefined ? null : after)
+        };
+      });
+    return changes;
+  };
+
+  // Write an audit entry for a change to a record, within the change's transaction
+  AuditLog.record = async function(entityType, instance, action, options = {}) {
+    const changes = buildChanges(instance, action);
+    if (action === 'update' && Object.keys(changes).length === 0) {
+      return null;
+    }
+
+    const req = getCurrentRequest();
+    return this.create({
+      actor_id: req && req.user ? req.user.id : null,
+      impersonator_id: req && req.impersonator ? req.impersonator.id : null,
+      entity_type: entityType,
+      entity_id: instance.get(instance.constructor.primaryKeyAttribute),
+      action,
+      changes,
+      ip_address: req ? req.ip : null,
+      request_id: req ? req.requestId : null
+    }, { transaction: options.transaction });
+  };
+
+  // Audit every create, update and delete of a model's records. Bulk updates and
+  // deletes are only audited when run with `individualHooks: true`.
+  AuditLog.track = function(model, entityType) {
+    model.addHook('afterCreate', 'audit', (instance, options) => AuditLog.record(entityType, instance, 'create', options));
+    model.addHook('afterUpdate', 'audit', (instance, options) => AuditLog.record(entityType, instance, 'update', options));
+    model.addHook('afterDestroy', 'audit', (instance, options) => AuditLog.record(entityType, instance, 'delete', options));
+  };
+
+  return AuditLog;
+};
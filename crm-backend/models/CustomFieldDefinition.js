@@ -0,0 +1,166 @@
+const { DataTypes, Op } = require('sequelize');
+
+// Operators accepted in range filters on number and date fields
+const RANGE_OPERATORS = {
+  gt: Op.gt,
+  gte: Op.gte,
+  lt: Op.lt,
+  lte: Op.lte
+};
+
+module.exports = (sequelize) => {
+  const CustomFieldDefinition = sequelize.define('CustomFieldDefinition', {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true
+    },
+    entity: {
+      type: DataTypes.ENUM('customer', 'lead', 'task'),
+      allowNull: false
+    },
+    key: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+      validate: {
+        is: /^[a-z][a-z0-9_]*$/
+      }
+    },
+    label: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+      validate: {
+        len: [1, 100]
+      }
+    },
+    type: {
+      type: DataTypes.ENUM('text', 'number', 'date', 'select', 'multi-select', 'boolean'),
+      allowNull: false
+    },
+    options: {
+      type: DataTypes.TEXT,
+      defaultValue: '[]',
+      get() {
+        const rawValue = this.getDataValue('options');
+        return rawValue ? JSON.parse(rawValue) : [];
+      },
+      set(value) {
+        this.setDataValue('options', JSON.stringify(value || []));
+      }
+    },
+    required: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false
+    },
+    position: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0
+    },
+    is_active: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true
+    }
+  }, {
+    tableName: 'custom_field_definitions',
+    indexes: [
+      {
+        unique: true,
+        fields: ['entity', 'key']
+      },
+      {
+        fields: ['entity', 'position']
+      }
+    ]
+  });
+
+  // Get the fields of an entity in display order
+  CustomFieldDefinition.getForEntity = function(entity, options = {}) {
+    const { includeInactive, ...queryOptions } = options;
+    return this.findAll({
+      ...queryOptions,
+      where: includeInactive ? { entity } : { entity, is_active: true },
+      order: [['position', 'ASC'], ['id', 'ASC']]
+    });
+  };
+
+  // SQL for the stored value of a field. Keys are restricted to [a-z0-9_] so they
+  // are safe to inline.
+  const valueExpression = (modelName, key) => {
+    const queryInterface = sequelize.getQueryInterface();
+    const column = `${queryInterface.quoteIdentifier(modelName)}.${queryInterface.quoteIdentifier('custom_fields')}`;
+    if (sequelize.getDialect() === 'postgres') {
+      return `(CAST(${column} AS JSONB) ->> '${key}')`;
+    }
+    return `json_extract(${column}, '$.${key}')`;
+  };
+
+  // Build where conditions for list routes from ?customFields[key]=value filters.
+  // Number and date fields also take ranges, e.g. customFields[budget][gte]=1000.
+  // Filters on unknown or inactive fields are ignored.
+  CustomFieldDefinition.buildFilters = async function(entity, modelName, filters) {
+    if (!filters || typeof filters !== 'object') {
+      return [];
+    }
+
+    const definitions = await this.getForEntity(entity);
+    const conditions = [];
+
+    definitions.forEach(definition => {
+      const filter = filters[definition.key];
+      if (filter === undefined || filter === '') {
+        return;
+      }
+
+      const expression = valueExpression(modelName, definition.key);
+
+      switch (definition.type) {
+        case 'text':
+          conditions.push(sequelize.where(sequelize.fn('lower', sequelize.literal(expression)), {
+            [Op.like]: `%${String(filter).toLowerCase()}%`
+          }));
+          break;
+        case 'select':
+          conditions.push(sequelize.where(sequelize.literal(expression), String(filter)));
+          break;
+        case 'multi-select':
+          // Matches records whose stored list contains the value
+          conditions.push(sequelize.where(sequelize.literal(expression), {
+            [Op.like]: `%${JSON.stringify(String(filter))}%`
+          }));
+          break;
+        case 'boolean': {
+          const value = filter === true || filter === 'true';
+          const stored = sequelize.getDialect() === 'postgres' ? String(value) : (value ? 1 : 0);
+          conditions.push(sequelize.where(sequelize.literal(expression), stored));
+          break;
+        }
+        case 'number':
+        case 'date': {
+          const target = definition.type === 'number'
+            ? sequelize.literal(`CAST(${expression} AS NUMERIC)`)
+            : sequelize.literal(expression);
+          const parse = definition.type === 'number' ? parseFloat : String;
+          const ranges = typeof filter === 'object' ? filter : { eq: filter };
+
+          Object.entries(ranges).forEach(([name, rawValue]) => {
+            const operator = name === 'eq' ? Op.eq : RANGE_OPERATORS[name];
+            const value = parse(rawValue);
+            if (operator && !(typeof value === 'number' && Number.isNaN(value))) {
+              conditions.push(sequelize.where(target, { [operator]: value }));
+            }
+          });
+          break;
+        }
+        default:
+          break;
+      }
+    });
+
+    return conditions;
+  };
+
+  return CustomFieldDefinition;
+};
@@ -32,6 +32,22 @@ module.exports = (sequelize) => {
         len: [0, 255]
       }
     },
+    account_id: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'accounts',
+        key: 'id'
+      }
+    },
+    owner_id: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id'
+      }
+    },
     tags: {
       type: DataTypes.TEXT,
       defaultValue: '[]',
@@ -48,6 +64,17 @@ module.exports = (sequelize) => {
       validate: {
         len: [0, 1000]
       }
+    },
+    custom_fields: {
+      type: DataTypes.TEXT,
+      defaultValue: '{}',
+      get() {
+        const rawValue = this.getDataValue('custom_fields');
+        return rawValue ? JSON.parse(rawValue) : {};
+      },
+      set(value) {
+        this.setDataValue('custom_fields', JSON.stringify(value || {}));
+      }
     }
   }, {
     tableName: 'customers',
@@ -57,6 +84,12 @@ module.exports = (sequelize) => {
       },
       {
         fields: ['company']
+      },
+      {
+        fields: ['account_id']
+      },
+      {
+        fields: ['owner_id']
       }
     ]
   });
@@ -0,0 +1,65 @@
+const { DataTypes } = require('sequelize');
+
+module.exports = (sequelize) => {
+  const ImpersonationLog = sequelize.define('ImpersonationLog', {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true
+    },
+    // Admin who made the request
+    impersonator_id: {
+      type: DataTypes.INTEGER,
+      allowNull: false
+    },
+    // User the request was made as
+    user_id: {
+      type: DataTypes.INTEGER,
+      allowNull: false
+    },
+    method: {
+      type: DataTypes.STRING(10),
+      allowNull: false
+    },
+    path: {
+      type: DataTypes.STRING(2048),
+      allowNull: false
+    },
+    ip_address: {
+      type: DataTypes.STRING(45),
+      allowNull: true
+    },
+    request_id: {
+      type: DataTypes.STRING(64),
+      allowNull: true
+    }
+  }, {
+    tableName: 'impersonation_logs',
+    updatedAt: false,
+    indexes: [
+      {
+        fields: ['impersonator_id']
+      },
+      {
+        fields: ['user_id']
+      },
+      {
+        fields: ['created_at']
+      }
+    ]
+  });
+
+  // Log a request made while an admin impersonates a user
+  ImpersonationLog.record = function(req) {
+    return this.create({
+      impersonator_id: req.impersonator.id,
+      user_id: req.user.id,
+      method: req.method,
+      path: req.originalUrl.slice(0, 2048),
+      ip_address: req.ip,
+      request_id: req.requestId
+    });
+  };
+
+  return ImpersonationLog;
+};
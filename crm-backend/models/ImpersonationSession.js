@@ -0,0 +1,44 @@
+const { DataTypes } = require('sequelize');
+
+module.exports = (sequelize) => {
+  const ImpersonationSession = sequelize.define('ImpersonationSession', {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true
+    },
+    // Admin doing the impersonating
+    impersonator_id: {
+      type: DataTypes.INTEGER,
+      allowNull: false
+    },
+    // User being impersonated
+    user_id: {
+      type: DataTypes.INTEGER,
+      allowNull: false
+    },
+    // Set when the admin ends the impersonation; its token stops working then
+    ended_at: {
+      type: DataTypes.DATE,
+      allowNull: true
+    }
+  }, {
+    tableName: 'impersonation_sessions',
+    updatedAt: false,
+    indexes: [
+      {
+        fields: ['impersonator_id']
+      }
+    ]
+  });
+
+  // Whether the impersonation behind a token has not been ended
+  ImpersonationSession.isActive = async function(id, impersonatorId) {
+    const count = await this.count({
+      where: { id, impersonator_id: impersonatorId, ended_at: null }
+    });
+    return count > 0;
+  };
+
+  return ImpersonationSession;
+};
@@ -9,12 +9,28 @@ module.exports = (sequelize) => {
     },
     customer_id: {
       type: DataTypes.INTEGER,
-      allowNull: false,
+      allowNull: true,
       references: {
         model: 'customers',
         key: 'id'
       }
     },
+    account_id: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'accounts',
+        key: 'id'
+      }
+    },
+    lead_id: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'leads',
+        key: 'id'
+      }
+    },
     type: {
       type: DataTypes.ENUM('call', 'email', 'meeting', 'note'),
       allowNull: false
@@ -44,6 +60,12 @@ module.exports = (sequelize) => {
       {
         fields: ['customer_id']
       },
+      {
+        fields: ['account_id']
+      },
+      {
+        fields: ['lead_id']
+      },
       {
         fields: ['type']
       },
@@ -0,0 +1,125 @@
+const crypto = require('crypto');
+const { DataTypes, Op } = require('sequelize');
+
+module.exports = (sequelize) => {
+  const Invitation = sequelize.define('Invitation', {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true
+    },
+    email: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      validate: {
+        isEmail: true
+      }
+    },
+    // Suggested name, which the invitee can change when accepting
+    name: {
+      type: DataTypes.STRING,
+      allowNull: true
+    },
+    // Name of the role the new user gets
+    role: {
+      type: DataTypes.STRING(50),
+      allowNull: false
+    },
+    // SHA-256 of the token; the token itself only goes out by email
+    token_hash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      unique: true
+    },
+    expires_at: {
+      type: DataTypes.DATE,
+      allowNull: false
+    },
+    invited_by: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id'
+      }
+    },
+    accepted_at: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    // User created when the invitation was accepted
+    user_id: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id'
+      }
+    },
+    revoked_at: {
+      type: DataTypes.DATE,
+      allowNull: true
+    }
+  }, {
+    tableName: 'invitations',
+    indexes: [
+      {
+        fields: ['email']
+      }
+    ]
+  });
+
+  Invitation.hashToken = function(token) {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  };
+
+  // Invite someone; earlier pending invitations for the same email stop
+  // working. Returns the plain token with the row.
+  Invitation.issue = async function(inviter, { email, name, role, expiresInDays }, options = {}) {
+    await this.update({ revoked_at: new Date() }, {
+      ...options,
+      where: { email, accepted_at: null, revoked_at: null, expires_at: { [Op.gt]: new Date() } }
+    });
+
+    const token = crypto.randomBytes(32).toString('hex');
+    const record = await this.create({
+      email,
+      name: name || null,
+      role,
+      token_hash: this.hashToken(token),
+      expires_at: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+      invited_by: inviter.id
+    }, options);
+    return { token, record };
+  };
+
+  // The open invitation a token belongs to, or null when the token is
+  // unknown, expired, revoked or already accepted
+  Invitation.findPending = function(token, options = {}) {
+    return this.findOne({
+      ...options,
+      where: {
+        token_hash: this.hashToken(token),
+        accepted_at: null,
+        revoked_at: null,
+        expires_at: { [Op.gt]: new Date() }
+      }
+    });
+  };
+
+  Invitation.prototype.getStatus = function() {
+    if (this.accepted_at) return 'accepted';
+    if (this.revoked_at) return 'revoked';
+    if (this.expires_at <= new Date()) return 'expired';
+    return 'pending';
+  };
+
+  Invitation.prototype.toJSON = function() {
+    const values = Object.assign({}, this.get());
+    delete values.token_hash;
+    values.status = this.getStatus();
+    return values;
+  };
+
+  return Invitation;
+};
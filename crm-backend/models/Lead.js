@@ -21,7 +21,7 @@ module.exports = (sequelize) => {
       }
     },
     stage: {
-      type: DataTypes.ENUM('lead', 'qualified', 'proposal', 'closed'),
+      type: DataTypes.STRING(50),
       defaultValue: 'lead',
       allowNull: false
     },
@@ -31,14 +31,38 @@ module.exports = (sequelize) => {
         min: 0
       }
     },
+    pipeline_id: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'pipelines',
+        key: 'id'
+      }
+    },
     customer_id: {
       type: DataTypes.INTEGER,
-      allowNull: false,
+      allowNull: true,
       references: {
         model: 'customers',
         key: 'id'
       }
     },
+    account_id: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'accounts',
+        key: 'id'
+      }
+    },
+    owner_id: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id'
+      }
+    },
     assigned_to: {
       type: DataTypes.INTEGER,
       allowNull: true,
@@ -46,6 +70,29 @@ module.exports = (sequelize) => {
         model: 'users',
         key: 'id'
       }
+    },
+    expected_close_date: {
+      type: DataTypes.DATEONLY,
+      allowNull: true
+    },
+    closed_at: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    close_reason: {
+      type: DataTypes.STRING(255),
+      allowNull: true
+    },
+    custom_fields: {
+      type: DataTypes.TEXT,
+      defaultValue: '{}',
+      get() {
+        const rawValue = this.getDataValue('custom_fields');
+        return rawValue ? JSON.parse(rawValue) : {};
+      },
+      set(value) {
+        this.setDataValue('custom_fields', JSON.stringify(value || {}));
+      }
     }
   }, {
     tableName: 'leads',
@@ -53,21 +100,36 @@ module.exports = (sequelize) => {
       {
         fields: ['stage']
       },
+      {
+        fields: ['pipeline_id']
+      },
       {
         fields: ['customer_id']
       },
+      {
+        fields: ['account_id']
+      },
       {
         fields: ['assigned_to']
       },
+      {
+        fields: ['owner_id']
+      },
       {
         fields: ['value']
+      },
+      {
+        fields: ['expected_close_date']
+      },
+      {
+        fields: ['closed_at']
       }
     ]
   });
 
   // Instance method to move to next stage
-  Lead.prototype.moveToNextStage = function() {
-    const stages = ['lead', 'qualified', 'proposal', 'closed'];
+  Lead.prototype.moveToNextStage = async function() {
+    const stages = (await sequelize.models.PipelineStage.getOrdered(this.pipeline_id)).map(s => s.key);
     const currentIndex = stages.indexOf(this.stage);
     if (currentIndex < stages.length - 1) {
       this.stage = stages[currentIndex + 1];
@@ -76,8 +138,8 @@ module.exports = (sequelize) => {
   };
 
   // Instance method to move to previous stage
-  Lead.prototype.moveToPreviousStage = function() {
-    const stages = ['lead', 'qualified', 'proposal', 'closed'];
+  Lead.prototype.moveToPreviousStage = async function() {
+    const stages = (await sequelize.models.PipelineStage.getOrdered(this.pipeline_id)).map(s => s.key);
     const currentIndex = stages.indexOf(this.stage);
     if (currentIndex > 0) {
       this.stage = stages[currentIndex - 1];
@@ -86,8 +148,9 @@ module.exports = (sequelize) => {
   };
 
   // Instance method to check if lead is closed
-  Lead.prototype.isClosed = function() {
-    return this.stage === 'closed';
+  Lead.prototype.isClosed = async function() {
+    const stage = await sequelize.models.PipelineStage.findByKey(this.pipeline_id, this.stage);
+    return !!stage && stage.isTerminal();
   };
 
   return Lead;
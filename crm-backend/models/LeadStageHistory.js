@@ -0,0 +1,84 @@
+const { DataTypes } = require('sequelize');
+
+module.exports = (sequelize) => {
+  const LeadStageHistory = sequelize.define('LeadStageHistory', {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true
+    },
+    lead_id: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'leads',
+        key: 'id'
+      }
+    },
+    pipeline_id: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'pipelines',
+        key: 'id'
+      }
+    },
+    from_stage: {
+      type: DataTypes.STRING(50),
+      allowNull: true
+    },
+    to_stage: {
+      type: DataTypes.STRING(50),
+      allowNull: false
+    },
+    changed_by: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id'
+      }
+    },
+    changed_at: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      allowNull: false
+    }
+  }, {
+    tableName: 'lead_stage_history',
+    updatedAt: false,
+    indexes: [
+      {
+        fields: ['lead_id']
+      },
+      {
+        fields: ['pipeline_id', 'to_stage']
+      },
+      {
+        fields: ['changed_at']
+      }
+    ]
+  });
+
+  // Record a lead entering its current stage; fromStage is null for new leads
+  LeadStageHistory.record = function(lead, fromStage, userId, options = {}) {
+    return this.create({
+      lead_id: lead.id,
+      pipeline_id: lead.pipeline_id,
+      from_stage: fromStage,
+      to_stage: lead.stage,
+      changed_by: userId || null
+    }, options);
+  };
+
+  // Get the transitions of a lead in the order they happened
+  LeadStageHistory.getForLead = function(leadId, options = {}) {
+    return this.findAll({
+      ...options,
+      where: { lead_id: leadId },
+      order: [['changed_at', 'ASC'], ['id', 'ASC']]
+    });
+  };
+
+  return LeadStageHistory;
+};
@@ -0,0 +1,71 @@
+const { DataTypes } = require('sequelize');
+
+// Reasons offered when a deal is marked as lost on a fresh install
+const DEFAULT_LOSS_REASONS = [
+  'Price too high',
+  'Lost to competitor',
+  'No budget',
+  'No decision',
+  'Bad timing'
+];
+
+module.exports = (sequelize) => {
+  const LossReason = sequelize.define('LossReason', {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true
+    },
+    name: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+      unique: true,
+      validate: {
+        len: [1, 100]
+      }
+    },
+    position: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0
+    },
+    is_active: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true
+    }
+  }, {
+    tableName: 'loss_reasons',
+    indexes: [
+      {
+        fields: ['position']
+      }
+    ]
+  });
+
+  // Get loss reasons in display order
+  LossReason.getOrdered = function(options = {}) {
+    return this.findAll({
+      ...options,
+      order: [['position', 'ASC'], ['id', 'ASC']]
+    });
+  };
+
+  // Check that a reason is one of the active configured loss reasons
+  LossReason.isValidReason = async function(name) {
+    if (!name) {
+      return false;
+    }
+    const reason = await this.findOne({ where: { name, is_active: true } });
+    return !!reason;
+  };
+
+  // Create the standard loss reasons if none are configured
+  LossReason.ensureDefaults = async function() {
+    if (await this.count() === 0) {
+      await this.bulkCreate(DEFAULT_LOSS_REASONS.map((name, position) => ({ name, position })));
+    }
+  };
+
+  return LossReason;
+};
@@ -0,0 +1,97 @@
+const { DataTypes } = require('sequelize');
+
+module.exports = (sequelize) => {
+  const Pipeline = sequelize.define('Pipeline', {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true
+    },
+    name: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+      validate: {
+        len: [1, 100]
+      }
+    },
+    description: {
+      type: DataTypes.TEXT,
+      validate: {
+        len: [0, 1000]
+      }
+    },
+    is_default: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false
+    }
+  }, {
+    tableName: 'pipelines',
+    indexes: [
+      {
+        fields: ['is_default']
+      }
+    ]
+  });
+
+  // Get the pipeline used when none is specified
+  Pipeline.getDefault = async function() {
+    const pipeline = await this.findOne({ where: { is_default: true } });
+    return pipeline || this.findOne({ order: [['id', 'ASC']] });
+  };
+
+  // Resolve a pipeline id, falling back to the default pipeline
+  Pipeline.resolve = function(pipelineId) {
+    return pipelineId ? this.findByPk(pipelineId) : this.getDefault();
+  };
+
+  // Create the default pipeline and adopt stages and leads that have no pipeline
+  Pipeline.ensureDefaults = async function() {
+    const { PipelineStage, Lead } = sequelize.models;
+
+    let pipeline = await this.getDefault();
+    if (!pipeline) {
+      pipeline = await this.create({ name: 'Sales Pipeline', is_default: true });
+    }
+
+    await PipelineStage.update({ pipeline_id: pipeline.id }, { where: { pipeline_id: null } });
+    await Lead.update({ pipeline_id: pipeline.id }, { where: { pipeline_id: null }, silent: true });
+
+    const stageCount = await PipelineStage.count({ where: { pipeline_id: pipeline.id } });
+    if (stageCount === 0) {
+      await pipeline.createDefaultStages();
+    }
+
+    // Leads closed before there were won and lost stages count as won, closed
+    // when they were last changed
+    const stages = await pipeline.getOrderedStages();
+    const wonStage = stages.find(stage => stage.is_won);
+    if (wonStage && !stages.some(stage => stage.key === 'closed')) {
+      await Lead.update({
+        stage: wonStage.key,
+        closed_at: sequelize.fn('COALESCE', sequelize.col('closed_at'), sequelize.col('updated_at'))
+      }, {
+        where: { pipeline_id: pipeline.id, stage: 'closed' },
+        silent: true
+      });
+    }
+
+    return pipeline;
+  };
+
+  // Instance method to get stages in pipeline order
+  Pipeline.prototype.getOrderedStages = function(options = {}) {
+    return sequelize.models.PipelineStage.getOrdered(this.id, options);
+  };
+
+  // Instance method to create the standard stage set for a new pipeline
+  Pipeline.prototype.createDefaultStages = function(options = {}) {
+    const { PipelineStage } = sequelize.models;
+    return PipelineStage.bulkCreate(
+      PipelineStage.DEFAULT_STAGES.map(stage => ({ ...stage, pipeline_id: this.id })),
+      options
+    );
+  };
+
+  return Pipeline;
+};
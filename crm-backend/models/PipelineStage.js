@@ -0,0 +1,114 @@
+const { DataTypes } = require('sequelize');
+
+// Stages given to a new pipeline so it is usable straight away
+const DEFAULT_STAGES = [
+  { key: 'lead', name: 'Leads', position: 0, color: '#3B82F6', probability: 10 },
+  { key: 'qualified', name: 'Qualified', position: 1, color: '#F59E0B', probability: 30 },
+  { key: 'proposal', name: 'Proposal', position: 2, color: '#8B5CF6', probability: 60 },
+  { key: 'won', name: 'Won', position: 3, color: '#10B981', probability: 100, is_won: true },
+  { key: 'lost', name: 'Lost', position: 4, color: '#EF4444', probability: 0, is_lost: true }
+];
+
+module.exports = (sequelize) => {
+  const PipelineStage = sequelize.define('PipelineStage', {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true
+    },
+    pipeline_id: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'pipelines',
+        key: 'id'
+      }
+    },
+    key: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+      validate: {
+        is: /^[a-z0-9_-]+$/
+      }
+    },
+    name: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+      validate: {
+        len: [1, 100]
+      }
+    },
+    position: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0
+    },
+    color: {
+      type: DataTypes.STRING(7),
+      defaultValue: '#3B82F6',
+      validate: {
+        is: /^#[0-9a-fA-F]{6}$/
+      }
+    },
+    probability: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+      validate: {
+        min: 0,
+        max: 100
+      }
+    },
+    is_won: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false
+    },
+    is_lost: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false
+    }
+  }, {
+    tableName: 'pipeline_stages',
+    indexes: [
+      {
+        unique: true,
+        fields: ['pipeline_id', 'key']
+      },
+      {
+        fields: ['position']
+      }
+    ],
+    validate: {
+      wonOrLost() {
+        if (this.is_won && this.is_lost) {
+          throw new Error('A stage cannot be both won and lost');
+        }
+      }
+    }
+  });
+
+  PipelineStage.DEFAULT_STAGES = DEFAULT_STAGES;
+
+  // Get all stages of a pipeline in order
+  PipelineStage.getOrdered = function(pipelineId, options = {}) {
+    return this.findAll({
+      ...options,
+      where: { pipeline_id: pipelineId },
+      order: [['position', 'ASC'], ['id', 'ASC']]
+    });
+  };
+
+  // Find a stage of a pipeline by its key
+  PipelineStage.findByKey = function(pipelineId, key) {
+    return this.findOne({ where: { pipeline_id: pipelineId, key } });
+  };
+
+  // Instance method to check if stage ends the pipeline
+  PipelineStage.prototype.isTerminal = function() {
+    return this.is_won || this.is_lost;
+  };
+
+  return PipelineStage;
+};
@@ -0,0 +1,129 @@
+const crypto = require('crypto');
+const { DataTypes, Op } = require('sequelize');
+
+// How long a refresh token can be used before the user has to log in again
+const getRefreshTokenTtlMs = () => {
+  const days = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS, 10) || 30;
+  return days * 24 * 60 * 60 * 1000;
+};
+
+module.exports = (sequelize) => {
+  const RefreshToken = sequelize.define('RefreshToken', {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true
+    },
+    user_id: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id'
+      }
+    },
+    // SHA-256 of the token; the token itself is only ever sent to the client
+    token_hash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      unique: true
+    },
+    // Every token issued by rotating the same login shares a family, which
+    // is the session the access tokens refer to
+    family_id: {
+      type: DataTypes.STRING(36),
+      allowNull: false
+    },
+    expires_at: {
+      type: DataTypes.DATE,
+      allowNull: false
+    },
+    revoked_at: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    replaced_by_id: {
+      type: DataTypes.INTEGER,
+      allowNull: true
+    },
+    created_by_ip: {
+      type: DataTypes.STRING(45),
+      allowNull: true
+    }
+  }, {
+    tableName: 'refresh_tokens',
+    updatedAt: false,
+    indexes: [
+      {
+        fields: ['user_id']
+      },
+      {
+        fields: ['family_id']
+      }
+    ]
+  });
+
+  RefreshToken.hashToken = function(token) {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  };
+
+  // Issue a new refresh token for a user, starting a new session unless the
+  // family of an existing one is given; returns the plain token with its row
+  RefreshToken.issue = async function(user, options = {}) {
+    const { familyId, ip, transaction } = options;
+    const token = crypto.randomBytes(48).toString('hex');
+    const record = await this.create({
+      user_id: user.id,
+      token_hash: this.hashToken(token),
+      family_id: familyId || crypto.randomUUID(),
+      expires_at: new Date(Date.now() + getRefreshTokenTtlMs()),
+      created_by_ip: ip || null
+    }, { transaction });
+    return { token, record };
+  };
+
+  RefreshToken.findByToken = function(token, options = {}) {
+    return this.findOne({ ...options, where: { token_hash: this.hashToken(token) } });
+  };
+
+  // Revoke every token still usable in a session; returns how many were revoked
+  RefreshToken.revokeFamily = async function(familyId, options = {}) {
+    const [count] = await this.update({ revoked_at: new Date() }, {
+      ...options,
+      where: { family_id: familyId, revoked_at: null }
+    });
+    return count;
+  };
+
+  // Revoke every session of a user, optionally keeping one; returns the
+  // number of sessions revoked
+  RefreshToken.revokeForUser = async function(userId, options = {}) {
+    const { exceptFamilyId, ...queryOptions } = options;
+    const where = { user_id: userId, revoked_at: null };
+    if (exceptFamilyId) {
+      where.family_id = { [Op.ne]: exceptFamilyId };
+    }
+
+    const tokens = await this.findAll({ ...queryOptions, where, attributes: ['family_id'] });
+    await this.update({ revoked_at: new Date() }, { ...queryOptions, where });
+    return new Set(tokens.map(token => token.family_id)).size;
+  };
+
+  // A session is active while it has a token that is neither revoked nor expired
+  RefreshToken.isSessionActive = async function(familyId) {
+    const count = await this.count({
+      where: {
+        family_id: familyId,
+        revoked_at: null,
+        expires_at: { [Op.gt]: new Date() }
+      }
+    });
+    return count > 0;
+  };
+
+  RefreshToken.prototype.isExpired = function() {
+    return this.expires_at <= new Date();
+  };
+
+  return RefreshToken;
+};
@@ -0,0 +1,117 @@
+const { DataTypes } = require('sequelize');
+
+// Every permission a role can grant, grouped by the area it unlocks
+const PERMISSIONS = [
+  'accounts:view',
+  'accounts:edit',
+  'accounts:delete',
+  'customers:view',
+  'customers:edit',
+  'customers:delete',
+  'customers:export',
+  'leads:view',
+  'leads:edit',
+  'leads:delete',
+  'tasks:view',
+  'tasks:edit',
+  'tasks:delete',
+  'interactions:view',
+  'interactions:edit',
+  'reports:view',
+  'records:view_all',
+  'records:reassign',
+  'settings:manage',
+  'users:manage',
+  'users:impersonate',
+  'roles:manage',
+  'audit:view',
+  'webhooks:manage'
+];
+
+// Built-in roles; admin always holds every permission
+const DEFAULT_ROLES = [
+  {
+    name: 'admin',
+    description: 'Full access to every record and setting',
+    permissions: PERMISSIONS
+  },
+  {
+    name: 'user',
+    description: 'Works with accounts, contacts, leads, tasks and interactions',
+    permissions: PERMISSIONS.filter(permission => /^(accounts|customers|leads|tasks|interactions):/.test(permission)
+      && permission !== 'customers:export')
+  }
+];
+
+module.exports = (sequelize) => {
+  const Role = sequelize.define('Role', {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true
+    },
+    name: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+      unique: true,
+      validate: {
+        is: /^[a-z][a-z0-9_-]*$/
+      }
+    },
+    description: {
+      type: DataTypes.STRING(255),
+      allowNull: true
+    },
+    permissions: {
+      type: DataTypes.TEXT,
+      defaultValue: '[]',
+      get() {
+        const rawValue = this.getDataValue('permissions');
+        return rawValue ? JSON.parse(rawValue) : [];
+      },
+      set(value) {
+        this.setDataValue('permissions', JSON.stringify(value || []));
+      }
+    },
+    is_system: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false
+    },
+    // Users with this role must sign in with two-factor authentication
+    mfa_required: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false
+    }
+  }, {
+    tableName: 'roles'
+  });
+
+  Role.PERMISSIONS = PERMISSIONS;
+
+  // Find a role by its name
+  Role.findByName = function(name, options = {}) {
+    return this.findOne({ ...options, where: { name } });
+  };
+
+  // Create the built-in roles when missing and keep admin holding every permission
+  Role.ensureDefaults = async function() {
+    for (const defaults of DEFAULT_ROLES) {
+      const [role] = await this.findOrCreate({
+        where: { name: defaults.name },
+        defaults: { ...defaults, is_system: true }
+      });
+      if (role.name === 'admin' && role.permissions.length !== PERMISSIONS.length) {
+        await role.update({ permissions: PERMISSIONS });
+      }
+    }
+  };
+
+  // Check whether the role grants a permission
+  Role.prototype.hasPermission = function(permission) {
+    return this.permissions.includes(permission);
+  };
+
+  return Role;
+};
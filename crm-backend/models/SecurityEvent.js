@@ -0,0 +1,103 @@
+const { DataTypes, Op } = require('sequelize');
+const { getCurrentRequest } = require('../middleware/requestContext');
+
+const EVENTS = ['login_succeeded', 'login_failed', 'login_blocked', 'account_locked', 'account_unlocked', 'account_deactivated', 'account_reactivated',
+  'impersonation_started', 'impersonation_ended'];
+
+module.exports = (sequelize) => {
+  const SecurityEvent = sequelize.define('SecurityEvent', {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true
+    },
+    event: {
+      type: DataTypes.ENUM(...EVENTS),
+      allowNull: false
+    },
+    // Account the event is about; null when a login named an unknown email
+    user_id: {
+      type: DataTypes.INTEGER,
+      allowNull: true
+    },
+    // Email the login was attempted with
+    email: {
+      type: DataTypes.STRING,
+      allowNull: true
+    },
+    // Signed-in user who caused the event, such as the admin unlocking an account
+    actor_id: {
+      type: DataTypes.INTEGER,
+      allowNull: true
+    },
+    // Why a login failed or was blocked, and other event specifics
+    details: {
+      type: DataTypes.TEXT,
+      defaultValue: '{}',
+      get() {
+        const rawValue = this.getDataValue('details');
+        return rawValue ? JSON.parse(rawValue) : {};
+      },
+      set(value) {
+        this.setDataValue('details', JSON.stringify(value || {}));
+      }
+    },
+    ip_address: {
+      type: DataTypes.STRING(45),
+      allowNull: true
+    },
+    user_agent: {
+      type: DataTypes.STRING,
+      allowNull: true
+    },
+    request_id: {
+      type: DataTypes.STRING(64),
+      allowNull: true
+    }
+  }, {
+    tableName: 'security_events',
+    updatedAt: false,
+    indexes: [
+      {
+        fields: ['user_id']
+      },
+      {
+        fields: ['ip_address', 'event', 'created_at']
+      },
+      {
+        fields: ['created_at']
+      }
+    ]
+  });
+
+  SecurityEvent.EVENTS = EVENTS;
+
+  // Record an event along with the client and the acting user of the current
+  // request, which is the admin when they are impersonating someone
+  SecurityEvent.log = function(event, { user = null, email, details = {} } = {}, options = {}) {
+    const req = getCurrentRequest();
+    return this.create({
+      event,
+      user_id: user ? user.id : null,
+      email: email || (user ? user.email : null),
+      actor_id: req && req.user ? (req.impersonator || req.user).id : null,
+      details,
+      ip_address: req ? req.ip : null,
+      user_agent: req ? (req.get('user-agent') || '').slice(0, 255) || null : null,
+      request_id: req ? req.requestId : null
+    }, { transaction: options.transaction });
+  };
+
+  // Number of failed logins from an IP address since a point in time
+  SecurityEvent.countFailuresFromIp = function(ip, since) {
+    return this.count({
+      where: {
+        event: 'login_failed',
+        ip_address: ip,
+        createdAt: { [Op.gte]: since }
+      }
+    });
+  };
+
+  return SecurityEvent;
+};
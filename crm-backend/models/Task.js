@@ -55,6 +55,27 @@ module.exports = (sequelize) => {
         model: 'customers',
         key: 'id'
       }
+    },
+    leadId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      field: 'lead_id',
+      references: {
+        model: 'leads',
+        key: 'id'
+      }
+    },
+    customFields: {
+      type: DataTypes.TEXT,
+      defaultValue: '{}',
+      field: 'custom_fields',
+      get() {
+        const rawValue = this.getDataValue('customFields');
+        return rawValue ? JSON.parse(rawValue) : {};
+      },
+      set(value) {
+        this.setDataValue('customFields', JSON.stringify(value || {}));
+      }
     }
   }, {
     tableName: 'tasks',
@@ -71,6 +92,9 @@ module.exports = (sequelize) => {
       {
         fields: ['customer_id']
       },
+      {
+        fields: ['lead_id']
+      },
       {
         fields: ['due_date']
       }
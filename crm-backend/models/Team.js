@@ -0,0 +1,54 @@
+const { DataTypes } = require('sequelize');
+
+module.exports = (sequelize) => {
+  const Team = sequelize.define('Team', {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true
+    },
+    name: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+      unique: true,
+      validate: {
+        len: [1, 100]
+      }
+    },
+    description: {
+      type: DataTypes.STRING(255),
+      allowNull: true
+    },
+    // The user who sees and reports on the team's records
+    manager_id: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id'
+      }
+    }
+  }, {
+    tableName: 'teams'
+  });
+
+  // Find a team by name, ignoring case and surrounding whitespace
+  Team.findByName = function(name, options = {}) {
+    return this.findOne({
+      ...options,
+      where: sequelize.where(sequelize.fn('lower', sequelize.col('name')), name.trim().toLowerCase())
+    });
+  };
+
+  // Ids of the users in the team
+  Team.prototype.getMemberIds = async function(options = {}) {
+    const members = await sequelize.models.User.findAll({
+      ...options,
+      where: { team_id: this.id },
+      attributes: ['id']
+    });
+    return members.map(member => member.id);
+  };
+
+  return Team;
+};
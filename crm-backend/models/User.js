@@ -1,6 +1,13 @@
 const { DataTypes } = require('sequelize');
 const bcrypt = require('bcryptjs');
 
+// Email notifications a user can turn on or off, and whether each is on by default
+const NOTIFICATION_DEFAULTS = {
+  task_assigned: true,
+  task_due: true,
+  lead_assigned: true
+};
+
 module.exports = (sequelize) => {
   const User = sequelize.define('User', {
     id: {
@@ -30,10 +37,106 @@ module.exports = (sequelize) => {
         len: [6, 255]
       }
     },
+    // Name of the role whose permissions the user has
     role: {
-      type: DataTypes.ENUM('admin', 'user'),
+      type: DataTypes.STRING(50),
       defaultValue: 'user',
       allowNull: false
+    },
+    // Which records the user can see: their own, their team's or everyone's
+    visibility: {
+      type: DataTypes.ENUM('own', 'team', 'everyone'),
+      defaultValue: 'everyone',
+      allowNull: false
+    },
+    team_id: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'teams',
+        key: 'id'
+      }
+    },
+    // Deactivated users keep their records and history but can no longer sign in
+    is_active: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true
+    },
+    deactivated_at: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    deactivated_by: {
+      type: DataTypes.INTEGER,
+      allowNull: true
+    },
+    // IANA time zone and BCP 47 locale dates and numbers are shown in; null
+    // uses the browser's
+    timezone: {
+      type: DataTypes.STRING(64),
+      allowNull: true
+    },
+    locale: {
+      type: DataTypes.STRING(35),
+      allowNull: true
+    },
+    notification_preferences: {
+      type: DataTypes.TEXT,
+      defaultValue: '{}',
+      get() {
+        const rawValue = this.getDataValue('notification_preferences');
+        return { ...NOTIFICATION_DEFAULTS, ...(rawValue ? JSON.parse(rawValue) : {}) };
+      },
+      set(value) {
+        this.setDataValue('notification_preferences', JSON.stringify(value || {}));
+      }
+    },
+    // When the user proved they own their email address; null until then
+    email_verified_at: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    // Subject of the user at the OpenID Connect provider, set on their first
+    // single sign-on
+    sso_subject: {
+      type: DataTypes.STRING,
+      allowNull: true,
+      unique: true
+    },
+    // TOTP two-factor authentication. The secret is set while enrolling and
+    // only counts once mfa_enabled is true.
+    mfa_enabled: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false
+    },
+    mfa_secret: {
+      type: DataTypes.STRING(64),
+      allowNull: true
+    },
+    // Failed logins since the last successful one; every LOGIN_MAX_ATTEMPTS
+    // of them lock the account until locked_until
+    failed_login_count: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0
+    },
+    locked_until: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    // SHA-256 hashes of the recovery codes not used yet
+    mfa_recovery_codes: {
+      type: DataTypes.TEXT,
+      defaultValue: '[]',
+      get() {
+        const rawValue = this.getDataValue('mfa_recovery_codes');
+        return rawValue ? JSON.parse(rawValue) : [];
+      },
+      set(value) {
+        this.setDataValue('mfa_recovery_codes', JSON.stringify(value || []));
+      }
     }
   }, {
     tableName: 'users',
@@ -53,15 +156,69 @@ module.exports = (sequelize) => {
     }
   });
 
+  User.NOTIFICATION_DEFAULTS = NOTIFICATION_DEFAULTS;
+
   // Instance method to compare password
   User.prototype.comparePassword = async function(candidatePassword) {
     return await bcrypt.compare(candidatePassword, this.password);
   };
 
-  // Instance method to get public profile (without password)
+  // Permissions granted by the user's role
+  User.prototype.getPermissions = async function() {
+    const role = await sequelize.models.Role.findByName(this.role);
+    return role ? role.permissions : [];
+  };
+
+  // Whether too many failed logins have locked the account for now
+  User.prototype.isLocked = function() {
+    return !!this.locked_until && this.locked_until > new Date();
+  };
+
+  // Whether the user's role requires two-factor authentication
+  User.prototype.isMfaRequired = async function() {
+    const role = await sequelize.models.Role.findByName(this.role);
+    return !!role && role.mfa_required;
+  };
+
+  // Ids of the teams this user manages
+  User.prototype.getManagedTeamIds = async function() {
+    const teams = await sequelize.models.Team.findAll({
+      where: { manager_id: this.id },
+      attributes: ['id']
+    });
+    return teams.map(team => team.id);
+  };
+
+  // Ids of the users whose records this user may see; null when the user sees
+  // every record. Team mode adds the user's own team, and managers always see
+  // the members of the teams they manage. Roles with records:view_all skip
+  // this check altogether.
+  User.prototype.getVisibleUserIds = async function() {
+    if (this.visibility === 'everyone') {
+      return null;
+    }
+
+    const teamIds = await this.getManagedTeamIds();
+    if (this.visibility === 'team' && this.team_id) {
+      teamIds.push(this.team_id);
+    }
+    if (teamIds.length === 0) {
+      return [this.id];
+    }
+
+    const members = await User.findAll({
+      where: { team_id: teamIds },
+      attributes: ['id']
+    });
+    return [...new Set([this.id, ...members.map(member => member.id)])];
+  };
+
+  // Instance method to get public profile (without password or MFA secrets)
   User.prototype.toJSON = function() {
     const values = Object.assign({}, this.get());
     delete values.password;
+    delete values.mfa_secret;
+    delete values.mfa_recovery_codes;
     return values;
   };
 
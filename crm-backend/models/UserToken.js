@@ -0,0 +1,98 @@
+const crypto = require('crypto');
+const { DataTypes, Op } = require('sequelize');
+
+// Minutes a token stays valid, per purpose
+const TTL_MINUTES = {
+  password_reset: () => parseInt(process.env.PASSWORD_RESET_TTL_MINUTES) || 60,
+  email_verification: () => parseInt(process.env.EMAIL_VERIFICATION_TTL_MINUTES) || 24 * 60
+};
+
+module.exports = (sequelize) => {
+  const UserToken = sequelize.define('UserToken', {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true
+    },
+    user_id: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id'
+      }
+    },
+    purpose: {
+      type: DataTypes.ENUM('password_reset', 'email_verification'),
+      allowNull: false
+    },
+    // SHA-256 of the token; the token itself only goes out by email
+    token_hash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      unique: true
+    },
+    expires_at: {
+      type: DataTypes.DATE,
+      allowNull: false
+    },
+    used_at: {
+      type: DataTypes.DATE,
+      allowNull: true
+    }
+  }, {
+    tableName: 'user_tokens',
+    updatedAt: false,
+    indexes: [
+      {
+        fields: ['user_id', 'purpose']
+      }
+    ]
+  });
+
+  UserToken.hashToken = function(token) {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  };
+
+  UserToken.getTtlMinutes = function(purpose) {
+    return TTL_MINUTES[purpose]();
+  };
+
+  // Issue a single-use token for a user; earlier unused tokens for the same
+  // purpose stop working. Returns the plain token.
+  UserToken.issue = async function(user, purpose, options = {}) {
+    await this.update({ used_at: new Date() }, {
+      ...options,
+      where: { user_id: user.id, purpose, used_at: null }
+    });
+
+    const token = crypto.randomBytes(32).toString('hex');
+    await this.create({
+      user_id: user.id,
+      purpose,
+      token_hash: this.hashToken(token),
+      expires_at: new Date(Date.now() + this.getTtlMinutes(purpose) * 60 * 1000)
+    }, options);
+    return token;
+  };
+
+  // Use up a token; returns its row, or null when the token is unknown,
+  // expired or already used
+  UserToken.consume = async function(token, purpose, options = {}) {
+    const where = {
+      token_hash: this.hashToken(token),
+      purpose,
+      used_at: null,
+      expires_at: { [Op.gt]: new Date() }
+    };
+
+    // Marking the token used is the check, so two requests cannot both use it
+    const [count] = await this.update({ used_at: new Date() }, { ...options, where });
+    if (count === 0) {
+      return null;
+    }
+    return this.findOne({ ...options, where: { token_hash: where.token_hash } });
+  };
+
+  return UserToken;
+};
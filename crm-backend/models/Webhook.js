@@ -0,0 +1,83 @@
+const crypto = require('crypto');
+const { DataTypes } = require('sequelize');
+
+// Events a webhook can subscribe to
+const EVENTS = ['lead.stage_changed', 'customer.created', 'task.completed', 'interaction.created'];
+
+module.exports = (sequelize) => {
+  const Webhook = sequelize.define('Webhook', {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true
+    },
+    name: {
+      type: DataTypes.STRING(100),
+      allowNull: false
+    },
+    url: {
+      type: DataTypes.STRING(2048),
+      allowNull: false,
+      validate: {
+        isUrl: true
+      }
+    },
+    // Signs every payload; the receiver checks the signature with it
+    secret: {
+      type: DataTypes.STRING(128),
+      allowNull: false
+    },
+    events: {
+      type: DataTypes.TEXT,
+      defaultValue: '[]',
+      get() {
+        const rawValue = this.getDataValue('events');
+        return rawValue ? JSON.parse(rawValue) : [];
+      },
+      set(value) {
+        this.setDataValue('events', JSON.stringify(value || []));
+      }
+    },
+    is_active: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true
+    },
+    created_by: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id'
+      }
+    }
+  }, {
+    tableName: 'webhooks'
+  });
+
+  Webhook.EVENTS = EVENTS;
+
+  Webhook.generateSecret = function() {
+    return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+  };
+
+  // Active webhooks that subscribe to an event
+  Webhook.findSubscribed = async function(event, options = {}) {
+    const webhooks = await this.findAll({ ...options, where: { is_active: true } });
+    return webhooks.filter(webhook => webhook.events.includes(event));
+  };
+
+  // HMAC-SHA256 of the timestamp and body, so a receiver can tell the payload
+  // came from us and reject old ones
+  Webhook.prototype.sign = function(timestamp, body) {
+    return crypto.createHmac('sha256', this.secret).update(`${timestamp}.${body}`).digest('hex');
+  };
+
+  Webhook.prototype.toJSON = function() {
+    const values = Object.assign({}, this.get());
+    delete values.secret;
+    return values;
+  };
+
+  return Webhook;
+};
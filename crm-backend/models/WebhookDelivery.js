@@ -0,0 +1,98 @@
+const { DataTypes, Op } = require('sequelize');
+
+module.exports = (sequelize) => {
+  const WebhookDelivery = sequelize.define('WebhookDelivery', {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true
+    },
+    webhook_id: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'webhooks',
+        key: 'id'
+      }
+    },
+    event: {
+      type: DataTypes.STRING(50),
+      allowNull: false
+    },
+    // The JSON body sent, kept so the delivery can be replayed as it was
+    payload: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+      get() {
+        const rawValue = this.getDataValue('payload');
+        return rawValue ? JSON.parse(rawValue) : null;
+      },
+      set(value) {
+        this.setDataValue('payload', JSON.stringify(value));
+      }
+    },
+    // Pending deliveries are retried until they succeed or run out of attempts
+    status: {
+      type: DataTypes.ENUM('pending', 'succeeded', 'failed'),
+      allowNull: false,
+      defaultValue: 'pending'
+    },
+    attempts: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0
+    },
+    // When a pending delivery is sent next
+    next_attempt_at: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    last_attempt_at: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    // HTTP status and start of the body of the last response
+    response_status: {
+      type: DataTypes.INTEGER,
+      allowNull: true
+    },
+    response_body: {
+      type: DataTypes.TEXT,
+      allowNull: true
+    },
+    // Why the last attempt failed without a response, such as a timeout
+    error: {
+      type: DataTypes.STRING(500),
+      allowNull: true
+    },
+    // Delivery this one replays
+    replay_of: {
+      type: DataTypes.INTEGER,
+      allowNull: true
+    }
+  }, {
+    tableName: 'webhook_deliveries',
+    indexes: [
+      {
+        fields: ['webhook_id']
+      },
+      {
+        fields: ['status', 'next_attempt_at']
+      }
+    ]
+  });
+
+  // Pending deliveries whose next attempt is due, oldest first
+  WebhookDelivery.findDue = function(limit) {
+    return this.findAll({
+      where: {
+        status: 'pending',
+        next_attempt_at: { [Op.lte]: new Date() }
+      },
+      order: [['next_attempt_at', 'ASC'], ['id', 'ASC']],
+      limit
+    });
+  };
+
+  return WebhookDelivery;
+};
@@ -22,12 +22,36 @@ const sequelize = new Sequelize(databaseUrl, {
 
 // Import models
 const User = require('./User')(sequelize);
+const Role = require('./Role')(sequelize);
+const Team = require('./Team')(sequelize);
+const Account = require('./Account')(sequelize);
 const Customer = require('./Customer')(sequelize);
 const Lead = require('./Lead')(sequelize);
 const Task = require('./Task')(sequelize);
 const Interaction = require('./Interaction')(sequelize);
+const Pipeline = require('./Pipeline')(sequelize);
+const PipelineStage = require('./PipelineStage')(sequelize);
+const LossReason = require('./LossReason')(sequelize);
+const LeadStageHistory = require('./LeadStageHistory')(sequelize);
+const CustomFieldDefinition = require('./CustomFieldDefinition')(sequelize);
+const AuditLog = require('./AuditLog')(sequelize);
+const RefreshToken = require('./RefreshToken')(sequelize);
+const UserToken = require('./UserToken')(sequelize);
+const SecurityEvent = require('./SecurityEvent')(sequelize);
+const ApiKey = require('./ApiKey')(sequelize);
+const Invitation = require('./Invitation')(sequelize);
+const ImpersonationLog = require('./ImpersonationLog')(sequelize);
+const ImpersonationSession = require('./ImpersonationSession')(sequelize);
+const Webhook = require('./Webhook')(sequelize);
+const WebhookDelivery = require('./WebhookDelivery')(sequelize);
 
 // Define associations
+Team.hasMany(User, { foreignKey: 'team_id', as: 'members' });
+User.belongsTo(Team, { foreignKey: 'team_id', as: 'team' });
+
+User.hasMany(Team, { foreignKey: 'manager_id', as: 'managedTeams' });
+Team.belongsTo(User, { foreignKey: 'manager_id', as: 'manager' });
+
 User.hasMany(Lead, { foreignKey: 'assigned_to', as: 'assignedLeads' });
 Lead.belongsTo(User, { foreignKey: 'assigned_to', as: 'assignedUser' });
 
@@ -37,6 +61,12 @@ Task.belongsTo(User, { foreignKey: 'assigned_to', as: 'assignedUser' });
 User.hasMany(Interaction, { foreignKey: 'created_by', as: 'createdInteractions' });
 Interaction.belongsTo(User, { foreignKey: 'created_by', as: 'createdByUser' });
 
+User.hasMany(Customer, { foreignKey: 'owner_id', as: 'ownedCustomers' });
+Customer.belongsTo(User, { foreignKey: 'owner_id', as: 'owner' });
+
+User.hasMany(Lead, { foreignKey: 'owner_id', as: 'ownedLeads' });
+Lead.belongsTo(User, { foreignKey: 'owner_id', as: 'owner' });
+
 Customer.hasMany(Lead, { foreignKey: 'customer_id', as: 'leads' });
 Lead.belongsTo(Customer, { foreignKey: 'customer_id', as: 'customer' });
 
@@ -46,12 +76,91 @@ Task.belongsTo(Customer, { foreignKey: 'customer_id', as: 'customer' });
 Customer.hasMany(Interaction, { foreignKey: 'customer_id', as: 'interactions' });
 Interaction.belongsTo(Customer, { foreignKey: 'customer_id', as: 'customer' });
 
+Lead.hasMany(Task, { foreignKey: 'lead_id', as: 'tasks' });
+Task.belongsTo(Lead, { foreignKey: 'lead_id', as: 'lead' });
+
+Lead.hasMany(Interaction, { foreignKey: 'lead_id', as: 'interactions' });
+Interaction.belongsTo(Lead, { foreignKey: 'lead_id', as: 'lead' });
+
+Account.hasMany(Customer, { foreignKey: 'account_id', as: 'contacts' });
+Customer.belongsTo(Account, { foreignKey: 'account_id', as: 'account' });
+
+Account.hasMany(Lead, { foreignKey: 'account_id', as: 'leads' });
+Lead.belongsTo(Account, { foreignKey: 'account_id', as: 'account' });
+
+Account.hasMany(Interaction, { foreignKey: 'account_id', as: 'interactions' });
+Interaction.belongsTo(Account, { foreignKey: 'account_id', as: 'account' });
+
+Pipeline.hasMany(PipelineStage, { foreignKey: 'pipeline_id', as: 'stages' });
+PipelineStage.belongsTo(Pipeline, { foreignKey: 'pipeline_id', as: 'pipeline' });
+
+Pipeline.hasMany(Lead, { foreignKey: 'pipeline_id', as: 'leads' });
+Lead.belongsTo(Pipeline, { foreignKey: 'pipeline_id', as: 'pipeline' });
+
+Lead.hasMany(LeadStageHistory, { foreignKey: 'lead_id', as: 'stageHistory', onDelete: 'CASCADE' });
+LeadStageHistory.belongsTo(Lead, { foreignKey: 'lead_id', as: 'lead' });
+
+User.hasMany(LeadStageHistory, { foreignKey: 'changed_by', as: 'stageChanges' });
+LeadStageHistory.belongsTo(User, { foreignKey: 'changed_by', as: 'changedByUser' });
+
+User.hasMany(AuditLog, { foreignKey: 'actor_id', as: 'auditLogs', constraints: false });
+AuditLog.belongsTo(User, { foreignKey: 'actor_id', as: 'actor', constraints: false });
+AuditLog.belongsTo(User, { foreignKey: 'impersonator_id', as: 'impersonator', constraints: false });
+
+User.hasMany(RefreshToken, { foreignKey: 'user_id', as: 'refreshTokens', onDelete: 'CASCADE' });
+RefreshToken.belongsTo(User, { foreignKey: 'user_id', as: 'user' });
+
+User.hasMany(UserToken, { foreignKey: 'user_id', as: 'userTokens', onDelete: 'CASCADE' });
+UserToken.belongsTo(User, { foreignKey: 'user_id', as: 'user' });
+
+User.hasMany(SecurityEvent, { foreignKey: 'user_id', as: 'securityEvents', constraints: false });
+SecurityEvent.belongsTo(User, { foreignKey: 'user_id', as: 'user', constraints: false });
+SecurityEvent.belongsTo(User, { foreignKey: 'actor_id', as: 'actor', constraints: false });
+
+User.hasMany(ApiKey, { foreignKey: 'user_id', as: 'apiKeys', onDelete: 'CASCADE' });
+ApiKey.belongsTo(User, { foreignKey: 'user_id', as: 'user' });
+
+Invitation.belongsTo(User, { foreignKey: 'invited_by', as: 'inviter' });
+Invitation.belongsTo(User, { foreignKey: 'user_id', as: 'user' });
+
+ImpersonationLog.belongsTo(User, { foreignKey: 'impersonator_id', as: 'impersonator', constraints: false });
+ImpersonationLog.belongsTo(User, { foreignKey: 'user_id', as: 'user', constraints: false });
+
+Webhook.belongsTo(User, { foreignKey: 'created_by', as: 'creator' });
+Webhook.hasMany(WebhookDelivery, { foreignKey: 'webhook_id', as: 'deliveries', onDelete: 'CASCADE' });
+WebhookDelivery.belongsTo(Webhook, { foreignKey: 'webhook_id', as: 'webhook' });
+
+// Audit every change to users and the records they work with
+AuditLog.track(User, 'user');
+AuditLog.track(Customer, 'customer');
+AuditLog.track(Lead, 'lead');
+AuditLog.track(Task, 'task');
+AuditLog.track(Interaction, 'interaction');
+
 // Export models and sequelize instance
 module.exports = {
   sequelize,
   User,
+  Role,
+  Team,
+  Account,
   Customer,
   Lead,
   Task,
-  Interaction
+  Interaction,
+  Pipeline,
+  PipelineStage,
+  LossReason,
+  LeadStageHistory,
+  CustomFieldDefinition,
+  AuditLog,
+  RefreshToken,
+  UserToken,
+  SecurityEvent,
+  ApiKey,
+  Invitation,
+  ImpersonationLog,
+  ImpersonationSession,
+  Webhook,
+  WebhookDelivery
 }; 
\ No newline at end of file
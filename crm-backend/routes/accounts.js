@@ -0,0 +1,225 @@
+const express = require('express');
+const { Op } = require('sequelize');
+const { Account, Customer, Lead, Interaction, User, sequelize } = require('../models');
+const { authenticateToken, requirePermission, loadRecordVisibility, visibleRecordsWhere } = require('../middleware/auth');
+const { validate, accountSchema } = require('../middleware/validation');
+
+const router = express.Router();
+
+// Helper functions
+const successResponse = (res, data, message = 'Success', status = 200) => {
+  res.status(status).json({
+    success: true,
+    data,
+    message
+  });
+};
+
+const errorResponse = (res, error, code = 'ERROR', status = 500) => {
+  res.status(status).json({
+    success: false,
+    error: error.message || error,
+    code
+  });
+};
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+router.use(loadRecordVisibility);
+
+// GET /api/accounts - Get all accounts with pagination and search
+router.get('/', requirePermission('accounts:view'), async (req, res) => {
+  try {
+    const { page = 1, limit = 10, search } = req.query;
+    const offset = (page - 1) * limit;
+
+    // Case-insensitive name search that works on both sqlite and postgres
+    const whereClause = search
+      ? sequelize.where(sequelize.fn('lower', sequelize.col('Account.name')), {
+          [Op.like]: `%${search.toLowerCase()}%`
+        })
+      : {};
+
+    const accounts = await Account.findAndCountAll({
+      where: whereClause,
+      limit: parseInt(limit),
+      offset: parseInt(offset),
+      order: [['name', 'ASC']],
+      distinct: true,
+      include: [
+        {
+          model: Customer,
+          as: 'contacts',
+          attributes: ['id', 'name', 'email'],
+          where: visibleRecordsWhere(req, 'owner_id'),
+          required: false
+        }
+      ]
+    });
+
+    const pagination = {
+      page: parseInt(page),
+      limit: parseInt(limit),
+      total: accounts.count,
+      pages: Math.ceil(accounts.count / limit)
+    };
+
+    successResponse(res, {
+      accounts: accounts.rows,
+      pagination
+    });
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// POST /api/accounts - Create new account
+router.post('/', requirePermission('accounts:edit'), validate(accountSchema), async (req, res) => {
+  try {
+    const existingAccount = await Account.findByName(req.body.name);
+    if (existingAccount) {
+      return errorResponse(res, 'An account with this name already exists', 'DUPLICATE_ENTRY', 409);
+    }
+
+    const account = await Account.create(req.body);
+
+    successResponse(res, {
+      account
+    }, 'Account created successfully', 201);
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// GET /api/accounts/:id - Get account with its contacts, leads and interactions
+router.get('/:id', requirePermission('accounts:view'), async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    // Only the contacts, leads and interactions the user can see on their own
+    const account = await Account.findByPk(id, {
+      include: [
+        {
+          model: Customer,
+          as: 'contacts',
+          where: visibleRecordsWhere(req, 'owner_id'),
+          required: false
+        },
+        {
+          model: Lead,
+          as: 'leads',
+          where: visibleRecordsWhere(req, 'owner_id', 'assigned_to'),
+          required: false,
+          include: [
+            {
+              model: Customer,
+              as: 'customer',
+              attributes: ['id', 'name']
+            },
+            {
+              model: User,
+              as: 'assignedUser',
+              attributes: ['id', 'name']
+            }
+          ]
+        },
+        {
+          model: Interaction,
+          as: 'interactions',
+          where: visibleRecordsWhere(req, 'created_by'),
+          required: false,
+          include: [
+            {
+              model: Customer,
+              as: 'customer',
+              attributes: ['id', 'name']
+            },
+            {
+              model: User,
+              as: 'createdByUser',
+              attributes: ['id', 'name']
+            }
+          ]
+        }
+      ],
+      order: [
+        [{ model: Customer, as: 'contacts' }, 'name', 'ASC'],
+        [{ model: Lead, as: 'leads' }, 'createdAt', 'DESC'],
+        [{ model: Interaction, as: 'interactions' }, 'date', 'DESC']
+      ]
+    });
+
+    if (!account) {
+      return errorResponse(res, 'Account not found', 'NOT_FOUND', 404);
+    }
+
+    successResponse(res, {
+      account
+    });
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// PUT /api/accounts/:id - Update account
+router.put('/:id', requirePermission('accounts:edit'), validate(accountSchema), async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const account = await Account.findByPk(id);
+    if (!account) {
+      return errorResponse(res, 'Account not found', 'NOT_FOUND', 404);
+    }
+
+    const existingAccount = await Account.findByName(req.body.name);
+    if (existingAccount && existingAccount.id !== account.id) {
+      return errorResponse(res, 'An account with this name already exists', 'DUPLICATE_ENTRY', 409);
+    }
+
+    // Contacts keep their company text in line with the account name
+    await sequelize.transaction(async (transaction) => {
+      await account.update(req.body, { transaction });
+      await Customer.update({ company: account.name }, {
+        where: { account_id: account.id },
+        individualHooks: true,
+        transaction
+      });
+    });
+
+    successResponse(res, {
+      account
+    }, 'Account updated successfully');
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// DELETE /api/accounts/:id - Delete account
+router.delete('/:id', requirePermission('accounts:delete'), async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const account = await Account.findByPk(id);
+    if (!account) {
+      return errorResponse(res, 'Account not found', 'NOT_FOUND', 404);
+    }
+
+    const leadCount = await Lead.count({ where: { account_id: account.id } });
+    if (leadCount > 0) {
+      return errorResponse(res, 'Cannot delete an account that has leads', 'VALIDATION_ERROR', 400);
+    }
+
+    // Contacts and interactions stay, detached from the account
+    await sequelize.transaction(async (transaction) => {
+      await Customer.update({ account_id: null }, { where: { account_id: account.id }, individualHooks: true, transaction });
+      await Interaction.update({ account_id: null }, { where: { account_id: account.id }, individualHooks: true, transaction });
+      await account.destroy({ transaction });
+    });
+
+    successResponse(res, {}, 'Account deleted successfully');
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+module.exports = router;
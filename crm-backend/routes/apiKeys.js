@@ -0,0 +1,123 @@
+const express = require('express');
+const { ApiKey, User } = require('../models');
+const { authenticateToken, requireSession, forbidImpersonation, requirePermission, hasPermission } = require('../middleware/auth');
+const { validate, createApiKeySchema } = require('../middleware/validation');
+
+const router = express.Router();
+
+// Helper functions
+const successResponse = (res, data, message = 'Success', status = 200) => {
+  res.status(status).json({
+    success: true,
+    data,
+    message
+  });
+};
+
+const errorResponse = (res, error, code = 'ERROR', status = 500) => {
+  res.status(status).json({
+    success: false,
+    error: error.message || error,
+    code
+  });
+};
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// GET /api/api-keys - Get the current user's API keys
+router.get('/', async (req, res) => {
+  try {
+    const apiKeys = await ApiKey.findAll({
+      where: { user_id: req.user.id },
+      order: [['createdAt', 'DESC']]
+    });
+
+    successResponse(res, {
+      apiKeys
+    });
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// GET /api/api-keys/all - Get every user's API keys (users:manage)
+router.get('/all', requirePermission('users:manage'), async (req, res) => {
+  try {
+    const { userId } = req.query;
+
+    const whereClause = {};
+    if (userId) {
+      whereClause.user_id = userId;
+    }
+
+    const apiKeys = await ApiKey.findAll({
+      where: whereClause,
+      order: [['createdAt', 'DESC']],
+      include: [
+        {
+          model: User,
+          as: 'user',
+          attributes: ['id', 'name', 'email']
+        }
+      ]
+    });
+
+    successResponse(res, {
+      apiKeys
+    });
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// POST /api/api-keys - Create an API key for the current user
+router.post('/', requireSession, forbidImpersonation, validate(createApiKeySchema), async (req, res) => {
+  try {
+    const { name, scopes, expiresInDays = 90 } = req.body;
+
+    // A key can never do more than its owner
+    const missing = scopes.filter(scope => !hasPermission(req, scope));
+    if (missing.length > 0) {
+      return errorResponse(res, `Your role does not grant: ${missing.join(', ')}`, 'VALIDATION_ERROR', 400);
+    }
+
+    const { key, record } = await ApiKey.issue(req.user, { name, scopes, expiresInDays });
+
+    successResponse(res, {
+      apiKey: record,
+      key
+    }, 'API key created successfully', 201);
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// DELETE /api/api-keys/:id - Revoke an API key (owner, or users:manage for any key)
+router.delete('/:id', forbidImpersonation, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const whereClause = { id };
+    if (!hasPermission(req, 'users:manage')) {
+      whereClause.user_id = req.user.id;
+    }
+
+    const apiKey = await ApiKey.findOne({ where: whereClause });
+    if (!apiKey) {
+      return errorResponse(res, 'API key not found', 'NOT_FOUND', 404);
+    }
+
+    if (!apiKey.revoked_at) {
+      await apiKey.update({ revoked_at: new Date(), revoked_by: req.user.id });
+    }
+
+    successResponse(res, {
+      apiKey
+    }, 'API key revoked successfully');
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+module.exports = router;
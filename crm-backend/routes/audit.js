@@ -0,0 +1,89 @@
+const express = require('express');
+const { Op } = require('sequelize');
+const { AuditLog, User } = require('../models');
+const { authenticateToken, requirePermission } = require('../middleware/auth');
+
+const router = express.Router();
+
+// Helper functions
+const successResponse = (res, data, message = 'Success', status = 200) => {
+  res.status(status).json({
+    success: true,
+    data,
+    message
+  });
+};
+
+const errorResponse = (res, error, code = 'ERROR', status = 500) => {
+  res.status(status).json({
+    success: false,
+    error: error.message || error,
+    code
+  });
+};
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+router.use(requirePermission('audit:view'));
+
+// GET /api/audit - Get audit log entries, newest first (audit:view)
+router.get('/', async (req, res) => {
+  try {
+    const { page = 1, limit = 50, entityType, entityId, actorId, action, startDate, endDate } = req.query;
+    const offset = (page - 1) * limit;
+
+    const whereClause = {};
+    if (entityType) {
+      whereClause.entity_type = entityType;
+    }
+    if (entityId) {
+      whereClause.entity_id = entityId;
+    }
+    if (actorId) {
+      whereClause.actor_id = actorId;
+    }
+    if (action) {
+      whereClause.action = action;
+    }
+    if (startDate || endDate) {
+      whereClause.createdAt = {};
+      if (startDate) whereClause.createdAt[Op.gte] = new Date(startDate);
+      if (endDate) whereClause.createdAt[Op.lte] = new Date(endDate);
+    }
+
+    const entries = await AuditLog.findAndCountAll({
+      where: whereClause,
+      limit: parseInt(limit),
+      offset: parseInt(offset),
+      order: [['createdAt', 'DESC'], ['id', 'DESC']],
+      include: [
+        {
+          model: User,
+          as: 'actor',
+          attributes: ['id', 'name', 'email']
+        },
+        {
+          model: User,
+          as: 'impersonator',
+          attributes: ['id', 'name', 'email']
+        }
+      ]
+    });
+
+    const pagination = {
+      page: parseInt(page),
+      limit: parseInt(limit),
+      total: entries.count,
+      pages: Math.ceil(entries.count / limit)
+    };
+
+    successResponse(res, {
+      entries: entries.rows,
+      pagination
+    });
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+module.exports = router;
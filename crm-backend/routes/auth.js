@@ -1,20 +1,196 @@
+const crypto = require('crypto');
 const express = require('express');
 const jwt = require('jsonwebtoken');
-const { User } = require('../models');
-const { authenticateToken } = require('../middleware/auth');
-const { validate, loginSchema, registerSchema } = require('../middleware/validation');
+const { User, Role, RefreshToken, UserToken, Invitation, sequelize } = require('../models');
+const { authenticateToken, requireSession, forbidImpersonation } = require('../middleware/auth');
+const {
+  validate,
+  loginSchema,
+  registerSchema,
+  invitationTokenSchema,
+  acceptInvitationSchema,
+  refreshTokenSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  verifyEmailSchema,
+  mfaChallengeSchema,
+  mfaLoginSchema,
+  mfaEnrollLoginSchema,
+  mfaCodeSchema,
+  disableMfaSchema,
+  ssoCallbackSchema,
+  updateProfileSchema,
+  changePasswordSchema
+} = require('../middleware/validation');
+const { sendPasswordResetEmail, sendVerificationEmail } = require('../services/mailer');
+const mfa = require('../services/mfa');
+const loginProtection = require('../services/loginProtection');
+const oidc = require('../services/oidc');
 
 const router = express.Router();
 
-// Helper function for generating JWT token
-const generateToken = (user) => {
+// Helper function for generating a short-lived JWT access token for a session
+const generateToken = (user, sessionId) => {
   return jwt.sign(
-    { userId: user.id, role: user.role },
+    { userId: user.id, role: user.role, sessionId },
     process.env.JWT_SECRET || 'your-super-secret-jwt-key-here',
-    { expiresIn: '24h' }
+    { expiresIn: process.env.JWT_EXPIRES_IN || '15m' }
   );
 };
 
+// Start a new session for a user: an access token plus the first refresh
+// token of a new family
+const startSession = async (user, req) => {
+  const { token: refreshToken, record } = await RefreshToken.issue(user, { ip: req.ip });
+  return {
+    token: generateToken(user, record.family_id),
+    refreshToken
+  };
+};
+
+// Short-lived token proving a user got past the password step of a login
+// that still needs a second factor. It carries no session, so it is not
+// accepted as an access token.
+const generateChallengeToken = (user, challenge) => {
+  return jwt.sign(
+    { userId: user.id, challenge },
+    process.env.JWT_SECRET || 'your-super-secret-jwt-key-here',
+    { expiresIn: '5m' }
+  );
+};
+
+// The user a challenge token was issued to, or null if the token is invalid,
+// expired, for another kind of challenge or the account has been deactivated
+const findChallengedUser = async (challengeToken, challenge) => {
+  try {
+    const decoded = jwt.verify(challengeToken, process.env.JWT_SECRET || 'your-super-secret-jwt-key-here');
+    if (decoded.challenge !== challenge) {
+      return null;
+    }
+    const user = await User.findByPk(decoded.userId);
+    return user && user.is_active ? user : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+// Signed record of a single sign-on in progress: the state, nonce and PKCE
+// verifier the callback is checked against. The browser keeps it until the
+// identity provider sends the user back.
+const generateSsoTransaction = ({ state, nonce, codeVerifier }) => {
+  return jwt.sign(
+    { sso: true, state, nonce, codeVerifier },
+    process.env.JWT_SECRET || 'your-super-secret-jwt-key-here',
+    { expiresIn: '10m' }
+  );
+};
+
+const verifySsoTransaction = (transaction) => {
+  try {
+    const decoded = jwt.verify(transaction, process.env.JWT_SECRET || 'your-super-secret-jwt-key-here');
+    return decoded.sso ? decoded : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+// The user an SSO login is for: the one already linked to the subject, else
+// the one with the same verified email, which gets linked, else a new user
+// when provisioning is on. A role mapped from the claims replaces the user's
+// role on every login. Resolves with { user, provisioned } or with
+// { error, code, status } when the login has to be refused.
+const findOrProvisionSsoUser = async (claims) => {
+  const settings = oidc.getSettings();
+  const { email } = claims;
+
+  let mappedRole = oidc.mapRole(claims);
+  if (mappedRole && !(await Role.findByName(mappedRole))) {
+    console.error(`OIDC role mapping names unknown role "${mappedRole}"`);
+    mappedRole = null;
+  }
+
+  let user = await User.findOne({ where: { sso_subject: claims.sub } });
+
+  if (!user) {
+    if (!email) {
+      return { error: 'The identity provider did not share an email address', code: 'AUTHENTICATION_ERROR', status: 401 };
+    }
+
+    const existing = await User.findOne({ where: { email } });
+    if (existing) {
+      // Only a verified address proves it is the same person
+      if (claims.email_verified !== true || existing.sso_subject) {
+        return { error: 'An account with this email already exists', code: 'AUTHENTICATION_ERROR', status: 401 };
+      }
+      await existing.update({
+        sso_subject: claims.sub,
+        email_verified_at: existing.email_verified_at || new Date()
+      });
+      user = existing;
+    } else {
+      if (!settings.autoProvision) {
+        return { error: 'No account exists for this email', code: 'AUTHORIZATION_ERROR', status: 403 };
+      }
+
+      const name = claims.name || [claims.given_name, claims.family_name].filter(Boolean).join(' ');
+      return {
+        user: await User.create({
+          name: name || email.split('@')[0],
+          email,
+          // Never handed out; SSO users can set a password with a reset link
+          password: crypto.randomBytes(32).toString('hex'),
+          role: mappedRole || settings.defaultRole,
+          sso_subject: claims.sub,
+          email_verified_at: claims.email_verified === true ? new Date() : null
+        }),
+        provisioned: true
+      };
+    }
+  }
+
+  if (mappedRole && mappedRole !== user.role) {
+    await user.update({ role: mappedRole });
+  }
+
+  return { user };
+};
+
+// Turn on MFA for a user whose pending secret accepted the given code and
+// hand out their first recovery codes; returns null if the code is wrong
+const enableMfa = async (user, code) => {
+  if (!mfa.verifyCode(user.mfa_secret, code)) {
+    return null;
+  }
+  const { codes, hashes } = mfa.generateRecoveryCodes();
+  await user.update({ mfa_enabled: true, mfa_recovery_codes: hashes });
+  return codes;
+};
+
+// Whether anyone may sign up with POST /register; when off, accounts only
+// come from invitations and single sign-on. Read on every call so tests can
+// change it.
+const isSelfRegistrationAllowed = () => process.env.ALLOW_SELF_REGISTRATION !== 'false';
+
+// Email a user a link to verify their address. Mail problems are logged
+// rather than failing the request that triggered the email.
+const sendVerification = async (user) => {
+  try {
+    const token = await UserToken.issue(user, 'email_verification');
+    await sendVerificationEmail(user, token);
+  } catch (error) {
+    console.error('Failed to send verification email:', error);
+  }
+};
+
+// Public profile of a user along with the permissions of their role and the
+// teams they manage
+const toUserResponse = async (user) => ({
+  ...user.toJSON(),
+  permissions: await user.getPermissions(),
+  managedTeamIds: await user.getManagedTeamIds(),
+  mfaRequired: await user.isMfaRequired()
+});
+
 // Helper function for standardized responses
 const successResponse = (res, data, message = 'Success', status = 200) => {
   res.status(status).json({
@@ -32,10 +208,14 @@ const errorResponse = (res, error, code = 'ERROR', status = 500) => {
   });
 };
 
-// POST /api/auth/register
+// POST /api/auth/register - Sign up with the default role, unless self-registration is off
 router.post('/register', validate(registerSchema), async (req, res) => {
   try {
-    const { name, email, password, role = 'user' } = req.body;
+    if (!isSelfRegistrationAllowed()) {
+      return errorResponse(res, 'Self-registration is disabled, ask an administrator for an invitation', 'AUTHORIZATION_ERROR', 403);
+    }
+
+    const { name, email, password } = req.body;
 
     // Check if user already exists
     const existingUser = await User.findOne({ where: { email } });
@@ -43,49 +223,309 @@ router.post('/register', validate(registerSchema), async (req, res) => {
       return errorResponse(res, 'User with this email already exists', 'DUPLICATE_ENTRY', 409);
     }
 
-    // Create new user
+    // Create new user; other roles only come from invitations and admins
     const user = await User.create({
       name,
       email,
-      password,
-      role
+      password
     });
 
-    // Generate token
-    const token = generateToken(user);
+    await sendVerification(user);
 
     successResponse(res, {
-      user: user.toJSON(),
-      token
+      user: await toUserResponse(user),
+      ...(await startSession(user, req))
     }, 'User registered successfully', 201);
   } catch (error) {
     errorResponse(res, error, 'DATABASE_ERROR');
   }
 });
 
+// POST /api/auth/invitation - Look up an open invitation for the accept page
+router.post('/invitation', validate(invitationTokenSchema), async (req, res) => {
+  try {
+    const invitation = await Invitation.findPending(req.body.token);
+    if (!invitation) {
+      return errorResponse(res, 'Invalid or expired invitation', 'VALIDATION_ERROR', 400);
+    }
+
+    const { email, name, role, expires_at } = invitation;
+    successResponse(res, {
+      invitation: { email, name, role, expires_at }
+    });
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// POST /api/auth/accept-invite - Create the invited account and sign in
+router.post('/accept-invite', validate(acceptInvitationSchema), async (req, res) => {
+  try {
+    const { token, name, password } = req.body;
+
+    const result = await sequelize.transaction(async (transaction) => {
+      const invitation = await Invitation.findPending(token, { transaction });
+      if (!invitation) {
+        return { error: 'Invalid or expired invitation', code: 'VALIDATION_ERROR', status: 400 };
+      }
+
+      if (await User.findOne({ where: { email: invitation.email }, transaction })) {
+        return { error: 'User with this email already exists', code: 'DUPLICATE_ENTRY', status: 409 };
+      }
+      if (!(await Role.findByName(invitation.role))) {
+        return { error: 'The invited role no longer exists', code: 'VALIDATION_ERROR', status: 400 };
+      }
+
+      // The invitation arrived by email, which proves the user owns the address
+      const user = await User.create({
+        name,
+        email: invitation.email,
+        password,
+        role: invitation.role,
+        email_verified_at: new Date()
+      }, { transaction });
+      await invitation.update({ accepted_at: new Date(), user_id: user.id }, { transaction });
+      return { user };
+    });
+
+    if (result.error) {
+      return errorResponse(res, result.error, result.code, result.status);
+    }
+
+    // A role that requires MFA has it set up before the first session
+    if (await result.user.isMfaRequired()) {
+      return successResponse(res, {
+        challenge: 'mfa_enrollment',
+        challengeToken: generateChallengeToken(result.user, 'mfa_enrollment')
+      }, 'Two-factor authentication must be set up', 201);
+    }
+
+    successResponse(res, {
+      user: await toUserResponse(result.user),
+      ...(await startSession(result.user, req))
+    }, 'Invitation accepted successfully', 201);
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
 // POST /api/auth/login
 router.post('/login', validate(loginSchema), async (req, res) => {
   try {
     const { email, password } = req.body;
 
+    if (await loginProtection.isIpBlocked(req.ip)) {
+      await loginProtection.recordBlocked({ email, reason: 'ip_blocked' });
+      return errorResponse(res, 'Too many failed login attempts from this address, please try again later', 'RATE_LIMIT_EXCEEDED', 429);
+    }
+
     // Find user by email
     const user = await User.findOne({ where: { email } });
     if (!user) {
+      await loginProtection.recordFailure({ email, ip: req.ip, reason: 'unknown_email' });
       return errorResponse(res, 'Invalid credentials', 'AUTHENTICATION_ERROR', 401);
     }
 
+    // A locked account stays locked even for the right password
+    if (user.isLocked()) {
+      await loginProtection.recordBlocked({ user, reason: 'account_locked' });
+      return errorResponse(res, 'Account is temporarily locked after too many failed login attempts', 'ACCOUNT_LOCKED', 423);
+    }
+
     // Verify password
     const isValidPassword = await user.comparePassword(password);
     if (!isValidPassword) {
+      await loginProtection.recordFailure({ user, ip: req.ip, reason: 'invalid_password' });
       return errorResponse(res, 'Invalid credentials', 'AUTHENTICATION_ERROR', 401);
     }
 
-    // Generate token
-    const token = generateToken(user);
+    if (!user.is_active) {
+      await loginProtection.recordBlocked({ user, reason: 'account_deactivated' });
+      return errorResponse(res, 'Account has been deactivated', 'ACCOUNT_DEACTIVATED', 403);
+    }
+
+    // With MFA on, or required by the role but not set up yet, the session
+    // only starts once the second step is done
+    if (user.mfa_enabled) {
+      return successResponse(res, {
+        challenge: 'mfa',
+        challengeToken: generateChallengeToken(user, 'mfa')
+      }, 'Two-factor authentication required');
+    }
+    if (await user.isMfaRequired()) {
+      return successResponse(res, {
+        challenge: 'mfa_enrollment',
+        challengeToken: generateChallengeToken(user, 'mfa_enrollment')
+      }, 'Two-factor authentication must be set up');
+    }
+
+    await loginProtection.recordSuccess(user);
+
+    successResponse(res, {
+      user: await toUserResponse(user),
+      ...(await startSession(user, req))
+    }, 'Login successful');
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// POST /api/auth/login/mfa - Finish a login with an authenticator or recovery code
+router.post('/login/mfa', validate(mfaLoginSchema), async (req, res) => {
+  try {
+    const { challengeToken, code, recoveryCode } = req.body;
+
+    const user = await findChallengedUser(challengeToken, 'mfa');
+    if (!user || !user.mfa_enabled) {
+      return errorResponse(res, 'Invalid or expired challenge', 'AUTHENTICATION_ERROR', 401);
+    }
+
+    // Wrong codes count as failed logins, so guessing them locks the account too
+    if (user.isLocked()) {
+      await loginProtection.recordBlocked({ user, reason: 'account_locked' });
+      return errorResponse(res, 'Account is temporarily locked after too many failed login attempts', 'ACCOUNT_LOCKED', 423);
+    }
+
+    const isValidCode = code
+      ? mfa.verifyCode(user.mfa_secret, code)
+      : await mfa.consumeRecoveryCode(user, recoveryCode);
+    if (!isValidCode) {
+      await loginProtection.recordFailure({
+        user,
+        ip: req.ip,
+        reason: code ? 'invalid_mfa_code' : 'invalid_recovery_code'
+      });
+      return errorResponse(res, 'Invalid authentication code', 'AUTHENTICATION_ERROR', 401);
+    }
+
+    await loginProtection.recordSuccess(user);
+
+    successResponse(res, {
+      user: await toUserResponse(user),
+      ...(await startSession(user, req)),
+      ...(recoveryCode && { recoveryCodesRemaining: user.mfa_recovery_codes.length })
+    }, 'Login successful');
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// POST /api/auth/login/mfa/setup - Start the enrollment a role requires before signing in
+router.post('/login/mfa/setup', validate(mfaChallengeSchema), async (req, res) => {
+  try {
+    const user = await findChallengedUser(req.body.challengeToken, 'mfa_enrollment');
+    if (!user || user.mfa_enabled) {
+      return errorResponse(res, 'Invalid or expired challenge', 'AUTHENTICATION_ERROR', 401);
+    }
+
+    const secret = mfa.generateSecret();
+    await user.update({ mfa_secret: secret });
+
+    successResponse(res, await mfa.getProvisioning(user, secret));
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// POST /api/auth/login/mfa/enable - Confirm the enrollment and finish the login
+router.post('/login/mfa/enable', validate(mfaEnrollLoginSchema), async (req, res) => {
+  try {
+    const { challengeToken, code } = req.body;
+
+    const user = await findChallengedUser(challengeToken, 'mfa_enrollment');
+    if (!user || user.mfa_enabled || !user.mfa_secret) {
+      return errorResponse(res, 'Invalid or expired challenge', 'AUTHENTICATION_ERROR', 401);
+    }
+
+    const recoveryCodes = await enableMfa(user, code);
+    if (!recoveryCodes) {
+      return errorResponse(res, 'Invalid authentication code', 'VALIDATION_ERROR', 400);
+    }
+
+    await loginProtection.recordSuccess(user);
+
+    successResponse(res, {
+      user: await toUserResponse(user),
+      ...(await startSession(user, req)),
+      recoveryCodes
+    }, 'Two-factor authentication enabled');
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// GET /api/auth/sso - Whether single sign-on is available, for the login page
+router.get('/sso', (req, res) => {
+  successResponse(res, {
+    enabled: oidc.isEnabled(),
+    providerName: oidc.getSettings().providerName
+  });
+});
+
+// GET /api/auth/sso/authorize - Start a single sign-on at the identity provider
+router.get('/sso/authorize', async (req, res) => {
+  if (!oidc.isEnabled()) {
+    return errorResponse(res, 'Single sign-on is not configured', 'NOT_FOUND', 404);
+  }
+
+  try {
+    const { authorizationUrl, ...transaction } = await oidc.createAuthorizationRequest();
+
+    successResponse(res, {
+      authorizationUrl,
+      transaction: generateSsoTransaction(transaction)
+    });
+  } catch (error) {
+    console.error('OIDC discovery failed:', error);
+    errorResponse(res, 'The identity provider is not available', 'SSO_ERROR', 502);
+  }
+});
+
+// POST /api/auth/sso/callback - Finish a single sign-on with the code the identity provider sent back
+router.post('/sso/callback', validate(ssoCallbackSchema), async (req, res) => {
+  if (!oidc.isEnabled()) {
+    return errorResponse(res, 'Single sign-on is not configured', 'NOT_FOUND', 404);
+  }
+
+  try {
+    const { code, state, transaction } = req.body;
+
+    const pending = verifySsoTransaction(transaction);
+    if (!pending || pending.state !== state) {
+      return errorResponse(res, 'Invalid or expired sign-in request', 'AUTHENTICATION_ERROR', 401);
+    }
+
+    let claims;
+    try {
+      claims = await oidc.exchangeCode({ code, state, nonce: pending.nonce, codeVerifier: pending.codeVerifier });
+    } catch (error) {
+      await loginProtection.recordBlocked({ reason: 'sso_rejected' });
+      return errorResponse(res, 'Single sign-on failed', 'AUTHENTICATION_ERROR', 401);
+    }
+
+    const { user, provisioned, error, code: errorCode, status } = await findOrProvisionSsoUser(claims);
+    if (error) {
+      await loginProtection.recordBlocked({ email: claims.email, reason: 'sso_no_account' });
+      return errorResponse(res, error, errorCode, status);
+    }
+
+    if (!user.is_active) {
+      await loginProtection.recordBlocked({ user, reason: 'account_deactivated' });
+      return errorResponse(res, 'Account has been deactivated', 'ACCOUNT_DEACTIVATED', 403);
+    }
+
+    if (user.isLocked()) {
+      await loginProtection.recordBlocked({ user, reason: 'account_locked' });
+      return errorResponse(res, 'Account is temporarily locked after too many failed login attempts', 'ACCOUNT_LOCKED', 423);
+    }
+
+    // The identity provider is in charge of second factors, so SSO logins
+    // skip the local MFA step
+    await loginProtection.recordSuccess(user, { method: 'sso', ...(provisioned && { provisioned }) });
 
     successResponse(res, {
-      user: user.toJSON(),
-      token
+      user: await toUserResponse(user),
+      ...(await startSession(user, req))
     }, 'Login successful');
   } catch (error) {
     errorResponse(res, error, 'DATABASE_ERROR');
@@ -95,33 +535,329 @@ router.post('/login', validate(loginSchema), async (req, res) => {
 // GET /api/auth/me
 router.get('/me', authenticateToken, async (req, res) => {
   try {
+    const user = await toUserResponse(req.user);
+    if (req.impersonator) {
+      user.impersonator = { id: req.impersonator.id, name: req.impersonator.name, email: req.impersonator.email };
+    }
+
     successResponse(res, {
-      user: req.user.toJSON()
+      user
+    });
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// PUT /api/auth/me - Update your own name, email and preferences
+router.put('/me', authenticateToken, requireSession, forbidImpersonation, validate(updateProfileSchema), async (req, res) => {
+  try {
+    const { name, email, currentPassword, timezone, locale, notificationPreferences } = req.body;
+
+    const attributes = {};
+    if (name !== undefined) attributes.name = name;
+    if (timezone !== undefined) attributes.timezone = timezone;
+    if (locale !== undefined) attributes.locale = locale;
+    if (notificationPreferences) {
+      attributes.notification_preferences = { ...req.user.notification_preferences, ...notificationPreferences };
+    }
+
+    // A new email address takes the password and has to be verified again
+    const emailChanged = email !== undefined && email !== req.user.email;
+    if (emailChanged) {
+      if (!currentPassword || !(await req.user.comparePassword(currentPassword))) {
+        return errorResponse(res, 'Current password is incorrect', 'VALIDATION_ERROR', 400);
+      }
+      if (await User.findOne({ where: { email } })) {
+        return errorResponse(res, 'User with this email already exists', 'DUPLICATE_ENTRY', 409);
+      }
+      attributes.email = email;
+      attributes.email_verified_at = null;
+    }
+
+    await req.user.update(attributes);
+    if (emailChanged) {
+      await sendVerification(req.user);
+    }
+
+    successResponse(res, {
+      user: await toUserResponse(req.user)
+    }, 'Profile updated successfully');
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// PUT /api/auth/me/password - Change your password; every other session ends
+router.put('/me/password', authenticateToken, requireSession, forbidImpersonation, validate(changePasswordSchema), async (req, res) => {
+  try {
+    const { currentPassword, newPassword } = req.body;
+
+    if (!(await req.user.comparePassword(currentPassword))) {
+      return errorResponse(res, 'Current password is incorrect', 'VALIDATION_ERROR', 400);
+    }
+    if (currentPassword === newPassword) {
+      return errorResponse(res, 'New password must be different from the current one', 'VALIDATION_ERROR', 400);
+    }
+
+    const revokedSessions = await sequelize.transaction(async (transaction) => {
+      await req.user.update({ password: newPassword }, { transaction });
+      return RefreshToken.revokeForUser(req.user.id, { exceptFamilyId: req.sessionId, transaction });
     });
+
+    successResponse(res, {
+      revokedSessions
+    }, 'Password changed successfully');
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// POST /api/auth/mfa/setup - Generate a new authenticator secret for the current user
+router.post('/mfa/setup', authenticateToken, requireSession, forbidImpersonation, async (req, res) => {
+  try {
+    if (req.user.mfa_enabled) {
+      return errorResponse(res, 'Two-factor authentication is already enabled', 'VALIDATION_ERROR', 400);
+    }
+
+    const secret = mfa.generateSecret();
+    await req.user.update({ mfa_secret: secret });
+
+    successResponse(res, await mfa.getProvisioning(req.user, secret));
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// POST /api/auth/mfa/enable - Turn on MFA by confirming a code from the new secret
+router.post('/mfa/enable', authenticateToken, requireSession, forbidImpersonation, validate(mfaCodeSchema), async (req, res) => {
+  try {
+    if (req.user.mfa_enabled) {
+      return errorResponse(res, 'Two-factor authentication is already enabled', 'VALIDATION_ERROR', 400);
+    }
+    if (!req.user.mfa_secret) {
+      return errorResponse(res, 'Start the setup first', 'VALIDATION_ERROR', 400);
+    }
+
+    const recoveryCodes = await enableMfa(req.user, req.body.code);
+    if (!recoveryCodes) {
+      return errorResponse(res, 'Invalid authentication code', 'VALIDATION_ERROR', 400);
+    }
+
+    successResponse(res, {
+      user: await toUserResponse(req.user),
+      recoveryCodes
+    }, 'Two-factor authentication enabled');
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// POST /api/auth/mfa/disable - Turn off MFA after confirming the password
+router.post('/mfa/disable', authenticateToken, requireSession, forbidImpersonation, validate(disableMfaSchema), async (req, res) => {
+  try {
+    if (!(await req.user.comparePassword(req.body.password))) {
+      return errorResponse(res, 'Password is incorrect', 'AUTHENTICATION_ERROR', 401);
+    }
+    if (await req.user.isMfaRequired()) {
+      return errorResponse(res, 'Your role requires two-factor authentication', 'AUTHORIZATION_ERROR', 403);
+    }
+
+    await req.user.update({ mfa_enabled: false, mfa_secret: null, mfa_recovery_codes: [] });
+
+    successResponse(res, {
+      user: await toUserResponse(req.user)
+    }, 'Two-factor authentication disabled');
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// POST /api/auth/mfa/recovery-codes - Replace the recovery codes after confirming a code
+router.post('/mfa/recovery-codes', authenticateToken, requireSession, forbidImpersonation, validate(mfaCodeSchema), async (req, res) => {
+  try {
+    if (!req.user.mfa_enabled) {
+      return errorResponse(res, 'Two-factor authentication is not enabled', 'VALIDATION_ERROR', 400);
+    }
+    if (!mfa.verifyCode(req.user.mfa_secret, req.body.code)) {
+      return errorResponse(res, 'Invalid authentication code', 'VALIDATION_ERROR', 400);
+    }
+
+    const { codes, hashes } = mfa.generateRecoveryCodes();
+    await req.user.update({ mfa_recovery_codes: hashes });
+
+    successResponse(res, {
+      recoveryCodes: codes
+    }, 'Recovery codes regenerated');
   } catch (error) {
     errorResponse(res, error, 'DATABASE_ERROR');
   }
 });
 
-// POST /api/auth/logout
-router.post('/logout', authenticateToken, (req, res) => {
-  // In a stateless JWT system, logout is handled client-side
-  // by removing the token from storage
-  successResponse(res, {}, 'Logout successful');
+// POST /api/auth/logout - End the current session
+router.post('/logout', authenticateToken, requireSession, forbidImpersonation, async (req, res) => {
+  try {
+    await RefreshToken.revokeFamily(req.sessionId);
+
+    successResponse(res, {}, 'Logout successful');
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
 });
 
-// POST /api/auth/refresh
-router.post('/refresh', authenticateToken, async (req, res) => {
+// POST /api/auth/logout-all - End every session of the current user
+router.post('/logout-all', authenticateToken, requireSession, forbidImpersonation, async (req, res) => {
   try {
-    // Generate new token
-    const token = generateToken(req.user);
+    const revokedSessions = await RefreshToken.revokeForUser(req.user.id);
 
     successResponse(res, {
-      user: req.user.toJSON(),
-      token
+      revokedSessions
+    }, 'Logged out of all sessions');
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// POST /api/auth/refresh - Swap a refresh token for a new access and refresh token
+router.post('/refresh', validate(refreshTokenSchema), async (req, res) => {
+  try {
+    const current = await RefreshToken.findByToken(req.body.refreshToken);
+    if (!current) {
+      return errorResponse(res, 'Invalid refresh token', 'AUTHENTICATION_ERROR', 401);
+    }
+
+    // A refresh token is only good once; seeing it again means it was stolen,
+    // so the whole session goes
+    if (current.revoked_at) {
+      await RefreshToken.revokeFamily(current.family_id);
+      return errorResponse(res, 'Refresh token has already been used', 'AUTHENTICATION_ERROR', 401);
+    }
+
+    if (current.isExpired()) {
+      return errorResponse(res, 'Refresh token expired', 'AUTHENTICATION_ERROR', 401);
+    }
+
+    const user = await User.findByPk(current.user_id);
+    if (!user || !user.is_active) {
+      return errorResponse(res, user ? 'Account has been deactivated' : 'User not found', 'AUTHENTICATION_ERROR', 401);
+    }
+
+    const refreshToken = await sequelize.transaction(async (transaction) => {
+      const { token, record } = await RefreshToken.issue(user, {
+        familyId: current.family_id,
+        ip: req.ip,
+        transaction
+      });
+      const [rotated] = await RefreshToken.update({ revoked_at: new Date(), replaced_by_id: record.id }, {
+        where: { id: current.id, revoked_at: null },
+        transaction
+      });
+      // Another request used the token since it was looked up
+      if (rotated === 0) {
+        await record.destroy({ transaction });
+        return null;
+      }
+      return token;
+    });
+
+    if (!refreshToken) {
+      await RefreshToken.revokeFamily(current.family_id);
+      return errorResponse(res, 'Refresh token has already been used', 'AUTHENTICATION_ERROR', 401);
+    }
+
+    successResponse(res, {
+      user: await toUserResponse(user),
+      token: generateToken(user, current.family_id),
+      refreshToken
     }, 'Token refreshed successfully');
   } catch (error) {
-    errorResponse(res, error, 'AUTHENTICATION_ERROR');
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// POST /api/auth/forgot-password - Email a password reset link
+router.post('/forgot-password', validate(forgotPasswordSchema), async (req, res) => {
+  try {
+    const user = await User.findOne({ where: { email: req.body.email } });
+
+    // Answer the same whether or not the account exists, so the endpoint
+    // cannot be used to find out who has one
+    if (user && user.is_active) {
+      const token = await UserToken.issue(user, 'password_reset');
+      await sendPasswordResetEmail(user, token, UserToken.getTtlMinutes('password_reset'));
+    }
+
+    successResponse(res, {}, 'If an account exists for this email, a reset link has been sent');
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// POST /api/auth/reset-password - Set a new password with a reset token
+router.post('/reset-password', validate(resetPasswordSchema), async (req, res) => {
+  try {
+    const { token, password } = req.body;
+
+    const result = await sequelize.transaction(async (transaction) => {
+      const resetToken = await UserToken.consume(token, 'password_reset', { transaction });
+      if (!resetToken) {
+        return null;
+      }
+
+      const user = await User.findByPk(resetToken.user_id, { transaction });
+      // The reset link arrived by email, which proves the user owns the address
+      await user.update({
+        password,
+        email_verified_at: user.email_verified_at || new Date()
+      }, { transaction });
+      await RefreshToken.revokeForUser(user.id, { transaction });
+      return user;
+    });
+
+    if (!result) {
+      return errorResponse(res, 'Invalid or expired reset token', 'VALIDATION_ERROR', 400);
+    }
+
+    // Proving access to the mailbox also lifts a lockout
+    if (result.failed_login_count || result.locked_until) {
+      await loginProtection.unlockAccount(result, 'password_reset');
+    }
+
+    successResponse(res, {}, 'Password reset successfully');
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// POST /api/auth/verify-email - Confirm an email address with a verification token
+router.post('/verify-email', validate(verifyEmailSchema), async (req, res) => {
+  try {
+    const verificationToken = await UserToken.consume(req.body.token, 'email_verification');
+    if (!verificationToken) {
+      return errorResponse(res, 'Invalid or expired verification token', 'VALIDATION_ERROR', 400);
+    }
+
+    const user = await User.findByPk(verificationToken.user_id);
+    await user.update({ email_verified_at: user.email_verified_at || new Date() });
+
+    successResponse(res, {}, 'Email verified successfully');
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// POST /api/auth/resend-verification - Email the current user a new verification link
+router.post('/resend-verification', authenticateToken, async (req, res) => {
+  try {
+    if (req.user.email_verified_at) {
+      return errorResponse(res, 'Email is already verified', 'VALIDATION_ERROR', 400);
+    }
+
+    const token = await UserToken.issue(req.user, 'email_verification');
+    await sendVerificationEmail(req.user, token);
+
+    successResponse(res, {}, 'Verification email sent');
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
   }
 });
 
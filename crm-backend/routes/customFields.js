@@ -0,0 +1,126 @@
+const express = require('express');
+const { CustomFieldDefinition } = require('../models');
+const { authenticateToken, requirePermission } = require('../middleware/auth');
+const { validate, customFieldSchema, updateCustomFieldSchema } = require('../middleware/validation');
+
+const router = express.Router();
+
+// Helper functions
+const successResponse = (res, data, message = 'Success', status = 200) => {
+  res.status(status).json({
+    success: true,
+    data,
+    message
+  });
+};
+
+const errorResponse = (res, error, code = 'ERROR', status = 500) => {
+  res.status(status).json({
+    success: false,
+    error: error.message || error,
+    code
+  });
+};
+
+const ENTITIES = ['customer', 'lead', 'task'];
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// GET /api/custom-fields - Get custom field definitions, optionally for one entity
+router.get('/', async (req, res) => {
+  try {
+    const { entity, includeInactive } = req.query;
+
+    if (entity && !ENTITIES.includes(entity)) {
+      return errorResponse(res, 'Invalid entity', 'VALIDATION_ERROR', 400);
+    }
+
+    const where = {};
+    if (entity) {
+      where.entity = entity;
+    }
+    if (includeInactive !== 'true') {
+      where.is_active = true;
+    }
+
+    const customFields = await CustomFieldDefinition.findAll({
+      where,
+      order: [['entity', 'ASC'], ['position', 'ASC'], ['id', 'ASC']]
+    });
+
+    successResponse(res, {
+      customFields
+    });
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// POST /api/custom-fields - Create new custom field (settings:manage)
+router.post('/', requirePermission('settings:manage'), validate(customFieldSchema), async (req, res) => {
+  try {
+    const { entity, key } = req.body;
+
+    const existingField = await CustomFieldDefinition.findOne({ where: { entity, key } });
+    if (existingField) {
+      return errorResponse(res, 'A custom field with this key already exists', 'DUPLICATE_ENTRY', 409);
+    }
+
+    // Append to the end of the entity's fields unless a position was given
+    const position = req.body.position ?? await CustomFieldDefinition.count({ where: { entity } });
+    const customField = await CustomFieldDefinition.create({ ...req.body, position });
+
+    successResponse(res, {
+      customField
+    }, 'Custom field created successfully', 201);
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// PUT /api/custom-fields/:id - Update custom field (settings:manage)
+router.put('/:id', requirePermission('settings:manage'), validate(updateCustomFieldSchema), async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const customField = await CustomFieldDefinition.findByPk(id);
+    if (!customField) {
+      return errorResponse(res, 'Custom field not found', 'NOT_FOUND', 404);
+    }
+
+    const isSelect = ['select', 'multi-select'].includes(customField.type);
+    if (isSelect && req.body.options && req.body.options.length === 0) {
+      return errorResponse(res, 'Select fields need at least one option', 'VALIDATION_ERROR', 400);
+    }
+
+    await customField.update(req.body);
+
+    successResponse(res, {
+      customField
+    }, 'Custom field updated successfully');
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// DELETE /api/custom-fields/:id - Delete custom field (settings:manage)
+router.delete('/:id', requirePermission('settings:manage'), async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const customField = await CustomFieldDefinition.findByPk(id);
+    if (!customField) {
+      return errorResponse(res, 'Custom field not found', 'NOT_FOUND', 404);
+    }
+
+    // Values already stored on records are left in place but no longer shown
+    await customField.destroy();
+
+    successResponse(res, {}, 'Custom field deleted successfully');
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+module.exports = router;
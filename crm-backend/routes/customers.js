@@ -1,8 +1,10 @@
 const express = require('express');
 const { Op } = require('sequelize');
-const { Customer, Interaction, Lead, Task } = require('../models');
-const { authenticateToken, requireUser } = require('../middleware/auth');
-const { validate, customerSchema, interactionSchema } = require('../middleware/validation');
+const { Account, Customer, Interaction, Lead, Task, User, CustomFieldDefinition, LeadStageHistory, AuditLog, sequelize } = require('../models');
+const { authenticateToken, requirePermission, hasPermission, loadRecordVisibility, visibleRecordsWhere } = require('../middleware/auth');
+const { validate, validateCustomFields, customerSchema, interactionSchema } = require('../middleware/validation');
+const webhooks = require('../services/webhooks');
+const realtime = require('../services/realtime');
 
 const router = express.Router();
 
@@ -23,14 +25,66 @@ const errorResponse = (res, error, code = 'ERROR', status = 500) => {
   });
 };
 
+// Map request body fields onto Customer model attributes, keeping the company
+// text in line with the linked account; null when the account does not exist
+const toCustomerAttributes = async (body) => {
+  const { accountId, ownerId, customFields, ...attributes } = body;
+  if (ownerId !== undefined) {
+    attributes.owner_id = ownerId;
+  }
+  if (customFields !== undefined) {
+    attributes.custom_fields = customFields;
+  }
+  if (accountId !== undefined) {
+    attributes.account_id = accountId;
+    if (accountId) {
+      const account = await Account.findByPk(accountId);
+      if (!account) {
+        return null;
+      }
+      attributes.company = account.name;
+    }
+  }
+  return attributes;
+};
+
+const accountInclude = {
+  model: Account,
+  as: 'account',
+  attributes: ['id', 'name']
+};
+
+const ownerInclude = {
+  model: User,
+  as: 'owner',
+  attributes: ['id', 'name']
+};
+
+const OWNER_CHANGE_FORBIDDEN = 'You are not allowed to give a customer to another owner';
+
+// Format a value as a CSV cell, quoting it when needed
+const toCsvValue = (value) => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = Array.isArray(value) ? value.join(', ') : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Find a customer the current user is allowed to see
+const findVisibleCustomer = (req, id, options = {}) => Customer.findOne({
+  ...options,
+  where: { id, ...visibleRecordsWhere(req, 'owner_id') }
+});
+
 // Apply authentication to all routes
 router.use(authenticateToken);
-router.use(requireUser);
+router.use(loadRecordVisibility);
 
 // GET /api/customers - Get all customers with pagination and filtering
-router.get('/', async (req, res) => {
+router.get('/', requirePermission('customers:view'), async (req, res) => {
   try {
-    const { page = 1, limit = 10, search, tags } = req.query;
+    const { page = 1, limit = 10, search, tags, accountId, customFields } = req.query;
     const offset = (page - 1) * limit;
 
     // Build where clause
@@ -48,12 +102,20 @@ router.get('/', async (req, res) => {
       whereClause.tags = { [Op.overlap]: tagArray };
     }
 
+    if (accountId) {
+      whereClause.account_id = accountId;
+    }
+
+    const customFieldFilters = await CustomFieldDefinition.buildFilters('customer', 'Customer', customFields);
+    whereClause[Op.and] = [...customFieldFilters, visibleRecordsWhere(req, 'owner_id')];
+
     // Get customers with pagination
     const customers = await Customer.findAndCountAll({
       where: whereClause,
       limit: parseInt(limit),
       offset: parseInt(offset),
-      order: [['createdAt', 'DESC']]
+      order: [['createdAt', 'DESC']],
+      include: [accountInclude, ownerInclude]
     });
 
     // Calculate pagination info
@@ -75,9 +137,26 @@ router.get('/', async (req, res) => {
 });
 
 // POST /api/customers - Create new customer
-router.post('/', validate(customerSchema), async (req, res) => {
+router.post('/', requirePermission('customers:edit'), validate(customerSchema), validateCustomFields('customer'), async (req, res) => {
   try {
-    const customer = await Customer.create(req.body);
+    const attributes = await toCustomerAttributes(req.body);
+    if (!attributes) {
+      return errorResponse(res, 'Invalid account', 'VALIDATION_ERROR', 400);
+    }
+
+    // New customers belong to their creator unless an admin picks the owner
+    if (attributes.owner_id === undefined) {
+      attributes.owner_id = req.user.id;
+    } else if (!hasPermission(req, 'records:reassign') && attributes.owner_id !== req.user.id) {
+      return errorResponse(res, OWNER_CHANGE_FORBIDDEN, 'AUTHORIZATION_ERROR', 403);
+    }
+
+    const customer = await sequelize.transaction(async (transaction) => {
+      const created = await Customer.create(attributes, { transaction });
+      await webhooks.emit('customer.created', { customer: created }, { transaction });
+      return created;
+    });
+    await customer.reload({ include: [accountInclude, ownerInclude] });
     
     successResponse(res, {
       customer
@@ -87,27 +166,73 @@ router.post('/', validate(customerSchema), async (req, res) => {
   }
 });
 
+// GET /api/customers/export - Export the customers the user can see as CSV
+router.get('/export', requirePermission('customers:export'), async (req, res) => {
+  try {
+    const [customers, customFields] = await Promise.all([
+      Customer.findAll({
+        where: visibleRecordsWhere(req, 'owner_id'),
+        order: [['name', 'ASC']],
+        include: [accountInclude, ownerInclude]
+      }),
+      CustomFieldDefinition.getForEntity('customer')
+    ]);
+
+    const header = ['ID', 'Name', 'Email', 'Phone', 'Company', 'Owner', 'Tags', 'Notes', 'Created At',
+      ...customFields.map(field => field.label)];
+    const rows = customers.map(customer => [
+      customer.id,
+      customer.name,
+      customer.email,
+      customer.phone,
+      customer.account ? customer.account.name : customer.company,
+      customer.owner && customer.owner.name,
+      customer.tags,
+      customer.notes,
+      customer.createdAt.toISOString(),
+      ...customFields.map(field => customer.custom_fields[field.key])
+    ]);
+
+    const csv = [header, ...rows].map(row => row.map(toCsvValue).join(',')).join('\n');
+
+    res.set('Content-Type', 'text/csv; charset=utf-8');
+    res.set('Content-Disposition', 'attachment; filename="customers.csv"');
+    res.send(csv);
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
 // GET /api/customers/:id - Get customer by ID
-router.get('/:id', async (req, res) => {
+router.get('/:id', requirePermission('customers:view'), async (req, res) => {
   try {
     const { id } = req.params;
 
-    const customer = await Customer.findByPk(id, {
+    // Only the interactions, leads and tasks the user can see on their own
+    const customer = await findVisibleCustomer(req, id, {
       include: [
+        accountInclude,
+        ownerInclude,
         {
           model: Interaction,
           as: 'interactions',
+          where: visibleRecordsWhere(req, 'created_by'),
+          required: false,
           order: [['date', 'DESC']],
           limit: 10
         },
         {
           model: Lead,
           as: 'leads',
+          where: visibleRecordsWhere(req, 'owner_id', 'assigned_to'),
+          required: false,
           order: [['createdAt', 'DESC']]
         },
         {
           model: Task,
           as: 'tasks',
+          where: visibleRecordsWhere(req, 'assignedTo'),
+          required: false,
           order: [['dueDate', 'ASC']]
         }
       ]
@@ -126,16 +251,27 @@ router.get('/:id', async (req, res) => {
 });
 
 // PUT /api/customers/:id - Update customer
-router.put('/:id', validate(customerSchema), async (req, res) => {
+router.put('/:id', requirePermission('customers:edit'), validate(customerSchema), validateCustomFields('customer'), async (req, res) => {
   try {
     const { id } = req.params;
 
-    const customer = await Customer.findByPk(id);
+    const customer = await findVisibleCustomer(req, id);
     if (!customer) {
       return errorResponse(res, 'Customer not found', 'NOT_FOUND', 404);
     }
 
-    await customer.update(req.body);
+    const attributes = await toCustomerAttributes(req.body);
+    if (!attributes) {
+      return errorResponse(res, 'Invalid account', 'VALIDATION_ERROR', 400);
+    }
+
+    const ownerChanged = attributes.owner_id !== undefined && attributes.owner_id !== customer.owner_id;
+    if (ownerChanged && !hasPermission(req, 'records:reassign')) {
+      return errorResponse(res, OWNER_CHANGE_FORBIDDEN, 'AUTHORIZATION_ERROR', 403);
+    }
+
+    await customer.update(attributes);
+    await customer.reload({ include: [accountInclude, ownerInclude] });
 
     successResponse(res, {
       customer
@@ -146,11 +282,11 @@ router.put('/:id', validate(customerSchema), async (req, res) => {
 });
 
 // DELETE /api/customers/:id - Delete customer
-router.delete('/:id', async (req, res) => {
+router.delete('/:id', requirePermission('customers:delete'), async (req, res) => {
   try {
     const { id } = req.params;
 
-    const customer = await Customer.findByPk(id);
+    const customer = await findVisibleCustomer(req, id);
     if (!customer) {
       return errorResponse(res, 'Customer not found', 'NOT_FOUND', 404);
     }
@@ -164,20 +300,25 @@ router.delete('/:id', async (req, res) => {
 });
 
 // GET /api/customers/:id/interactions - Get customer interactions
-router.get('/:id/interactions', async (req, res) => {
+router.get('/:id/interactions', requirePermission('interactions:view'), async (req, res) => {
   try {
     const { id } = req.params;
     const { page = 1, limit = 20 } = req.query;
     const offset = (page - 1) * limit;
 
+    const customer = await findVisibleCustomer(req, id);
+    if (!customer) {
+      return errorResponse(res, 'Customer not found', 'NOT_FOUND', 404);
+    }
+
     const interactions = await Interaction.findAndCountAll({
-      where: { customerId: id },
+      where: { customer_id: id, ...visibleRecordsWhere(req, 'created_by') },
       limit: parseInt(limit),
       offset: parseInt(offset),
       order: [['date', 'DESC']],
       include: [
         {
-          model: require('../models').User,
+          model: User,
           as: 'createdByUser',
           attributes: ['id', 'name']
         }
@@ -200,26 +341,139 @@ router.get('/:id/interactions', async (req, res) => {
   }
 });
 
+// Merge a customer's interactions, lead stage changes, task completions and
+// field edits into one list of events, newest first. Only the interactions,
+// leads and tasks the user can see on their own are included
+const buildTimeline = async (req, customer, limit) => {
+  const userAttributes = ['id', 'name', 'is_active'];
+
+  const [interactions, leads, tasks] = await Promise.all([
+    Interaction.findAll({
+      where: { customer_id: customer.id, ...visibleRecordsWhere(req, 'created_by') },
+      include: [{ model: User, as: 'createdByUser', attributes: userAttributes }]
+    }),
+    Lead.findAll({
+      where: { customer_id: customer.id, ...visibleRecordsWhere(req, 'owner_id', 'assigned_to') },
+      attributes: ['id', 'title']
+    }),
+    Task.findAll({
+      where: { customerId: customer.id, ...visibleRecordsWhere(req, 'assignedTo') },
+      attributes: ['id', 'title']
+    })
+  ]);
+
+  const [stageChanges, taskUpdates, customerEdits] = await Promise.all([
+    LeadStageHistory.findAll({
+      where: { lead_id: leads.map(lead => lead.id) },
+      include: [{ model: User, as: 'changedByUser', attributes: userAttributes }]
+    }),
+    AuditLog.findAll({
+      where: { entity_type: 'task', entity_id: tasks.map(task => task.id), action: 'update' },
+      include: [{ model: User, as: 'actor', attributes: userAttributes }]
+    }),
+    AuditLog.findAll({
+      where: { entity_type: 'customer', entity_id: customer.id, action: 'update' },
+      include: [{ model: User, as: 'actor', attributes: userAttributes }]
+    })
+  ]);
+
+  const leadTitles = new Map(leads.map(lead => [lead.id, lead.title]));
+  const taskTitles = new Map(tasks.map(task => [task.id, task.title]));
+
+  const events = [
+    ...interactions.map(interaction => ({
+      id: `interaction-${interaction.id}`,
+      type: 'interaction',
+      date: interaction.date,
+      user: interaction.createdByUser,
+      interaction: {
+        id: interaction.id,
+        type: interaction.type,
+        notes: interaction.notes
+      }
+    })),
+    ...stageChanges.map(change => ({
+      id: `stage-change-${change.id}`,
+      type: 'stage_change',
+      date: change.changed_at,
+      user: change.changedByUser,
+      lead: { id: change.lead_id, title: leadTitles.get(change.lead_id) },
+      fromStage: change.from_stage,
+      toStage: change.to_stage
+    })),
+    ...taskUpdates
+      .filter(entry => entry.changes.status && entry.changes.status.after === 'completed')
+      .map(entry => ({
+        id: `task-completed-${entry.id}`,
+        type: 'task_completed',
+        date: entry.createdAt,
+        user: entry.actor,
+        task: { id: entry.entity_id, title: taskTitles.get(entry.entity_id) }
+      })),
+    ...customerEdits.map(entry => ({
+      id: `field-edit-${entry.id}`,
+      type: 'field_edit',
+      date: entry.createdAt,
+      user: entry.actor,
+      changes: entry.changes
+    }))
+  ];
+
+  return events
+    .sort((a, b) => new Date(b.date) - new Date(a.date))
+    .slice(0, limit);
+};
+
+// GET /api/customers/:id/timeline - Get the customer's activity, newest first
+router.get('/:id/timeline', requirePermission('customers:view'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const limit = Math.min(parseInt(req.query.limit) || 100, 500);
+
+    const customer = await findVisibleCustomer(req, id);
+    if (!customer) {
+      return errorResponse(res, 'Customer not found', 'NOT_FOUND', 404);
+    }
+
+    successResponse(res, {
+      timeline: await buildTimeline(req, customer, limit)
+    });
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
 // POST /api/customers/:id/interactions - Add interaction to customer
-router.post('/:id/interactions', validate(interactionSchema), async (req, res) => {
+router.post('/:id/interactions', requirePermission('interactions:edit'), validate(interactionSchema), async (req, res) => {
   try {
     const { id } = req.params;
     const { type, notes, date } = req.body;
 
     // Verify customer exists
-    const customer = await Customer.findByPk(id);
+    const customer = await findVisibleCustomer(req, id);
     if (!customer) {
       return errorResponse(res, 'Customer not found', 'NOT_FOUND', 404);
     }
 
-    const interaction = await Interaction.create({
-      customer_id: id,
-      type,
-      notes,
-      date: date || new Date(),
-      created_by: req.user.id
+    const interaction = await sequelize.transaction(async (transaction) => {
+      const created = await Interaction.create({
+        customer_id: id,
+        account_id: customer.account_id,
+        type,
+        notes,
+        date: date || new Date(),
+        created_by: req.user.id
+      }, { transaction });
+      await webhooks.emit('interaction.created', { interaction: created }, { transaction });
+      return created;
     });
 
+    // Seen by those who see its creator, as in the interaction list
+    realtime.publish('interaction:created', {
+      customerId: customer.id,
+      interaction
+    }, { permission: 'interactions:view', userIds: [interaction.created_by] });
+
     successResponse(res, {
       interaction
     }, 'Interaction added successfully', 201);
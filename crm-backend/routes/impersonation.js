@@ -0,0 +1,150 @@
+const express = require('express');
+const jwt = require('jsonwebtoken');
+const { User, Role, SecurityEvent, ImpersonationLog, ImpersonationSession } = require('../models');
+const { authenticateToken, requireSession, forbidImpersonation, requirePermission, canAssignRole } = require('../middleware/auth');
+const { validate, impersonateSchema } = require('../middleware/validation');
+const realtime = require('../services/realtime');
+
+const router = express.Router();
+
+// Helper functions
+const successResponse = (res, data, message = 'Success', status = 200) => {
+  res.status(status).json({
+    success: true,
+    data,
+    message
+  });
+};
+
+const errorResponse = (res, error, code = 'ERROR', status = 500) => {
+  res.status(status).json({
+    success: false,
+    error: error.message || error,
+    code
+  });
+};
+
+// Access token that acts as the user on behalf of the admin. It belongs to the
+// admin's session, so it ends when they sign out or end the impersonation, and
+// cannot be refreshed.
+const generateImpersonationToken = (user, impersonator, sessionId, impersonation) => {
+  return jwt.sign(
+    { userId: user.id, role: user.role, sessionId, impersonatorId: impersonator.id, impersonationId: impersonation.id },
+    process.env.JWT_SECRET || 'your-super-secret-jwt-key-here',
+    { expiresIn: process.env.IMPERSONATION_EXPIRES_IN || '30m' }
+  );
+};
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// POST /api/impersonation - Start acting as another user (users:impersonate)
+router.post('/', requireSession, forbidImpersonation, requirePermission('users:impersonate'), validate(impersonateSchema), async (req, res) => {
+  try {
+    const { userId } = req.body;
+
+    if (userId === req.user.id) {
+      return errorResponse(res, 'Cannot impersonate yourself', 'VALIDATION_ERROR', 400);
+    }
+
+    const user = await User.findByPk(userId);
+    if (!user) {
+      return errorResponse(res, 'User not found', 'NOT_FOUND', 404);
+    }
+
+    if (!user.is_active) {
+      return errorResponse(res, 'Cannot impersonate a deactivated user', 'VALIDATION_ERROR', 400);
+    }
+
+    // Admins who can impersonate are not impersonated themselves, so one
+    // admin cannot act with another's rights
+    if ((await user.getPermissions()).includes('users:impersonate')) {
+      return errorResponse(res, 'Cannot impersonate a user who can impersonate others', 'AUTHORIZATION_ERROR', 403);
+    }
+
+    // Nor can anyone gain permissions they lack by acting as someone else
+    const role = await Role.findByName(user.role);
+    if (role && !canAssignRole(req, role)) {
+      return errorResponse(res, 'Cannot impersonate a user with permissions you do not have', 'AUTHORIZATION_ERROR', 403);
+    }
+
+    const impersonation = await ImpersonationSession.create({ impersonator_id: req.user.id, user_id: user.id });
+    await SecurityEvent.log('impersonation_started', { user });
+
+    successResponse(res, {
+      token: generateImpersonationToken(user, req.user, req.sessionId, impersonation),
+      user: user.toJSON()
+    }, 'Impersonation started');
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// POST /api/impersonation/end - Stop impersonating; called with the impersonation
+// token, which stops working on every connection from then on
+router.post('/end', async (req, res) => {
+  try {
+    if (!req.impersonator) {
+      return errorResponse(res, 'Not impersonating anyone', 'VALIDATION_ERROR', 400);
+    }
+
+    await ImpersonationSession.update({ ended_at: new Date() }, { where: { id: req.impersonationId } });
+    realtime.endImpersonation(req.impersonationId);
+    await SecurityEvent.log('impersonation_ended', { user: req.user });
+
+    successResponse(res, {}, 'Impersonation ended');
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// GET /api/impersonation/logs - Get the requests made while impersonating, newest first (audit:view)
+router.get('/logs', requirePermission('audit:view'), async (req, res) => {
+  try {
+    const { page = 1, limit = 50, impersonatorId, userId } = req.query;
+    const offset = (page - 1) * limit;
+
+    const whereClause = {};
+    if (impersonatorId) {
+      whereClause.impersonator_id = impersonatorId;
+    }
+    if (userId) {
+      whereClause.user_id = userId;
+    }
+
+    const logs = await ImpersonationLog.findAndCountAll({
+      where: whereClause,
+      limit: parseInt(limit),
+      offset: parseInt(offset),
+      order: [['createdAt', 'DESC'], ['id', 'DESC']],
+      include: [
+        {
+          model: User,
+          as: 'impersonator',
+          attributes: ['id', 'name', 'email']
+        },
+        {
+          model: User,
+          as: 'user',
+          attributes: ['id', 'name', 'email']
+        }
+      ]
+    });
+
+    const pagination = {
+      page: parseInt(page),
+      limit: parseInt(limit),
+      total: logs.count,
+      pages: Math.ceil(logs.count / limit)
+    };
+
+    successResponse(res, {
+      logs: logs.rows,
+      pagination
+    });
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+module.exports = router;
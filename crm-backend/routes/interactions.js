@@ -1,7 +1,10 @@
 const express = require('express');
-const { Interaction, Customer, User } = require('../models');
-const { authenticateToken, requireUser } = require('../middleware/auth');
+const { Op } = require('sequelize');
+const { Interaction, Account, Customer, Lead, User, sequelize } = require('../models');
+const { authenticateToken, requirePermission, loadRecordVisibility, visibleRecordsWhere } = require('../middleware/auth');
 const { validate, interactionSchema } = require('../middleware/validation');
+const webhooks = require('../services/webhooks');
+const realtime = require('../services/realtime');
 
 const router = express.Router();
 
@@ -24,21 +27,28 @@ const errorResponse = (res, error, code = 'ERROR', status = 500) => {
 
 // Apply authentication to all routes
 router.use(authenticateToken);
-router.use(requireUser);
+router.use(loadRecordVisibility);
 
 // GET /api/interactions - Get all interactions
-router.get('/', async (req, res) => {
+router.get('/', requirePermission('interactions:view'), async (req, res) => {
   try {
-    const { page = 1, limit = 20, customerId, type } = req.query;
+    const { page = 1, limit = 20, customerId, accountId, leadId, type } = req.query;
     const offset = (page - 1) * limit;
 
     const whereClause = {};
     if (customerId) {
       whereClause.customerId = customerId;
     }
+    if (accountId) {
+      whereClause.account_id = accountId;
+    }
+    if (leadId) {
+      whereClause.lead_id = leadId;
+    }
     if (type) {
       whereClause.type = type;
     }
+    whereClause[Op.and] = [visibleRecordsWhere(req, 'created_by')];
 
     const interactions = await Interaction.findAndCountAll({
       where: whereClause,
@@ -51,6 +61,11 @@ router.get('/', async (req, res) => {
           as: 'customer',
           attributes: ['id', 'name', 'email', 'company']
         },
+        {
+          model: Account,
+          as: 'account',
+          attributes: ['id', 'name']
+        },
         {
           model: User,
           as: 'createdByUser',
@@ -76,22 +91,51 @@ router.get('/', async (req, res) => {
 });
 
 // POST /api/interactions - Create new interaction
-router.post('/', validate(interactionSchema), async (req, res) => {
+router.post('/', requirePermission('interactions:edit'), validate(interactionSchema), async (req, res) => {
   try {
-    const { customerId, type, notes, date } = req.body;
+    const { leadId, type, notes, date } = req.body;
+    let { customerId, accountId } = req.body;
 
-    // Verify customer exists
-    const customer = await Customer.findByPk(customerId);
-    if (!customer) {
-      return errorResponse(res, 'Customer not found', 'NOT_FOUND', 404);
+    // Verify lead exists and is visible; its contact and account are used when none were given
+    if (leadId) {
+      const lead = await Lead.findOne({
+        where: { id: leadId, ...visibleRecordsWhere(req, 'owner_id', 'assigned_to') }
+      });
+      if (!lead) {
+        return errorResponse(res, 'Lead not found', 'NOT_FOUND', 404);
+      }
+      customerId = customerId || lead.customer_id;
+      accountId = accountId || lead.account_id;
+    }
+
+    // Verify customer exists and is visible; its account is used when none was given
+    let customer = null;
+    if (customerId) {
+      customer = await Customer.findOne({
+        where: { id: customerId, ...visibleRecordsWhere(req, 'owner_id') }
+      });
+      if (!customer) {
+        return errorResponse(res, 'Customer not found', 'NOT_FOUND', 404);
+      }
+      accountId = accountId || customer.account_id;
     }
 
-    const interaction = await Interaction.create({
-      customer_id: customerId,
-      type,
-      notes,
-      date: date || new Date(),
-      created_by: req.user.id
+    if (accountId && !(await Account.findByPk(accountId))) {
+      return errorResponse(res, 'Account not found', 'NOT_FOUND', 404);
+    }
+
+    const interaction = await sequelize.transaction(async (transaction) => {
+      const created = await Interaction.create({
+        customer_id: customerId || null,
+        account_id: accountId || null,
+        lead_id: leadId || null,
+        type,
+        notes,
+        date: date || new Date(),
+        created_by: req.user.id
+      }, { transaction });
+      await webhooks.emit('interaction.created', { interaction: created }, { transaction });
+      return created;
     });
 
     // Fetch interaction with associations
@@ -102,6 +146,11 @@ router.post('/', validate(interactionSchema), async (req, res) => {
           as: 'customer',
           attributes: ['id', 'name', 'email', 'company']
         },
+        {
+          model: Account,
+          as: 'account',
+          attributes: ['id', 'name']
+        },
         {
           model: User,
           as: 'createdByUser',
@@ -110,6 +159,12 @@ router.post('/', validate(interactionSchema), async (req, res) => {
       ]
     });
 
+    // Seen by those who see its creator, as in the interaction list
+    realtime.publish('interaction:created', {
+      customerId: interaction.customer_id,
+      interaction: interactionWithAssociations
+    }, { permission: 'interactions:view', userIds: [interaction.created_by] });
+
     successResponse(res, {
       interaction: interactionWithAssociations
     }, 'Interaction created successfully', 201);
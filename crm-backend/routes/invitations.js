@@ -0,0 +1,141 @@
+const express = require('express');
+const { Invitation, User, Role, sequelize } = require('../models');
+const { authenticateToken, requirePermission, canAssignRole } = require('../middleware/auth');
+const { validate, inviteUserSchema } = require('../middleware/validation');
+const { sendInvitationEmail } = require('../services/mailer');
+
+const router = express.Router();
+
+// Helper functions
+const successResponse = (res, data, message = 'Success', status = 200) => {
+  res.status(status).json({
+    success: true,
+    data,
+    message
+  });
+};
+
+const errorResponse = (res, error, code = 'ERROR', status = 500) => {
+  res.status(status).json({
+    success: false,
+    error: error.message || error,
+    code
+  });
+};
+
+// Issue an invitation and email it. Both happen in one transaction, so an
+// invitation that could not be sent does not linger.
+const sendInvitation = (inviter, attributes) => sequelize.transaction(async (transaction) => {
+  const { token, record } = await Invitation.issue(inviter, attributes, { transaction });
+  await sendInvitationEmail(record, token, inviter);
+  return record;
+});
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+router.use(requirePermission('users:manage'));
+
+// GET /api/invitations - Get all invitations (users:manage)
+router.get('/', async (req, res) => {
+  try {
+    const invitations = await Invitation.findAll({
+      order: [['createdAt', 'DESC']],
+      include: [
+        {
+          model: User,
+          as: 'inviter',
+          attributes: ['id', 'name', 'email']
+        }
+      ]
+    });
+
+    successResponse(res, {
+      invitations
+    });
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// POST /api/invitations - Invite someone to create an account (users:manage)
+router.post('/', validate(inviteUserSchema), async (req, res) => {
+  try {
+    const { email, name, role = 'user', expiresInDays = 7 } = req.body;
+
+    if (await User.findOne({ where: { email } })) {
+      return errorResponse(res, 'User with this email already exists', 'DUPLICATE_ENTRY', 409);
+    }
+
+    const invitedRole = await Role.findByName(role);
+    if (!invitedRole) {
+      return errorResponse(res, 'Invalid role', 'VALIDATION_ERROR', 400);
+    }
+
+    if (!canAssignRole(req, invitedRole)) {
+      return errorResponse(res, `You are not allowed to give out the ${role} role`, 'AUTHORIZATION_ERROR', 403);
+    }
+
+    const invitation = await sendInvitation(req.user, { email, name, role, expiresInDays });
+
+    successResponse(res, {
+      invitation
+    }, 'Invitation sent successfully', 201);
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// POST /api/invitations/:id/resend - Send an open or expired invitation again with a new link (users:manage)
+router.post('/:id/resend', async (req, res) => {
+  try {
+    const invitation = await Invitation.findByPk(req.params.id);
+    if (!invitation) {
+      return errorResponse(res, 'Invitation not found', 'NOT_FOUND', 404);
+    }
+
+    if (invitation.accepted_at) {
+      return errorResponse(res, 'Invitation has already been accepted', 'VALIDATION_ERROR', 400);
+    }
+
+    // The role may have gained permissions since the invitation was first sent
+    const invitedRole = await Role.findByName(invitation.role);
+    if (invitedRole && !canAssignRole(req, invitedRole)) {
+      return errorResponse(res, `You are not allowed to give out the ${invitation.role} role`, 'AUTHORIZATION_ERROR', 403);
+    }
+
+    const { email, name, role } = invitation;
+    const resent = await sendInvitation(req.user, { email, name, role, expiresInDays: 7 });
+
+    successResponse(res, {
+      invitation: resent
+    }, 'Invitation sent successfully');
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// DELETE /api/invitations/:id - Revoke an invitation (users:manage)
+router.delete('/:id', async (req, res) => {
+  try {
+    const invitation = await Invitation.findByPk(req.params.id);
+    if (!invitation) {
+      return errorResponse(res, 'Invitation not found', 'NOT_FOUND', 404);
+    }
+
+    if (invitation.accepted_at) {
+      return errorResponse(res, 'Invitation has already been accepted', 'VALIDATION_ERROR', 400);
+    }
+
+    if (!invitation.revoked_at) {
+      await invitation.update({ revoked_at: new Date() });
+    }
+
+    successResponse(res, {
+      invitation
+    }, 'Invitation revoked successfully');
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+module.exports = router;
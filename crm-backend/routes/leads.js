@@ -1,8 +1,10 @@
 const express = require('express');
 const { Op } = require('sequelize');
-const { Lead, Customer, User, sequelize } = require('../models');
-const { authenticateToken, requireUser } = require('../middleware/auth');
-const { validate, leadSchema, updateLeadStageSchema } = require('../middleware/validation');
+const { Lead, Account, Customer, User, Task, Interaction, Pipeline, PipelineStage, LossReason, LeadStageHistory, CustomFieldDefinition, sequelize } = require('../models');
+const { authenticateToken, requirePermission, hasPermission, loadRecordVisibility, visibleRecordsWhere } = require('../middleware/auth');
+const { validate, validateCustomFields, leadSchema, updateLeadStageSchema } = require('../middleware/validation');
+const webhooks = require('../services/webhooks');
+const realtime = require('../services/realtime');
 
 const router = express.Router();
 
@@ -23,28 +25,119 @@ const errorResponse = (res, error, code = 'ERROR', status = 500) => {
   });
 };
 
+// Resolve a stage key within a pipeline, defaulting to the pipeline's first stage
+const resolveStage = async (pipelineId, key) => {
+  if (!key) {
+    const stages = await PipelineStage.getOrdered(pipelineId);
+    return stages[0] || null;
+  }
+  return PipelineStage.findByKey(pipelineId, key);
+};
+
+// Work out the close fields for a lead entering a stage, or null when a lost
+// deal is missing a configured loss reason
+const getOutcomeAttributes = async (stage, closeReason) => {
+  if (!stage.isTerminal()) {
+    return { closed_at: null, close_reason: null };
+  }
+  if (stage.is_lost && !(await LossReason.isValidReason(closeReason))) {
+    return null;
+  }
+  return { closed_at: new Date(), close_reason: closeReason || null };
+};
+
+const LOSS_REASON_REQUIRED = 'A valid loss reason is required to mark a lead as lost';
+
+// Map request body fields onto Lead model attributes
+const toLeadAttributes = (body) => {
+  const { customerId, accountId, ownerId, assignedTo, pipelineId, expectedCloseDate, closeReason, customFields, ...attributes } = body;
+  if (customerId !== undefined) attributes.customer_id = customerId;
+  if (accountId !== undefined) attributes.account_id = accountId;
+  if (ownerId !== undefined) attributes.owner_id = ownerId;
+  if (assignedTo !== undefined) attributes.assigned_to = assignedTo;
+  if (pipelineId !== undefined) attributes.pipeline_id = pipelineId;
+  if (expectedCloseDate !== undefined) attributes.expected_close_date = expectedCloseDate;
+  if (customFields !== undefined) attributes.custom_fields = customFields;
+  return attributes;
+};
+
+// Check the contact and account of a lead, taking the account from the contact
+// when only the contact is given; returns an error message when invalid.
+// Contacts hidden from the current user count as invalid.
+const linkContactAndAccount = async (req, attributes, lead = null) => {
+  const customerId = attributes.customer_id !== undefined ? attributes.customer_id : lead?.customer_id;
+  const accountId = attributes.account_id !== undefined ? attributes.account_id : lead?.account_id;
+  if (!customerId && !accountId) {
+    return 'A lead needs a contact or an account';
+  }
+
+  if (attributes.customer_id) {
+    const customer = await Customer.findOne({
+      where: { id: attributes.customer_id, ...visibleRecordsWhere(req, 'owner_id') }
+    });
+    if (!customer) {
+      return 'Invalid contact';
+    }
+    if (attributes.account_id === undefined && customer.account_id) {
+      attributes.account_id = customer.account_id;
+    }
+  }
+
+  if (attributes.account_id && !(await Account.findByPk(attributes.account_id))) {
+    return 'Invalid account';
+  }
+  return null;
+};
+
+const OWNER_CHANGE_FORBIDDEN = 'You are not allowed to give a lead to another owner';
+
+// Find a lead the current user is allowed to see, as owner or assignee
+const findVisibleLead = (req, id, options = {}) => Lead.findOne({
+  ...options,
+  where: { id, ...visibleRecordsWhere(req, 'owner_id', 'assigned_to') }
+});
+
+// Tell connected users who can see the lead that it moved
+const publishStageUpdate = (lead, oldStage) => {
+  realtime.publish('lead:stage:updated', {
+    leadId: lead.id,
+    oldStage,
+    newStage: lead.stage,
+    lead
+  }, { permission: 'leads:view', userIds: [lead.owner_id, lead.assigned_to] });
+};
+
 // Apply authentication to all routes
 router.use(authenticateToken);
-router.use(requireUser);
+router.use(loadRecordVisibility);
 
 // GET /api/leads - Get all leads with filtering
-router.get('/', async (req, res) => {
+router.get('/', requirePermission('leads:view'), async (req, res) => {
   try {
-    const { page = 1, limit = 10, stage, customerId, assignedTo } = req.query;
+    const { page = 1, limit = 10, stage, customerId, accountId, assignedTo, pipelineId, customFields } = req.query;
     const offset = (page - 1) * limit;
 
     // Build where clause
     const whereClause = {};
+    if (pipelineId) {
+      whereClause.pipeline_id = pipelineId;
+    }
     if (stage) {
       whereClause.stage = stage;
     }
     if (customerId) {
-      whereClause.customerId = customerId;
+      whereClause.customer_id = customerId;
+    }
+    if (accountId) {
+      whereClause.account_id = accountId;
     }
     if (assignedTo) {
-      whereClause.assignedTo = assignedTo;
+      whereClause.assigned_to = assignedTo;
     }
 
+    const customFieldFilters = await CustomFieldDefinition.buildFilters('lead', 'Lead', customFields);
+    whereClause[Op.and] = [...customFieldFilters, visibleRecordsWhere(req, 'owner_id', 'assigned_to')];
+
     // Get leads with pagination
     const leads = await Lead.findAndCountAll({
       where: whereClause,
@@ -57,10 +150,20 @@ router.get('/', async (req, res) => {
           as: 'customer',
           attributes: ['id', 'name', 'email', 'company']
         },
+        {
+          model: Account,
+          as: 'account',
+          attributes: ['id', 'name']
+        },
         {
           model: User,
           as: 'assignedUser',
           attributes: ['id', 'name', 'email']
+        },
+        {
+          model: User,
+          as: 'owner',
+          attributes: ['id', 'name']
         }
       ]
     });
@@ -84,9 +187,46 @@ router.get('/', async (req, res) => {
 });
 
 // POST /api/leads - Create new lead
-router.post('/', validate(leadSchema), async (req, res) => {
+router.post('/', requirePermission('leads:edit'), validate(leadSchema), validateCustomFields('lead'), async (req, res) => {
   try {
-    const lead = await Lead.create(req.body);
+    const pipeline = await Pipeline.resolve(req.body.pipelineId);
+    if (!pipeline) {
+      return errorResponse(res, 'Invalid pipeline', 'VALIDATION_ERROR', 400);
+    }
+
+    const stage = await resolveStage(pipeline.id, req.body.stage);
+    if (!stage) {
+      return errorResponse(res, 'Invalid pipeline stage', 'VALIDATION_ERROR', 400);
+    }
+
+    const outcome = await getOutcomeAttributes(stage, req.body.closeReason);
+    if (!outcome) {
+      return errorResponse(res, LOSS_REASON_REQUIRED, 'VALIDATION_ERROR', 400);
+    }
+
+    const attributes = toLeadAttributes(req.body);
+    const linkError = await linkContactAndAccount(req, attributes);
+    if (linkError) {
+      return errorResponse(res, linkError, 'VALIDATION_ERROR', 400);
+    }
+
+    // New leads belong to their creator unless an admin picks the owner
+    if (attributes.owner_id === undefined) {
+      attributes.owner_id = req.user.id;
+    } else if (!hasPermission(req, 'records:reassign') && attributes.owner_id !== req.user.id) {
+      return errorResponse(res, OWNER_CHANGE_FORBIDDEN, 'AUTHORIZATION_ERROR', 403);
+    }
+
+    const lead = await sequelize.transaction(async (transaction) => {
+      const newLead = await Lead.create({
+        ...attributes,
+        ...outcome,
+        pipeline_id: pipeline.id,
+        stage: stage.key
+      }, { transaction });
+      await LeadStageHistory.record(newLead, null, req.user.id, { transaction });
+      return newLead;
+    });
     
     // Fetch lead with associations
     const leadWithAssociations = await Lead.findByPk(lead.id, {
@@ -96,10 +236,20 @@ router.post('/', validate(leadSchema), async (req, res) => {
           as: 'customer',
           attributes: ['id', 'name', 'email', 'company']
         },
+        {
+          model: Account,
+          as: 'account',
+          attributes: ['id', 'name']
+        },
         {
           model: User,
           as: 'assignedUser',
           attributes: ['id', 'name', 'email']
+        },
+        {
+          model: User,
+          as: 'owner',
+          attributes: ['id', 'name']
         }
       ]
     });
@@ -112,23 +262,77 @@ router.post('/', validate(leadSchema), async (req, res) => {
   }
 });
 
-// GET /api/leads/:id - Get lead by ID
-router.get('/:id', async (req, res) => {
+// GET /api/leads/:id - Get lead by ID with its tasks, interactions and stage history
+router.get('/:id', requirePermission('leads:view'), async (req, res) => {
   try {
     const { id } = req.params;
 
-    const lead = await Lead.findByPk(id, {
+    const lead = await findVisibleLead(req, id, {
       include: [
         {
           model: Customer,
           as: 'customer',
           attributes: ['id', 'name', 'email', 'company', 'phone']
         },
+        {
+          model: Account,
+          as: 'account',
+          attributes: ['id', 'name']
+        },
         {
           model: User,
           as: 'assignedUser',
-          attributes: ['id', 'name', 'email']
+          attributes: ['id', 'name', 'email', 'is_active']
+        },
+        {
+          model: User,
+          as: 'owner',
+          attributes: ['id', 'name', 'is_active']
+        },
+        {
+          model: Pipeline,
+          as: 'pipeline',
+          attributes: ['id', 'name']
+        },
+        {
+          model: Task,
+          as: 'tasks',
+          include: [
+            {
+              model: User,
+              as: 'assignedUser',
+              attributes: ['id', 'name', 'is_active']
+            }
+          ]
+        },
+        {
+          model: Interaction,
+          as: 'interactions',
+          include: [
+            {
+              model: User,
+              as: 'createdByUser',
+              attributes: ['id', 'name', 'is_active']
+            }
+          ]
+        },
+        {
+          model: LeadStageHistory,
+          as: 'stageHistory',
+          include: [
+            {
+              model: User,
+              as: 'changedByUser',
+              attributes: ['id', 'name', 'is_active']
+            }
+          ]
         }
+      ],
+      order: [
+        [{ model: Task, as: 'tasks' }, 'dueDate', 'ASC'],
+        [{ model: Interaction, as: 'interactions' }, 'date', 'DESC'],
+        [{ model: LeadStageHistory, as: 'stageHistory' }, 'changed_at', 'ASC'],
+        [{ model: LeadStageHistory, as: 'stageHistory' }, 'id', 'ASC']
       ]
     });
 
@@ -144,17 +348,104 @@ router.get('/:id', async (req, res) => {
   }
 });
 
+// GET /api/leads/:id/history - Get stage transitions of a lead
+router.get('/:id/history', requirePermission('leads:view'), async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const lead = await findVisibleLead(req, id);
+    if (!lead) {
+      return errorResponse(res, 'Lead not found', 'NOT_FOUND', 404);
+    }
+
+    const history = await LeadStageHistory.getForLead(lead.id, {
+      include: [
+        {
+          model: User,
+          as: 'changedByUser',
+          attributes: ['id', 'name', 'email']
+        }
+      ]
+    });
+
+    successResponse(res, {
+      history
+    });
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
 // PUT /api/leads/:id - Update lead
-router.put('/:id', validate(leadSchema), async (req, res) => {
+router.put('/:id', requirePermission('leads:edit'), validate(leadSchema), validateCustomFields('lead'), async (req, res) => {
   try {
     const { id } = req.params;
 
-    const lead = await Lead.findByPk(id);
+    const lead = await findVisibleLead(req, id);
     if (!lead) {
       return errorResponse(res, 'Lead not found', 'NOT_FOUND', 404);
     }
 
-    await lead.update(req.body);
+    const attributes = toLeadAttributes(req.body);
+    const linkError = await linkContactAndAccount(req, attributes, lead);
+    if (linkError) {
+      return errorResponse(res, linkError, 'VALIDATION_ERROR', 400);
+    }
+
+    const ownerChanged = attributes.owner_id !== undefined && attributes.owner_id !== lead.owner_id;
+    if (ownerChanged && !hasPermission(req, 'records:reassign')) {
+      return errorResponse(res, OWNER_CHANGE_FORBIDDEN, 'AUTHORIZATION_ERROR', 403);
+    }
+
+    // Moving to another pipeline starts the lead at that pipeline's first stage
+    const pipelineId = attributes.pipeline_id || lead.pipeline_id;
+    const pipelineChanged = pipelineId !== lead.pipeline_id;
+    if (pipelineChanged && !(await Pipeline.findByPk(pipelineId))) {
+      return errorResponse(res, 'Invalid pipeline', 'VALIDATION_ERROR', 400);
+    }
+
+    let stage = null;
+    if (attributes.stage || pipelineChanged) {
+      stage = await resolveStage(pipelineId, attributes.stage);
+      if (!stage) {
+        return errorResponse(res, 'Invalid pipeline stage', 'VALIDATION_ERROR', 400);
+      }
+      attributes.stage = stage.key;
+    }
+
+    // Entering a new stage sets or clears the outcome; otherwise only the reason can change
+    const { closeReason } = req.body;
+    if (stage && (pipelineChanged || stage.key !== lead.stage)) {
+      const outcome = await getOutcomeAttributes(stage, closeReason);
+      if (!outcome) {
+        return errorResponse(res, LOSS_REASON_REQUIRED, 'VALIDATION_ERROR', 400);
+      }
+      Object.assign(attributes, outcome);
+    } else if (closeReason !== undefined) {
+      const currentStage = stage || await PipelineStage.findByKey(lead.pipeline_id, lead.stage);
+      if (currentStage && currentStage.isTerminal()) {
+        if (currentStage.is_lost && !(await LossReason.isValidReason(closeReason))) {
+          return errorResponse(res, LOSS_REASON_REQUIRED, 'VALIDATION_ERROR', 400);
+        }
+        attributes.close_reason = closeReason || null;
+      }
+    }
+
+    // A move to another pipeline starts a fresh history there, so it has no from stage
+    const oldStage = lead.stage;
+    await sequelize.transaction(async (transaction) => {
+      await lead.update({ ...attributes, pipeline_id: pipelineId }, { transaction });
+      if (pipelineChanged || lead.stage !== oldStage) {
+        const fromStage = pipelineChanged ? null : oldStage;
+        await LeadStageHistory.record(lead, fromStage, req.user.id, { transaction });
+        await webhooks.emit('lead.stage_changed', {
+          lead,
+          fromStage,
+          toStage: lead.stage,
+          changedBy: req.user.id
+        }, { transaction });
+      }
+    });
 
     // Fetch updated lead with associations
     const updatedLead = await Lead.findByPk(id, {
@@ -164,14 +455,28 @@ router.put('/:id', validate(leadSchema), async (req, res) => {
           as: 'customer',
           attributes: ['id', 'name', 'email', 'company']
         },
+        {
+          model: Account,
+          as: 'account',
+          attributes: ['id', 'name']
+        },
         {
           model: User,
           as: 'assignedUser',
           attributes: ['id', 'name', 'email']
+        },
+        {
+          model: User,
+          as: 'owner',
+          attributes: ['id', 'name']
         }
       ]
     });
 
+    if (pipelineChanged || updatedLead.stage !== oldStage) {
+      publishStageUpdate(updatedLead, pipelineChanged ? null : oldStage);
+    }
+
     successResponse(res, {
       lead: updatedLead
     }, 'Lead updated successfully');
@@ -181,18 +486,38 @@ router.put('/:id', validate(leadSchema), async (req, res) => {
 });
 
 // PUT /api/leads/:id/stage - Update lead stage (for drag-and-drop)
-router.put('/:id/stage', validate(updateLeadStageSchema), async (req, res) => {
+router.put('/:id/stage', requirePermission('leads:edit'), validate(updateLeadStageSchema), async (req, res) => {
   try {
     const { id } = req.params;
-    const { stage } = req.body;
+    const { stage, closeReason } = req.body;
 
-    const lead = await Lead.findByPk(id);
+    const lead = await findVisibleLead(req, id);
     if (!lead) {
       return errorResponse(res, 'Lead not found', 'NOT_FOUND', 404);
     }
 
+    const newStage = await resolveStage(lead.pipeline_id, stage);
+    if (!newStage) {
+      return errorResponse(res, 'Invalid pipeline stage', 'VALIDATION_ERROR', 400);
+    }
+
     const oldStage = lead.stage;
-    await lead.update({ stage });
+    if (oldStage !== stage) {
+      const outcome = await getOutcomeAttributes(newStage, closeReason);
+      if (!outcome) {
+        return errorResponse(res, LOSS_REASON_REQUIRED, 'VALIDATION_ERROR', 400);
+      }
+      await sequelize.transaction(async (transaction) => {
+        await lead.update({ stage, ...outcome }, { transaction });
+        await LeadStageHistory.record(lead, oldStage, req.user.id, { transaction });
+        await webhooks.emit('lead.stage_changed', {
+          lead,
+          fromStage: oldStage,
+          toStage: stage,
+          changedBy: req.user.id
+        }, { transaction });
+      });
+    }
 
     // Fetch updated lead with associations
     const updatedLead = await Lead.findByPk(id, {
@@ -202,14 +527,28 @@ router.put('/:id/stage', validate(updateLeadStageSchema), async (req, res) => {
           as: 'customer',
           attributes: ['id', 'name', 'email', 'company']
         },
+        {
+          model: Account,
+          as: 'account',
+          attributes: ['id', 'name']
+        },
         {
           model: User,
           as: 'assignedUser',
           attributes: ['id', 'name', 'email']
+        },
+        {
+          model: User,
+          as: 'owner',
+          attributes: ['id', 'name']
         }
       ]
     });
 
+    if (oldStage !== stage) {
+      publishStageUpdate(updatedLead, oldStage);
+    }
+
     successResponse(res, {
       lead: updatedLead,
       oldStage,
@@ -221,11 +560,11 @@ router.put('/:id/stage', validate(updateLeadStageSchema), async (req, res) => {
 });
 
 // DELETE /api/leads/:id - Delete lead
-router.delete('/:id', async (req, res) => {
+router.delete('/:id', requirePermission('leads:delete'), async (req, res) => {
   try {
     const { id } = req.params;
 
-    const lead = await Lead.findByPk(id);
+    const lead = await findVisibleLead(req, id);
     if (!lead) {
       return errorResponse(res, 'Lead not found', 'NOT_FOUND', 404);
     }
@@ -239,10 +578,16 @@ router.delete('/:id', async (req, res) => {
 });
 
 // GET /api/leads/stats - Get pipeline statistics
-router.get('/stats/overview', async (req, res) => {
+router.get('/stats/overview', requirePermission('leads:view'), async (req, res) => {
   try {
+    const pipeline = await Pipeline.resolve(req.query.pipelineId);
+    if (!pipeline) {
+      return errorResponse(res, 'Pipeline not found', 'NOT_FOUND', 404);
+    }
+
     // Get counts by stage
     const stageStats = await Lead.findAll({
+      where: { pipeline_id: pipeline.id, ...visibleRecordsWhere(req, 'owner_id', 'assigned_to') },
       attributes: [
         'stage',
         [sequelize.fn('COUNT', sequelize.col('id')), 'count'],
@@ -257,27 +602,40 @@ router.get('/stats/overview', async (req, res) => {
       return sum + (parseFloat(stat.totalValue) || 0);
     }, 0);
 
-    // Calculate conversion rate
-    const totalLeads = stageStats.reduce((sum, stat) => sum + parseInt(stat.count), 0);
-    const closedLeads = stageStats.find(stat => stat.stage === 'closed')?.count || 0;
-    const conversionRate = totalLeads > 0 ? (closedLeads / totalLeads) * 100 : 0;
-
-    // Format response
-    const stages = {
-      lead: 0,
-      qualified: 0,
-      proposal: 0,
-      closed: 0
+    // Count leads in won and lost stages
+    const pipelineStages = await pipeline.getOrderedStages();
+    const countWhere = (predicate) => {
+      const keys = pipelineStages.filter(predicate).map(stage => stage.key);
+      return stageStats
+        .filter(stat => keys.includes(stat.stage))
+        .reduce((sum, stat) => sum + parseInt(stat.count), 0);
     };
+    const totalLeads = stageStats.reduce((sum, stat) => sum + parseInt(stat.count), 0);
+    const wonLeads = countWhere(stage => stage.is_won);
+    const lostLeads = countWhere(stage => stage.is_lost);
+
+    // Conversion is won out of all leads; win rate is won out of closed leads
+    const conversionRate = totalLeads > 0 ? (wonLeads / totalLeads) * 100 : 0;
+    const winRate = wonLeads + lostLeads > 0 ? (wonLeads / (wonLeads + lostLeads)) * 100 : 0;
+
+    // Format response with every configured stage, in pipeline order
+    const stages = {};
+    pipelineStages.forEach(stage => {
+      stages[stage.key] = 0;
+    });
 
     stageStats.forEach(stat => {
       stages[stat.stage] = parseInt(stat.count);
     });
 
     successResponse(res, {
+      pipelineId: pipeline.id,
       stages,
       totalValue: parseFloat(totalValue.toFixed(2)),
       conversionRate: parseFloat(conversionRate.toFixed(2)),
+      winRate: parseFloat(winRate.toFixed(2)),
+      won: wonLeads,
+      lost: lostLeads,
       totalLeads
     });
   } catch (error) {
@@ -0,0 +1,122 @@
+const express = require('express');
+const { LossReason, Lead, sequelize } = require('../models');
+const { authenticateToken, requirePermission } = require('../middleware/auth');
+const { validate, lossReasonSchema } = require('../middleware/validation');
+
+const router = express.Router();
+
+// Helper functions
+const successResponse = (res, data, message = 'Success', status = 200) => {
+  res.status(status).json({
+    success: true,
+    data,
+    message
+  });
+};
+
+const errorResponse = (res, error, code = 'ERROR', status = 500) => {
+  res.status(status).json({
+    success: false,
+    error: error.message || error,
+    code
+  });
+};
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// GET /api/loss-reasons - Get loss reasons in order
+router.get('/', async (req, res) => {
+  try {
+    const { includeInactive } = req.query;
+
+    const lossReasons = await LossReason.getOrdered({
+      where: includeInactive === 'true' ? {} : { is_active: true }
+    });
+
+    successResponse(res, {
+      lossReasons
+    });
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// POST /api/loss-reasons - Create new loss reason (settings:manage)
+router.post('/', requirePermission('settings:manage'), validate(lossReasonSchema), async (req, res) => {
+  try {
+    const existingReason = await LossReason.findOne({ where: { name: req.body.name } });
+    if (existingReason) {
+      return errorResponse(res, 'A loss reason with this name already exists', 'DUPLICATE_ENTRY', 409);
+    }
+
+    // Append to the end of the list unless a position was given
+    const position = req.body.position ?? await LossReason.count();
+    const lossReason = await LossReason.create({ ...req.body, position });
+
+    successResponse(res, {
+      lossReason
+    }, 'Loss reason created successfully', 201);
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// PUT /api/loss-reasons/:id - Update loss reason (settings:manage)
+router.put('/:id', requirePermission('settings:manage'), validate(lossReasonSchema), async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const lossReason = await LossReason.findByPk(id);
+    if (!lossReason) {
+      return errorResponse(res, 'Loss reason not found', 'NOT_FOUND', 404);
+    }
+
+    const oldName = lossReason.name;
+    if (req.body.name !== oldName) {
+      const existingReason = await LossReason.findOne({ where: { name: req.body.name } });
+      if (existingReason) {
+        return errorResponse(res, 'A loss reason with this name already exists', 'DUPLICATE_ENTRY', 409);
+      }
+    }
+
+    // Renaming a reason keeps the leads that were lost for it grouped together
+    await sequelize.transaction(async (transaction) => {
+      await lossReason.update(req.body, { transaction });
+      if (lossReason.name !== oldName) {
+        await Lead.update({ close_reason: lossReason.name }, {
+          where: { close_reason: oldName },
+          individualHooks: true,
+          transaction
+        });
+      }
+    });
+
+    successResponse(res, {
+      lossReason
+    }, 'Loss reason updated successfully');
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// DELETE /api/loss-reasons/:id - Delete loss reason (settings:manage)
+router.delete('/:id', requirePermission('settings:manage'), async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const lossReason = await LossReason.findByPk(id);
+    if (!lossReason) {
+      return errorResponse(res, 'Loss reason not found', 'NOT_FOUND', 404);
+    }
+
+    // Leads keep the reason they were closed with
+    await lossReason.destroy();
+
+    successResponse(res, {}, 'Loss reason deleted successfully');
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,182 @@
+const express = require('express');
+const { Pipeline, PipelineStage, Lead, LeadStageHistory, sequelize } = require('../models');
+const { authenticateToken, requirePermission } = require('../middleware/auth');
+const { validate, pipelineStageSchema, reorderPipelineStagesSchema } = require('../middleware/validation');
+
+const router = express.Router();
+
+// Helper functions
+const successResponse = (res, data, message = 'Success', status = 200) => {
+  res.status(status).json({
+    success: true,
+    data,
+    message
+  });
+};
+
+const errorResponse = (res, error, code = 'ERROR', status = 500) => {
+  res.status(status).json({
+    success: false,
+    error: error.message || error,
+    code
+  });
+};
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// GET /api/pipeline-stages - Get the stages of a pipeline in order
+router.get('/', async (req, res) => {
+  try {
+    const pipeline = await Pipeline.resolve(req.query.pipelineId);
+    if (!pipeline) {
+      return errorResponse(res, 'Pipeline not found', 'NOT_FOUND', 404);
+    }
+
+    const stages = await pipeline.getOrderedStages();
+
+    successResponse(res, {
+      pipelineId: pipeline.id,
+      stages
+    });
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// POST /api/pipeline-stages - Create new stage (settings:manage)
+router.post('/', requirePermission('settings:manage'), validate(pipelineStageSchema), async (req, res) => {
+  try {
+    const { pipelineId, ...stageData } = req.body;
+
+    const pipeline = await Pipeline.resolve(pipelineId);
+    if (!pipeline) {
+      return errorResponse(res, 'Pipeline not found', 'NOT_FOUND', 404);
+    }
+
+    const existingStage = await PipelineStage.findByKey(pipeline.id, stageData.key);
+    if (existingStage) {
+      return errorResponse(res, 'A stage with this key already exists', 'DUPLICATE_ENTRY', 409);
+    }
+
+    // Append to the end of the pipeline unless a position was given
+    const position = stageData.position ?? await PipelineStage.count({ where: { pipeline_id: pipeline.id } });
+    const stage = await PipelineStage.create({ ...stageData, position, pipeline_id: pipeline.id });
+
+    successResponse(res, {
+      stage
+    }, 'Pipeline stage created successfully', 201);
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// PUT /api/pipeline-stages/reorder - Reorder stages (settings:manage)
+router.put('/reorder', requirePermission('settings:manage'), validate(reorderPipelineStagesSchema), async (req, res) => {
+  try {
+    const { pipelineId, stageIds } = req.body;
+
+    const pipeline = await Pipeline.resolve(pipelineId);
+    if (!pipeline) {
+      return errorResponse(res, 'Pipeline not found', 'NOT_FOUND', 404);
+    }
+
+    const where = { pipeline_id: pipeline.id };
+    const stageCount = await PipelineStage.count({ where: { ...where, id: stageIds } });
+    if (stageCount !== stageIds.length || stageCount !== await PipelineStage.count({ where })) {
+      return errorResponse(res, 'Stage order must include every stage of the pipeline exactly once', 'VALIDATION_ERROR', 400);
+    }
+
+    await sequelize.transaction(async (transaction) => {
+      for (const [position, id] of stageIds.entries()) {
+        await PipelineStage.update({ position }, { where: { id }, transaction });
+      }
+    });
+
+    const stages = await pipeline.getOrderedStages();
+
+    successResponse(res, {
+      stages
+    }, 'Pipeline stages reordered successfully');
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// PUT /api/pipeline-stages/:id - Update stage (settings:manage)
+router.put('/:id', requirePermission('settings:manage'), validate(pipelineStageSchema), async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const stage = await PipelineStage.findByPk(id);
+    if (!stage) {
+      return errorResponse(res, 'Pipeline stage not found', 'NOT_FOUND', 404);
+    }
+
+    // Stages cannot be moved between pipelines
+    const { pipelineId, ...stageData } = req.body;
+
+    const oldKey = stage.key;
+    if (stageData.key !== oldKey) {
+      const existingStage = await PipelineStage.findByKey(stage.pipeline_id, stageData.key);
+      if (existingStage) {
+        return errorResponse(res, 'A stage with this key already exists', 'DUPLICATE_ENTRY', 409);
+      }
+    }
+
+    // Renaming a key moves the leads and stage history that reference it along with it
+    await sequelize.transaction(async (transaction) => {
+      await stage.update(stageData, { transaction });
+      if (stage.key !== oldKey) {
+        await Lead.update({ stage: stage.key }, {
+          where: { pipeline_id: stage.pipeline_id, stage: oldKey },
+          individualHooks: true,
+          transaction
+        });
+        await LeadStageHistory.update({ from_stage: stage.key }, {
+          where: { pipeline_id: stage.pipeline_id, from_stage: oldKey },
+          transaction
+        });
+        await LeadStageHistory.update({ to_stage: stage.key }, {
+          where: { pipeline_id: stage.pipeline_id, to_stage: oldKey },
+          transaction
+        });
+      }
+    });
+
+    successResponse(res, {
+      stage
+    }, 'Pipeline stage updated successfully');
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// DELETE /api/pipeline-stages/:id - Delete stage (settings:manage)
+router.delete('/:id', requirePermission('settings:manage'), async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const stage = await PipelineStage.findByPk(id);
+    if (!stage) {
+      return errorResponse(res, 'Pipeline stage not found', 'NOT_FOUND', 404);
+    }
+
+    const leadCount = await Lead.count({ where: { pipeline_id: stage.pipeline_id, stage: stage.key } });
+    if (leadCount > 0) {
+      return errorResponse(res, 'Cannot delete a stage that still has leads', 'VALIDATION_ERROR', 400);
+    }
+
+    if (await PipelineStage.count({ where: { pipeline_id: stage.pipeline_id } }) === 1) {
+      return errorResponse(res, 'Cannot delete the last pipeline stage', 'VALIDATION_ERROR', 400);
+    }
+
+    await stage.destroy();
+
+    successResponse(res, {}, 'Pipeline stage deleted successfully');
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+module.exports = router;
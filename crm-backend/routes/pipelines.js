@@ -0,0 +1,189 @@
+const express = require('express');
+const { Op } = require('sequelize');
+const { Pipeline, PipelineStage, Lead, LeadStageHistory, sequelize } = require('../models');
+const { authenticateToken, requirePermission } = require('../middleware/auth');
+const { validate, pipelineSchema } = require('../middleware/validation');
+
+const router = express.Router();
+
+// Helper functions
+const successResponse = (res, data, message = 'Success', status = 200) => {
+  res.status(status).json({
+    success: true,
+    data,
+    message
+  });
+};
+
+const errorResponse = (res, error, code = 'ERROR', status = 500) => {
+  res.status(status).json({
+    success: false,
+    error: error.message || error,
+    code
+  });
+};
+
+// Include stages in pipeline order
+const stagesInclude = {
+  model: PipelineStage,
+  as: 'stages'
+};
+
+const stagesOrder = [
+  [{ model: PipelineStage, as: 'stages' }, 'position', 'ASC'],
+  [{ model: PipelineStage, as: 'stages' }, 'id', 'ASC']
+];
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// GET /api/pipelines - Get all pipelines with their stages
+router.get('/', async (req, res) => {
+  try {
+    const pipelines = await Pipeline.findAll({
+      include: [stagesInclude],
+      order: [['is_default', 'DESC'], ['name', 'ASC'], ...stagesOrder]
+    });
+
+    successResponse(res, {
+      pipelines
+    });
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// GET /api/pipelines/:id - Get pipeline by ID
+router.get('/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const pipeline = await Pipeline.findByPk(id, {
+      include: [stagesInclude],
+      order: stagesOrder
+    });
+
+    if (!pipeline) {
+      return errorResponse(res, 'Pipeline not found', 'NOT_FOUND', 404);
+    }
+
+    successResponse(res, {
+      pipeline
+    });
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// POST /api/pipelines - Create new pipeline (settings:manage)
+router.post('/', requirePermission('settings:manage'), validate(pipelineSchema), async (req, res) => {
+  try {
+    const { stages, ...pipelineData } = req.body;
+
+    const pipeline = await sequelize.transaction(async (transaction) => {
+      if (pipelineData.is_default) {
+        await Pipeline.update({ is_default: false }, { where: { is_default: true }, transaction });
+      }
+
+      const newPipeline = await Pipeline.create(pipelineData, { transaction });
+
+      // Use the given stages in order, or start from the standard stage set
+      if (stages) {
+        await PipelineStage.bulkCreate(
+          stages.map((stage, index) => ({ ...stage, position: index, pipeline_id: newPipeline.id })),
+          { transaction, validate: true }
+        );
+      } else {
+        await newPipeline.createDefaultStages({ transaction });
+      }
+
+      return newPipeline;
+    });
+
+    const pipelineWithStages = await Pipeline.findByPk(pipeline.id, {
+      include: [stagesInclude],
+      order: stagesOrder
+    });
+
+    successResponse(res, {
+      pipeline: pipelineWithStages
+    }, 'Pipeline created successfully', 201);
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// PUT /api/pipelines/:id - Update pipeline (settings:manage)
+router.put('/:id', requirePermission('settings:manage'), validate(pipelineSchema), async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const pipeline = await Pipeline.findByPk(id);
+    if (!pipeline) {
+      return errorResponse(res, 'Pipeline not found', 'NOT_FOUND', 404);
+    }
+
+    // Stages are managed through /api/pipeline-stages
+    const { stages, ...pipelineData } = req.body;
+
+    if (pipeline.is_default && pipelineData.is_default === false) {
+      return errorResponse(res, 'Choose another default pipeline instead of unsetting this one', 'VALIDATION_ERROR', 400);
+    }
+
+    await sequelize.transaction(async (transaction) => {
+      if (pipelineData.is_default) {
+        await Pipeline.update({ is_default: false }, {
+          where: { is_default: true, id: { [Op.ne]: pipeline.id } },
+          transaction
+        });
+      }
+
+      await pipeline.update(pipelineData, { transaction });
+    });
+
+    const updatedPipeline = await Pipeline.findByPk(id, {
+      include: [stagesInclude],
+      order: stagesOrder
+    });
+
+    successResponse(res, {
+      pipeline: updatedPipeline
+    }, 'Pipeline updated successfully');
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// DELETE /api/pipelines/:id - Delete pipeline (settings:manage)
+router.delete('/:id', requirePermission('settings:manage'), async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const pipeline = await Pipeline.findByPk(id);
+    if (!pipeline) {
+      return errorResponse(res, 'Pipeline not found', 'NOT_FOUND', 404);
+    }
+
+    if (pipeline.is_default) {
+      return errorResponse(res, 'Cannot delete the default pipeline', 'VALIDATION_ERROR', 400);
+    }
+
+    const leadCount = await Lead.count({ where: { pipeline_id: pipeline.id } });
+    if (leadCount > 0) {
+      return errorResponse(res, 'Cannot delete a pipeline that still has leads', 'VALIDATION_ERROR', 400);
+    }
+
+    // Stage history of leads that moved elsewhere is kept, detached from the pipeline
+    await sequelize.transaction(async (transaction) => {
+      await LeadStageHistory.update({ pipeline_id: null }, { where: { pipeline_id: pipeline.id }, transaction });
+      await PipelineStage.destroy({ where: { pipeline_id: pipeline.id }, transaction });
+      await pipeline.destroy({ transaction });
+    });
+
+    successResponse(res, {}, 'Pipeline deleted successfully');
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+module.exports = router;
@@ -1,7 +1,7 @@
 const express = require('express');
 const { Op } = require('sequelize');
-const { Customer, Lead, Task, Interaction, sequelize } = require('../models');
-const { authenticateToken, requireAdmin, requireUser } = require('../middleware/auth');
+const { Customer, Lead, Task, Interaction, Pipeline, PipelineStage, User, Team, LeadStageHistory, sequelize } = require('../models');
+const { authenticateToken, hasPermission, requirePermission, loadRecordVisibility, userRecordsWhere } = require('../middleware/auth');
 
 const router = express.Router();
 
@@ -22,11 +22,108 @@ const errorResponse = (res, error, code = 'ERROR', status = 500) => {
   });
 };
 
+// Build a SQL condition matching leads in any of the given stages
+const inStagesCondition = (stages) => {
+  return stages
+    .map(stage => `(pipeline_id = ${parseInt(stage.pipeline_id)} AND stage = ${sequelize.escape(stage.key)})`)
+    .join(' OR ');
+};
+
+// Build a COUNT(CASE ...) expression matching leads in any of the given stages
+const countInStages = (stages) => {
+  if (stages.length === 0) {
+    return sequelize.fn('COUNT', sequelize.literal('NULL'));
+  }
+  return sequelize.fn('COUNT', sequelize.literal(`CASE WHEN ${inStagesCondition(stages)} THEN 1 END`));
+};
+
+// Build a SUM(CASE ...) expression totalling lead value in any of the given stages
+const sumInStages = (stages) => {
+  if (stages.length === 0) {
+    return sequelize.fn('SUM', sequelize.literal('NULL'));
+  }
+  return sequelize.fn('SUM', sequelize.literal(`CASE WHEN ${inStagesCondition(stages)} THEN value END`));
+};
+
+// Get all stages flagged as won, across pipelines
+const getWonStages = () => {
+  return PipelineStage.findAll({ where: { is_won: true }, attributes: ['pipeline_id', 'key'] });
+};
+
+// Get all stages flagged as lost, across pipelines
+const getLostStages = () => {
+  return PipelineStage.findAll({ where: { is_lost: true }, attributes: ['pipeline_id', 'key'] });
+};
+
+// Build a lead filter from the pipelineId/startDate/endDate query parameters,
+// with the date range applied to when leads were closed
+const getClosedLeadsWhere = ({ pipelineId, startDate, endDate }) => {
+  const where = {};
+  if (pipelineId) {
+    where.pipeline_id = pipelineId;
+  }
+  if (startDate || endDate) {
+    where.closed_at = {};
+    if (startDate) where.closed_at[Op.gte] = new Date(startDate);
+    if (endDate) where.closed_at[Op.lte] = new Date(endDate);
+  }
+  return where;
+};
+
+const percentage = (part, total) => {
+  return total > 0 ? parseFloat(((part / total) * 100).toFixed(2)) : 0;
+};
+
+const roundCurrency = (amount) => parseFloat(amount.toFixed(2));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Parse an integer query parameter, falling back to a default and keeping it in range
+const clampInt = (value, fallback, min, max) => {
+  const parsed = parseInt(value);
+  return Math.min(Math.max(Number.isNaN(parsed) ? fallback : parsed, min), max);
+};
+
+// Get YYYY-MM month keys starting `offset` months from the current month
+const getMonthKeys = (offset, count) => {
+  const now = new Date();
+  return Array.from({ length: count }, (_, index) => {
+    const month = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + offset + index, 1));
+    return month.toISOString().slice(0, 7);
+  });
+};
+
+// Get per-stage lead counts for one pipeline with every stage, in pipeline order,
+// optionally limited to leads matching `where`
+const getPipelineBreakdown = async (pipeline, where = {}) => {
+  const pipelineStats = await Lead.findAll({
+    where: { ...where, pipeline_id: pipeline.id },
+    attributes: [
+      'stage',
+      [sequelize.fn('COUNT', sequelize.col('id')), 'count']
+    ],
+    group: ['stage'],
+    raw: true
+  });
+
+  const breakdown = {};
+  const stages = await pipeline.getOrderedStages();
+  stages.forEach(stage => {
+    breakdown[stage.key] = 0;
+  });
+
+  pipelineStats.forEach(stat => {
+    breakdown[stat.stage] = parseInt(stat.count);
+  });
+
+  return breakdown;
+};
+
 // Apply authentication to all routes
 router.use(authenticateToken);
 
-// GET /api/reports/dashboard - Get dashboard statistics (Admin only)
-router.get('/dashboard', requireAdmin, async (req, res) => {
+// GET /api/reports/dashboard - Get dashboard statistics (reports:view)
+router.get('/dashboard', requirePermission('reports:view'), async (req, res) => {
   try {
     // Get customer statistics
     const customerStats = await Customer.findAll({
@@ -38,11 +135,12 @@ router.get('/dashboard', requireAdmin, async (req, res) => {
     });
 
     // Get lead statistics
+    const wonStages = await getWonStages();
     const leadStats = await Lead.findAll({
       attributes: [
         [sequelize.fn('COUNT', sequelize.col('id')), 'total'],
         [sequelize.fn('SUM', sequelize.col('value')), 'totalValue'],
-        [sequelize.fn('COUNT', sequelize.literal('CASE WHEN stage = \'closed\' THEN 1 END')), 'closed']
+        [countInStages(wonStages), 'closed']
       ],
       raw: true
     });
@@ -57,27 +155,12 @@ router.get('/dashboard', requireAdmin, async (req, res) => {
       raw: true
     });
 
-    // Get pipeline statistics
-    const pipelineStats = await Lead.findAll({
-      attributes: [
-        'stage',
-        [sequelize.fn('COUNT', sequelize.col('id')), 'count']
-      ],
-      group: ['stage'],
-      raw: true
-    });
-
-    // Format pipeline data
-    const pipeline = {
-      lead: 0,
-      qualified: 0,
-      proposal: 0,
-      closed: 0
-    };
-
-    pipelineStats.forEach(stat => {
-      pipeline[stat.stage] = parseInt(stat.count);
-    });
+    // Get pipeline statistics for the requested (or default) pipeline
+    const selectedPipeline = await Pipeline.resolve(req.query.pipelineId);
+    if (!selectedPipeline) {
+      return errorResponse(res, 'Pipeline not found', 'NOT_FOUND', 404);
+    }
+    const pipeline = await getPipelineBreakdown(selectedPipeline);
 
     // Calculate conversion rate
     const totalLeads = leadStats[0]?.total || 0;
@@ -99,6 +182,7 @@ router.get('/dashboard', requireAdmin, async (req, res) => {
         completed: parseInt(taskStats[0]?.completed || 0),
         pending: parseInt(taskStats[0]?.pending || 0)
       },
+      pipelineId: selectedPipeline.id,
       pipeline
     });
   } catch (error) {
@@ -106,25 +190,46 @@ router.get('/dashboard', requireAdmin, async (req, res) => {
   }
 });
 
-// GET /api/reports/dashboard-stats - Get dashboard statistics (Both admin and user)
-router.get('/dashboard-stats', requireUser, async (req, res) => {
+// GET /api/reports/dashboard-stats - Get dashboard statistics for the records the
+// user can see, optionally for one team's records with ?teamId= (team managers and
+// records:view_all). Open to anyone who can see customers, leads or tasks, not
+// only report viewers
+router.get('/dashboard-stats', requirePermission('reports:view', 'customers:view', 'leads:view', 'tasks:view'), loadRecordVisibility, async (req, res) => {
   try {
+    // Limit the statistics to the team's members when a team is requested
+    let team = null;
+    let memberIds = req.visibleUserIds;
+    if (req.query.teamId) {
+      team = await Team.findByPk(req.query.teamId);
+      if (!team) {
+        return errorResponse(res, 'Team not found', 'NOT_FOUND', 404);
+      }
+      if (team.manager_id !== req.user.id && !hasPermission(req, 'records:view_all')) {
+        return errorResponse(res, 'Only the team manager can report on this team', 'AUTHORIZATION_ERROR', 403);
+      }
+      memberIds = await team.getMemberIds();
+    }
+    const leadWhere = userRecordsWhere(memberIds, 'owner_id', 'assigned_to');
+
     // Get customer statistics
     const customerStats = await Customer.findAll({
       attributes: [
         [sequelize.fn('COUNT', sequelize.col('id')), 'total'],
         [sequelize.fn('COUNT', sequelize.literal('CASE WHEN "createdAt" >= date(\'now\', \'-30 days\') THEN 1 END')), 'newThisMonth']
       ],
+      where: userRecordsWhere(memberIds, 'owner_id'),
       raw: true
     });
 
     // Get lead statistics
+    const wonStages = await getWonStages();
     const leadStats = await Lead.findAll({
       attributes: [
         [sequelize.fn('COUNT', sequelize.col('id')), 'total'],
         [sequelize.fn('SUM', sequelize.col('value')), 'totalValue'],
-        [sequelize.fn('COUNT', sequelize.literal('CASE WHEN stage = \'closed\' THEN 1 END')), 'closed']
+        [countInStages(wonStages), 'closed']
       ],
+      where: leadWhere,
       raw: true
     });
 
@@ -135,30 +240,16 @@ router.get('/dashboard-stats', requireUser, async (req, res) => {
         [sequelize.fn('COUNT', sequelize.literal('CASE WHEN status = \'completed\' THEN 1 END')), 'completed'],
         [sequelize.fn('COUNT', sequelize.literal('CASE WHEN status = \'pending\' THEN 1 END')), 'pending']
       ],
+      where: userRecordsWhere(memberIds, 'assignedTo'),
       raw: true
     });
 
-    // Get pipeline statistics
-    const pipelineStats = await Lead.findAll({
-      attributes: [
-        'stage',
-        [sequelize.fn('COUNT', sequelize.col('id')), 'count']
-      ],
-      group: ['stage'],
-      raw: true
-    });
-
-    // Format pipeline data
-    const pipeline = {
-      lead: 0,
-      qualified: 0,
-      proposal: 0,
-      closed: 0
-    };
-
-    pipelineStats.forEach(stat => {
-      pipeline[stat.stage] = parseInt(stat.count);
-    });
+    // Get pipeline statistics for the requested (or default) pipeline
+    const selectedPipeline = await Pipeline.resolve(req.query.pipelineId);
+    if (!selectedPipeline) {
+      return errorResponse(res, 'Pipeline not found', 'NOT_FOUND', 404);
+    }
+    const pipeline = await getPipelineBreakdown(selectedPipeline, leadWhere);
 
     // Calculate conversion rate
     const totalLeads = leadStats[0]?.total || 0;
@@ -180,6 +271,8 @@ router.get('/dashboard-stats', requireUser, async (req, res) => {
         completed: parseInt(taskStats[0]?.completed || 0),
         pending: parseInt(taskStats[0]?.pending || 0)
       },
+      teamId: team ? team.id : null,
+      pipelineId: selectedPipeline.id,
       pipeline
     });
   } catch (error) {
@@ -187,8 +280,8 @@ router.get('/dashboard-stats', requireUser, async (req, res) => {
   }
 });
 
-// GET /api/reports/conversion - Get conversion rate data (Admin only)
-router.get('/conversion', requireAdmin, async (req, res) => {
+// GET /api/reports/conversion - Get conversion rate data (reports:view)
+router.get('/conversion', requirePermission('reports:view'), async (req, res) => {
   try {
     const { period = 'month' } = req.query;
 
@@ -215,11 +308,12 @@ router.get('/conversion', requireAdmin, async (req, res) => {
         interval = '30 days';
     }
 
+    const wonStages = await getWonStages();
     const conversionData = await Lead.findAll({
       attributes: [
         [sequelize.fn('DATE_TRUNC', period, sequelize.col('createdAt')), 'period'],
         [sequelize.fn('COUNT', sequelize.col('id')), 'leads'],
-        [sequelize.fn('COUNT', sequelize.literal('CASE WHEN stage = \'closed\' THEN 1 END')), 'closed']
+        [countInStages(wonStages), 'closed']
       ],
       where: {
         createdAt: {
@@ -253,4 +347,347 @@ router.get('/conversion', requireAdmin, async (req, res) => {
   }
 });
 
+// GET /api/reports/forecast - Get weighted revenue forecast from open leads (reports:view)
+router.get('/forecast', requirePermission('reports:view'), async (req, res) => {
+  try {
+    const { pipelineId, assignedTo } = req.query;
+    const months = clampInt(req.query.months, 6, 1, 24);
+    const monthsBack = clampInt(req.query.monthsBack, 3, 0, 24);
+
+    const where = {};
+    if (pipelineId) {
+      where.pipeline_id = pipelineId;
+    }
+    if (assignedTo) {
+      where.assigned_to = assignedTo;
+    }
+
+    // Look up every stage so leads can be weighted by their stage probability
+    const stages = await PipelineStage.findAll({
+      where: pipelineId ? { pipeline_id: pipelineId } : {},
+      order: [['pipeline_id', 'ASC'], ['position', 'ASC'], ['id', 'ASC']]
+    });
+    const stageFor = (lead) => stages.find(s => s.pipeline_id === lead.pipeline_id && s.key === lead.stage);
+
+    const leads = await Lead.findAll({
+      where,
+      attributes: ['id', 'value', 'stage', 'pipeline_id', 'assigned_to', 'expected_close_date', 'closed_at'],
+      include: [
+        {
+          model: User,
+          as: 'assignedUser',
+          attributes: ['id', 'name']
+        }
+      ]
+    });
+
+    const pastMonths = getMonthKeys(-monthsBack, monthsBack);
+    const futureMonths = getMonthKeys(0, months);
+    const currentMonth = futureMonths[0];
+    const periods = [...pastMonths, ...futureMonths].map(period => ({
+      period,
+      deals: 0,
+      pipelineValue: 0,
+      forecast: 0,
+      closedWon: 0
+    }));
+    const periodFor = (key) => periods.find(p => p.period === key);
+
+    const unscheduled = { deals: 0, pipelineValue: 0, forecast: 0 };
+    const byUser = {};
+    const byStage = stages
+      .filter(stage => !stage.isTerminal())
+      .map(stage => ({
+        pipelineId: stage.pipeline_id,
+        stage: stage.key,
+        name: stage.name,
+        probability: stage.probability,
+        deals: 0,
+        pipelineValue: 0,
+        forecast: 0
+      }));
+
+    leads.forEach(lead => {
+      const stage = stageFor(lead);
+      const value = parseFloat(lead.value || 0);
+      if (!stage) {
+        return;
+      }
+
+      // Won deals count towards the period they closed in
+      if (stage.is_won) {
+        const period = lead.closed_at && periodFor(new Date(lead.closed_at).toISOString().slice(0, 7));
+        if (period) {
+          period.closedWon += value;
+        }
+        return;
+      }
+      if (stage.is_lost) {
+        return;
+      }
+
+      // Overdue deals are still expected, so they roll into the current month
+      const weighted = value * stage.probability / 100;
+      let bucket = unscheduled;
+      if (lead.expected_close_date) {
+        const month = String(lead.expected_close_date).slice(0, 7);
+        bucket = periodFor(month < currentMonth ? currentMonth : month);
+        if (!bucket) {
+          return;
+        }
+      }
+      bucket.deals += 1;
+      bucket.pipelineValue += value;
+      bucket.forecast += weighted;
+
+      const userKey = lead.assigned_to || 'unassigned';
+      if (!byUser[userKey]) {
+        byUser[userKey] = {
+          userId: lead.assigned_to,
+          name: lead.assignedUser ? lead.assignedUser.name : 'Unassigned',
+          deals: 0,
+          pipelineValue: 0,
+          forecast: 0
+        };
+      }
+      byUser[userKey].deals += 1;
+      byUser[userKey].pipelineValue += value;
+      byUser[userKey].forecast += weighted;
+
+      const stageStats = byStage.find(s => s.pipelineId === stage.pipeline_id && s.stage === stage.key);
+      stageStats.deals += 1;
+      stageStats.pipelineValue += value;
+      stageStats.forecast += weighted;
+    });
+
+    const rounded = (stats) => ({
+      ...stats,
+      pipelineValue: roundCurrency(stats.pipelineValue),
+      forecast: roundCurrency(stats.forecast),
+      ...(stats.closedWon !== undefined && { closedWon: roundCurrency(stats.closedWon) })
+    });
+
+    // Totals match the user and stage breakdowns: scheduled plus unscheduled open deals
+    const open = [...periods.filter(p => p.period >= currentMonth), unscheduled];
+
+    successResponse(res, {
+      periods: periods.map(rounded),
+      unscheduled: rounded(unscheduled),
+      byUser: Object.values(byUser).map(rounded).sort((a, b) => b.forecast - a.forecast),
+      byStage: byStage.map(rounded),
+      totals: {
+        deals: open.reduce((sum, p) => sum + p.deals, 0),
+        pipelineValue: roundCurrency(open.reduce((sum, p) => sum + p.pipelineValue, 0)),
+        forecast: roundCurrency(open.reduce((sum, p) => sum + p.forecast, 0))
+      }
+    });
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// GET /api/reports/velocity - Get time in stage, stage funnel and stalled deals for a pipeline (reports:view)
+router.get('/velocity', requirePermission('reports:view'), async (req, res) => {
+  try {
+    const pipeline = await Pipeline.resolve(req.query.pipelineId);
+    if (!pipeline) {
+      return errorResponse(res, 'Pipeline not found', 'NOT_FOUND', 404);
+    }
+    const stalledDays = clampInt(req.query.stalledDays, 14, 1, 365);
+
+    const stages = await pipeline.getOrderedStages();
+    const leads = await Lead.findAll({
+      where: { pipeline_id: pipeline.id },
+      attributes: ['id', 'title', 'stage', 'value', 'createdAt'],
+      include: [
+        {
+          model: LeadStageHistory,
+          as: 'stageHistory',
+          where: { pipeline_id: pipeline.id },
+          required: false
+        },
+        {
+          model: User,
+          as: 'assignedUser',
+          attributes: ['id', 'name']
+        }
+      ],
+      order: [
+        [{ model: LeadStageHistory, as: 'stageHistory' }, 'changed_at', 'ASC'],
+        [{ model: LeadStageHistory, as: 'stageHistory' }, 'id', 'ASC']
+      ]
+    });
+
+    const now = Date.now();
+    const openStages = stages.filter(stage => !stage.isTerminal());
+    const funnelStages = stages.filter(stage => !stage.is_lost);
+    const stayTotals = {};
+    const funnelReached = funnelStages.map(() => 0);
+    const stalledDeals = [];
+
+    leads.forEach(lead => {
+      const history = lead.stageHistory;
+
+      // A completed stay runs from entering a stage until the next transition
+      history.forEach((entry, index) => {
+        const next = history[index + 1];
+        if (!next) {
+          return;
+        }
+        const totals = stayTotals[entry.to_stage] || (stayTotals[entry.to_stage] = { duration: 0, count: 0 });
+        totals.duration += new Date(next.changed_at) - new Date(entry.changed_at);
+        totals.count += 1;
+      });
+
+      // Every lead reaches the first stage; skipped stages count as passed through
+      const visited = [...history.map(entry => entry.to_stage), lead.stage];
+      const furthest = Math.max(0, ...visited.map(key => funnelStages.findIndex(stage => stage.key === key)));
+      for (let index = 0; index <= furthest && index < funnelStages.length; index++) {
+        funnelReached[index] += 1;
+      }
+
+      if (openStages.some(stage => stage.key === lead.stage)) {
+        const lastMovedAt = history.length > 0 ? history[history.length - 1].changed_at : lead.createdAt;
+        const daysInStage = Math.floor((now - new Date(lastMovedAt)) / DAY_MS);
+        if (daysInStage >= stalledDays) {
+          stalledDeals.push({
+            id: lead.id,
+            title: lead.title,
+            stage: lead.stage,
+            value: parseFloat(lead.value || 0),
+            assignedUser: lead.assignedUser,
+            lastMovedAt,
+            daysInStage
+          });
+        }
+      }
+    });
+
+    const timeInStage = openStages.map(stage => {
+      const totals = stayTotals[stage.key] || { duration: 0, count: 0 };
+      return {
+        stage: stage.key,
+        name: stage.name,
+        averageDays: totals.count > 0 ? parseFloat((totals.duration / totals.count / DAY_MS).toFixed(2)) : 0,
+        transitions: totals.count
+      };
+    });
+
+    const funnel = funnelStages.map((stage, index) => ({
+      stage: stage.key,
+      name: stage.name,
+      reached: funnelReached[index],
+      conversionRate: index === 0 ? 100 : percentage(funnelReached[index], funnelReached[index - 1])
+    }));
+
+    successResponse(res, {
+      pipelineId: pipeline.id,
+      stalledDays,
+      timeInStage,
+      funnel,
+      stalledDeals: stalledDeals.sort((a, b) => b.daysInStage - a.daysInStage)
+    });
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// GET /api/reports/win-rate - Get won vs lost deals overall and per user (reports:view)
+router.get('/win-rate', requirePermission('reports:view'), async (req, res) => {
+  try {
+    const wonStages = await getWonStages();
+    const lostStages = await getLostStages();
+
+    const outcomeStats = await Lead.findAll({
+      where: getClosedLeadsWhere(req.query),
+      attributes: [
+        'assigned_to',
+        [countInStages(wonStages), 'won'],
+        [countInStages(lostStages), 'lost'],
+        [sumInStages(wonStages), 'wonValue'],
+        [sumInStages(lostStages), 'lostValue']
+      ],
+      group: ['assigned_to'],
+      raw: true
+    });
+
+    const users = await User.findAll({
+      where: { id: outcomeStats.map(stat => stat.assigned_to).filter(Boolean) },
+      attributes: ['id', 'name']
+    });
+
+    const byUser = outcomeStats
+      .map(stat => {
+        const won = parseInt(stat.won);
+        const lost = parseInt(stat.lost);
+        const user = users.find(u => u.id === stat.assigned_to);
+        return {
+          userId: stat.assigned_to,
+          name: user ? user.name : 'Unassigned',
+          won,
+          lost,
+          winRate: percentage(won, won + lost),
+          wonValue: parseFloat(stat.wonValue || 0),
+          lostValue: parseFloat(stat.lostValue || 0)
+        };
+      })
+      .filter(stat => stat.won + stat.lost > 0);
+
+    const won = byUser.reduce((sum, stat) => sum + stat.won, 0);
+    const lost = byUser.reduce((sum, stat) => sum + stat.lost, 0);
+
+    successResponse(res, {
+      won,
+      lost,
+      winRate: percentage(won, won + lost),
+      wonValue: byUser.reduce((sum, stat) => sum + stat.wonValue, 0),
+      lostValue: byUser.reduce((sum, stat) => sum + stat.lostValue, 0),
+      byUser
+    });
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// GET /api/reports/loss-reasons - Get lost deals broken down by loss reason (reports:view)
+router.get('/loss-reasons', requirePermission('reports:view'), async (req, res) => {
+  try {
+    const lostStages = await getLostStages();
+    if (lostStages.length === 0) {
+      return successResponse(res, { totalLost: 0, lossReasons: [] });
+    }
+
+    const reasonStats = await Lead.findAll({
+      where: {
+        ...getClosedLeadsWhere(req.query),
+        [Op.and]: sequelize.literal(`(${inStagesCondition(lostStages)})`)
+      },
+      attributes: [
+        'close_reason',
+        [sequelize.fn('COUNT', sequelize.col('id')), 'count'],
+        [sequelize.fn('SUM', sequelize.col('value')), 'value']
+      ],
+      group: ['close_reason'],
+      raw: true
+    });
+
+    const totalLost = reasonStats.reduce((sum, stat) => sum + parseInt(stat.count), 0);
+    const lossReasons = reasonStats
+      .map(stat => ({
+        reason: stat.close_reason || 'Unspecified',
+        count: parseInt(stat.count),
+        value: parseFloat(stat.value || 0),
+        percentage: percentage(parseInt(stat.count), totalLost)
+      }))
+      .sort((a, b) => b.count - a.count);
+
+    successResponse(res, {
+      totalLost,
+      lossReasons
+    });
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
 module.exports = router; 
\ No newline at end of file
@@ -0,0 +1,134 @@
+const express = require('express');
+const { Role, User, sequelize } = require('../models');
+const { authenticateToken, requirePermission } = require('../middleware/auth');
+const { validate, roleSchema, updateRoleSchema } = require('../middleware/validation');
+
+const router = express.Router();
+
+// Helper functions
+const successResponse = (res, data, message = 'Success', status = 200) => {
+  res.status(status).json({
+    success: true,
+    data,
+    message
+  });
+};
+
+const errorResponse = (res, error, code = 'ERROR', status = 500) => {
+  res.status(status).json({
+    success: false,
+    error: error.message || error,
+    code
+  });
+};
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// GET /api/roles - Get all roles with the number of users holding each
+router.get('/', requirePermission('roles:manage', 'users:manage'), async (req, res) => {
+  try {
+    const roles = await Role.findAll({
+      order: [['is_system', 'DESC'], ['name', 'ASC']]
+    });
+
+    const userCounts = await User.findAll({
+      attributes: ['role', [sequelize.fn('COUNT', sequelize.col('id')), 'count']],
+      group: ['role'],
+      raw: true
+    });
+
+    successResponse(res, {
+      roles: roles.map(role => ({
+        ...role.toJSON(),
+        userCount: parseInt(userCounts.find(stat => stat.role === role.name)?.count || 0)
+      }))
+    });
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// GET /api/roles/permissions - Get every permission a role can grant
+router.get('/permissions', requirePermission('roles:manage'), (req, res) => {
+  successResponse(res, {
+    permissions: Role.PERMISSIONS
+  });
+});
+
+// POST /api/roles - Create new role (roles:manage)
+router.post('/', requirePermission('roles:manage'), validate(roleSchema), async (req, res) => {
+  try {
+    const { name, description, permissions = [], mfaRequired } = req.body;
+
+    if (await Role.findByName(name)) {
+      return errorResponse(res, 'A role with this name already exists', 'DUPLICATE_ENTRY', 409);
+    }
+
+    const role = await Role.create({ name, description, permissions, mfa_required: mfaRequired });
+
+    successResponse(res, {
+      role
+    }, 'Role created successfully', 201);
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// PUT /api/roles/:id - Update role description, permissions and MFA policy (roles:manage)
+router.put('/:id', requirePermission('roles:manage'), validate(updateRoleSchema), async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const role = await Role.findByPk(id);
+    if (!role) {
+      return errorResponse(res, 'Role not found', 'NOT_FOUND', 404);
+    }
+
+    if (role.name === 'admin' && req.body.permissions) {
+      return errorResponse(res, 'The admin role always has every permission', 'VALIDATION_ERROR', 400);
+    }
+
+    const { mfaRequired, ...attributes } = req.body;
+    if (mfaRequired !== undefined) {
+      attributes.mfa_required = mfaRequired;
+    }
+
+    await role.update(attributes);
+
+    successResponse(res, {
+      role
+    }, 'Role updated successfully');
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// DELETE /api/roles/:id - Delete role (roles:manage)
+router.delete('/:id', requirePermission('roles:manage'), async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const role = await Role.findByPk(id);
+    if (!role) {
+      return errorResponse(res, 'Role not found', 'NOT_FOUND', 404);
+    }
+
+    if (role.is_system) {
+      return errorResponse(res, 'Built-in roles cannot be deleted', 'VALIDATION_ERROR', 400);
+    }
+
+    const userCount = await User.count({ where: { role: role.name } });
+    if (userCount > 0) {
+      return errorResponse(res, `Role is assigned to ${userCount} user(s)`, 'VALIDATION_ERROR', 400);
+    }
+
+    await role.destroy();
+
+    successResponse(res, {}, 'Role deleted successfully');
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+module.exports = router;
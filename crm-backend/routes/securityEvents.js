@@ -0,0 +1,89 @@
+const express = require('express');
+const { Op } = require('sequelize');
+const { SecurityEvent, User } = require('../models');
+const { authenticateToken, requirePermission } = require('../middleware/auth');
+
+const router = express.Router();
+
+// Helper functions
+const successResponse = (res, data, message = 'Success', status = 200) => {
+  res.status(status).json({
+    success: true,
+    data,
+    message
+  });
+};
+
+const errorResponse = (res, error, code = 'ERROR', status = 500) => {
+  res.status(status).json({
+    success: false,
+    error: error.message || error,
+    code
+  });
+};
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+router.use(requirePermission('audit:view'));
+
+// GET /api/security-events - Get login and lockout events, newest first (audit:view)
+router.get('/', async (req, res) => {
+  try {
+    const { page = 1, limit = 50, event, userId, email, ip, startDate, endDate } = req.query;
+    const offset = (page - 1) * limit;
+
+    const whereClause = {};
+    if (event) {
+      whereClause.event = event;
+    }
+    if (userId) {
+      whereClause.user_id = userId;
+    }
+    if (email) {
+      whereClause.email = email;
+    }
+    if (ip) {
+      whereClause.ip_address = ip;
+    }
+    if (startDate || endDate) {
+      whereClause.createdAt = {};
+      if (startDate) whereClause.createdAt[Op.gte] = new Date(startDate);
+      if (endDate) whereClause.createdAt[Op.lte] = new Date(endDate);
+    }
+
+    const events = await SecurityEvent.findAndCountAll({
+      where: whereClause,
+      limit: parseInt(limit),
+      offset: parseInt(offset),
+      order: [['createdAt', 'DESC'], ['id', 'DESC']],
+      include: [
+        {
+          model: User,
+          as: 'user',
+          attributes: ['id', 'name', 'email']
+        },
+        {
+          model: User,
+          as: 'actor',
+          attributes: ['id', 'name', 'email']
+        }
+      ]
+    });
+
+    const pagination = {
+      page: parseInt(page),
+      limit: parseInt(limit),
+      total: events.count,
+      pages: Math.ceil(events.count / limit)
+    };
+
+    successResponse(res, {
+      events: events.rows,
+      pagination
+    });
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+module.exports = router;
@@ -1,8 +1,10 @@
 const express = require('express');
 const { Op } = require('sequelize');
-const { Task, Customer, User } = require('../models');
-const { authenticateToken, requireUser } = require('../middleware/auth');
-const { validate, taskSchema, updateTaskStatusSchema } = require('../middleware/validation');
+const { Task, Customer, Lead, User, CustomFieldDefinition, sequelize } = require('../models');
+const { authenticateToken, requirePermission, loadRecordVisibility, visibleRecordsWhere } = require('../middleware/auth');
+const { validate, validateCustomFields, taskSchema, updateTaskStatusSchema } = require('../middleware/validation');
+const webhooks = require('../services/webhooks');
+const realtime = require('../services/realtime');
 
 const router = express.Router();
 
@@ -23,14 +25,53 @@ const errorResponse = (res, error, code = 'ERROR', status = 500) => {
   });
 };
 
+// Find a task the current user is allowed to see through its assignee
+const findVisibleTask = (req, id, options = {}) => Task.findOne({
+  ...options,
+  where: { id, ...visibleRecordsWhere(req, 'assignedTo') }
+});
+
+// Find a lead the current user is allowed to see, to link a task to it
+const findVisibleLead = (req, id) => Lead.findOne({
+  where: { id, ...visibleRecordsWhere(req, 'owner_id', 'assigned_to') }
+});
+
+// Find a contact the current user is allowed to see, to link a task to it
+const findVisibleCustomer = (req, id) => Customer.findOne({
+  where: { id, ...visibleRecordsWhere(req, 'owner_id') }
+});
+
+// Update a task, announcing it to webhooks when this completes it.
+// Returns the status it had before
+const updateTask = (req, task, attributes) => sequelize.transaction(async (transaction) => {
+  const oldStatus = task.status;
+  await task.update(attributes, { transaction });
+  if (oldStatus !== 'completed' && task.status === 'completed') {
+    await webhooks.emit('task.completed', { task, completedBy: req.user.id }, { transaction });
+  }
+  return oldStatus;
+});
+
+// Tell connected users who can see the task that its status changed
+const publishStatusUpdate = (task, oldStatus) => {
+  if (task.status !== oldStatus) {
+    realtime.publish('task:status:updated', {
+      taskId: task.id,
+      oldStatus,
+      newStatus: task.status,
+      task
+    }, { permission: 'tasks:view', userIds: [task.assignedTo] });
+  }
+};
+
 // Apply authentication to all routes
 router.use(authenticateToken);
-router.use(requireUser);
+router.use(loadRecordVisibility);
 
 // GET /api/tasks - Get all tasks with filtering
-router.get('/', async (req, res) => {
+router.get('/', requirePermission('tasks:view'), async (req, res) => {
   try {
-    const { page = 1, limit = 10, status, priority, assignedTo, customerId } = req.query;
+    const { page = 1, limit = 10, status, priority, assignedTo, customerId, leadId, customFields } = req.query;
     const offset = (page - 1) * limit;
 
     // Build where clause
@@ -47,6 +88,12 @@ router.get('/', async (req, res) => {
     if (customerId) {
       whereClause.customerId = customerId;
     }
+    if (leadId) {
+      whereClause.leadId = leadId;
+    }
+
+    const customFieldFilters = await CustomFieldDefinition.buildFilters('task', 'Task', customFields);
+    whereClause[Op.and] = [...customFieldFilters, visibleRecordsWhere(req, 'assignedTo')];
 
     // Get tasks with pagination
     const tasks = await Task.findAndCountAll({
@@ -87,9 +134,28 @@ router.get('/', async (req, res) => {
 });
 
 // POST /api/tasks - Create new task
-router.post('/', validate(taskSchema), async (req, res) => {
+router.post('/', requirePermission('tasks:edit'), validate(taskSchema), validateCustomFields('task'), async (req, res) => {
   try {
-    const task = await Task.create(req.body);
+    const attributes = { ...req.body };
+
+    if (attributes.customerId && !(await findVisibleCustomer(req, attributes.customerId))) {
+      return errorResponse(res, 'Customer not found', 'NOT_FOUND', 404);
+    }
+
+    // Tasks for a lead are about the lead's contact unless another was given
+    if (attributes.leadId) {
+      const lead = await findVisibleLead(req, attributes.leadId);
+      if (!lead) {
+        return errorResponse(res, 'Lead not found', 'NOT_FOUND', 404);
+      }
+      attributes.customerId = attributes.customerId || lead.customer_id;
+    }
+
+    // Tasks nobody was assigned to go to their creator
+    const task = await Task.create({
+      ...attributes,
+      assignedTo: attributes.assignedTo === undefined ? req.user.id : attributes.assignedTo
+    });
     
     // Fetch task with associations
     const taskWithAssociations = await Task.findByPk(task.id, {
@@ -116,11 +182,11 @@ router.post('/', validate(taskSchema), async (req, res) => {
 });
 
 // GET /api/tasks/:id - Get task by ID
-router.get('/:id', async (req, res) => {
+router.get('/:id', requirePermission('tasks:view'), async (req, res) => {
   try {
     const { id } = req.params;
 
-    const task = await Task.findByPk(id, {
+    const task = await findVisibleTask(req, id, {
       include: [
         {
           model: Customer,
@@ -148,16 +214,24 @@ router.get('/:id', async (req, res) => {
 });
 
 // PUT /api/tasks/:id - Update task
-router.put('/:id', validate(taskSchema), async (req, res) => {
+router.put('/:id', requirePermission('tasks:edit'), validate(taskSchema), validateCustomFields('task'), async (req, res) => {
   try {
     const { id } = req.params;
 
-    const task = await Task.findByPk(id);
+    const task = await findVisibleTask(req, id);
     if (!task) {
       return errorResponse(res, 'Task not found', 'NOT_FOUND', 404);
     }
 
-    await task.update(req.body);
+    if (req.body.leadId && req.body.leadId !== task.leadId && !(await findVisibleLead(req, req.body.leadId))) {
+      return errorResponse(res, 'Lead not found', 'NOT_FOUND', 404);
+    }
+
+    if (req.body.customerId && req.body.customerId !== task.customerId && !(await findVisibleCustomer(req, req.body.customerId))) {
+      return errorResponse(res, 'Customer not found', 'NOT_FOUND', 404);
+    }
+
+    const oldStatus = await updateTask(req, task, req.body);
 
     // Fetch updated task with associations
     const updatedTask = await Task.findByPk(id, {
@@ -175,6 +249,8 @@ router.put('/:id', validate(taskSchema), async (req, res) => {
       ]
     });
 
+    publishStatusUpdate(updatedTask, oldStatus);
+
     successResponse(res, {
       task: updatedTask
     }, 'Task updated successfully');
@@ -184,17 +260,17 @@ router.put('/:id', validate(taskSchema), async (req, res) => {
 });
 
 // PUT /api/tasks/:id/status - Update task status
-router.put('/:id/status', validate(updateTaskStatusSchema), async (req, res) => {
+router.put('/:id/status', requirePermission('tasks:edit'), validate(updateTaskStatusSchema), async (req, res) => {
   try {
     const { id } = req.params;
     const { status } = req.body;
 
-    const task = await Task.findByPk(id);
+    const task = await findVisibleTask(req, id);
     if (!task) {
       return errorResponse(res, 'Task not found', 'NOT_FOUND', 404);
     }
 
-    await task.update({ status });
+    const oldStatus = await updateTask(req, task, { status });
 
     // Fetch updated task with associations
     const updatedTask = await Task.findByPk(id, {
@@ -212,6 +288,8 @@ router.put('/:id/status', validate(updateTaskStatusSchema), async (req, res) =>
       ]
     });
 
+    publishStatusUpdate(updatedTask, oldStatus);
+
     successResponse(res, {
       task: updatedTask
     }, 'Task status updated successfully');
@@ -221,11 +299,11 @@ router.put('/:id/status', validate(updateTaskStatusSchema), async (req, res) =>
 });
 
 // DELETE /api/tasks/:id - Delete task
-router.delete('/:id', async (req, res) => {
+router.delete('/:id', requirePermission('tasks:delete'), async (req, res) => {
   try {
     const { id } = req.params;
 
-    const task = await Task.findByPk(id);
+    const task = await findVisibleTask(req, id);
     if (!task) {
       return errorResponse(res, 'Task not found', 'NOT_FOUND', 404);
     }
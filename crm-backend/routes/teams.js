@@ -0,0 +1,150 @@
+const express = require('express');
+const { Team, User, sequelize } = require('../models');
+const { authenticateToken, requirePermission } = require('../middleware/auth');
+const { validate, teamSchema, updateTeamSchema } = require('../middleware/validation');
+
+const router = express.Router();
+
+// Helper functions
+const successResponse = (res, data, message = 'Success', status = 200) => {
+  res.status(status).json({
+    success: true,
+    data,
+    message
+  });
+};
+
+const errorResponse = (res, error, code = 'ERROR', status = 500) => {
+  res.status(status).json({
+    success: false,
+    error: error.message || error,
+    code
+  });
+};
+
+const teamIncludes = [
+  {
+    model: User,
+    as: 'manager',
+    attributes: ['id', 'name', 'email']
+  },
+  {
+    model: User,
+    as: 'members',
+    attributes: ['id', 'name', 'email']
+  }
+];
+
+// Check that a manager id, when given, belongs to an existing user
+const managerExists = async (managerId) => {
+  return !managerId || !!(await User.findByPk(managerId));
+};
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// GET /api/teams - Get all teams with their manager and members
+router.get('/', async (req, res) => {
+  try {
+    const teams = await Team.findAll({
+      include: teamIncludes,
+      order: [['name', 'ASC']]
+    });
+
+    successResponse(res, {
+      teams
+    });
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// POST /api/teams - Create new team (users:manage)
+router.post('/', requirePermission('users:manage'), validate(teamSchema), async (req, res) => {
+  try {
+    const { name, description, managerId } = req.body;
+
+    if (await Team.findByName(name)) {
+      return errorResponse(res, 'A team with this name already exists', 'DUPLICATE_ENTRY', 409);
+    }
+
+    if (!(await managerExists(managerId))) {
+      return errorResponse(res, 'Manager not found', 'NOT_FOUND', 404);
+    }
+
+    const team = await Team.create({
+      name: name.trim(),
+      description,
+      manager_id: managerId || null
+    });
+
+    await team.reload({ include: teamIncludes });
+
+    successResponse(res, {
+      team
+    }, 'Team created successfully', 201);
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// PUT /api/teams/:id - Update team name, description and manager (users:manage)
+router.put('/:id', requirePermission('users:manage'), validate(updateTeamSchema), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { name, description, managerId } = req.body;
+
+    const team = await Team.findByPk(id);
+    if (!team) {
+      return errorResponse(res, 'Team not found', 'NOT_FOUND', 404);
+    }
+
+    if (name) {
+      const existing = await Team.findByName(name);
+      if (existing && existing.id !== team.id) {
+        return errorResponse(res, 'A team with this name already exists', 'DUPLICATE_ENTRY', 409);
+      }
+    }
+
+    if (!(await managerExists(managerId))) {
+      return errorResponse(res, 'Manager not found', 'NOT_FOUND', 404);
+    }
+
+    const attributes = {};
+    if (name !== undefined) attributes.name = name.trim();
+    if (description !== undefined) attributes.description = description;
+    if (managerId !== undefined) attributes.manager_id = managerId;
+
+    await team.update(attributes);
+    await team.reload({ include: teamIncludes });
+
+    successResponse(res, {
+      team
+    }, 'Team updated successfully');
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// DELETE /api/teams/:id - Delete team, leaving its members without a team (users:manage)
+router.delete('/:id', requirePermission('users:manage'), async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const team = await Team.findByPk(id);
+    if (!team) {
+      return errorResponse(res, 'Team not found', 'NOT_FOUND', 404);
+    }
+
+    await sequelize.transaction(async (transaction) => {
+      await User.update({ team_id: null }, { where: { team_id: team.id }, individualHooks: true, transaction });
+      await team.destroy({ transaction });
+    });
+
+    successResponse(res, {}, 'Team deleted successfully');
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+module.exports = router;
@@ -1,6 +1,11 @@
+const crypto = require('crypto');
 const express = require('express');
-const { User } = require('../models');
-const { authenticateToken, requireAdmin } = require('../middleware/auth');
+const { User, Role, Team, RefreshToken, UserToken, SecurityEvent, sequelize } = require('../models');
+const { authenticateToken, requirePermission, canAssignRole } = require('../middleware/auth');
+const { validate, updateUserSchema, deactivateUserSchema } = require('../middleware/validation');
+const { sendPasswordResetEmail } = require('../services/mailer');
+const { unlockAccount } = require('../services/loginProtection');
+const { getOpenWork, reassignOpenWork, hasRecords } = require('../services/reassignment');
 
 const router = express.Router();
 
@@ -21,11 +26,18 @@ const errorResponse = (res, error, code = 'ERROR', status = 500) => {
   });
 };
 
+// Only those who manage roles may act on users whose role grants permissions
+// they lack, so nobody can take over an account more powerful than their own
+const canManageUser = async (req, user) => {
+  const role = await Role.findByName(user.role);
+  return !role || canAssignRole(req, role);
+};
+
 // Apply authentication to all routes
 router.use(authenticateToken);
-router.use(requireAdmin);
+router.use(requirePermission('users:manage'));
 
-// GET /api/users - Get all users (admin only)
+// GET /api/users - Get all users (users:manage)
 router.get('/', async (req, res) => {
   try {
     const { page = 1, limit = 10 } = req.query;
@@ -35,7 +47,14 @@ router.get('/', async (req, res) => {
       limit: parseInt(limit),
       offset: parseInt(offset),
       order: [['createdAt', 'DESC']],
-      attributes: { exclude: ['password'] }
+      attributes: { exclude: ['password', 'mfa_secret', 'mfa_recovery_codes'] },
+      include: [
+        {
+          model: Team,
+          as: 'team',
+          attributes: ['id', 'name']
+        }
+      ]
     });
 
     const pagination = {
@@ -54,13 +73,20 @@ router.get('/', async (req, res) => {
   }
 });
 
-// GET /api/users/:id - Get user by ID (admin only)
+// GET /api/users/:id - Get user by ID (users:manage)
 router.get('/:id', async (req, res) => {
   try {
     const { id } = req.params;
 
     const user = await User.findByPk(id, {
-      attributes: { exclude: ['password'] }
+      attributes: { exclude: ['password', 'mfa_secret', 'mfa_recovery_codes'] },
+      include: [
+        {
+          model: Team,
+          as: 'team',
+          attributes: ['id', 'name']
+        }
+      ]
     });
 
     if (!user) {
@@ -75,18 +101,39 @@ router.get('/:id', async (req, res) => {
   }
 });
 
-// PUT /api/users/:id - Update user (admin only)
-router.put('/:id', async (req, res) => {
+// PUT /api/users/:id - Update user (users:manage)
+router.put('/:id', validate(updateUserSchema), async (req, res) => {
   try {
     const { id } = req.params;
-    const { name, email, role } = req.body;
+    const { teamId, ...attributes } = req.body;
+    if (teamId !== undefined) {
+      attributes.team_id = teamId;
+    }
+
+    const role = attributes.role && await Role.findByName(attributes.role);
+    if (attributes.role && !role) {
+      return errorResponse(res, 'Invalid role', 'VALIDATION_ERROR', 400);
+    }
+
+    if (teamId && !(await Team.findByPk(teamId))) {
+      return errorResponse(res, 'Team not found', 'NOT_FOUND', 404);
+    }
 
     const user = await User.findByPk(id);
     if (!user) {
       return errorResponse(res, 'User not found', 'NOT_FOUND', 404);
     }
 
-    await user.update({ name, email, role });
+    if (!(await canManageUser(req, user))) {
+      return errorResponse(res, 'You are not allowed to manage this user', 'AUTHORIZATION_ERROR', 403);
+    }
+
+    // Nobody can hand out more than they hold, themselves included
+    if (role && role.name !== user.role && !canAssignRole(req, role)) {
+      return errorResponse(res, `You are not allowed to give out the ${role.name} role`, 'AUTHORIZATION_ERROR', 403);
+    }
+
+    await user.update(attributes);
 
     successResponse(res, {
       user: user.toJSON()
@@ -96,7 +143,172 @@ router.put('/:id', async (req, res) => {
   }
 });
 
-// DELETE /api/users/:id - Delete user (admin only)
+// POST /api/users/:id/reset-password - Force a password reset (users:manage)
+router.post('/:id/reset-password', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const user = await User.findByPk(id);
+    if (!user) {
+      return errorResponse(res, 'User not found', 'NOT_FOUND', 404);
+    }
+
+    if (!(await canManageUser(req, user))) {
+      return errorResponse(res, 'You are not allowed to manage this user', 'AUTHORIZATION_ERROR', 403);
+    }
+
+    // The old password stops working and every session ends; the user gets
+    // back in through the emailed reset link
+    const token = await sequelize.transaction(async (transaction) => {
+      await user.update({ password: crypto.randomBytes(32).toString('hex') }, { transaction });
+      await RefreshToken.revokeForUser(user.id, { transaction });
+      return UserToken.issue(user, 'password_reset', { transaction });
+    });
+    await sendPasswordResetEmail(user, token, UserToken.getTtlMinutes('password_reset'));
+
+    successResponse(res, {}, 'Password reset email sent');
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// POST /api/users/:id/unlock - Lift a lockout after failed logins (users:manage)
+router.post('/:id/unlock', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const user = await User.findByPk(id);
+    if (!user) {
+      return errorResponse(res, 'User not found', 'NOT_FOUND', 404);
+    }
+
+    if (!(await canManageUser(req, user))) {
+      return errorResponse(res, 'You are not allowed to manage this user', 'AUTHORIZATION_ERROR', 403);
+    }
+
+    await unlockAccount(user, 'admin');
+
+    successResponse(res, {
+      user: user.toJSON()
+    }, 'User unlocked successfully');
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// GET /api/users/:id/open-work - Count the open leads and tasks a user still has (users:manage)
+router.get('/:id/open-work', async (req, res) => {
+  try {
+    const user = await User.findByPk(req.params.id);
+    if (!user) {
+      return errorResponse(res, 'User not found', 'NOT_FOUND', 404);
+    }
+
+    successResponse(res, {
+      openWork: await getOpenWork(user.id)
+    });
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// POST /api/users/:id/deactivate - Block a user from signing in, handing their open work to another user (users:manage)
+router.post('/:id/deactivate', validate(deactivateUserSchema), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { reassignTo = null } = req.body;
+
+    if (parseInt(id) === req.user.id) {
+      return errorResponse(res, 'Cannot deactivate your own account', 'VALIDATION_ERROR', 400);
+    }
+
+    const user = await User.findByPk(id);
+    if (!user) {
+      return errorResponse(res, 'User not found', 'NOT_FOUND', 404);
+    }
+
+    if (!(await canManageUser(req, user))) {
+      return errorResponse(res, 'You are not allowed to manage this user', 'AUTHORIZATION_ERROR', 403);
+    }
+
+    if (!user.is_active) {
+      return errorResponse(res, 'User is already deactivated', 'VALIDATION_ERROR', 400);
+    }
+
+    let assignee = null;
+    if (reassignTo !== null) {
+      assignee = await User.findByPk(reassignTo);
+      if (!assignee) {
+        return errorResponse(res, 'User to reassign to not found', 'NOT_FOUND', 404);
+      }
+      if (assignee.id === user.id || !assignee.is_active) {
+        return errorResponse(res, 'Open work must go to another active user', 'VALIDATION_ERROR', 400);
+      }
+    }
+
+    const openWork = await getOpenWork(user.id);
+    if (!assignee && (openWork.leads > 0 || openWork.tasks > 0)) {
+      return errorResponse(res, 'Choose who takes over this user\'s open leads and tasks', 'VALIDATION_ERROR', 400);
+    }
+
+    // The work moves and the account closes together, so nothing is left
+    // with a user who can no longer sign in
+    const reassigned = await sequelize.transaction(async (transaction) => {
+      const moved = assignee
+        ? await reassignOpenWork(user.id, assignee.id, { transaction })
+        : { leads: 0, tasks: 0 };
+      await user.update({
+        is_active: false,
+        deactivated_at: new Date(),
+        deactivated_by: req.user.id
+      }, { transaction });
+      await RefreshToken.revokeForUser(user.id, { transaction });
+      await SecurityEvent.log('account_deactivated', {
+        user,
+        details: { reassignedTo: assignee ? assignee.id : null, ...moved }
+      }, { transaction });
+      return moved;
+    });
+
+    successResponse(res, {
+      user: user.toJSON(),
+      reassigned
+    }, 'User deactivated successfully');
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// POST /api/users/:id/reactivate - Let a deactivated user sign in again (users:manage)
+router.post('/:id/reactivate', async (req, res) => {
+  try {
+    const user = await User.findByPk(req.params.id);
+    if (!user) {
+      return errorResponse(res, 'User not found', 'NOT_FOUND', 404);
+    }
+
+    if (!(await canManageUser(req, user))) {
+      return errorResponse(res, 'You are not allowed to manage this user', 'AUTHORIZATION_ERROR', 403);
+    }
+
+    if (user.is_active) {
+      return errorResponse(res, 'User is already active', 'VALIDATION_ERROR', 400);
+    }
+
+    await sequelize.transaction(async (transaction) => {
+      await user.update({ is_active: true, deactivated_at: null, deactivated_by: null }, { transaction });
+      await SecurityEvent.log('account_reactivated', { user }, { transaction });
+    });
+
+    successResponse(res, {
+      user: user.toJSON()
+    }, 'User reactivated successfully');
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// DELETE /api/users/:id - Delete a user who has no records (users:manage)
 router.delete('/:id', async (req, res) => {
   try {
     const { id } = req.params;
@@ -111,6 +323,15 @@ router.delete('/:id', async (req, res) => {
       return errorResponse(res, 'User not found', 'NOT_FOUND', 404);
     }
 
+    if (!(await canManageUser(req, user))) {
+      return errorResponse(res, 'You are not allowed to manage this user', 'AUTHORIZATION_ERROR', 403);
+    }
+
+    // Deleting would orphan the user's customers, leads, tasks and history
+    if (await hasRecords(user.id)) {
+      return errorResponse(res, 'User has records in the CRM, deactivate them instead', 'CONFLICT', 409);
+    }
+
     await user.destroy();
 
     successResponse(res, {}, 'User deleted successfully');
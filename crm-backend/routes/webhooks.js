@@ -0,0 +1,184 @@
+const express = require('express');
+const { Webhook, WebhookDelivery, User } = require('../models');
+const { authenticateToken, requirePermission } = require('../middleware/auth');
+const { validate, webhookSchema, updateWebhookSchema } = require('../middleware/validation');
+const { replay } = require('../services/webhooks');
+
+const router = express.Router();
+
+// Helper functions
+const successResponse = (res, data, message = 'Success', status = 200) => {
+  res.status(status).json({
+    success: true,
+    data,
+    message
+  });
+};
+
+const errorResponse = (res, error, code = 'ERROR', status = 500) => {
+  res.status(status).json({
+    success: false,
+    error: error.message || error,
+    code
+  });
+};
+
+const toAttributes = ({ isActive, ...attributes }) => {
+  if (isActive !== undefined) {
+    attributes.is_active = isActive;
+  }
+  return attributes;
+};
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+router.use(requirePermission('webhooks:manage'));
+
+// GET /api/webhooks/events - List the events a webhook can subscribe to (webhooks:manage)
+router.get('/events', (req, res) => {
+  successResponse(res, {
+    events: Webhook.EVENTS
+  });
+});
+
+// GET /api/webhooks - Get all webhooks (webhooks:manage)
+router.get('/', async (req, res) => {
+  try {
+    const webhooks = await Webhook.findAll({
+      order: [['createdAt', 'DESC']],
+      include: [
+        {
+          model: User,
+          as: 'creator',
+          attributes: ['id', 'name', 'email']
+        }
+      ]
+    });
+
+    successResponse(res, {
+      webhooks
+    });
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// POST /api/webhooks - Create a webhook (webhooks:manage)
+router.post('/', validate(webhookSchema), async (req, res) => {
+  try {
+    const { secret = Webhook.generateSecret(), ...attributes } = toAttributes(req.body);
+
+    const webhook = await Webhook.create({
+      ...attributes,
+      secret,
+      created_by: req.user.id
+    });
+
+    // The secret is only ever shown here
+    successResponse(res, {
+      webhook,
+      secret
+    }, 'Webhook created successfully', 201);
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// PUT /api/webhooks/:id - Update a webhook (webhooks:manage)
+router.put('/:id', validate(updateWebhookSchema), async (req, res) => {
+  try {
+    const webhook = await Webhook.findByPk(req.params.id);
+    if (!webhook) {
+      return errorResponse(res, 'Webhook not found', 'NOT_FOUND', 404);
+    }
+
+    await webhook.update(toAttributes(req.body));
+
+    successResponse(res, {
+      webhook
+    }, 'Webhook updated successfully');
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// DELETE /api/webhooks/:id - Delete a webhook and its delivery log (webhooks:manage)
+router.delete('/:id', async (req, res) => {
+  try {
+    const webhook = await Webhook.findByPk(req.params.id);
+    if (!webhook) {
+      return errorResponse(res, 'Webhook not found', 'NOT_FOUND', 404);
+    }
+
+    await webhook.destroy();
+
+    successResponse(res, {}, 'Webhook deleted successfully');
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// GET /api/webhooks/:id/deliveries - Get a webhook's delivery log (webhooks:manage)
+router.get('/:id/deliveries', async (req, res) => {
+  try {
+    const { page = 1, limit = 20, status, event } = req.query;
+    const offset = (page - 1) * limit;
+
+    const webhook = await Webhook.findByPk(req.params.id);
+    if (!webhook) {
+      return errorResponse(res, 'Webhook not found', 'NOT_FOUND', 404);
+    }
+
+    const whereClause = { webhook_id: webhook.id };
+    if (status) {
+      whereClause.status = status;
+    }
+    if (event) {
+      whereClause.event = event;
+    }
+
+    const deliveries = await WebhookDelivery.findAndCountAll({
+      where: whereClause,
+      limit: parseInt(limit),
+      offset: parseInt(offset),
+      order: [['createdAt', 'DESC'], ['id', 'DESC']]
+    });
+
+    const pagination = {
+      page: parseInt(page),
+      limit: parseInt(limit),
+      total: deliveries.count,
+      pages: Math.ceil(deliveries.count / limit)
+    };
+
+    successResponse(res, {
+      deliveries: deliveries.rows,
+      pagination
+    });
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+// POST /api/webhooks/deliveries/:id/replay - Send a delivery's payload again (webhooks:manage)
+router.post('/deliveries/:id/replay', async (req, res) => {
+  try {
+    const delivery = await WebhookDelivery.findByPk(req.params.id);
+    if (!delivery) {
+      return errorResponse(res, 'Delivery not found', 'NOT_FOUND', 404);
+    }
+
+    const webhook = await Webhook.findByPk(delivery.webhook_id);
+    if (!webhook.is_active) {
+      return errorResponse(res, 'Enable the webhook before replaying its deliveries', 'VALIDATION_ERROR', 400);
+    }
+
+    successResponse(res, {
+      delivery: await replay(delivery)
+    }, 'Delivery queued for replay', 201);
+  } catch (error) {
+    errorResponse(res, error, 'DATABASE_ERROR');
+  }
+});
+
+module.exports = router;
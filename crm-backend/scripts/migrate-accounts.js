@@ -0,0 +1,72 @@
+const { DataTypes } = require('sequelize');
+const { sequelize, Account } = require('../models');
+
+const accountColumn = {
+  type: DataTypes.INTEGER,
+  allowNull: true,
+  references: {
+    model: 'accounts',
+    key: 'id'
+  }
+};
+
+// Bring an existing database up to the accounts schema: the accounts table, an
+// account_id on customers, leads and interactions, and an optional contact on
+// leads and interactions
+const updateSchema = async () => {
+  const queryInterface = sequelize.getQueryInterface();
+  const isSqlite = sequelize.getDialect() === 'sqlite';
+
+  await Account.sync();
+
+  // SQLite rebuilds a table to change a column, which trips its foreign keys
+  if (isSqlite) {
+    await sequelize.query('PRAGMA foreign_keys = OFF');
+  }
+  try {
+    for (const table of ['customers', 'leads', 'interactions']) {
+      const columns = await queryInterface.describeTable(table);
+      if (!columns.account_id) {
+        await queryInterface.addColumn(table, 'account_id', accountColumn);
+      }
+      if (table !== 'customers' && columns.customer_id && !columns.customer_id.allowNull) {
+        await queryInterface.changeColumn(table, 'customer_id', {
+          type: DataTypes.INTEGER,
+          allowNull: true,
+          references: {
+            model: 'customers',
+            key: 'id'
+          }
+        });
+      }
+    }
+  } finally {
+    if (isSqlite) {
+      await sequelize.query('PRAGMA foreign_keys = ON');
+    }
+  }
+};
+
+// Group customers into accounts by their company text
+const migrateAccounts = async () => {
+  await updateSchema();
+  return sequelize.transaction(transaction => Account.migrateFromCustomers({ transaction }));
+};
+
+if (require.main === module) {
+  migrateAccounts()
+    .then((summary) => {
+      console.log('✅ Accounts migration completed');
+      console.log(`- Accounts created: ${summary.accountsCreated}`);
+      console.log(`- Contacts linked: ${summary.contactsLinked}`);
+      console.log(`- Leads linked: ${summary.leadsLinked}`);
+      console.log(`- Interactions linked: ${summary.interactionsLinked}`);
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('❌ Accounts migration failed:', error);
+      process.exit(1);
+    });
+}
+
+module.exports = migrateAccounts;
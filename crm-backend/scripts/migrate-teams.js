@@ -0,0 +1,87 @@
+const { DataTypes } = require('sequelize');
+const { sequelize, Team, User } = require('../models');
+
+// Bring an existing database up to the teams schema: the teams table and a
+// team_id on users
+const updateSchema = async () => {
+  const queryInterface = sequelize.getQueryInterface();
+
+  await Team.sync();
+
+  const columns = await queryInterface.describeTable('users');
+  if (!columns.team_id) {
+    await queryInterface.addColumn('users', 'team_id', {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'teams',
+        key: 'id'
+      }
+    });
+  }
+  return columns;
+};
+
+// Turn the free-text team names on users into teams, grouping names that only
+// differ in case or surrounding whitespace
+const migrateTeams = async () => {
+  const columns = await updateSchema();
+  const summary = { teamsCreated: 0, usersLinked: 0 };
+
+  // Databases created after teams were added have no team text to move over
+  if (!columns.team) {
+    return summary;
+  }
+
+  return sequelize.transaction(async (transaction) => {
+    const users = await sequelize.query(
+      'SELECT id, team FROM users WHERE team_id IS NULL AND team IS NOT NULL ORDER BY id',
+      { type: sequelize.QueryTypes.SELECT, transaction }
+    );
+
+    const groups = new Map();
+    users.forEach(user => {
+      const name = user.team.trim();
+      if (!name) {
+        return;
+      }
+      const key = name.toLowerCase();
+      if (!groups.has(key)) {
+        groups.set(key, { name, userIds: [] });
+      }
+      groups.get(key).userIds.push(user.id);
+    });
+
+    for (const { name, userIds } of groups.values()) {
+      let team = await Team.findByName(name, { transaction });
+      if (!team) {
+        team = await Team.create({ name }, { transaction });
+        summary.teamsCreated += 1;
+      }
+
+      const [usersLinked] = await User.update({ team_id: team.id }, {
+        where: { id: userIds },
+        transaction
+      });
+      summary.usersLinked += usersLinked;
+    }
+
+    return summary;
+  });
+};
+
+if (require.main === module) {
+  migrateTeams()
+    .then((summary) => {
+      console.log('✅ Teams migration completed');
+      console.log(`- Teams created: ${summary.teamsCreated}`);
+      console.log(`- Users linked: ${summary.usersLinked}`);
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('❌ Teams migration failed:', error);
+      process.exit(1);
+    });
+}
+
+module.exports = migrateTeams;
@@ -0,0 +1,161 @@
+#!/usr/bin/env node
+
+// A minimal OpenID Connect provider for trying out single sign-on locally and
+// for the SSO tests. It signs in whoever is set as the current user without
+// asking for credentials, so never point a real deployment at it.
+//
+//   node scripts/mock-oidc-provider.js
+//
+// then start the backend with
+//
+//   OIDC_ISSUER_URL=http://localhost:4000 OIDC_CLIENT_ID=crm OIDC_CLIENT_SECRET=secret
+//
+// MOCK_OIDC_EMAIL, MOCK_OIDC_NAME and MOCK_OIDC_GROUPS (comma separated)
+// change who gets signed in.
+
+const crypto = require('crypto');
+const express = require('express');
+const jwt = require('jsonwebtoken');
+
+const DEFAULT_USER = {
+  sub: 'mock-user-1',
+  email: 'sso.user@example.com',
+  email_verified: true,
+  name: 'SSO User',
+  groups: ['crm-users']
+};
+
+const createMockOidcProvider = ({ clientId = 'crm', clientSecret = 'secret' } = {}) => {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const jwk = { ...publicKey.export({ format: 'jwk' }), kid: 'mock-key', alg: 'RS256', use: 'sig' };
+
+  // Pending authorization codes and issued access tokens
+  const codes = new Map();
+  const accessTokens = new Map();
+
+  const provider = {
+    issuer: null,
+    user: { ...DEFAULT_USER },
+    // Claims of the user the next sign-in is for
+    setUser(claims) {
+      provider.user = { ...claims };
+    }
+  };
+
+  const app = express();
+  app.use(express.urlencoded({ extended: false }));
+
+  app.get('/.well-known/openid-configuration', (req, res) => {
+    res.json({
+      issuer: provider.issuer,
+      authorization_endpoint: `${provider.issuer}/authorize`,
+      token_endpoint: `${provider.issuer}/token`,
+      userinfo_endpoint: `${provider.issuer}/userinfo`,
+      jwks_uri: `${provider.issuer}/jwks`,
+      response_types_supported: ['code'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: ['RS256'],
+      code_challenge_methods_supported: ['S256'],
+      token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post', 'none']
+    });
+  });
+
+  app.get('/jwks', (req, res) => {
+    res.json({ keys: [jwk] });
+  });
+
+  // Signs the current user straight in and sends them back with a code
+  app.get('/authorize', (req, res) => {
+    const { client_id, redirect_uri, state, nonce, code_challenge, code_challenge_method } = req.query;
+    if (client_id !== clientId || !redirect_uri) {
+      return res.status(400).send('Unknown client');
+    }
+    if (!code_challenge || code_challenge_method !== 'S256') {
+      return res.status(400).send('PKCE with S256 is required');
+    }
+
+    const code = crypto.randomBytes(16).toString('hex');
+    codes.set(code, { claims: provider.user, redirectUri: redirect_uri, nonce, codeChallenge: code_challenge });
+
+    const location = new URL(redirect_uri);
+    location.searchParams.set('code', code);
+    if (state) {
+      location.searchParams.set('state', state);
+    }
+    res.redirect(location.toString());
+  });
+
+  app.post('/token', (req, res) => {
+    const [basicId, basicSecret] = (req.headers.authorization || '').startsWith('Basic ')
+      ? Buffer.from(req.headers.authorization.slice(6), 'base64').toString().split(':').map(decodeURIComponent)
+      : [req.body.client_id, req.body.client_secret];
+    if (basicId !== clientId || basicSecret !== clientSecret) {
+      return res.status(401).json({ error: 'invalid_client' });
+    }
+
+    const { grant_type, code, redirect_uri, code_verifier } = req.body;
+    const grant = codes.get(code);
+    codes.delete(code);
+    if (grant_type !== 'authorization_code' || !grant || grant.redirectUri !== redirect_uri) {
+      return res.status(400).json({ error: 'invalid_grant' });
+    }
+
+    const challenge = crypto.createHash('sha256').update(code_verifier || '').digest('base64url');
+    if (challenge !== grant.codeChallenge) {
+      return res.status(400).json({ error: 'invalid_grant', error_description: 'PKCE verification failed' });
+    }
+
+    const accessToken = crypto.randomBytes(16).toString('hex');
+    accessTokens.set(accessToken, grant.claims);
+
+    const idToken = jwt.sign(
+      { ...grant.claims, ...(grant.nonce && { nonce: grant.nonce }) },
+      privateKey,
+      { algorithm: 'RS256', keyid: jwk.kid, issuer: provider.issuer, audience: clientId, expiresIn: '5m' }
+    );
+
+    res.json({ access_token: accessToken, token_type: 'Bearer', expires_in: 300, id_token: idToken });
+  });
+
+  app.get('/userinfo', (req, res) => {
+    const claims = accessTokens.get((req.headers.authorization || '').replace(/^Bearer /, ''));
+    if (!claims) {
+      return res.status(401).json({ error: 'invalid_token' });
+    }
+    res.json(claims);
+  });
+
+  // Resolves once listening; port 0 picks a free port
+  provider.start = (port = 0) => new Promise((resolve) => {
+    provider.server = app.listen(port, () => {
+      provider.issuer = `http://localhost:${provider.server.address().port}`;
+      resolve(provider);
+    });
+  });
+
+  provider.stop = () => new Promise((resolve) => {
+    provider.server.close(() => resolve());
+    provider.server.closeAllConnections();
+  });
+
+  return provider;
+};
+
+if (require.main === module) {
+  const port = parseInt(process.env.MOCK_OIDC_PORT) || 4000;
+  const provider = createMockOidcProvider({
+    clientId: process.env.OIDC_CLIENT_ID || 'crm',
+    clientSecret: process.env.OIDC_CLIENT_SECRET || 'secret'
+  });
+  provider.setUser({
+    ...DEFAULT_USER,
+    ...(process.env.MOCK_OIDC_EMAIL && { sub: `mock-${process.env.MOCK_OIDC_EMAIL}`, email: process.env.MOCK_OIDC_EMAIL }),
+    ...(process.env.MOCK_OIDC_NAME && { name: process.env.MOCK_OIDC_NAME }),
+    ...(process.env.MOCK_OIDC_GROUPS && { groups: process.env.MOCK_OIDC_GROUPS.split(',') })
+  });
+  provider.start(port).then(() => {
+    console.log(`Mock OIDC provider running at ${provider.issuer}, signing in ${provider.user.email}`);
+  });
+}
+
+module.exports = { createMockOidcProvider };
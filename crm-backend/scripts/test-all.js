@@ -17,6 +17,116 @@ const tests = [
     command: 'npm test -- tests/customers.test.js',
     description: 'Testing customer CRUD operations'
   },
+  {
+    name: 'Pipeline Stage API Tests',
+    command: 'npm test -- tests/pipelineStages.test.js',
+    description: 'Testing configurable pipeline stages'
+  },
+  {
+    name: 'Pipeline API Tests',
+    command: 'npm test -- tests/pipelines.test.js',
+    description: 'Testing named pipelines'
+  },
+  {
+    name: 'Lead Outcome Tests',
+    command: 'npm test -- tests/leadOutcomes.test.js',
+    description: 'Testing won/lost outcomes and loss reasons'
+  },
+  {
+    name: 'Forecast Report Tests',
+    command: 'npm test -- tests/forecast.test.js',
+    description: 'Testing the weighted sales forecast'
+  },
+  {
+    name: 'Lead Stage History Tests',
+    command: 'npm test -- tests/leadHistory.test.js',
+    description: 'Testing stage history and pipeline velocity'
+  },
+  {
+    name: 'Account API Tests',
+    command: 'npm test -- tests/accounts.test.js',
+    description: 'Testing accounts, contacts and the customer migration'
+  },
+  {
+    name: 'Custom Field Tests',
+    command: 'npm test -- tests/customFields.test.js',
+    description: 'Testing custom field definitions, validation and filtering'
+  },
+  {
+    name: 'Record Visibility Tests',
+    command: 'npm test -- tests/visibility.test.js',
+    description: 'Testing record ownership and visibility rules'
+  },
+  {
+    name: 'Role and Permission Tests',
+    command: 'npm test -- tests/roles.test.js',
+    description: 'Testing roles, permission checks and the customer export'
+  },
+  {
+    name: 'Team Tests',
+    command: 'npm test -- tests/teams.test.js',
+    description: 'Testing teams, manager visibility and team reports'
+  },
+  {
+    name: 'Audit Log Tests',
+    command: 'npm test -- tests/audit.test.js',
+    description: 'Testing the audit trail of record changes'
+  },
+  {
+    name: 'Password Reset Tests',
+    command: 'npm test -- tests/passwordReset.test.js',
+    description: 'Testing password reset, email verification and the mail transport'
+  },
+  {
+    name: 'Two-Factor Authentication Tests',
+    command: 'npm test -- tests/mfa.test.js',
+    description: 'Testing TOTP enrollment, login challenges, recovery codes and the role policy'
+  },
+  {
+    name: 'Login Protection Tests',
+    command: 'npm test -- tests/loginProtection.test.js',
+    description: 'Testing failed login tracking, lockouts, unlocking and the security log'
+  },
+  {
+    name: 'API Key Tests',
+    command: 'npm test -- tests/apiKeys.test.js',
+    description: 'Testing personal API keys, their scopes, expiry and revocation'
+  },
+  {
+    name: 'Invitation Tests',
+    command: 'npm test -- tests/invitations.test.js',
+    description: 'Testing invitations, accepting them and turning off self-registration'
+  },
+  {
+    name: 'Single Sign-On Tests',
+    command: 'npm test -- tests/sso.test.js',
+    description: 'Testing OIDC login with PKCE against a mock provider and user provisioning'
+  },
+  {
+    name: 'User Deactivation Tests',
+    command: 'npm test -- tests/deactivation.test.js',
+    description: 'Testing deactivation, reassigning open work and blocked logins'
+  },
+  {
+    name: 'Impersonation Tests',
+    command: 'npm test -- tests/impersonation.test.js',
+    description: 'Testing impersonation tokens, blocked actions and the request log'
+  },
+  {
+    name: 'Profile Tests',
+    command: 'npm test -- tests/profile.test.js',
+    description: 'Testing self-service profile, preference and password changes'
+  },
+  {
+    name: 'Webhook Tests',
+    command: 'npm test -- tests/webhooks.test.js',
+    description: 'Testing signed webhook deliveries, retries and replays'
+  },
+  {
+    name: 'Real-time Tests',
+    command: 'npm test -- tests/realtime.test.js',
+    description: 'Testing WebSocket authentication and live pipeline, task and interaction events'
+  },
   {
     name: 'Database Connection Test',
     command: 'node -e "require(\'./models\').sequelize.authenticate().then(() => console.log(\'✅ Database connected\')).catch(e => console.error(\'❌ Database error:\', e.message))"',
@@ -1,36 +1,105 @@
 const bcrypt = require('bcryptjs');
-const { User, Customer, Lead, Task, Interaction } = require('../models');
+const { User, Role, Team, AuditLog, RefreshToken, UserToken, SecurityEvent, ApiKey, Invitation, Account, Customer, Lead, Task, Interaction, Pipeline, PipelineStage, LossReason, LeadStageHistory, CustomFieldDefinition } = require('../models');
 
 const seedDatabase = async () => {
   try {
     console.log('🌱 Starting database seeding...');
 
     // Clear existing data
+    await AuditLog.destroy({ where: {} });
     await Interaction.destroy({ where: {} });
     await Task.destroy({ where: {} });
+    await LeadStageHistory.destroy({ where: {} });
     await Lead.destroy({ where: {} });
     await Customer.destroy({ where: {} });
+    await Account.destroy({ where: {} });
+    await RefreshToken.destroy({ where: {} });
+    await UserToken.destroy({ where: {} });
+    await SecurityEvent.destroy({ where: {} });
+    await ApiKey.destroy({ where: {} });
+    await Invitation.destroy({ where: {} });
     await User.destroy({ where: {} });
+    await Team.destroy({ where: {} });
+    await Role.destroy({ where: {} });
+    await PipelineStage.destroy({ where: {} });
+    await Pipeline.destroy({ where: {} });
+    await LossReason.destroy({ where: {} });
+    await CustomFieldDefinition.destroy({ where: {} });
 
     console.log('✅ Existing data cleared');
 
+    // Create pipelines
+    const salesPipeline = await Pipeline.ensureDefaults();
+
+    const renewalPipeline = await Pipeline.create({
+      name: 'Renewals',
+      description: 'Contract renewals for existing customers'
+    });
+    await PipelineStage.bulkCreate([
+      { pipeline_id: renewalPipeline.id, key: 'upcoming', name: 'Upcoming', position: 0, color: '#3B82F6', probability: 50 },
+      { pipeline_id: renewalPipeline.id, key: 'in-review', name: 'In Review', position: 1, color: '#F59E0B', probability: 70 },
+      { pipeline_id: renewalPipeline.id, key: 'renewed', name: 'Renewed', position: 2, color: '#10B981', probability: 100, is_won: true },
+      { pipeline_id: renewalPipeline.id, key: 'churned', name: 'Churned', position: 3, color: '#EF4444', probability: 0, is_lost: true }
+    ]);
+
+    console.log('✅ Pipelines created');
+
+    await LossReason.ensureDefaults();
+
+    console.log('✅ Loss reasons created');
+
+    // Create custom fields
+    await CustomFieldDefinition.bulkCreate([
+      { entity: 'customer', key: 'region', label: 'Region', type: 'select', options: ['Americas', 'EMEA', 'APAC'], position: 0 },
+      { entity: 'customer', key: 'contract_end', label: 'Contract End Date', type: 'date', position: 1 },
+      { entity: 'lead', key: 'budget', label: 'Budget', type: 'number', position: 0 },
+      { entity: 'lead', key: 'products', label: 'Products', type: 'multi-select', options: ['Core CRM', 'Analytics', 'Support'], position: 1 },
+      { entity: 'task', key: 'billable', label: 'Billable', type: 'boolean', position: 0 }
+    ]);
+
+    console.log('✅ Custom fields created');
+
+    // Create roles
+    await Role.ensureDefaults();
+    const userRole = await Role.findByName('user');
+    await Role.create({
+      name: 'sales-manager',
+      description: 'Sales staff who also review reports and export contacts',
+      permissions: [...userRole.permissions, 'reports:view', 'customers:export', 'records:view_all']
+    });
+
+    console.log('✅ Roles created');
+
     // Create users
     const adminUser = await User.create({
       name: 'Admin User',
       email: 'admin@crm.com',
       password: 'admin123',
-      role: 'admin'
+      role: 'admin',
+      email_verified_at: new Date()
     });
 
     const regularUser = await User.create({
       name: 'Regular User',
       email: 'user@crm.com',
       password: 'user123',
-      role: 'user'
+      role: 'user',
+      visibility: 'team',
+      email_verified_at: new Date()
     });
 
     console.log('✅ Users created');
 
+    // Create teams
+    const salesTeam = await Team.create({
+      name: 'Sales',
+      description: 'New business and renewals',
+      manager_id: adminUser.id
+    });
+    await User.update({ team_id: salesTeam.id }, { where: { id: [adminUser.id, regularUser.id] } });
+
+    console.log('✅ Teams created');
+
     // Create customers
     const customers = await Customer.bulkCreate([
       {
@@ -39,7 +108,9 @@ const seedDatabase = async () => {
         phone: '+1-555-0123',
         company: 'Acme Corp',
         tags: ['Enterprise', 'Technology'],
-        notes: 'Initial contact made - interested in enterprise solution'
+        owner_id: adminUser.id,
+        notes: 'Initial contact made - interested in enterprise solution',
+        custom_fields: { region: 'Americas', contract_end: '2025-12-31' }
       },
       {
         name: 'TechStart Inc',
@@ -47,6 +118,7 @@ const seedDatabase = async () => {
         phone: '+1-555-0124',
         company: 'TechStart',
         tags: ['Startup', 'Technology'],
+        owner_id: regularUser.id,
         notes: 'Interested in CRM solution for their growing team'
       },
       {
@@ -55,7 +127,9 @@ const seedDatabase = async () => {
         phone: '+1-555-0125',
         company: 'Global Solutions',
         tags: ['Enterprise', 'Consulting'],
-        notes: 'Looking for comprehensive CRM solution'
+        owner_id: adminUser.id,
+        notes: 'Looking for comprehensive CRM solution',
+        custom_fields: { region: 'EMEA' }
       },
       {
         name: 'Innovation Labs',
@@ -63,6 +137,7 @@ const seedDatabase = async () => {
         phone: '+1-555-0126',
         company: 'Innovation Labs',
         tags: ['Startup', 'Innovation'],
+        owner_id: regularUser.id,
         notes: 'Early stage startup, needs basic CRM'
       },
       {
@@ -71,7 +146,17 @@ const seedDatabase = async () => {
         phone: '+1-555-0127',
         company: 'MegaCorp Industries',
         tags: ['Enterprise', 'Manufacturing'],
+        owner_id: regularUser.id,
         notes: 'Large enterprise with complex requirements'
+      },
+      {
+        name: 'Sarah Lee',
+        email: 'sarah.lee@acme.com',
+        phone: '+1-555-0128',
+        company: 'Acme Corp',
+        tags: ['Enterprise', 'Technology'],
+        owner_id: adminUser.id,
+        notes: 'Head of procurement at Acme Corp'
       }
     ]);
 
@@ -80,87 +165,147 @@ const seedDatabase = async () => {
     // Create leads
     const leads = await Lead.bulkCreate([
       {
+        pipeline_id: salesPipeline.id,
         title: 'Enterprise Software Deal',
         description: 'Large enterprise looking for comprehensive CRM solution with advanced features',
         stage: 'qualified',
         value: 50000.00,
+        expected_close_date: new Date(Date.now() + 45 * 24 * 60 * 60 * 1000),
+        custom_fields: { budget: 60000, products: ['Core CRM', 'Analytics'] },
         customer_id: customers[0].id,
-        assigned_to: adminUser.id
+        assigned_to: adminUser.id,
+        owner_id: adminUser.id
       },
       {
+        pipeline_id: salesPipeline.id,
         title: 'Startup CRM Implementation',
         description: 'Tech startup needs basic CRM setup for their growing sales team',
         stage: 'lead',
         value: 15000.00,
         customer_id: customers[1].id,
-        assigned_to: regularUser.id
+        assigned_to: regularUser.id,
+        owner_id: regularUser.id
       },
       {
+        pipeline_id: salesPipeline.id,
         title: 'Consulting Firm Solution',
         description: 'Global consulting firm requires CRM for client management',
         stage: 'proposal',
         value: 35000.00,
+        expected_close_date: new Date(Date.now() + 20 * 24 * 60 * 60 * 1000),
         customer_id: customers[2].id,
-        assigned_to: adminUser.id
+        assigned_to: adminUser.id,
+        owner_id: adminUser.id
       },
       {
+        pipeline_id: salesPipeline.id,
         title: 'Innovation Labs CRM',
         description: 'Early stage startup needs simple CRM solution',
         stage: 'lead',
         value: 8000.00,
         customer_id: customers[3].id,
-        assigned_to: regularUser.id
+        assigned_to: regularUser.id,
+        owner_id: regularUser.id
       },
       {
+        pipeline_id: salesPipeline.id,
         title: 'MegaCorp Enterprise Deal',
         description: 'Large manufacturing company needs enterprise CRM',
         stage: 'qualified',
         value: 75000.00,
+        expected_close_date: new Date(Date.now() + 75 * 24 * 60 * 60 * 1000),
         customer_id: customers[4].id,
-        assigned_to: adminUser.id
+        assigned_to: adminUser.id,
+        owner_id: adminUser.id
       },
       {
+        pipeline_id: salesPipeline.id,
         title: 'Acme Corp Expansion',
         description: 'Additional modules for existing Acme Corp implementation',
         stage: 'proposal',
         value: 25000.00,
+        expected_close_date: new Date(Date.now() + 10 * 24 * 60 * 60 * 1000),
         customer_id: customers[0].id,
-        assigned_to: regularUser.id
+        assigned_to: regularUser.id,
+        owner_id: regularUser.id
       },
       {
+        pipeline_id: salesPipeline.id,
         title: 'TechStart Upgrade',
         description: 'Upgrade from basic to premium CRM features',
         stage: 'lead',
         value: 12000.00,
         customer_id: customers[1].id,
-        assigned_to: adminUser.id
+        assigned_to: adminUser.id,
+        owner_id: adminUser.id
       },
       {
+        pipeline_id: salesPipeline.id,
         title: 'Global Solutions Training',
         description: 'Training and implementation services for Global Solutions',
-        stage: 'closed',
+        stage: 'won',
         value: 18000.00,
+        closed_at: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000),
         customer_id: customers[2].id,
-        assigned_to: adminUser.id
+        assigned_to: adminUser.id,
+        owner_id: adminUser.id
       },
       {
+        pipeline_id: salesPipeline.id,
         title: 'Innovation Labs Support',
         description: 'Ongoing support and maintenance contract',
         stage: 'lead',
         value: 5000.00,
         customer_id: customers[3].id,
-        assigned_to: regularUser.id
+        assigned_to: regularUser.id,
+        owner_id: regularUser.id
       },
       {
+        pipeline_id: salesPipeline.id,
         title: 'MegaCorp Integration',
         description: 'Integration with existing MegaCorp systems',
         stage: 'qualified',
         value: 30000.00,
+        expected_close_date: new Date(Date.now() + 60 * 24 * 60 * 60 * 1000),
         customer_id: customers[4].id,
-        assigned_to: adminUser.id
+        assigned_to: adminUser.id,
+        owner_id: adminUser.id
+      },
+      {
+        pipeline_id: salesPipeline.id,
+        title: 'Innovation Labs Analytics Add-on',
+        description: 'Analytics module for the Innovation Labs team',
+        stage: 'lost',
+        value: 8000.00,
+        closed_at: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000),
+        close_reason: 'Price too high',
+        customer_id: customers[3].id,
+        assigned_to: regularUser.id,
+        owner_id: regularUser.id
+      },
+      {
+        pipeline_id: renewalPipeline.id,
+        title: 'Acme Corp Annual Renewal',
+        description: 'Annual license renewal for Acme Corp',
+        stage: 'upcoming',
+        value: 20000.00,
+        expected_close_date: new Date(Date.now() + 90 * 24 * 60 * 60 * 1000),
+        customer_id: customers[0].id,
+        assigned_to: regularUser.id,
+        owner_id: regularUser.id
       }
     ]);
 
+    // Record how each lead entered its current stage
+    await LeadStageHistory.bulkCreate(leads.map(lead => ({
+      lead_id: lead.id,
+      pipeline_id: lead.pipeline_id,
+      from_stage: null,
+      to_stage: lead.stage,
+      changed_by: lead.assigned_to,
+      changed_at: lead.closed_at || new Date()
+    })));
+
     console.log('✅ Leads created');
 
     // Create tasks
@@ -237,13 +382,27 @@ const seedDatabase = async () => {
 
     console.log('✅ Interactions created');
 
+    // Group the customers into accounts by company
+    await Account.migrateFromCustomers();
+    await Account.update({ industry: 'Technology', website: 'https://acme.com' }, { where: { name: 'Acme Corp' } });
+    await Account.update({ industry: 'Manufacturing' }, { where: { name: 'MegaCorp Industries' } });
+
+    console.log('✅ Accounts created');
+
     console.log('🎉 Database seeding completed successfully!');
     console.log('\n📊 Sample Data Summary:');
     console.log(`- Users: ${await User.count()}`);
+    console.log(`- Roles: ${await Role.count()}`);
+    console.log(`- Teams: ${await Team.count()}`);
+    console.log(`- Accounts: ${await Account.count()}`);
     console.log(`- Customers: ${await Customer.count()}`);
     console.log(`- Leads: ${await Lead.count()}`);
     console.log(`- Tasks: ${await Task.count()}`);
     console.log(`- Interactions: ${await Interaction.count()}`);
+    console.log(`- Pipelines: ${await Pipeline.count()}`);
+    console.log(`- Pipeline stages: ${await PipelineStage.count()}`);
+    console.log(`- Loss reasons: ${await LossReason.count()}`);
+    console.log(`- Custom fields: ${await CustomFieldDefinition.count()}`);
 
     console.log('\n🔐 Test Credentials:');
     console.log('Admin: admin@crm.com / admin123');
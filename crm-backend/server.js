@@ -6,15 +6,31 @@ const morgan = require('morgan');
 const rateLimit = require('express-rate-limit');
 require('dotenv').config();
 
-const { sequelize } = require('./models');
+const { sequelize, Role, Pipeline, LossReason } = require('./models');
 const errorHandler = require('./middleware/errorHandler');
+const { requestContext } = require('./middleware/requestContext');
+const { startWebhookWorker } = require('./services/webhooks');
+const { attachRealtime } = require('./services/realtime');
 const authRoutes = require('./routes/auth');
+const accountRoutes = require('./routes/accounts');
 const customerRoutes = require('./routes/customers');
 const leadRoutes = require('./routes/leads');
 const taskRoutes = require('./routes/tasks');
 const interactionRoutes = require('./routes/interactions');
 const reportRoutes = require('./routes/reports');
 const userRoutes = require('./routes/users');
+const roleRoutes = require('./routes/roles');
+const teamRoutes = require('./routes/teams');
+const auditRoutes = require('./routes/audit');
+const securityEventRoutes = require('./routes/securityEvents');
+const apiKeyRoutes = require('./routes/apiKeys');
+const invitationRoutes = require('./routes/invitations');
+const impersonationRoutes = require('./routes/impersonation');
+const pipelineRoutes = require('./routes/pipelines');
+const pipelineStageRoutes = require('./routes/pipelineStages');
+const lossReasonRoutes = require('./routes/lossReasons');
+const customFieldRoutes = require('./routes/customFields');
+const webhookRoutes = require('./routes/webhooks');
 
 const app = express();
 const PORT = process.env.PORT || 5000;
@@ -28,7 +44,8 @@ app.use(cors({
   origin: process.env.FRONTEND_URL || 'http://localhost:3000',
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization']
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Request-Id'],
+  exposedHeaders: ['X-Request-Id']
 }));
 
 // Rate limiting
@@ -47,6 +64,9 @@ app.use('/api/', limiter);
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true }));
 
+// Request id and request context for the audit log
+app.use(requestContext);
+
 // Logging middleware
 if (process.env.NODE_ENV === 'development') {
   app.use(morgan('dev'));
@@ -81,12 +101,25 @@ app.get('/api/health', async (req, res) => {
 
 // API routes
 app.use('/api/auth', authRoutes);
+app.use('/api/accounts', accountRoutes);
 app.use('/api/customers', customerRoutes);
 app.use('/api/leads', leadRoutes);
 app.use('/api/tasks', taskRoutes);
 app.use('/api/interactions', interactionRoutes);
 app.use('/api/reports', reportRoutes);
 app.use('/api/users', userRoutes);
+app.use('/api/roles', roleRoutes);
+app.use('/api/teams', teamRoutes);
+app.use('/api/audit', auditRoutes);
+app.use('/api/security-events', securityEventRoutes);
+app.use('/api/api-keys', apiKeyRoutes);
+app.use('/api/invitations', invitationRoutes);
+app.use('/api/impersonation', impersonationRoutes);
+app.use('/api/pipelines', pipelineRoutes);
+app.use('/api/pipeline-stages', pipelineStageRoutes);
+app.use('/api/loss-reasons', lossReasonRoutes);
+app.use('/api/custom-fields', customFieldRoutes);
+app.use('/api/webhooks', webhookRoutes);
 
 // API info endpoint
 app.get('/api', (req, res) => {
@@ -97,12 +130,21 @@ app.get('/api', (req, res) => {
       version: '1.0.0',
       endpoints: {
         auth: '/api/auth',
+        accounts: '/api/accounts',
         customers: '/api/customers',
         leads: '/api/leads',
         tasks: '/api/tasks',
         interactions: '/api/interactions',
         reports: '/api/reports',
         users: '/api/users',
+        roles: '/api/roles',
+        teams: '/api/teams',
+        audit: '/api/audit',
+        pipelines: '/api/pipelines',
+        pipelineStages: '/api/pipeline-stages',
+        lossReasons: '/api/loss-reasons',
+        customFields: '/api/custom-fields',
+        webhooks: '/api/webhooks',
         health: '/api/health'
       },
       documentation: 'Available endpoints for CRM operations'
@@ -135,11 +177,22 @@ const startServer = async () => {
       console.log('✅ Database synchronized.');
     }
 
-    app.listen(PORT, () => {
+    // Make sure the built-in roles, a default pipeline with stages and loss reasons exist
+    await Role.ensureDefaults();
+    await Pipeline.ensureDefaults();
+    await LossReason.ensureDefaults();
+
+    // Send queued webhook deliveries and retry failed ones
+    startWebhookWorker();
+
+    const server = app.listen(PORT, () => {
       console.log(`🚀 Server running on port ${PORT}`);
       console.log(`📊 Health check: http://localhost:${PORT}/api/health`);
       console.log(`🔗 API Base URL: http://localhost:${PORT}/api`);
     });
+
+    // Live updates for the pipeline board, tasks and interactions
+    attachRealtime(server);
   } catch (error) {
     console.error('❌ Unable to start server:', error);
     process.exit(1);
@@ -159,4 +212,8 @@ process.on('SIGINT', async () => {
   process.exit(0);
 });
 
-startServer(); 
\ No newline at end of file
+if (require.main === module) {
+  startServer();
+}
+
+module.exports = app;
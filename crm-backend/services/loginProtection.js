@@ -0,0 +1,100 @@
+const { User, SecurityEvent } = require('../models');
+const { sendAccountLockedEmail } = require('./mailer');
+
+const MAX_DELAY_MS = 5000;
+const MAX_LOCKOUT_MINUTES = 24 * 60;
+
+// Read on every call so tests can change them
+const getSettings = () => ({
+  // Failed logins that lock an account
+  maxAttempts: parseInt(process.env.LOGIN_MAX_ATTEMPTS) || 5,
+  // How long the first lockout lasts; each further one lasts twice as long
+  lockoutMinutes: parseInt(process.env.LOGIN_LOCKOUT_MINUTES) || 15,
+  // Failed logins from one IP address, to any account, within the window
+  ipMaxFailures: parseInt(process.env.LOGIN_IP_MAX_FAILURES) || 20,
+  ipWindowMinutes: parseInt(process.env.LOGIN_IP_WINDOW_MINUTES) || 15,
+  // Delay before answering the first failed login; it doubles with every failure
+  delayMs: process.env.LOGIN_DELAY_MS !== undefined ? parseInt(process.env.LOGIN_DELAY_MS) : 500
+});
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+const ipWindowStart = () => new Date(Date.now() - getSettings().ipWindowMinutes * 60 * 1000);
+
+// Whether an IP address made too many failed logins lately
+const isIpBlocked = async (ip) => {
+  const failures = await SecurityEvent.countFailuresFromIp(ip, ipWindowStart());
+  return failures >= getSettings().ipMaxFailures;
+};
+
+// Log a login that was refused before the credentials were checked
+const recordBlocked = ({ user = null, email, reason }) => {
+  return SecurityEvent.log('login_blocked', { user, email, details: { reason } });
+};
+
+const lockAccount = async (user, lockouts) => {
+  const minutes = Math.min(getSettings().lockoutMinutes * 2 ** (lockouts - 1), MAX_LOCKOUT_MINUTES);
+  const lockedUntil = new Date(Date.now() + minutes * 60 * 1000);
+
+  await User.update({ locked_until: lockedUntil }, { where: { id: user.id } });
+  user.setDataValue('locked_until', lockedUntil);
+  await SecurityEvent.log('account_locked', {
+    user,
+    details: { failedAttempts: user.failed_login_count, minutes }
+  });
+
+  try {
+    await sendAccountLockedEmail(user, lockedUntil);
+  } catch (error) {
+    console.error('Failed to send account locked email:', error);
+  }
+};
+
+// Count a failed login against the account, when the email belongs to one,
+// and against the IP address. Every maxAttempts failures lock the account,
+// and the response is held back longer the more failures there were.
+const recordFailure = async ({ user = null, email, ip, reason }) => {
+  const settings = getSettings();
+  await SecurityEvent.log('login_failed', { user, email, details: { reason } });
+
+  let failures;
+  if (user) {
+    await User.increment('failed_login_count', { where: { id: user.id } });
+    failures = (await User.findByPk(user.id, { attributes: ['failed_login_count'] })).failed_login_count;
+    user.setDataValue('failed_login_count', failures);
+
+    if (failures % settings.maxAttempts === 0) {
+      await lockAccount(user, failures / settings.maxAttempts);
+    }
+  } else {
+    failures = await SecurityEvent.countFailuresFromIp(ip, ipWindowStart());
+  }
+
+  await sleep(Math.min(settings.delayMs * 2 ** (failures - 1), MAX_DELAY_MS));
+};
+
+// Log a completed login and forget earlier failures
+const recordSuccess = async (user, details = {}) => {
+  if (user.failed_login_count || user.locked_until) {
+    await User.update({ failed_login_count: 0, locked_until: null }, { where: { id: user.id } });
+    user.setDataValue('failed_login_count', 0);
+    user.setDataValue('locked_until', null);
+  }
+  await SecurityEvent.log('login_succeeded', { user, details });
+};
+
+// Lift a lockout and reset the failure count
+const unlockAccount = async (user, reason) => {
+  await User.update({ failed_login_count: 0, locked_until: null }, { where: { id: user.id } });
+  user.setDataValue('failed_login_count', 0);
+  user.setDataValue('locked_until', null);
+  await SecurityEvent.log('account_unlocked', { user, details: { reason } });
+};
+
+module.exports = {
+  isIpBlocked,
+  recordBlocked,
+  recordFailure,
+  recordSuccess,
+  unlockAccount
+};
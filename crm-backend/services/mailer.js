@@ -0,0 +1,139 @@
+const fs = require('fs/promises');
+const path = require('path');
+const crypto = require('crypto');
+const nodemailer = require('nodemailer');
+
+// Mail is sent through the transport named by MAIL_TRANSPORT:
+// - smtp: a real SMTP server (SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS)
+// - file: every message is written as JSON to MAIL_DIR, for local development and tests
+// - console: every message is printed, the default when nothing is configured
+let transport = null;
+
+const createSmtpTransport = () => {
+  const smtp = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: parseInt(process.env.SMTP_PORT) || 587,
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+      : undefined
+  });
+  return (message) => smtp.sendMail(message);
+};
+
+const createFileTransport = () => {
+  const json = nodemailer.createTransport({ jsonTransport: true });
+  const directory = getMailDir();
+  return async (message) => {
+    const info = await json.sendMail(message);
+    await fs.mkdir(directory, { recursive: true });
+    const fileName = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}.json`;
+    await fs.writeFile(path.join(directory, fileName), info.message);
+    return info;
+  };
+};
+
+const createConsoleTransport = () => {
+  const json = nodemailer.createTransport({ jsonTransport: true });
+  return async (message) => {
+    const info = await json.sendMail(message);
+    const { to, subject, text } = JSON.parse(info.message);
+    console.log(`📧 Mail to ${to.map(address => address.address).join(', ')}: ${subject}\n${text}`);
+    return info;
+  };
+};
+
+const transports = {
+  smtp: createSmtpTransport,
+  file: createFileTransport,
+  console: createConsoleTransport
+};
+
+const getMailDir = () => path.resolve(process.env.MAIL_DIR || path.join(__dirname, '..', 'tmp', 'mail'));
+
+const getTransport = () => {
+  if (!transport) {
+    const name = process.env.MAIL_TRANSPORT || 'console';
+    if (!transports[name]) {
+      throw new Error(`Unknown mail transport: ${name}`);
+    }
+    transport = transports[name]();
+  }
+  return transport;
+};
+
+// Send a plain-text message
+const sendMail = ({ to, subject, text }) => getTransport()({
+  from: process.env.MAIL_FROM || 'L2 CRM <no-reply@localhost>',
+  to,
+  subject,
+  text
+});
+
+// Link to a page of the frontend
+const frontendUrl = (pathname, params) => {
+  const url = new URL(pathname, process.env.FRONTEND_URL || 'http://localhost:3000');
+  Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
+  return url.toString();
+};
+
+const sendPasswordResetEmail = (user, token, ttlMinutes) => sendMail({
+  to: user.email,
+  subject: 'Reset your L2 CRM password',
+  text: [
+    `Hi ${user.name},`,
+    '',
+    'Someone asked to reset the password of your L2 CRM account. Open this link to choose a new one:',
+    frontendUrl('/reset-password', { token }),
+    '',
+    `The link works once and expires in ${ttlMinutes} minutes. If you did not ask for this, you can ignore this email.`
+  ].join('\n')
+});
+
+const sendVerificationEmail = (user, token) => sendMail({
+  to: user.email,
+  subject: 'Verify your L2 CRM email address',
+  text: [
+    `Hi ${user.name},`,
+    '',
+    'Please confirm this is your email address by opening this link:',
+    frontendUrl('/verify-email', { token })
+  ].join('\n')
+});
+
+const sendInvitationEmail = (invitation, token, inviter) => sendMail({
+  to: invitation.email,
+  subject: 'You are invited to L2 CRM',
+  text: [
+    invitation.name ? `Hi ${invitation.name},` : 'Hi,',
+    '',
+    `${inviter.name} invited you to join L2 CRM. Open this link to choose a password and sign in:`,
+    frontendUrl('/accept-invite', { token }),
+    '',
+    `The invitation expires on ${invitation.expires_at.toUTCString()}.`
+  ].join('\n')
+});
+
+const sendAccountLockedEmail = (user, lockedUntil) => sendMail({
+  to: user.email,
+  subject: 'Your L2 CRM account has been locked',
+  text: [
+    `Hi ${user.name},`,
+    '',
+    `After several failed attempts to sign in, your L2 CRM account is locked until ${lockedUntil.toUTCString()}.`,
+    '',
+    'If this was not you, someone may be trying to guess your password. You can choose a new one, which also unlocks the account:',
+    frontendUrl('/forgot-password', {}),
+    '',
+    'An administrator can also unlock your account.'
+  ].join('\n')
+});
+
+module.exports = {
+  sendMail,
+  sendPasswordResetEmail,
+  sendVerificationEmail,
+  sendInvitationEmail,
+  sendAccountLockedEmail,
+  getMailDir
+};
@@ -0,0 +1,64 @@
+const crypto = require('crypto');
+const { authenticator } = require('otplib');
+const QRCode = require('qrcode');
+
+const RECOVERY_CODE_COUNT = 10;
+
+// Accept the codes of the neighbouring 30 second steps to allow for clock drift
+authenticator.options = { window: 1 };
+
+const getIssuer = () => process.env.MFA_ISSUER || 'L2 CRM';
+
+const generateSecret = () => authenticator.generateSecret();
+
+// What an authenticator app needs to add the account: the secret, the
+// otpauth:// provisioning URI and that URI as a QR code image
+const getProvisioning = async (user, secret) => {
+  const otpauthUrl = authenticator.keyuri(user.email, getIssuer(), secret);
+  return {
+    secret,
+    otpauthUrl,
+    qrCode: await QRCode.toDataURL(otpauthUrl)
+  };
+};
+
+const verifyCode = (secret, code) => {
+  if (!secret || !code) {
+    return false;
+  }
+  return authenticator.check(String(code).replace(/\s/g, ''), secret);
+};
+
+// Recovery codes are compared ignoring case and dashes
+const hashRecoveryCode = (code) => crypto
+  .createHash('sha256')
+  .update(String(code).replace(/[\s-]/g, '').toLowerCase())
+  .digest('hex');
+
+// Fresh recovery codes along with the hashes to store
+const generateRecoveryCodes = () => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = crypto.randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+};
+
+// Use up one of the user's recovery codes; returns whether it was valid
+const consumeRecoveryCode = async (user, code, options = {}) => {
+  const hash = hashRecoveryCode(code);
+  const remaining = user.mfa_recovery_codes;
+  if (!remaining.includes(hash)) {
+    return false;
+  }
+  await user.update({ mfa_recovery_codes: remaining.filter(stored => stored !== hash) }, options);
+  return true;
+};
+
+module.exports = {
+  generateSecret,
+  getProvisioning,
+  verifyCode,
+  generateRecoveryCodes,
+  consumeRecoveryCode
+};
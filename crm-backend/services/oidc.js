@@ -0,0 +1,117 @@
+const { Issuer, generators } = require('openid-client');
+
+// Read on every call so tests can change them
+const getSettings = () => ({
+  issuerUrl: process.env.OIDC_ISSUER_URL,
+  clientId: process.env.OIDC_CLIENT_ID,
+  clientSecret: process.env.OIDC_CLIENT_SECRET,
+  // Frontend page the identity provider sends the user back to
+  redirectUri: process.env.OIDC_REDIRECT_URI || `${process.env.FRONTEND_URL || 'http://localhost:3000'}/login/sso`,
+  scopes: process.env.OIDC_SCOPES || 'openid email profile',
+  // Label of the login button
+  providerName: process.env.OIDC_PROVIDER_NAME || 'SSO',
+  // Claim holding the user's groups, and which role each group maps to
+  roleClaim: process.env.OIDC_ROLE_CLAIM || 'groups',
+  roleMapping: parseRoleMapping(process.env.OIDC_ROLE_MAPPING),
+  // Role of new users none of whose groups map to a role
+  defaultRole: process.env.OIDC_DEFAULT_ROLE || 'user',
+  // Whether a first SSO login creates the account; when off, only existing
+  // users can sign in with SSO
+  autoProvision: process.env.OIDC_AUTO_PROVISION !== 'false'
+});
+
+// "crm-admins:admin,crm-sales:manager" to [['crm-admins', 'admin'], ...];
+// earlier entries win when a user is in several mapped groups
+function parseRoleMapping(value) {
+  return (value || '')
+    .split(',')
+    .map(entry => entry.split(':').map(part => part.trim()))
+    .filter(([group, role]) => group && role);
+}
+
+const isEnabled = () => {
+  const { issuerUrl, clientId } = getSettings();
+  return !!(issuerUrl && clientId);
+};
+
+// Discovering the provider takes a request, so the client is kept per issuer
+// and only looked up again when discovery failed
+let cachedClient = null;
+
+const getClient = () => {
+  const { issuerUrl, clientId, clientSecret, redirectUri } = getSettings();
+  if (!cachedClient || cachedClient.issuerUrl !== issuerUrl) {
+    const client = Issuer.discover(issuerUrl).then(issuer => new issuer.Client({
+      client_id: clientId,
+      client_secret: clientSecret,
+      redirect_uris: [redirectUri],
+      response_types: ['code'],
+      token_endpoint_auth_method: clientSecret ? 'client_secret_basic' : 'none'
+    }));
+    client.catch(() => {
+      cachedClient = null;
+    });
+    cachedClient = { issuerUrl, client };
+  }
+  return cachedClient.client;
+};
+
+// Where to send the user to sign in, along with the state, nonce and PKCE
+// verifier the callback has to be checked against
+const createAuthorizationRequest = async () => {
+  const { redirectUri, scopes } = getSettings();
+  const client = await getClient();
+
+  const state = generators.state();
+  const nonce = generators.nonce();
+  const codeVerifier = generators.codeVerifier();
+
+  const authorizationUrl = client.authorizationUrl({
+    redirect_uri: redirectUri,
+    scope: scopes,
+    state,
+    nonce,
+    code_challenge: generators.codeChallenge(codeVerifier),
+    code_challenge_method: 'S256'
+  });
+
+  return { authorizationUrl, state, nonce, codeVerifier };
+};
+
+// Swap the authorization code for tokens and return the claims of the
+// verified ID token, filled in from the userinfo endpoint where it lacks
+// the email
+const exchangeCode = async ({ code, state, nonce, codeVerifier }) => {
+  const { redirectUri } = getSettings();
+  const client = await getClient();
+
+  const tokenSet = await client.callback(
+    redirectUri,
+    { code, state },
+    { state, nonce, code_verifier: codeVerifier }
+  );
+
+  const claims = tokenSet.claims();
+  if (!claims.email && tokenSet.access_token) {
+    return { ...(await client.userinfo(tokenSet.access_token)), ...claims };
+  }
+  return claims;
+};
+
+// Role the claims map to, or null when none of the user's groups is mapped
+const mapRole = (claims) => {
+  const { roleClaim, roleMapping } = getSettings();
+  const value = claims[roleClaim];
+  const groups = Array.isArray(value) ? value : (value ? [value] : []);
+
+  const match = roleMapping.find(([group]) => groups.includes(group));
+  return match ? match[1] : null;
+};
+
+module.exports = {
+  getSettings,
+  isEnabled,
+  createAuthorizationRequest,
+  exchangeCode,
+  mapRole
+};
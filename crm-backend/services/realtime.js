@@ -0,0 +1,140 @@
+const { WebSocketServer, WebSocket } = require('ws');
+const { ImpersonationLog } = require('../models');
+const { verifyAccessToken } = require('../middleware/auth');
+
+const PATH = '/ws';
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+// Tells the client to reconnect with a fresh access token
+const CLOSE_TOKEN_EXPIRED = 4401;
+
+// Open connections, each with what its user may see
+const clients = new Set();
+
+const reject = (socket, status, message) => {
+  socket.write(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+};
+
+// The user's permissions and record visibility, fixed for the connection.
+// They are looked up again when the client reconnects with its next token
+const loadClient = async (session) => {
+  const permissions = await session.user.getPermissions();
+  return {
+    userId: session.user.id,
+    impersonationId: session.impersonationId,
+    permissions,
+    visibleUserIds: permissions.includes('records:view_all')
+      ? null
+      : await session.user.getVisibleUserIds()
+  };
+};
+
+const register = (ws, client, expiresAt) => {
+  client.ws = ws;
+  client.alive = true;
+  clients.add(client);
+
+  // The connection lasts only as long as the access token it was opened with
+  const expiry = setTimeout(() => ws.close(CLOSE_TOKEN_EXPIRED, 'Token expired'),
+    Math.max(expiresAt.getTime() - Date.now(), 0));
+
+  ws.on('pong', () => {
+    client.alive = true;
+  });
+  ws.on('close', () => {
+    clearTimeout(expiry);
+    clients.delete(client);
+  });
+  ws.on('error', () => ws.terminate());
+};
+
+// Serve WebSocket connections on /ws of an HTTP server. Browsers cannot set
+// headers on WebSocket requests, so the access token comes in the query string
+const attachRealtime = (server) => {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on('upgrade', async (req, socket, head) => {
+    const url = new URL(req.url, 'http://localhost');
+    if (url.pathname !== PATH) {
+      return reject(socket, 404, 'Not Found');
+    }
+
+    try {
+      const session = await verifyAccessToken(url.searchParams.get('token'));
+      if (session.error) {
+        return reject(socket, 401, 'Unauthorized');
+      }
+
+      const client = await loadClient(session);
+      if (session.impersonator) {
+        await ImpersonationLog.record({
+          impersonator: session.impersonator,
+          user: session.user,
+          method: req.method,
+          originalUrl: PATH,
+          ip: req.socket.remoteAddress
+        });
+      }
+
+      wss.handleUpgrade(req, socket, head, ws => register(ws, client, session.expiresAt));
+    } catch (error) {
+      console.error('WebSocket connection failed:', error);
+      reject(socket, 500, 'Internal Server Error');
+    }
+  });
+
+  // Drop connections that stopped answering pings
+  const heartbeat = setInterval(() => {
+    for (const client of clients) {
+      if (!client.alive) {
+        client.ws.terminate();
+        continue;
+      }
+      client.alive = false;
+      client.ws.ping();
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+  heartbeat.unref();
+
+  server.on('close', () => {
+    clearInterval(heartbeat);
+    for (const client of clients) {
+      client.ws.terminate();
+    }
+  });
+
+  return wss;
+};
+
+// Send an event to every connected user with the permission who may see a
+// record belonging to one of the users
+const publish = (event, data, { permission, userIds = [] }) => {
+  const message = JSON.stringify({ event, data });
+
+  for (const client of clients) {
+    if (client.ws.readyState !== WebSocket.OPEN || !client.permissions.includes(permission)) {
+      continue;
+    }
+    if (client.visibleUserIds && !userIds.some(userId => client.visibleUserIds.includes(userId))) {
+      continue;
+    }
+    client.ws.send(message);
+  }
+};
+
+// Close the connections opened with an impersonation token once the
+// impersonation has ended
+const endImpersonation = (impersonationId) => {
+  for (const client of clients) {
+    if (client.impersonationId === impersonationId) {
+      client.ws.close(CLOSE_TOKEN_EXPIRED, 'Impersonation ended');
+    }
+  }
+};
+
+module.exports = {
+  attachRealtime,
+  publish,
+  endImpersonation
+};
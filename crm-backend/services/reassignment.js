@@ -0,0 +1,67 @@
+const { Op } = require('sequelize');
+const { Lead, Task, Interaction, Customer, LeadStageHistory } = require('../models');
+
+// Conditions for the open leads and tasks a user is responsible for. Leads
+// count while they are not closed, tasks until they are completed.
+const openLeadsOf = (userId) => ({
+  closed_at: null,
+  [Op.or]: [{ assigned_to: userId }, { owner_id: userId }]
+});
+
+const openTasksOf = (userId) => ({
+  assignedTo: userId,
+  status: { [Op.ne]: 'completed' }
+});
+
+// How many open leads and tasks a user still has
+const getOpenWork = async (userId, options = {}) => {
+  const [leads, tasks] = await Promise.all([
+    Lead.count({ ...options, where: openLeadsOf(userId) }),
+    Task.count({ ...options, where: openTasksOf(userId) })
+  ]);
+  return { leads, tasks };
+};
+
+// Hand a user's open leads and tasks to someone else. Closed leads and
+// completed tasks stay with the user so history shows who did the work.
+// Every row goes through the hooks, so each change is audited.
+const reassignOpenWork = async (fromUserId, toUserId, options = {}) => {
+  const moved = await getOpenWork(fromUserId, options);
+
+  await Lead.update({ assigned_to: toUserId }, {
+    ...options,
+    where: { closed_at: null, assigned_to: fromUserId },
+    individualHooks: true
+  });
+  await Lead.update({ owner_id: toUserId }, {
+    ...options,
+    where: { closed_at: null, owner_id: fromUserId },
+    individualHooks: true
+  });
+  await Task.update({ assignedTo: toUserId }, {
+    ...options,
+    where: openTasksOf(fromUserId),
+    individualHooks: true
+  });
+
+  return moved;
+};
+
+// Whether any customer, lead, task, interaction or stage change points at
+// the user, open or not. Such users are deactivated rather than deleted.
+const hasRecords = async (userId) => {
+  const counts = await Promise.all([
+    Customer.count({ where: { owner_id: userId } }),
+    Lead.count({ where: { [Op.or]: [{ assigned_to: userId }, { owner_id: userId }] } }),
+    Task.count({ where: { assignedTo: userId } }),
+    Interaction.count({ where: { created_by: userId } }),
+    LeadStageHistory.count({ where: { changed_by: userId } })
+  ]);
+  return counts.some(count => count > 0);
+};
+
+module.exports = {
+  getOpenWork,
+  hasRecords,
+  reassignOpenWork
+};
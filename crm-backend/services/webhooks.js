@@ -0,0 +1,181 @@
+const crypto = require('crypto');
+const { Webhook, WebhookDelivery } = require('../models');
+
+const RESPONSE_BODY_LIMIT = 1000;
+const BATCH_SIZE = 20;
+
+// Read on every call so tests can change them
+const getSettings = () => ({
+  // Attempts before a delivery is given up as failed
+  maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS) || 8,
+  // Wait before the first retry; each further retry waits twice as long
+  retryBaseSeconds: parseInt(process.env.WEBHOOK_RETRY_BASE_SECONDS) || 60,
+  // How long a receiver has to answer
+  timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS) || 10000,
+  // How often the worker looks for retries that are due
+  pollIntervalMs: parseInt(process.env.WEBHOOK_POLL_INTERVAL_MS) || 15000
+});
+
+// Queue an event for every active webhook subscribed to it. Deliveries are
+// written with the change that caused them, so an event is never sent for a
+// change that rolled back nor lost for one that committed
+const emit = async (event, data, options = {}) => {
+  if (!Webhook.EVENTS.includes(event)) {
+    throw new Error(`Unknown webhook event: ${event}`);
+  }
+
+  const { transaction } = options;
+  const webhooks = await Webhook.findSubscribed(event, { transaction });
+  if (webhooks.length === 0) {
+    return [];
+  }
+
+  const now = new Date();
+  const payload = {
+    id: crypto.randomUUID(),
+    event,
+    createdAt: now.toISOString(),
+    // Round-trip through JSON so model instances are stored as plain values
+    data: JSON.parse(JSON.stringify(data))
+  };
+
+  const deliveries = await WebhookDelivery.bulkCreate(webhooks.map(webhook => ({
+    webhook_id: webhook.id,
+    event,
+    payload,
+    next_attempt_at: now
+  })), { transaction });
+
+  if (transaction) {
+    transaction.afterCommit(() => scheduleProcessing());
+  } else {
+    scheduleProcessing();
+  }
+
+  return deliveries;
+};
+
+// Send a delivery once and record the outcome
+const attempt = async (delivery, webhook) => {
+  const settings = getSettings();
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const attempts = delivery.attempts + 1;
+
+  const outcome = {
+    attempts,
+    last_attempt_at: new Date(),
+    response_status: null,
+    response_body: null,
+    error: null
+  };
+
+  if (!webhook || !webhook.is_active) {
+    outcome.error = 'Webhook is disabled';
+  } else {
+    try {
+      const response = await fetch(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'CRM-Webhooks/1.0',
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Delivery': delivery.id.toString(),
+          'X-Webhook-Timestamp': timestamp,
+          'X-Webhook-Signature': `sha256=${webhook.sign(timestamp, body)}`
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(settings.timeoutMs)
+      });
+      outcome.response_status = response.status;
+      outcome.response_body = (await response.text()).slice(0, RESPONSE_BODY_LIMIT);
+    } catch (error) {
+      outcome.error = (error.name === 'TimeoutError'
+        ? `No response within ${settings.timeoutMs}ms`
+        : error.cause?.message || error.message).slice(0, 500);
+    }
+  }
+
+  const succeeded = outcome.response_status >= 200 && outcome.response_status < 300;
+  if (succeeded) {
+    outcome.status = 'succeeded';
+    outcome.next_attempt_at = null;
+  } else if (attempts >= settings.maxAttempts || !webhook) {
+    outcome.status = 'failed';
+    outcome.next_attempt_at = null;
+  } else {
+    const delaySeconds = settings.retryBaseSeconds * 2 ** (attempts - 1);
+    outcome.next_attempt_at = new Date(Date.now() + delaySeconds * 1000);
+  }
+
+  await delivery.update(outcome);
+  return delivery;
+};
+
+// Send every delivery that is due. Calls made while a run is in progress
+// share it, so no delivery is sent twice at once
+let running = null;
+
+const processDue = () => {
+  if (!running) {
+    running = (async () => {
+      let processed = 0;
+      let batch;
+      do {
+        batch = await WebhookDelivery.findDue(BATCH_SIZE);
+        for (const delivery of batch) {
+          await attempt(delivery, await Webhook.findByPk(delivery.webhook_id));
+          processed += 1;
+        }
+      } while (batch.length === BATCH_SIZE);
+      return processed;
+    })().finally(() => {
+      running = null;
+    });
+  }
+  return running;
+};
+
+const scheduleProcessing = () => {
+  setImmediate(() => {
+    processDue().catch(error => console.error('Webhook delivery failed:', error));
+  });
+};
+
+// Send a delivery's payload again as a new delivery, keeping the original as it was
+const replay = async (delivery) => {
+  const copy = await WebhookDelivery.create({
+    webhook_id: delivery.webhook_id,
+    event: delivery.event,
+    payload: delivery.payload,
+    next_attempt_at: new Date(),
+    replay_of: delivery.id
+  });
+  scheduleProcessing();
+  return copy;
+};
+
+// Retry deliveries on a timer; pending ones left over from a restart go out on the first run
+let worker = null;
+
+const startWebhookWorker = () => {
+  if (!worker) {
+    worker = setInterval(scheduleProcessing, getSettings().pollIntervalMs);
+    worker.unref();
+    scheduleProcessing();
+  }
+};
+
+const stopWebhookWorker = () => {
+  clearInterval(worker);
+  worker = null;
+};
+
+module.exports = {
+  emit,
+  processDue,
+  replay,
+  startWebhookWorker,
+  stopWebhookWorker
+};
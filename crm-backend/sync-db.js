@@ -1,9 +1,12 @@
-const { sequelize } = require('./models');
+const { sequelize, Role, Pipeline, LossReason } = require('./models');
 
 const syncDatabase = async () => {
   try {
     console.log('🔄 Syncing database...');
     await sequelize.sync({ force: true });
+    await Role.ensureDefaults();
+    await Pipeline.ensureDefaults();
+    await LossReason.ensureDefaults();
     console.log('✅ Database synced successfully!');
     process.exit(0);
   } catch (error) {
@@ -0,0 +1,160 @@
+const request = require('supertest');
+const { sequelize, Role, Pipeline, Account, Customer, Lead, Interaction } = require('../models');
+const app = require('../server');
+
+describe('Accounts', () => {
+  let userToken;
+
+  beforeAll(async () => {
+    await sequelize.sync({ force: true });
+  });
+
+  afterAll(async () => {
+    await sequelize.close();
+  });
+
+  beforeEach(async () => {
+    await sequelize.truncate({ cascade: true });
+    await Role.ensureDefaults();
+    await Pipeline.ensureDefaults();
+
+    const userResponse = await request(app)
+      .post('/api/auth/register')
+      .send({
+        name: 'Test User',
+        email: 'user@example.com',
+        password: 'password123'
+      });
+    userToken = userResponse.body.data.token;
+  });
+
+  describe('Account.migrateFromCustomers', () => {
+    test('should group customers into accounts by company', async () => {
+      const alice = await Customer.create({ name: 'Alice', company: 'Acme Corp' });
+      const bob = await Customer.create({ name: 'Bob', company: ' acme corp ' });
+      const carol = await Customer.create({ name: 'Carol', company: 'Globex' });
+      const dave = await Customer.create({ name: 'Dave' });
+      const lead = await Lead.create({ title: 'Deal', stage: 'lead', customer_id: bob.id });
+      const interaction = await Interaction.create({ type: 'call', notes: 'Intro call', customer_id: carol.id });
+
+      const summary = await Account.migrateFromCustomers();
+
+      expect(summary).toEqual({ accountsCreated: 2, contactsLinked: 3, leadsLinked: 1, interactionsLinked: 1 });
+
+      const acme = await Account.findByName('Acme Corp');
+      const globex = await Account.findByName('globex');
+      await Promise.all([alice, bob, carol, dave, lead, interaction].map(record => record.reload()));
+      expect(alice.account_id).toBe(acme.id);
+      expect(bob.account_id).toBe(acme.id);
+      expect(carol.account_id).toBe(globex.id);
+      expect(dave.account_id).toBeNull();
+      expect(lead.account_id).toBe(acme.id);
+      expect(interaction.account_id).toBe(globex.id);
+    });
+
+    test('should reuse existing accounts when run again', async () => {
+      await Account.create({ name: 'Acme Corp' });
+      await Customer.create({ name: 'Alice', company: 'ACME CORP' });
+
+      const summary = await Account.migrateFromCustomers();
+      const rerun = await Account.migrateFromCustomers();
+
+      expect(summary.accountsCreated).toBe(0);
+      expect(summary.contactsLinked).toBe(1);
+      expect(rerun.contactsLinked).toBe(0);
+      expect(await Account.count()).toBe(1);
+    });
+  });
+
+  describe('Account API', () => {
+    test('should create an account and reject a duplicate name', async () => {
+      const response = await request(app)
+        .post('/api/accounts')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ name: 'Acme Corp', industry: 'Technology' });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data.account.name).toBe('Acme Corp');
+
+      const duplicate = await request(app)
+        .post('/api/accounts')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ name: 'acme corp' });
+
+      expect(duplicate.status).toBe(409);
+      expect(duplicate.body.code).toBe('DUPLICATE_ENTRY');
+    });
+
+    test('should return an account with its contacts, leads and interactions', async () => {
+      const account = await Account.create({ name: 'Acme Corp' });
+
+      const contactResponse = await request(app)
+        .post('/api/customers')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ name: 'Alice', email: 'alice@acme.com', accountId: account.id });
+
+      expect(contactResponse.status).toBe(201);
+      expect(contactResponse.body.data.customer.company).toBe('Acme Corp');
+      expect(contactResponse.body.data.customer.account.id).toBe(account.id);
+
+      const leadResponse = await request(app)
+        .post('/api/leads')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ title: 'Deal', customerId: contactResponse.body.data.customer.id });
+
+      expect(leadResponse.status).toBe(201);
+      expect(leadResponse.body.data.lead.account_id).toBe(account.id);
+
+      await request(app)
+        .post('/api/interactions')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ type: 'note', notes: 'Account-wide note', accountId: account.id });
+
+      const response = await request(app)
+        .get(`/api/accounts/${account.id}`)
+        .set('Authorization', `Bearer ${userToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.account.contacts).toHaveLength(1);
+      expect(response.body.data.account.leads).toHaveLength(1);
+      expect(response.body.data.account.interactions).toHaveLength(1);
+    });
+
+    test('should not delete an account that has leads', async () => {
+      const account = await Account.create({ name: 'Acme Corp' });
+      await Lead.create({ title: 'Deal', stage: 'lead', account_id: account.id });
+
+      const response = await request(app)
+        .delete(`/api/accounts/${account.id}`)
+        .set('Authorization', `Bearer ${userToken}`);
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('VALIDATION_ERROR');
+    });
+  });
+
+  describe('Leads with accounts', () => {
+    test('should create a lead linked to an account only', async () => {
+      const account = await Account.create({ name: 'Acme Corp' });
+
+      const response = await request(app)
+        .post('/api/leads')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ title: 'Account Deal', accountId: account.id });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data.lead.customer_id).toBeNull();
+      expect(response.body.data.lead.account.name).toBe('Acme Corp');
+    });
+
+    test('should require a contact or an account', async () => {
+      const response = await request(app)
+        .post('/api/leads')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ title: 'Orphan Deal' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('VALIDATION_ERROR');
+    });
+  });
+});
@@ -0,0 +1,167 @@
+const request = require('supertest');
+const { sequelize, Role, Pipeline, User, ApiKey } = require('../models');
+const app = require('../server');
+
+describe('API keys', () => {
+  let user;
+  let userToken;
+  let adminToken;
+
+  const login = async (email) => {
+    const response = await request(app)
+      .post('/api/auth/login')
+      .send({ email, password: 'password123' });
+    return response.body.data.token;
+  };
+
+  const createKey = (token, body = {}) => request(app)
+    .post('/api/api-keys')
+    .set('Authorization', `Bearer ${token}`)
+    .send({ name: 'Ops script', scopes: ['customers:view'], ...body });
+
+  beforeAll(async () => {
+    await sequelize.sync({ force: true });
+  });
+
+  afterAll(async () => {
+    await sequelize.close();
+  });
+
+  beforeEach(async () => {
+    await sequelize.truncate({ cascade: true });
+    await Role.ensureDefaults();
+    await Pipeline.ensureDefaults();
+
+    user = await User.create({ name: 'Regular User', email: 'user@example.com', password: 'password123' });
+    await User.create({ name: 'Admin User', email: 'admin@example.com', password: 'password123', role: 'admin' });
+    userToken = await login('user@example.com');
+    adminToken = await login('admin@example.com');
+  });
+
+  test('should show the key once, store it hashed and accept it in either header', async () => {
+    const response = await createKey(userToken);
+
+    expect(response.status).toBe(201);
+    const { key, apiKey } = response.body.data;
+    expect(key).toMatch(/^crm_[a-f0-9]{48}$/);
+    expect(apiKey.prefix).toBe(key.slice(0, 12));
+    expect(apiKey.key_hash).toBeUndefined();
+
+    const stored = await ApiKey.findByPk(apiKey.id);
+    expect(stored.key_hash).not.toBe(key);
+
+    const withHeader = await request(app)
+      .get('/api/customers')
+      .set('X-API-Key', key);
+    expect(withHeader.status).toBe(200);
+
+    const withBearer = await request(app)
+      .get('/api/customers')
+      .set('Authorization', `Bearer ${key}`);
+    expect(withBearer.status).toBe(200);
+
+    const list = await request(app)
+      .get('/api/api-keys')
+      .set('Authorization', `Bearer ${userToken}`);
+    expect(list.body.data.apiKeys).toHaveLength(1);
+    expect(list.body.data.apiKeys[0].last_used_at).not.toBeNull();
+    expect(JSON.stringify(list.body)).not.toContain(key);
+  });
+
+  test('should limit a key to its scopes and its owner\'s permissions', async () => {
+    const { key } = (await createKey(userToken)).body.data;
+
+    const create = await request(app)
+      .post('/api/customers')
+      .set('X-API-Key', key)
+      .send({ name: 'Jane Doe', email: 'jane@example.com' });
+    expect(create.status).toBe(403);
+
+    const beyondRole = await createKey(userToken, { scopes: ['customers:view', 'users:manage'] });
+    expect(beyondRole.status).toBe(400);
+    expect(beyondRole.body.error).toContain('users:manage');
+
+    const unknown = await createKey(userToken, { scopes: ['everything'] });
+    expect(unknown.status).toBe(400);
+
+    // Losing a permission on the role takes it away from the key as well
+    await Role.update({ permissions: ['leads:view'] }, { where: { name: 'user' } });
+    const afterRoleChange = await request(app)
+      .get('/api/customers')
+      .set('X-API-Key', key);
+    expect(afterRoleChange.status).toBe(403);
+  });
+
+  test('should reject expired and revoked keys', async () => {
+    const { key, apiKey } = (await createKey(userToken)).body.data;
+
+    await ApiKey.update({ expires_at: new Date(Date.now() - 1000) }, { where: { id: apiKey.id } });
+    const expired = await request(app)
+      .get('/api/customers')
+      .set('X-API-Key', key);
+    expect(expired.status).toBe(401);
+
+    const other = (await createKey(userToken, { expiresInDays: 7 })).body.data;
+    const revoke = await request(app)
+      .delete(`/api/api-keys/${other.apiKey.id}`)
+      .set('Authorization', `Bearer ${userToken}`);
+    expect(revoke.status).toBe(200);
+    expect(revoke.body.data.apiKey.revoked_at).not.toBeNull();
+
+    const revoked = await request(app)
+      .get('/api/customers')
+      .set('X-API-Key', other.key);
+    expect(revoked.status).toBe(401);
+
+    const unknown = await request(app)
+      .get('/api/customers')
+      .set('X-API-Key', 'crm_not-a-real-key');
+    expect(unknown.status).toBe(401);
+  });
+
+  test('should not let keys create keys or manage sessions', async () => {
+    const { key } = (await createKey(userToken)).body.data;
+
+    const create = await request(app)
+      .post('/api/api-keys')
+      .set('X-API-Key', key)
+      .send({ name: 'Another', scopes: ['customers:view'] });
+    expect(create.status).toBe(403);
+
+    const logout = await request(app)
+      .post('/api/auth/logout-all')
+      .set('X-API-Key', key);
+    expect(logout.status).toBe(403);
+  });
+
+  test('should let admins list and revoke any key', async () => {
+    const { apiKey } = (await createKey(userToken)).body.data;
+    const adminKey = (await createKey(adminToken, { name: 'Admin script' })).body.data.apiKey;
+
+    const forbidden = await request(app)
+      .get('/api/api-keys/all')
+      .set('Authorization', `Bearer ${userToken}`);
+    expect(forbidden.status).toBe(403);
+
+    const notOwn = await request(app)
+      .delete(`/api/api-keys/${adminKey.id}`)
+      .set('Authorization', `Bearer ${userToken}`);
+    expect(notOwn.status).toBe(404);
+
+    const list = await request(app)
+      .get('/api/api-keys/all')
+      .set('Authorization', `Bearer ${adminToken}`);
+    expect(list.status).toBe(200);
+    expect(list.body.data.apiKeys).toHaveLength(2);
+    expect(list.body.data.apiKeys.find(key => key.id === apiKey.id).user.email).toBe('user@example.com');
+
+    const revoke = await request(app)
+      .delete(`/api/api-keys/${apiKey.id}`)
+      .set('Authorization', `Bearer ${adminToken}`);
+    expect(revoke.status).toBe(200);
+
+    const stored = await ApiKey.findByPk(apiKey.id);
+    expect(stored.revoked_by).toBe((await User.findOne({ where: { email: 'admin@example.com' } })).id);
+    expect(stored.user_id).toBe(user.id);
+  });
+});
@@ -0,0 +1,132 @@
+const request = require('supertest');
+const { sequelize, Role, Pipeline, User, Customer, Task, AuditLog } = require('../models');
+const app = require('../server');
+
+describe('Audit log', () => {
+  let adminToken;
+  let userToken;
+  let user;
+
+  // Create a user with the given role and sign them in
+  const register = async (name, email, role = 'user') => {
+    await User.create({ name, email, password: 'password123', role });
+    const response = await request(app)
+      .post('/api/auth/login')
+      .send({ email, password: 'password123' });
+    return response.body.data;
+  };
+
+  beforeAll(async () => {
+    await sequelize.sync({ force: true });
+  });
+
+  afterAll(async () => {
+    await sequelize.close();
+  });
+
+  beforeEach(async () => {
+    await sequelize.truncate({ cascade: true });
+    await Role.ensureDefaults();
+    await Pipeline.ensureDefaults();
+
+    adminToken = (await register('Admin User', 'admin@example.com', 'admin')).token;
+    const userData = await register('Regular User', 'user@example.com');
+    userToken = userData.token;
+    user = await User.findByPk(userData.user.id);
+    await AuditLog.destroy({ where: {} });
+  });
+
+  describe('Recording changes', () => {
+    test('should record who created a record, from where and in which request', async () => {
+      const response = await request(app)
+        .post('/api/customers')
+        .set('Authorization', `Bearer ${userToken}`)
+        .set('X-Request-Id', 'req-123')
+        .send({ name: 'Acme', email: 'hello@acme.com' });
+
+      expect(response.status).toBe(201);
+      expect(response.headers['x-request-id']).toBe('req-123');
+
+      const entries = await AuditLog.findAll({ where: { entity_type: 'customer' } });
+      expect(entries).toHaveLength(1);
+      expect(entries[0].action).toBe('create');
+      expect(entries[0].entity_id).toBe(response.body.data.customer.id);
+      expect(entries[0].actor_id).toBe(user.id);
+      expect(entries[0].request_id).toBe('req-123');
+      expect(entries[0].ip_address).toBeTruthy();
+      expect(entries[0].changes.name).toEqual({ before: null, after: 'Acme' });
+    });
+
+    test('should record only the attributes an update changed', async () => {
+      const customer = await Customer.create({ name: 'Acme', email: 'hello@acme.com', owner_id: user.id });
+
+      await request(app)
+        .put(`/api/customers/${customer.id}`)
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ name: 'Acme Corp', email: 'hello@acme.com' });
+
+      const entry = await AuditLog.findOne({ where: { entity_type: 'customer', action: 'update' } });
+      expect(entry.changes).toEqual({ name: { before: 'Acme', after: 'Acme Corp' } });
+      expect(entry.actor_id).toBe(user.id);
+    });
+
+    test('should record deletes with the values before the delete', async () => {
+      const task = await Task.create({ title: 'Call back', assignedTo: user.id });
+
+      await request(app)
+        .delete(`/api/tasks/${task.id}`)
+        .set('Authorization', `Bearer ${userToken}`);
+
+      const entry = await AuditLog.findOne({ where: { entity_type: 'task', action: 'delete' } });
+      expect(entry.entity_id).toBe(task.id);
+      expect(entry.changes.title).toEqual({ before: 'Call back', after: null });
+    });
+
+    test('should never log passwords', async () => {
+      await user.update({ password: 'newpassword123' });
+
+      const entry = await AuditLog.findOne({ where: { entity_type: 'user', action: 'update' } });
+      expect(entry.actor_id).toBeNull();
+      expect(entry.changes.password).toEqual({ before: '[redacted]', after: '[redacted]' });
+    });
+  });
+
+  describe('GET /api/audit', () => {
+    test('should filter entries by entity, actor and date', async () => {
+      await request(app)
+        .post('/api/customers')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ name: 'Acme' });
+      await request(app)
+        .post('/api/tasks')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ title: 'Kick-off' });
+
+      const byEntity = await request(app)
+        .get('/api/audit?entityType=task')
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(byEntity.status).toBe(200);
+      expect(byEntity.body.data.entries).toHaveLength(1);
+      expect(byEntity.body.data.entries[0].actor.name).toBe('Admin User');
+
+      const byActor = await request(app)
+        .get(`/api/audit?actorId=${user.id}`)
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(byActor.body.data.entries.map(entry => entry.entity_type)).toEqual(['customer']);
+
+      const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+      const byDate = await request(app)
+        .get(`/api/audit?startDate=${tomorrow}`)
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(byDate.body.data.pagination.total).toBe(0);
+    });
+
+    test('should require audit:view', async () => {
+      const response = await request(app)
+        .get('/api/audit')
+        .set('Authorization', `Bearer ${userToken}`);
+
+      expect(response.status).toBe(403);
+    });
+  });
+});
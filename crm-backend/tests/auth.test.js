@@ -1,5 +1,5 @@
 const request = require('supertest');
-const { sequelize } = require('../models');
+const { sequelize, Role, RefreshToken } = require('../models');
 const bcrypt = require('bcryptjs');
 
 // Mock the server
@@ -16,6 +16,7 @@ describe('Authentication Endpoints', () => {
 
   beforeEach(async () => {
     await sequelize.truncate({ cascade: true });
+    await Role.ensureDefaults();
   });
 
   describe('POST /api/auth/register', () => {
@@ -25,8 +26,7 @@ describe('Authentication Endpoints', () => {
         .send({
           name: 'Test User',
           email: 'test@example.com',
-          password: 'password123',
-          role: 'user'
+          password: 'password123'
         });
 
       expect(response.status).toBe(201);
@@ -90,4 +90,101 @@ describe('Authentication Endpoints', () => {
       expect(response.body.code).toBe('AUTHENTICATION_ERROR');
     });
   });
+
+  describe('Sessions', () => {
+    let session;
+
+    const login = async () => {
+      const response = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'test@example.com', password: 'password123' });
+      return response.body.data;
+    };
+
+    const refresh = (refreshToken) => request(app)
+      .post('/api/auth/refresh')
+      .send({ refreshToken });
+
+    const getMe = (token) => request(app)
+      .get('/api/auth/me')
+      .set('Authorization', `Bearer ${token}`);
+
+    beforeEach(async () => {
+      await request(app)
+        .post('/api/auth/register')
+        .send({
+          name: 'Test User',
+          email: 'test@example.com',
+          password: 'password123'
+        });
+      session = await login();
+    });
+
+    test('should rotate the refresh token and store only its hash', async () => {
+      expect(session).toHaveProperty('refreshToken');
+
+      const response = await refresh(session.refreshToken);
+      expect(response.status).toBe(200);
+      expect(response.body.data.refreshToken).not.toBe(session.refreshToken);
+      expect((await getMe(response.body.data.token)).status).toBe(200);
+
+      const stored = await RefreshToken.findAll({ order: [['id', 'ASC']] });
+      expect(stored.map(token => token.token_hash)).not.toContain(session.refreshToken);
+      const rotated = stored.find(token => token.token_hash === RefreshToken.hashToken(session.refreshToken));
+      expect(rotated.revoked_at).not.toBeNull();
+      expect(rotated.replaced_by_id).toBeTruthy();
+    });
+
+    test('should revoke the whole session when a used refresh token comes back', async () => {
+      const rotated = (await refresh(session.refreshToken)).body.data;
+
+      const reuse = await refresh(session.refreshToken);
+      expect(reuse.status).toBe(401);
+      expect(reuse.body.code).toBe('AUTHENTICATION_ERROR');
+
+      expect((await refresh(rotated.refreshToken)).status).toBe(401);
+      expect((await getMe(rotated.token)).status).toBe(401);
+    });
+
+    test('should rotate a refresh token only once when it is used twice at the same time', async () => {
+      const responses = await Promise.all([refresh(session.refreshToken), refresh(session.refreshToken)]);
+      expect(responses.map(response => response.status).sort()).toEqual([200, 401]);
+
+      // The second use counts as reuse, so the new token goes with the session
+      const rotated = responses.find(response => response.status === 200).body.data;
+      expect((await refresh(rotated.refreshToken)).status).toBe(401);
+      expect((await getMe(rotated.token)).status).toBe(401);
+    });
+
+    test('should end only the current session on logout', async () => {
+      const otherSession = await login();
+
+      const response = await request(app)
+        .post('/api/auth/logout')
+        .set('Authorization', `Bearer ${session.token}`);
+      expect(response.status).toBe(200);
+
+      expect((await getMe(session.token)).status).toBe(401);
+      expect((await refresh(session.refreshToken)).status).toBe(401);
+      expect((await getMe(otherSession.token)).status).toBe(200);
+    });
+
+    test('should end every session on logout-all, including the one from registering', async () => {
+      const otherSession = await login();
+
+      const response = await request(app)
+        .post('/api/auth/logout-all')
+        .set('Authorization', `Bearer ${session.token}`);
+      expect(response.status).toBe(200);
+      expect(response.body.data.revokedSessions).toBe(3);
+
+      expect((await getMe(otherSession.token)).status).toBe(401);
+      expect((await refresh(otherSession.refreshToken)).status).toBe(401);
+    });
+
+    test('should reject unknown refresh tokens', async () => {
+      const response = await refresh('not-a-real-token');
+      expect(response.status).toBe(401);
+    });
+  });
 }); 
\ No newline at end of file
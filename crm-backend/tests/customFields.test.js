@@ -0,0 +1,172 @@
+const request = require('supertest');
+const { sequelize, Role, Pipeline, Customer, CustomFieldDefinition, User } = require('../models');
+const app = require('../server');
+
+describe('Custom Fields', () => {
+  let adminToken;
+  let userToken;
+
+  beforeAll(async () => {
+    await sequelize.sync({ force: true });
+  });
+
+  afterAll(async () => {
+    await sequelize.close();
+  });
+
+  beforeEach(async () => {
+    await sequelize.truncate({ cascade: true });
+    await Role.ensureDefaults();
+    await Pipeline.ensureDefaults();
+
+    await User.create({ name: 'Admin User', email: 'admin@example.com', password: 'password123', role: 'admin' });
+    const adminResponse = await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'admin@example.com', password: 'password123' });
+    adminToken = adminResponse.body.data.token;
+
+    const userResponse = await request(app)
+      .post('/api/auth/register')
+      .send({
+        name: 'Regular User',
+        email: 'user@example.com',
+        password: 'password123'
+      });
+    userToken = userResponse.body.data.token;
+  });
+
+  const defineCustomerFields = () => CustomFieldDefinition.bulkCreate([
+    { entity: 'customer', key: 'region', label: 'Region', type: 'select', options: ['EMEA', 'APAC', 'Americas'], required: true, position: 0 },
+    { entity: 'customer', key: 'budget', label: 'Budget', type: 'number', position: 1 },
+    { entity: 'customer', key: 'contract_end', label: 'Contract End', type: 'date', position: 2 },
+    { entity: 'customer', key: 'products', label: 'Products', type: 'multi-select', options: ['CRM', 'Analytics'], position: 3 },
+    { entity: 'customer', key: 'partner', label: 'Partner', type: 'boolean', position: 4 }
+  ]);
+
+  describe('Definitions', () => {
+    test('should create a field as admin', async () => {
+      const response = await request(app)
+        .post('/api/custom-fields')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ entity: 'lead', key: 'source', label: 'Source', type: 'select', options: ['Web', 'Referral'] });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data.customField.options).toEqual(['Web', 'Referral']);
+      expect(response.body.data.customField.position).toBe(0);
+    });
+
+    test('should require options for select fields', async () => {
+      const response = await request(app)
+        .post('/api/custom-fields')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ entity: 'lead', key: 'source', label: 'Source', type: 'select' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('VALIDATION_ERROR');
+    });
+
+    test('should not allow regular users to define fields', async () => {
+      const response = await request(app)
+        .post('/api/custom-fields')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ entity: 'task', key: 'effort', label: 'Effort', type: 'number' });
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('Values', () => {
+    test('should store valid values on a customer', async () => {
+      await defineCustomerFields();
+
+      const response = await request(app)
+        .post('/api/customers')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({
+          name: 'Acme Corporation',
+          customFields: { region: 'EMEA', budget: '25000', contract_end: '2025-06-30', products: ['CRM'], partner: true }
+        });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data.customer.custom_fields).toEqual({
+        region: 'EMEA',
+        budget: 25000,
+        contract_end: '2025-06-30',
+        products: ['CRM'],
+        partner: true
+      });
+    });
+
+    test('should reject missing required, invalid and unknown values', async () => {
+      await defineCustomerFields();
+
+      const send = (customFields) => request(app)
+        .post('/api/customers')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ name: 'Acme Corporation', customFields });
+
+      const missing = await send({ budget: 100 });
+      const invalidOption = await send({ region: 'Antarctica' });
+      const unknown = await send({ region: 'EMEA', colour: 'blue' });
+
+      expect(missing.status).toBe(400);
+      expect(invalidOption.status).toBe(400);
+      expect(unknown.status).toBe(400);
+      expect(unknown.body.error).toContain('is not a custom field');
+    });
+
+    test('should store values on leads and tasks', async () => {
+      await CustomFieldDefinition.bulkCreate([
+        { entity: 'lead', key: 'source', label: 'Source', type: 'text' },
+        { entity: 'task', key: 'billable', label: 'Billable', type: 'boolean' }
+      ]);
+      const customer = await Customer.create({ name: 'Acme Corporation' });
+
+      const leadResponse = await request(app)
+        .post('/api/leads')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ title: 'Deal', customerId: customer.id, customFields: { source: 'Trade show' } });
+
+      const taskResponse = await request(app)
+        .post('/api/tasks')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ title: 'Call back', customFields: { billable: true } });
+
+      expect(leadResponse.status).toBe(201);
+      expect(leadResponse.body.data.lead.custom_fields).toEqual({ source: 'Trade show' });
+      expect(taskResponse.status).toBe(201);
+      expect(taskResponse.body.data.task.customFields).toEqual({ billable: true });
+    });
+  });
+
+  describe('Filtering', () => {
+    beforeEach(async () => {
+      await defineCustomerFields();
+      await Customer.bulkCreate([
+        { name: 'Acme Corporation', custom_fields: { region: 'EMEA', budget: 50000, products: ['CRM', 'Analytics'], partner: true } },
+        { name: 'TechStart Inc', custom_fields: { region: 'APAC', budget: 10000, products: ['CRM'], partner: false } },
+        { name: 'Global Solutions', custom_fields: { region: 'EMEA', budget: 5000 } }
+      ]);
+    });
+
+    const list = (query) => request(app)
+      .get('/api/customers')
+      .query(query)
+      .set('Authorization', `Bearer ${userToken}`);
+
+    const names = (response) => response.body.data.customers.map(customer => customer.name).sort();
+
+    test('should filter by select, boolean and multi-select values', async () => {
+      expect(names(await list({ 'customFields[region]': 'EMEA' }))).toEqual(['Acme Corporation', 'Global Solutions']);
+      expect(names(await list({ 'customFields[partner]': 'true' }))).toEqual(['Acme Corporation']);
+      expect(names(await list({ 'customFields[products]': 'Analytics' }))).toEqual(['Acme Corporation']);
+    });
+
+    test('should filter number fields by range', async () => {
+      const response = await list({ 'customFields[budget][gte]': '10000', 'customFields[region]': 'EMEA' });
+
+      expect(response.status).toBe(200);
+      expect(names(response)).toEqual(['Acme Corporation']);
+    });
+  });
+});
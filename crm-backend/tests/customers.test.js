@@ -1,5 +1,5 @@
 const request = require('supertest');
-const { sequelize } = require('../models');
+const { sequelize, Role, Pipeline } = require('../models');
 const app = require('../server');
 
 describe('Customer Endpoints', () => {
@@ -8,6 +8,7 @@ describe('Customer Endpoints', () => {
 
   beforeAll(async () => {
     await sequelize.sync({ force: true });
+    await Role.ensureDefaults();
     
     // Create a test user and get auth token
     const userResponse = await request(app)
@@ -15,8 +16,7 @@ describe('Customer Endpoints', () => {
       .send({
         name: 'Test User',
         email: 'test@example.com',
-        password: 'password123',
-        role: 'user'
+        password: 'password123'
       });
     
     authToken = userResponse.body.data.token;
@@ -28,6 +28,7 @@ describe('Customer Endpoints', () => {
 
   beforeEach(async () => {
     await sequelize.truncate({ cascade: true });
+    await Role.ensureDefaults();
     
     // Recreate test user
     const userResponse = await request(app)
@@ -35,8 +36,7 @@ describe('Customer Endpoints', () => {
       .send({
         name: 'Test User',
         email: 'test@example.com',
-        password: 'password123',
-        role: 'user'
+        password: 'password123'
       });
     
     authToken = userResponse.body.data.token;
@@ -224,6 +224,74 @@ describe('Customer Endpoints', () => {
     });
   });
 
+  describe('GET /api/customers/:id/timeline', () => {
+    test('should merge interactions, stage changes, task completions and edits, newest first', async () => {
+      await Pipeline.ensureDefaults();
+      const auth = { Authorization: `Bearer ${authToken}` };
+
+      const customerResponse = await request(app)
+        .post('/api/customers')
+        .set(auth)
+        .send({ name: 'Timeline Customer', email: 'timeline@example.com' });
+      const customerId = customerResponse.body.data.customer.id;
+
+      await request(app)
+        .post('/api/interactions')
+        .set(auth)
+        .send({ customerId, type: 'call', notes: 'Intro call', date: '2024-01-01T10:00:00.000Z' });
+
+      const leadResponse = await request(app)
+        .post('/api/leads')
+        .set(auth)
+        .send({ title: 'Timeline Deal', customerId });
+      await request(app)
+        .put(`/api/leads/${leadResponse.body.data.lead.id}/stage`)
+        .set(auth)
+        .send({ stage: 'qualified' });
+
+      const taskResponse = await request(app)
+        .post('/api/tasks')
+        .set(auth)
+        .send({ title: 'Send proposal', customerId });
+      await request(app)
+        .put(`/api/tasks/${taskResponse.body.data.task.id}/status`)
+        .set(auth)
+        .send({ status: 'completed' });
+
+      await request(app)
+        .put(`/api/customers/${customerId}`)
+        .set(auth)
+        .send({ name: 'Timeline Customer', email: 'new@example.com' });
+
+      const response = await request(app)
+        .get(`/api/customers/${customerId}/timeline`)
+        .set(auth);
+
+      expect(response.status).toBe(200);
+      const { timeline } = response.body.data;
+      expect(timeline.map(event => event.type)).toEqual([
+        'field_edit',
+        'task_completed',
+        'stage_change',
+        'stage_change',
+        'interaction'
+      ]);
+      expect(timeline[0].changes.email).toEqual({ before: 'timeline@example.com', after: 'new@example.com' });
+      expect(timeline[0].user.name).toBe('Test User');
+      expect(timeline[1].task.title).toBe('Send proposal');
+      expect(timeline[2]).toMatchObject({ fromStage: 'lead', toStage: 'qualified', lead: { title: 'Timeline Deal' } });
+      expect(timeline[4].interaction.notes).toBe('Intro call');
+    });
+
+    test('should return 404 for an unknown customer', async () => {
+      const response = await request(app)
+        .get('/api/customers/99999/timeline')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(404);
+    });
+  });
+
   describe('Authentication', () => {
     test('should require authentication', async () => {
       const response = await request(app)
@@ -0,0 +1,143 @@
+const request = require('supertest');
+const { sequelize, Role, Pipeline, User, Customer, Lead, Task, Interaction, AuditLog, SecurityEvent } = require('../models');
+const app = require('../server');
+
+describe('User deactivation', () => {
+  let adminToken;
+  let admin;
+  let leaver;
+  let colleague;
+  let customer;
+
+  const login = (email) => request(app)
+    .post('/api/auth/login')
+    .send({ email, password: 'password123' });
+
+  const deactivate = (user, body = {}) => request(app)
+    .post(`/api/users/${user.id}/deactivate`)
+    .set('Authorization', `Bearer ${adminToken}`)
+    .send(body);
+
+  beforeAll(async () => {
+    await sequelize.sync({ force: true });
+  });
+
+  afterAll(async () => {
+    await sequelize.close();
+  });
+
+  beforeEach(async () => {
+    await sequelize.truncate({ cascade: true });
+    await Role.ensureDefaults();
+    await Pipeline.ensureDefaults();
+
+    admin = await User.create({ name: 'Admin User', email: 'admin@example.com', password: 'password123', role: 'admin' });
+    leaver = await User.create({ name: 'Leaving User', email: 'leaver@example.com', password: 'password123' });
+    colleague = await User.create({ name: 'Colleague', email: 'colleague@example.com', password: 'password123' });
+    adminToken = (await login('admin@example.com')).body.data.token;
+    customer = await Customer.create({ name: 'Acme', owner_id: leaver.id });
+  });
+
+  test('should move open leads and tasks to another user in one step', async () => {
+    const openLead = await Lead.create({ title: 'Open deal', stage: 'lead', customer_id: customer.id, owner_id: leaver.id, assigned_to: leaver.id });
+    const closedLead = await Lead.create({ title: 'Won deal', stage: 'closed-won', customer_id: customer.id, assigned_to: leaver.id, closed_at: new Date() });
+    const openTask = await Task.create({ title: 'Follow up', assignedTo: leaver.id, status: 'in-progress' });
+    const doneTask = await Task.create({ title: 'Send quote', assignedTo: leaver.id, status: 'completed' });
+
+    const counts = await request(app)
+      .get(`/api/users/${leaver.id}/open-work`)
+      .set('Authorization', `Bearer ${adminToken}`);
+    expect(counts.body.data.openWork).toEqual({ leads: 1, tasks: 1 });
+
+    const missingTarget = await deactivate(leaver);
+    expect(missingTarget.status).toBe(400);
+
+    const response = await deactivate(leaver, { reassignTo: colleague.id });
+    expect(response.status).toBe(200);
+    expect(response.body.data.user.is_active).toBe(false);
+    expect(response.body.data.user.deactivated_by).toBe(admin.id);
+    expect(response.body.data.reassigned).toEqual({ leads: 1, tasks: 1 });
+
+    await openLead.reload();
+    expect(openLead.assigned_to).toBe(colleague.id);
+    expect(openLead.owner_id).toBe(colleague.id);
+    expect((await closedLead.reload()).assigned_to).toBe(leaver.id);
+    expect((await openTask.reload()).assignedTo).toBe(colleague.id);
+    expect((await doneTask.reload()).assignedTo).toBe(leaver.id);
+
+    const entry = await AuditLog.findOne({ where: { entity_type: 'lead', entity_id: openLead.id, action: 'update' } });
+    expect(entry.actor_id).toBe(admin.id);
+    expect(entry.changes.assigned_to).toEqual({ before: leaver.id, after: colleague.id });
+
+    expect(await SecurityEvent.count({ where: { event: 'account_deactivated', user_id: leaver.id } })).toBe(1);
+  });
+
+  test('should block every way of signing in once deactivated', async () => {
+    const session = (await login('leaver@example.com')).body.data;
+
+    await deactivate(leaver);
+
+    const loginResponse = await login('leaver@example.com');
+    expect(loginResponse.status).toBe(403);
+    expect(loginResponse.body.code).toBe('ACCOUNT_DEACTIVATED');
+
+    const me = await request(app)
+      .get('/api/auth/me')
+      .set('Authorization', `Bearer ${session.token}`);
+    expect(me.status).toBe(401);
+
+    const refresh = await request(app)
+      .post('/api/auth/refresh')
+      .send({ refreshToken: session.refreshToken });
+    expect(refresh.status).toBe(401);
+
+    const reactivate = await request(app)
+      .post(`/api/users/${leaver.id}/reactivate`)
+      .set('Authorization', `Bearer ${adminToken}`);
+    expect(reactivate.status).toBe(200);
+    expect(reactivate.body.data.user.is_active).toBe(true);
+    expect((await login('leaver@example.com')).status).toBe(200);
+  });
+
+  test('should keep showing deactivated users in history', async () => {
+    const lead = await Lead.create({ title: 'Deal', stage: 'lead', customer_id: customer.id, owner_id: admin.id });
+    await Interaction.create({ type: 'call', notes: 'Intro call', customer_id: customer.id, lead_id: lead.id, created_by: leaver.id });
+
+    await deactivate(leaver);
+
+    const response = await request(app)
+      .get(`/api/leads/${lead.id}`)
+      .set('Authorization', `Bearer ${adminToken}`);
+    expect(response.status).toBe(200);
+    expect(response.body.data.lead.interactions[0].createdByUser).toEqual({ id: leaver.id, name: 'Leaving User', is_active: false });
+  });
+
+  test('should only hand work to another active user and not deactivate yourself', async () => {
+    await Task.create({ title: 'Follow up', assignedTo: leaver.id });
+
+    const self = await deactivate(admin);
+    expect(self.status).toBe(400);
+
+    const toThemselves = await deactivate(leaver, { reassignTo: leaver.id });
+    expect(toThemselves.status).toBe(400);
+
+    await colleague.update({ is_active: false });
+    const toInactive = await deactivate(leaver, { reassignTo: colleague.id });
+    expect(toInactive.status).toBe(400);
+
+    expect((await leaver.reload()).is_active).toBe(true);
+  });
+
+  test('should refuse to delete users who have records', async () => {
+    const withRecords = await request(app)
+      .delete(`/api/users/${leaver.id}`)
+      .set('Authorization', `Bearer ${adminToken}`);
+    expect(withRecords.status).toBe(409);
+    expect(await User.count({ where: { id: leaver.id } })).toBe(1);
+
+    const withoutRecords = await request(app)
+      .delete(`/api/users/${colleague.id}`)
+      .set('Authorization', `Bearer ${adminToken}`);
+    expect(withoutRecords.status).toBe(200);
+  });
+});
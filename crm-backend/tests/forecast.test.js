@@ -0,0 +1,92 @@
+const request = require('supertest');
+const { sequelize, Role, Pipeline, Customer, Lead, User } = require('../models');
+const app = require('../server');
+
+// YYYY-MM-DD for the 15th of the month `offset` months from now
+const dayInMonth = (offset) => {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + offset, 15)).toISOString().slice(0, 10);
+};
+
+describe('Forecast Report', () => {
+  let adminToken;
+  let pipeline;
+  let customer;
+
+  beforeAll(async () => {
+    await sequelize.sync({ force: true });
+  });
+
+  afterAll(async () => {
+    await sequelize.close();
+  });
+
+  beforeEach(async () => {
+    await sequelize.truncate({ cascade: true });
+    await Role.ensureDefaults();
+    pipeline = await Pipeline.ensureDefaults();
+    customer = await Customer.create({ name: 'Test Customer' });
+
+    await User.create({ name: 'Admin User', email: 'admin@example.com', password: 'password123', role: 'admin' });
+    const adminResponse = await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'admin@example.com', password: 'password123' });
+    adminToken = adminResponse.body.data.token;
+  });
+
+  const createLead = (attributes) => {
+    return Lead.create({
+      title: 'Test Lead',
+      customer_id: customer.id,
+      pipeline_id: pipeline.id,
+      ...attributes
+    });
+  };
+
+  test('should weight open leads by stage probability per month', async () => {
+    // Default stage probabilities: qualified 30%, proposal 60%
+    await createLead({ stage: 'qualified', value: 1000, expected_close_date: dayInMonth(0) });
+    await createLead({ stage: 'proposal', value: 2000, expected_close_date: dayInMonth(1) });
+    await createLead({ stage: 'proposal', value: 500, expected_close_date: dayInMonth(-2) });
+    await createLead({ stage: 'lead', value: 4000 });
+    await createLead({ stage: 'won', value: 3000, closed_at: new Date() });
+    await createLead({ stage: 'lost', value: 9000, closed_at: new Date() });
+
+    const response = await request(app)
+      .get('/api/reports/forecast?months=3&monthsBack=1')
+      .set('Authorization', `Bearer ${adminToken}`);
+
+    expect(response.status).toBe(200);
+    const { periods, unscheduled, byStage, byUser, totals } = response.body.data;
+
+    expect(periods).toHaveLength(4);
+    expect(periods[0]).toEqual(expect.objectContaining({ period: dayInMonth(-1).slice(0, 7), forecast: 0, closedWon: 0 }));
+
+    // Overdue deals roll into the current month
+    expect(periods[1]).toEqual(expect.objectContaining({ deals: 2, pipelineValue: 1500, forecast: 600, closedWon: 3000 }));
+    expect(periods[2]).toEqual(expect.objectContaining({ deals: 1, pipelineValue: 2000, forecast: 1200, closedWon: 0 }));
+
+    expect(unscheduled).toEqual({ deals: 1, pipelineValue: 4000, forecast: 400 });
+    expect(totals).toEqual({ deals: 4, pipelineValue: 7500, forecast: 2200 });
+
+    expect(byStage.map(stage => stage.stage)).toEqual(['lead', 'qualified', 'proposal']);
+    expect(byStage[2]).toEqual(expect.objectContaining({ deals: 2, forecast: 1500 }));
+    expect(byUser).toEqual([expect.objectContaining({ userId: null, name: 'Unassigned', deals: 4, forecast: 2200 })]);
+  });
+
+  test('should require admin role', async () => {
+    const userResponse = await request(app)
+      .post('/api/auth/register')
+      .send({
+        name: 'Test User',
+        email: 'test@example.com',
+        password: 'password123'
+      });
+
+    const response = await request(app)
+      .get('/api/reports/forecast')
+      .set('Authorization', `Bearer ${userResponse.body.data.token}`);
+
+    expect(response.status).toBe(403);
+  });
+});
@@ -0,0 +1,191 @@
+const request = require('supertest');
+const { sequelize, Role, Pipeline, User, AuditLog, SecurityEvent, ImpersonationLog } = require('../models');
+const app = require('../server');
+
+describe('Impersonation', () => {
+  let adminSession;
+  let admin;
+  let user;
+
+  const login = async (email) => {
+    const response = await request(app)
+      .post('/api/auth/login')
+      .send({ email, password: 'password123' });
+    return response.body.data;
+  };
+
+  const impersonate = (userId, token = adminSession.token) => request(app)
+    .post('/api/impersonation')
+    .set('Authorization', `Bearer ${token}`)
+    .send({ userId });
+
+  beforeAll(async () => {
+    await sequelize.sync({ force: true });
+  });
+
+  afterAll(async () => {
+    await sequelize.close();
+  });
+
+  beforeEach(async () => {
+    await sequelize.truncate({ cascade: true });
+    await Role.ensureDefaults();
+    await Pipeline.ensureDefaults();
+
+    admin = await User.create({ name: 'Admin User', email: 'admin@example.com', password: 'password123', role: 'admin' });
+    user = await User.create({ name: 'Regular User', email: 'user@example.com', password: 'password123' });
+    adminSession = await login('admin@example.com');
+  });
+
+  test('should act as the user and log every request', async () => {
+    const response = await impersonate(user.id);
+    expect(response.status).toBe(200);
+    const { token } = response.body.data;
+
+    const me = await request(app)
+      .get('/api/auth/me')
+      .set('Authorization', `Bearer ${token}`);
+    expect(me.body.data.user.id).toBe(user.id);
+    expect(me.body.data.user.permissions).not.toContain('users:manage');
+    expect(me.body.data.user.impersonator).toEqual({ id: admin.id, name: 'Admin User', email: 'admin@example.com' });
+
+    const users = await request(app)
+      .get('/api/users')
+      .set('Authorization', `Bearer ${token}`);
+    expect(users.status).toBe(403);
+
+    const created = await request(app)
+      .post('/api/customers')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ name: 'Acme' });
+    expect(created.status).toBe(201);
+
+    const entry = await AuditLog.findOne({ where: { entity_type: 'customer', action: 'create' } });
+    expect(entry.actor_id).toBe(user.id);
+    expect(entry.impersonator_id).toBe(admin.id);
+
+    const end = await request(app)
+      .post('/api/impersonation/end')
+      .set('Authorization', `Bearer ${token}`);
+    expect(end.status).toBe(200);
+
+    const logs = await request(app)
+      .get('/api/impersonation/logs')
+      .set('Authorization', `Bearer ${adminSession.token}`);
+    expect(logs.status).toBe(200);
+    expect(logs.body.data.logs.map(log => `${log.method} ${log.path}`)).toEqual([
+      'POST /api/impersonation/end',
+      'POST /api/customers',
+      'GET /api/users',
+      'GET /api/auth/me'
+    ]);
+    expect(logs.body.data.logs[0].impersonator.id).toBe(admin.id);
+    expect(logs.body.data.logs[0].user.id).toBe(user.id);
+
+    const events = await SecurityEvent.findAll({ where: { user_id: user.id }, order: [['id', 'ASC']] });
+    expect(events.map(event => event.event)).toEqual(['impersonation_started', 'impersonation_ended']);
+    expect(events.every(event => event.actor_id === admin.id)).toBe(true);
+  });
+
+  test('should block sensitive actions while impersonating', async () => {
+    const { token } = (await impersonate(user.id)).body.data;
+
+    const apiKey = await request(app)
+      .post('/api/api-keys')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ name: 'Script', scopes: ['customers:view'] });
+    expect(apiKey.status).toBe(403);
+
+    const mfa = await request(app)
+      .post('/api/auth/mfa/setup')
+      .set('Authorization', `Bearer ${token}`);
+    expect(mfa.status).toBe(403);
+
+    const logoutAll = await request(app)
+      .post('/api/auth/logout-all')
+      .set('Authorization', `Bearer ${token}`);
+    expect(logoutAll.status).toBe(403);
+
+    const nested = await impersonate(user.id, token);
+    expect(nested.status).toBe(403);
+  });
+
+  test('should only let admins impersonate active non-admin users', async () => {
+    const userSession = await login('user@example.com');
+    const forbidden = await impersonate(admin.id, userSession.token);
+    expect(forbidden.status).toBe(403);
+
+    const otherAdmin = await User.create({ name: 'Other Admin', email: 'other@example.com', password: 'password123', role: 'admin' });
+    const adminTarget = await impersonate(otherAdmin.id);
+    expect(adminTarget.status).toBe(403);
+
+    await user.update({ is_active: false });
+    const inactive = await impersonate(user.id);
+    expect(inactive.status).toBe(400);
+
+    expect(await ImpersonationLog.count()).toBe(0);
+  });
+
+  test('should not let support staff impersonate users with more permissions', async () => {
+    const userRole = await Role.findByName('user');
+    await Role.create({ name: 'support', permissions: [...userRole.permissions, 'users:manage', 'users:impersonate'] });
+    await Role.create({ name: 'role-admin', permissions: ['roles:manage', 'customers:view'] });
+    await User.create({ name: 'Support User', email: 'support@example.com', password: 'password123', role: 'support' });
+    const roleAdmin = await User.create({ name: 'Role Admin', email: 'roles@example.com', password: 'password123', role: 'role-admin' });
+    const supportSession = await login('support@example.com');
+
+    const forbidden = await impersonate(roleAdmin.id, supportSession.token);
+    expect(forbidden.status).toBe(403);
+
+    // Users within their own permissions are fine
+    const allowed = await impersonate(user.id, supportSession.token);
+    expect(allowed.status).toBe(200);
+  });
+
+  test('should stop accepting the token once ended', async () => {
+    const { token } = (await impersonate(user.id)).body.data;
+    const other = (await impersonate(user.id)).body.data.token;
+
+    const end = await request(app)
+      .post('/api/impersonation/end')
+      .set('Authorization', `Bearer ${token}`);
+    expect(end.status).toBe(200);
+
+    const me = await request(app)
+      .get('/api/auth/me')
+      .set('Authorization', `Bearer ${token}`);
+    expect(me.status).toBe(401);
+    expect(me.body.error).toBe('Impersonation has ended');
+
+    const endAgain = await request(app)
+      .post('/api/impersonation/end')
+      .set('Authorization', `Bearer ${token}`);
+    expect(endAgain.status).toBe(401);
+
+    // Other impersonations go on
+    const stillActive = await request(app)
+      .get('/api/auth/me')
+      .set('Authorization', `Bearer ${other}`);
+    expect(stillActive.status).toBe(200);
+  });
+
+  test('should end with the admin session or their permission', async () => {
+    const { token } = (await impersonate(user.id)).body.data;
+
+    const adminRole = await Role.findByName('admin');
+    await adminRole.update({ permissions: adminRole.permissions.filter(permission => permission !== 'users:impersonate') });
+    const withoutPermission = await request(app)
+      .get('/api/auth/me')
+      .set('Authorization', `Bearer ${token}`);
+    expect(withoutPermission.status).toBe(401);
+
+    await adminRole.update({ permissions: Role.PERMISSIONS });
+    await request(app)
+      .post('/api/auth/logout')
+      .set('Authorization', `Bearer ${adminSession.token}`);
+    const afterLogout = await request(app)
+      .get('/api/auth/me')
+      .set('Authorization', `Bearer ${token}`);
+    expect(afterLogout.status).toBe(401);
+  });
+});
@@ -0,0 +1,185 @@
+const fs = require('fs/promises');
+const path = require('path');
+const request = require('supertest');
+const { sequelize, Role, User, Invitation } = require('../models');
+const { getMailDir } = require('../services/mailer');
+const app = require('../server');
+
+describe('Invitations', () => {
+  let adminToken;
+  let userToken;
+
+  const readMail = async (to) => {
+    const files = (await fs.readdir(getMailDir())).sort();
+    const messages = await Promise.all(files.map(async (file) => JSON.parse(await fs.readFile(path.join(getMailDir(), file), 'utf8'))));
+    return messages.filter(message => message.to.some(address => address.address === to));
+  };
+
+  const tokenFromMail = (message) => message.text.match(/token=([a-f0-9]+)/)[1];
+
+  const login = async (email) => {
+    const response = await request(app)
+      .post('/api/auth/login')
+      .send({ email, password: 'password123' });
+    return response.body.data.token;
+  };
+
+  const invite = (body, token = adminToken) => request(app)
+    .post('/api/invitations')
+    .set('Authorization', `Bearer ${token}`)
+    .send({ email: 'new@example.com', name: 'New Hire', ...body });
+
+  const accept = (token, body = {}) => request(app)
+    .post('/api/auth/accept-invite')
+    .send({ token, name: 'New Hire', password: 'newpassword1', ...body });
+
+  beforeAll(async () => {
+    await sequelize.sync({ force: true });
+  });
+
+  afterAll(async () => {
+    await sequelize.close();
+  });
+
+  beforeEach(async () => {
+    await sequelize.truncate({ cascade: true });
+    await Role.ensureDefaults();
+    await fs.rm(getMailDir(), { recursive: true, force: true });
+    delete process.env.ALLOW_SELF_REGISTRATION;
+
+    await User.create({ name: 'Admin User', email: 'admin@example.com', password: 'password123', role: 'admin' });
+    await User.create({ name: 'Regular User', email: 'user@example.com', password: 'password123' });
+    adminToken = await login('admin@example.com');
+    userToken = await login('user@example.com');
+  });
+
+  afterEach(() => {
+    delete process.env.ALLOW_SELF_REGISTRATION;
+  });
+
+  test('should email an invitation that creates the account with the invited role', async () => {
+    const response = await invite({ role: 'admin' });
+
+    expect(response.status).toBe(201);
+    expect(response.body.data.invitation.status).toBe('pending');
+    expect(response.body.data.invitation.token_hash).toBeUndefined();
+
+    const [message] = await readMail('new@example.com');
+    expect(message.text).toContain('Admin User invited you');
+    const token = tokenFromMail(message);
+
+    const lookup = await request(app)
+      .post('/api/auth/invitation')
+      .send({ token });
+    expect(lookup.status).toBe(200);
+    expect(lookup.body.data.invitation).toMatchObject({ email: 'new@example.com', name: 'New Hire', role: 'admin' });
+
+    const accepted = await accept(token);
+    expect(accepted.status).toBe(201);
+    expect(accepted.body.data.user.email).toBe('new@example.com');
+    expect(accepted.body.data.user.role).toBe('admin');
+    expect(accepted.body.data.user.email_verified_at).not.toBeNull();
+    expect(accepted.body.data.token).toBeDefined();
+
+    const again = await accept(token);
+    expect(again.status).toBe(400);
+
+    const stored = await Invitation.findByPk(response.body.data.invitation.id);
+    expect(stored.getStatus()).toBe('accepted');
+    expect(stored.user_id).toBe(accepted.body.data.user.id);
+  });
+
+  test('should only let user managers invite, with known roles and new emails', async () => {
+    const forbidden = await invite({}, userToken);
+    expect(forbidden.status).toBe(403);
+
+    const unknownRole = await invite({ role: 'wizard' });
+    expect(unknownRole.status).toBe(400);
+    expect(unknownRole.body.error).toBe('Invalid role');
+
+    const existing = await invite({ email: 'user@example.com' });
+    expect(existing.status).toBe(409);
+  });
+
+  test('should not let user managers invite to roles beyond their own permissions', async () => {
+    await Role.create({ name: 'support', permissions: ['users:manage', 'customers:view'] });
+    await User.create({ name: 'Support User', email: 'support@example.com', password: 'password123', role: 'support' });
+    const supportToken = await login('support@example.com');
+
+    const asAdmin = await invite({ role: 'admin' }, supportToken);
+    expect(asAdmin.status).toBe(403);
+    expect(await Invitation.count()).toBe(0);
+
+    const asUser = await invite({ role: 'user' }, supportToken);
+    expect(asUser.status).toBe(403);
+
+    await Role.create({ name: 'viewer', permissions: ['customers:view'] });
+    const asViewer = await invite({ role: 'viewer' }, supportToken);
+    expect(asViewer.status).toBe(201);
+
+    // Resending checks the role again
+    const byAdmin = await invite({ email: 'boss@example.com', role: 'admin' });
+    const resend = await request(app)
+      .post(`/api/invitations/${byAdmin.body.data.invitation.id}/resend`)
+      .set('Authorization', `Bearer ${supportToken}`);
+    expect(resend.status).toBe(403);
+  });
+
+  test('should reject expired, revoked and replaced invitations', async () => {
+    const first = await invite();
+    const firstToken = tokenFromMail((await readMail('new@example.com'))[0]);
+
+    // Resending replaces the link
+    const resend = await request(app)
+      .post(`/api/invitations/${first.body.data.invitation.id}/resend`)
+      .set('Authorization', `Bearer ${adminToken}`);
+    expect(resend.status).toBe(200);
+    const secondToken = tokenFromMail((await readMail('new@example.com'))[1]);
+    expect((await accept(firstToken)).status).toBe(400);
+
+    await Invitation.update({ expires_at: new Date(Date.now() - 1000) }, { where: { id: resend.body.data.invitation.id } });
+    expect((await accept(secondToken)).status).toBe(400);
+
+    const third = await invite();
+    const thirdToken = tokenFromMail((await readMail('new@example.com'))[2]);
+    const revoke = await request(app)
+      .delete(`/api/invitations/${third.body.data.invitation.id}`)
+      .set('Authorization', `Bearer ${adminToken}`);
+    expect(revoke.status).toBe(200);
+    expect(revoke.body.data.invitation.status).toBe('revoked');
+    expect((await accept(thirdToken)).status).toBe(400);
+
+    expect(await User.count({ where: { email: 'new@example.com' } })).toBe(0);
+
+    const list = await request(app)
+      .get('/api/invitations')
+      .set('Authorization', `Bearer ${adminToken}`);
+    expect(list.body.data.invitations.map(invitation => invitation.status).sort()).toEqual(['expired', 'revoked', 'revoked']);
+  });
+
+  test('should ask for MFA enrollment when the invited role requires it', async () => {
+    await Role.update({ mfa_required: true }, { where: { name: 'admin' } });
+    await invite({ role: 'admin' });
+
+    const response = await accept(tokenFromMail((await readMail('new@example.com'))[0]));
+
+    expect(response.status).toBe(201);
+    expect(response.body.data.challenge).toBe('mfa_enrollment');
+    expect(response.body.data.token).toBeUndefined();
+  });
+
+  test('should register with the default role and refuse when self-registration is off', async () => {
+    const response = await request(app)
+      .post('/api/auth/register')
+      .send({ name: 'Self Signup', email: 'self@example.com', password: 'password123' });
+    expect(response.status).toBe(201);
+    expect(response.body.data.user.role).toBe('user');
+
+    process.env.ALLOW_SELF_REGISTRATION = 'false';
+    const disabled = await request(app)
+      .post('/api/auth/register')
+      .send({ name: 'Another Signup', email: 'another@example.com', password: 'password123' });
+    expect(disabled.status).toBe(403);
+    expect(await User.count({ where: { email: 'another@example.com' } })).toBe(0);
+  });
+});
@@ -0,0 +1,191 @@
+const request = require('supertest');
+const { sequelize, Role, Pipeline, Customer, Lead, LeadStageHistory, Task, User } = require('../models');
+const app = require('../server');
+
+const daysAgo = (days) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+describe('Lead Stage History', () => {
+  let adminToken;
+  let adminUser;
+  let pipeline;
+  let customer;
+
+  beforeAll(async () => {
+    await sequelize.sync({ force: true });
+  });
+
+  afterAll(async () => {
+    await sequelize.close();
+  });
+
+  beforeEach(async () => {
+    await sequelize.truncate({ cascade: true });
+    await Role.ensureDefaults();
+    pipeline = await Pipeline.ensureDefaults();
+    customer = await Customer.create({ name: 'Test Customer' });
+
+    await User.create({ name: 'Admin User', email: 'admin@example.com', password: 'password123', role: 'admin' });
+    const adminResponse = await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'admin@example.com', password: 'password123' });
+    adminToken = adminResponse.body.data.token;
+    adminUser = adminResponse.body.data.user;
+  });
+
+  // Create a lead that went through the given [stage, daysAgo] transitions
+  const createLeadWithHistory = async (transitions) => {
+    const [lastStage] = transitions[transitions.length - 1];
+    const lead = await Lead.create({
+      title: 'Test Lead',
+      stage: lastStage,
+      customer_id: customer.id,
+      pipeline_id: pipeline.id
+    });
+    await LeadStageHistory.bulkCreate(transitions.map(([stage, days], index) => ({
+      lead_id: lead.id,
+      pipeline_id: pipeline.id,
+      from_stage: index > 0 ? transitions[index - 1][0] : null,
+      to_stage: stage,
+      changed_at: daysAgo(days)
+    })));
+    return lead;
+  };
+
+  describe('GET /api/leads/:id/history', () => {
+    test('should record creation and every stage change', async () => {
+      const createResponse = await request(app)
+        .post('/api/leads')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ title: 'Tracked Deal', customerId: customer.id });
+      const leadId = createResponse.body.data.lead.id;
+
+      await request(app)
+        .put(`/api/leads/${leadId}/stage`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ stage: 'qualified' });
+
+      await request(app)
+        .put(`/api/leads/${leadId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ title: 'Tracked Deal', stage: 'proposal' });
+
+      const response = await request(app)
+        .get(`/api/leads/${leadId}/history`)
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(response.status).toBe(200);
+      const { history } = response.body.data;
+      expect(history.map(entry => [entry.from_stage, entry.to_stage])).toEqual([
+        [null, 'lead'],
+        ['lead', 'qualified'],
+        ['qualified', 'proposal']
+      ]);
+      expect(history[1].changedByUser.id).toBe(adminUser.id);
+    });
+
+    test('should not record a move to the same stage', async () => {
+      const lead = await createLeadWithHistory([['lead', 1]]);
+
+      await request(app)
+        .put(`/api/leads/${lead.id}/stage`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ stage: 'lead' });
+
+      expect(await LeadStageHistory.count({ where: { lead_id: lead.id } })).toBe(1);
+    });
+  });
+
+  describe('GET /api/leads/:id', () => {
+    test('should include tasks, interactions and stage history logged against the lead', async () => {
+      const createResponse = await request(app)
+        .post('/api/leads')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ title: 'Tracked Deal', customerId: customer.id });
+      const leadId = createResponse.body.data.lead.id;
+
+      const taskResponse = await request(app)
+        .post('/api/tasks')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ title: 'Send proposal', leadId });
+      expect(taskResponse.status).toBe(201);
+      expect(taskResponse.body.data.task.customerId).toBe(customer.id);
+
+      const interactionResponse = await request(app)
+        .post('/api/interactions')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ type: 'call', notes: 'Discussed pricing', leadId });
+      expect(interactionResponse.status).toBe(201);
+      expect(interactionResponse.body.data.interaction.customer_id).toBe(customer.id);
+
+      await request(app)
+        .put(`/api/leads/${leadId}/stage`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ stage: 'qualified' });
+
+      const response = await request(app)
+        .get(`/api/leads/${leadId}`)
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(response.status).toBe(200);
+      const { lead } = response.body.data;
+      expect(lead.customer.id).toBe(customer.id);
+      expect(lead.pipeline.id).toBe(pipeline.id);
+      expect(lead.tasks.map(task => task.title)).toEqual(['Send proposal']);
+      expect(lead.tasks[0].assignedUser.id).toBe(adminUser.id);
+      expect(lead.interactions.map(interaction => interaction.notes)).toEqual(['Discussed pricing']);
+      expect(lead.interactions[0].createdByUser.id).toBe(adminUser.id);
+      expect(lead.stageHistory.map(entry => entry.to_stage)).toEqual(['lead', 'qualified']);
+    });
+
+    test('should reject activity for an unknown lead and keep tasks when a lead is deleted', async () => {
+      const interactionResponse = await request(app)
+        .post('/api/interactions')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ type: 'note', notes: 'Lost in space', leadId: 9999 });
+      expect(interactionResponse.status).toBe(404);
+
+      const lead = await createLeadWithHistory([['lead', 1]]);
+      const task = await Task.create({ title: 'Follow up', leadId: lead.id });
+
+      const deleteResponse = await request(app)
+        .delete(`/api/leads/${lead.id}`)
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(deleteResponse.status).toBe(200);
+
+      await task.reload();
+      expect(task.leadId).toBeNull();
+    });
+  });
+
+  describe('GET /api/reports/velocity', () => {
+    test('should report time in stage, funnel and stalled deals', async () => {
+      await createLeadWithHistory([['lead', 30], ['qualified', 26], ['proposal', 20], ['won', 10]]);
+      await createLeadWithHistory([['lead', 20], ['qualified', 18]]);
+      await createLeadWithHistory([['lead', 5]]);
+
+      const response = await request(app)
+        .get('/api/reports/velocity?stalledDays=14')
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(response.status).toBe(200);
+      const { timeInStage, funnel, stalledDeals } = response.body.data;
+
+      expect(timeInStage).toEqual([
+        { stage: 'lead', name: 'Leads', averageDays: 3, transitions: 2 },
+        { stage: 'qualified', name: 'Qualified', averageDays: 6, transitions: 1 },
+        { stage: 'proposal', name: 'Proposal', averageDays: 10, transitions: 1 }
+      ]);
+
+      expect(funnel.map(step => [step.stage, step.reached])).toEqual([
+        ['lead', 3],
+        ['qualified', 2],
+        ['proposal', 1],
+        ['won', 1]
+      ]);
+      expect(funnel[2].conversionRate).toBe(50);
+
+      expect(stalledDeals).toHaveLength(1);
+      expect(stalledDeals[0]).toEqual(expect.objectContaining({ stage: 'qualified', daysInStage: 18 }));
+    });
+  });
+});
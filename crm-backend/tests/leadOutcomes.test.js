@@ -0,0 +1,168 @@
+const request = require('supertest');
+const { sequelize, Role, Pipeline, LossReason, Customer, Lead, User } = require('../models');
+const app = require('../server');
+
+describe('Lead Outcomes', () => {
+  let adminToken;
+  let pipeline;
+  let customer;
+
+  beforeAll(async () => {
+    await sequelize.sync({ force: true });
+  });
+
+  afterAll(async () => {
+    await sequelize.close();
+  });
+
+  beforeEach(async () => {
+    await sequelize.truncate({ cascade: true });
+    await Role.ensureDefaults();
+    pipeline = await Pipeline.ensureDefaults();
+    await LossReason.ensureDefaults();
+    customer = await Customer.create({ name: 'Test Customer' });
+
+    await User.create({ name: 'Admin User', email: 'admin@example.com', password: 'password123', role: 'admin' });
+    const adminResponse = await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'admin@example.com', password: 'password123' });
+    adminToken = adminResponse.body.data.token;
+  });
+
+  const createLead = (attributes = {}) => {
+    return Lead.create({
+      title: 'Test Lead',
+      stage: 'proposal',
+      value: 1000,
+      customer_id: customer.id,
+      pipeline_id: pipeline.id,
+      ...attributes
+    });
+  };
+
+  describe('Pipeline.ensureDefaults', () => {
+    test('should move leads from the old closed stage to won', async () => {
+      const lead = await createLead({ stage: 'closed', pipeline_id: null });
+      const open = await createLead({ stage: 'proposal', pipeline_id: null });
+      const lastChanged = lead.updatedAt;
+
+      await Pipeline.ensureDefaults();
+
+      await Promise.all([lead.reload(), open.reload()]);
+      expect(lead.stage).toBe('won');
+      expect(lead.pipeline_id).toBe(pipeline.id);
+      expect(lead.closed_at).toEqual(lastChanged);
+      expect(lead.updatedAt).toEqual(lastChanged);
+      expect(open.stage).toBe('proposal');
+      expect(open.closed_at).toBeNull();
+    });
+  });
+
+  describe('PUT /api/leads/:id/stage', () => {
+    test('should require a loss reason to mark a lead as lost', async () => {
+      const lead = await createLead();
+
+      const response = await request(app)
+        .put(`/api/leads/${lead.id}/stage`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ stage: 'lost' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('VALIDATION_ERROR');
+    });
+
+    test('should reject a loss reason that is not configured', async () => {
+      const lead = await createLead();
+
+      const response = await request(app)
+        .put(`/api/leads/${lead.id}/stage`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ stage: 'lost', closeReason: 'Bad vibes' });
+
+      expect(response.status).toBe(400);
+    });
+
+    test('should record the outcome when a lead is lost', async () => {
+      const lead = await createLead();
+
+      const response = await request(app)
+        .put(`/api/leads/${lead.id}/stage`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ stage: 'lost', closeReason: 'Lost to competitor' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.lead.close_reason).toBe('Lost to competitor');
+      expect(response.body.data.lead.closed_at).not.toBeNull();
+    });
+
+    test('should clear the outcome when a lead is reopened', async () => {
+      const lead = await createLead({ stage: 'won', closed_at: new Date(), close_reason: 'Great fit' });
+
+      const response = await request(app)
+        .put(`/api/leads/${lead.id}/stage`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ stage: 'proposal' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.lead.closed_at).toBeNull();
+      expect(response.body.data.lead.close_reason).toBeNull();
+    });
+  });
+
+  describe('GET /api/leads/stats/overview', () => {
+    test('should report win rate from closed leads only', async () => {
+      await createLead({ stage: 'won' });
+      await createLead({ stage: 'lost', close_reason: 'No budget' });
+      await createLead({ stage: 'lead' });
+      await createLead({ stage: 'qualified' });
+
+      const response = await request(app)
+        .get('/api/leads/stats/overview')
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.conversionRate).toBe(25);
+      expect(response.body.data.winRate).toBe(50);
+    });
+  });
+
+  describe('GET /api/reports/loss-reasons', () => {
+    test('should break lost deals down by reason', async () => {
+      await createLead({ stage: 'lost', close_reason: 'No budget' });
+      await createLead({ stage: 'lost', close_reason: 'No budget' });
+      await createLead({ stage: 'lost', close_reason: 'Bad timing', value: 500 });
+      await createLead({ stage: 'won' });
+
+      const response = await request(app)
+        .get('/api/reports/loss-reasons')
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.totalLost).toBe(3);
+      expect(response.body.data.lossReasons[0]).toEqual({
+        reason: 'No budget',
+        count: 2,
+        value: 2000,
+        percentage: 66.67
+      });
+    });
+  });
+
+  describe('GET /api/reports/win-rate', () => {
+    test('should report won and lost deals', async () => {
+      await createLead({ stage: 'won' });
+      await createLead({ stage: 'won' });
+      await createLead({ stage: 'lost', close_reason: 'No budget' });
+
+      const response = await request(app)
+        .get('/api/reports/win-rate')
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.won).toBe(2);
+      expect(response.body.data.lost).toBe(1);
+      expect(response.body.data.winRate).toBe(66.67);
+      expect(response.body.data.wonValue).toBe(2000);
+    });
+  });
+});
@@ -0,0 +1,147 @@
+const fs = require('fs/promises');
+const path = require('path');
+const request = require('supertest');
+const { authenticator } = require('otplib');
+const { sequelize, Role, User, SecurityEvent } = require('../models');
+const { getMailDir } = require('../services/mailer');
+const app = require('../server');
+
+describe('Login brute-force protection', () => {
+  let user;
+  let adminToken;
+
+  const login = (email = 'user@example.com', password = 'password123') => request(app)
+    .post('/api/auth/login')
+    .send({ email, password });
+
+  const failLogins = async (count, email = 'user@example.com') => {
+    for (let i = 0; i < count; i++) {
+      await login(email, 'wrongpassword');
+    }
+  };
+
+  beforeAll(async () => {
+    await sequelize.sync({ force: true });
+  });
+
+  afterAll(async () => {
+    await sequelize.close();
+  });
+
+  beforeEach(async () => {
+    await sequelize.truncate({ cascade: true });
+    await Role.ensureDefaults();
+    await fs.rm(getMailDir(), { recursive: true, force: true });
+
+    user = await User.create({ name: 'Regular User', email: 'user@example.com', password: 'password123' });
+    await User.create({ name: 'Admin User', email: 'admin@example.com', password: 'password123', role: 'admin' });
+    adminToken = (await login('admin@example.com')).body.data.token;
+  });
+
+  afterEach(() => {
+    delete process.env.LOGIN_IP_MAX_FAILURES;
+  });
+
+  test('should lock the account after repeated failures and notify the user', async () => {
+    await failLogins(4);
+    expect((await user.reload()).isLocked()).toBe(false);
+
+    const fifth = await login('user@example.com', 'wrongpassword');
+    expect(fifth.status).toBe(401);
+
+    await user.reload();
+    expect(user.failed_login_count).toBe(5);
+    expect(user.isLocked()).toBe(true);
+
+    // Even the right password is refused while locked
+    const locked = await login();
+    expect(locked.status).toBe(423);
+    expect(locked.body.code).toBe('ACCOUNT_LOCKED');
+
+    const files = await fs.readdir(getMailDir());
+    const messages = await Promise.all(files.map(async (file) => JSON.parse(await fs.readFile(path.join(getMailDir(), file), 'utf8'))));
+    expect(messages.some(message => /locked/i.test(message.subject))).toBe(true);
+
+    const events = await SecurityEvent.findAll({ where: { user_id: user.id } });
+    expect(events.filter(event => event.event === 'login_failed')).toHaveLength(5);
+    expect(events.filter(event => event.event === 'account_locked')).toHaveLength(1);
+    expect(events.find(event => event.event === 'login_blocked').details.reason).toBe('account_locked');
+  });
+
+  test('should lock for longer each time and reset after a successful login', async () => {
+    await failLogins(5);
+    await user.reload();
+    const firstLockout = user.locked_until - Date.now();
+
+    // Let the first lockout run out
+    await User.update({ locked_until: new Date(Date.now() - 1000) }, { where: { id: user.id } });
+    await failLogins(5);
+    await user.reload();
+    expect(user.locked_until - Date.now()).toBeGreaterThan(firstLockout * 1.5);
+
+    await User.update({ locked_until: new Date(Date.now() - 1000) }, { where: { id: user.id } });
+    expect((await login()).status).toBe(200);
+
+    await user.reload();
+    expect(user.failed_login_count).toBe(0);
+    expect(user.locked_until).toBeNull();
+  });
+
+  test('should count wrong MFA codes as failed logins', async () => {
+    const secret = authenticator.generateSecret();
+    await user.update({ mfa_enabled: true, mfa_secret: secret });
+
+    const { challengeToken } = (await login()).body.data;
+    for (let i = 0; i < 5; i++) {
+      await request(app)
+        .post('/api/auth/login/mfa')
+        .send({ challengeToken, code: '000000' });
+    }
+
+    const response = await request(app)
+      .post('/api/auth/login/mfa')
+      .send({ challengeToken, code: authenticator.generate(secret) });
+    expect(response.status).toBe(423);
+  });
+
+  test('should block an IP address after too many failures across accounts', async () => {
+    process.env.LOGIN_IP_MAX_FAILURES = '3';
+
+    await failLogins(1, 'nobody@example.com');
+    await failLogins(1, 'someone@example.com');
+    await failLogins(1);
+
+    const response = await login();
+    expect(response.status).toBe(429);
+    expect(response.body.code).toBe('RATE_LIMIT_EXCEEDED');
+  });
+
+  test('should let admins unlock accounts and read the security log', async () => {
+    await failLogins(5);
+
+    const response = await request(app)
+      .post(`/api/users/${user.id}/unlock`)
+      .set('Authorization', `Bearer ${adminToken}`);
+    expect(response.status).toBe(200);
+    expect(response.body.data.user.locked_until).toBeNull();
+
+    const loginResponse = await login();
+    expect(loginResponse.status).toBe(200);
+
+    const log = await request(app)
+      .get('/api/security-events')
+      .query({ userId: user.id })
+      .set('Authorization', `Bearer ${adminToken}`);
+    expect(log.status).toBe(200);
+    expect(log.body.data.events.map(event => event.event)).toEqual(expect.arrayContaining([
+      'login_failed', 'account_locked', 'account_unlocked', 'login_succeeded'
+    ]));
+    const unlocked = log.body.data.events.find(event => event.event === 'account_unlocked');
+    expect(unlocked.actor.email).toBe('admin@example.com');
+
+    const denied = await request(app)
+      .get('/api/security-events')
+      .set('Authorization', `Bearer ${loginResponse.body.data.token}`);
+    expect(denied.status).toBe(403);
+  });
+});
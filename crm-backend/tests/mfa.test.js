@@ -0,0 +1,219 @@
+const request = require('supertest');
+const { authenticator } = require('otplib');
+const { sequelize, Role, User } = require('../models');
+const app = require('../server');
+
+describe('Two-factor authentication', () => {
+  let user;
+  let userToken;
+
+  const login = (email = 'user@example.com', password = 'password123') => request(app)
+    .post('/api/auth/login')
+    .send({ email, password });
+
+  // Enroll the signed in user and return the secret and recovery codes
+  const enroll = async (token) => {
+    const setup = await request(app)
+      .post('/api/auth/mfa/setup')
+      .set('Authorization', `Bearer ${token}`);
+    const { secret } = setup.body.data;
+
+    const enable = await request(app)
+      .post('/api/auth/mfa/enable')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ code: authenticator.generate(secret) });
+    return { secret, recoveryCodes: enable.body.data.recoveryCodes };
+  };
+
+  beforeAll(async () => {
+    await sequelize.sync({ force: true });
+  });
+
+  afterAll(async () => {
+    await sequelize.close();
+  });
+
+  beforeEach(async () => {
+    await sequelize.truncate({ cascade: true });
+    await Role.ensureDefaults();
+
+    const response = await request(app)
+      .post('/api/auth/register')
+      .send({ name: 'Regular User', email: 'user@example.com', password: 'password123' });
+    userToken = response.body.data.token;
+    user = await User.findByPk(response.body.data.user.id);
+  });
+
+  describe('Enrollment', () => {
+    test('should provision a secret and enable MFA once a code is confirmed', async () => {
+      const setup = await request(app)
+        .post('/api/auth/mfa/setup')
+        .set('Authorization', `Bearer ${userToken}`);
+
+      expect(setup.status).toBe(200);
+      expect(setup.body.data.otpauthUrl).toMatch(/^otpauth:\/\/totp\/.*secret=/);
+      expect(setup.body.data.qrCode).toMatch(/^data:image\/png;base64,/);
+
+      const wrongCode = await request(app)
+        .post('/api/auth/mfa/enable')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ code: '000000' });
+      expect(wrongCode.status).toBe(400);
+
+      const enable = await request(app)
+        .post('/api/auth/mfa/enable')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ code: authenticator.generate(setup.body.data.secret) });
+
+      expect(enable.status).toBe(200);
+      expect(enable.body.data.user.mfa_enabled).toBe(true);
+      expect(enable.body.data.user.mfa_secret).toBeUndefined();
+      expect(enable.body.data.recoveryCodes).toHaveLength(10);
+
+      await user.reload();
+      expect(user.mfa_recovery_codes).not.toContain(enable.body.data.recoveryCodes[0]);
+    });
+
+    test('should require the password to disable MFA', async () => {
+      await enroll(userToken);
+
+      const wrongPassword = await request(app)
+        .post('/api/auth/mfa/disable')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ password: 'wrong' });
+      expect(wrongPassword.status).toBe(401);
+
+      const response = await request(app)
+        .post('/api/auth/mfa/disable')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ password: 'password123' });
+      expect(response.status).toBe(200);
+      expect(response.body.data.user.mfa_enabled).toBe(false);
+
+      const loginResponse = await login();
+      expect(loginResponse.body.data.token).toBeDefined();
+    });
+  });
+
+  describe('Login challenge', () => {
+    test('should ask for a code before starting a session', async () => {
+      const { secret } = await enroll(userToken);
+
+      const loginResponse = await login();
+      expect(loginResponse.status).toBe(200);
+      expect(loginResponse.body.data.challenge).toBe('mfa');
+      expect(loginResponse.body.data.token).toBeUndefined();
+
+      const { challengeToken } = loginResponse.body.data;
+
+      // The challenge is not an access token
+      const me = await request(app)
+        .get('/api/auth/me')
+        .set('Authorization', `Bearer ${challengeToken}`);
+      expect(me.status).toBe(401);
+
+      const wrongCode = await request(app)
+        .post('/api/auth/login/mfa')
+        .send({ challengeToken, code: '000000' });
+      expect(wrongCode.status).toBe(401);
+
+      const response = await request(app)
+        .post('/api/auth/login/mfa')
+        .send({ challengeToken, code: authenticator.generate(secret) });
+      expect(response.status).toBe(200);
+      expect(response.body.data.token).toBeDefined();
+      expect(response.body.data.refreshToken).toBeDefined();
+    });
+
+    test('should accept each recovery code once', async () => {
+      const { recoveryCodes } = await enroll(userToken);
+      const { challengeToken } = (await login()).body.data;
+
+      const response = await request(app)
+        .post('/api/auth/login/mfa')
+        .send({ challengeToken, recoveryCode: recoveryCodes[0].toUpperCase() });
+      expect(response.status).toBe(200);
+      expect(response.body.data.recoveryCodesRemaining).toBe(9);
+
+      const reuse = await request(app)
+        .post('/api/auth/login/mfa')
+        .send({ challengeToken, recoveryCode: recoveryCodes[0] });
+      expect(reuse.status).toBe(401);
+    });
+
+    test('should regenerate recovery codes', async () => {
+      const { secret, recoveryCodes } = await enroll(userToken);
+
+      const response = await request(app)
+        .post('/api/auth/mfa/recovery-codes')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ code: authenticator.generate(secret) });
+      expect(response.status).toBe(200);
+      expect(response.body.data.recoveryCodes).toHaveLength(10);
+
+      const { challengeToken } = (await login()).body.data;
+      const stale = await request(app)
+        .post('/api/auth/login/mfa')
+        .send({ challengeToken, recoveryCode: recoveryCodes[1] });
+      expect(stale.status).toBe(401);
+    });
+  });
+
+  describe('Role policy', () => {
+    beforeEach(async () => {
+      await Role.update({ mfa_required: true }, { where: { name: 'user' } });
+    });
+
+    test('should make users enroll while signing in', async () => {
+      const loginResponse = await login();
+      expect(loginResponse.body.data.challenge).toBe('mfa_enrollment');
+      const { challengeToken } = loginResponse.body.data;
+
+      const setup = await request(app)
+        .post('/api/auth/login/mfa/setup')
+        .send({ challengeToken });
+      expect(setup.status).toBe(200);
+
+      const enable = await request(app)
+        .post('/api/auth/login/mfa/enable')
+        .send({ challengeToken, code: authenticator.generate(setup.body.data.secret) });
+      expect(enable.status).toBe(200);
+      expect(enable.body.data.token).toBeDefined();
+      expect(enable.body.data.recoveryCodes).toHaveLength(10);
+      expect(enable.body.data.user.mfaRequired).toBe(true);
+
+      // An enrollment challenge cannot stand in for the code challenge
+      const replay = await request(app)
+        .post('/api/auth/login/mfa')
+        .send({ challengeToken, code: authenticator.generate(setup.body.data.secret) });
+      expect(replay.status).toBe(401);
+    });
+
+    test('should not let users disable MFA their role requires', async () => {
+      await Role.update({ mfa_required: false }, { where: { name: 'user' } });
+      await enroll(userToken);
+      await Role.update({ mfa_required: true }, { where: { name: 'user' } });
+
+      const response = await request(app)
+        .post('/api/auth/mfa/disable')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ password: 'password123' });
+      expect(response.status).toBe(403);
+    });
+
+    test('should let admins set the policy on a role', async () => {
+      await User.create({ name: 'Admin User', email: 'admin@example.com', password: 'password123', role: 'admin' });
+      const { token } = (await login('admin@example.com')).body.data;
+      const userRole = await Role.findByName('user');
+
+      const response = await request(app)
+        .put(`/api/roles/${userRole.id}`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ mfaRequired: false });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.role.mfa_required).toBe(false);
+      expect((await login()).body.data.token).toBeDefined();
+    });
+  });
+});
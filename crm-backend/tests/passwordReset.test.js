@@ -0,0 +1,170 @@
+const fs = require('fs/promises');
+const path = require('path');
+const request = require('supertest');
+const { sequelize, Role, User, UserToken } = require('../models');
+const { getMailDir } = require('../services/mailer');
+const app = require('../server');
+
+describe('Password reset and email verification', () => {
+  let user;
+  let userToken;
+
+  // Messages written by the file mail transport to one address, oldest first
+  const readMail = async (to) => {
+    const files = (await fs.readdir(getMailDir())).sort();
+    const messages = await Promise.all(files.map(async (file) => JSON.parse(await fs.readFile(path.join(getMailDir(), file), 'utf8'))));
+    return messages.filter(message => message.to.some(address => address.address === to));
+  };
+
+  const tokenFromMail = (message) => message.text.match(/token=([a-f0-9]+)/)[1];
+
+  const login = (password) => request(app)
+    .post('/api/auth/login')
+    .send({ email: 'user@example.com', password });
+
+  beforeAll(async () => {
+    await sequelize.sync({ force: true });
+  });
+
+  afterAll(async () => {
+    await sequelize.close();
+  });
+
+  beforeEach(async () => {
+    await sequelize.truncate({ cascade: true });
+    await Role.ensureDefaults();
+    await fs.rm(getMailDir(), { recursive: true, force: true });
+
+    const response = await request(app)
+      .post('/api/auth/register')
+      .send({ name: 'Regular User', email: 'user@example.com', password: 'password123' });
+    userToken = response.body.data.token;
+    user = await User.findByPk(response.body.data.user.id);
+  });
+
+  describe('Email verification', () => {
+    test('should email a verification link on register and verify the address once', async () => {
+      expect(user.email_verified_at).toBeNull();
+
+      const [message] = await readMail('user@example.com');
+      expect(message.subject).toMatch(/verify/i);
+      const token = tokenFromMail(message);
+
+      const response = await request(app)
+        .post('/api/auth/verify-email')
+        .send({ token });
+      expect(response.status).toBe(200);
+
+      await user.reload();
+      expect(user.email_verified_at).not.toBeNull();
+
+      const again = await request(app)
+        .post('/api/auth/verify-email')
+        .send({ token });
+      expect(again.status).toBe(400);
+      expect(again.body.code).toBe('VALIDATION_ERROR');
+    });
+
+    test('should resend a link that replaces the previous one', async () => {
+      const [first] = await readMail('user@example.com');
+
+      const response = await request(app)
+        .post('/api/auth/resend-verification')
+        .set('Authorization', `Bearer ${userToken}`);
+      expect(response.status).toBe(200);
+
+      const messages = await readMail('user@example.com');
+      expect(messages).toHaveLength(2);
+
+      const stale = await request(app)
+        .post('/api/auth/verify-email')
+        .send({ token: tokenFromMail(first) });
+      expect(stale.status).toBe(400);
+
+      const fresh = await request(app)
+        .post('/api/auth/verify-email')
+        .send({ token: tokenFromMail(messages[1]) });
+      expect(fresh.status).toBe(200);
+    });
+  });
+
+  describe('Password reset', () => {
+    test('should reset the password with a single-use token and end existing sessions', async () => {
+      const forgot = await request(app)
+        .post('/api/auth/forgot-password')
+        .send({ email: 'user@example.com' });
+      expect(forgot.status).toBe(200);
+
+      const message = (await readMail('user@example.com')).find(mail => /reset/i.test(mail.subject));
+      const token = tokenFromMail(message);
+      expect(await UserToken.findOne({ where: { token_hash: token } })).toBeNull();
+
+      const reset = await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token, password: 'newpassword123' });
+      expect(reset.status).toBe(200);
+
+      expect((await login('password123')).status).toBe(401);
+      expect((await login('newpassword123')).status).toBe(200);
+
+      const me = await request(app)
+        .get('/api/auth/me')
+        .set('Authorization', `Bearer ${userToken}`);
+      expect(me.status).toBe(401);
+
+      const reuse = await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token, password: 'anotherpassword' });
+      expect(reuse.status).toBe(400);
+    });
+
+    test('should reject expired tokens', async () => {
+      await request(app)
+        .post('/api/auth/forgot-password')
+        .send({ email: 'user@example.com' });
+      const message = (await readMail('user@example.com')).find(mail => /reset/i.test(mail.subject));
+
+      await UserToken.update({ expires_at: new Date(Date.now() - 1000) }, { where: { purpose: 'password_reset' } });
+
+      const response = await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token: tokenFromMail(message), password: 'newpassword123' });
+      expect(response.status).toBe(400);
+    });
+
+    test('should answer the same for unknown emails without sending mail', async () => {
+      const response = await request(app)
+        .post('/api/auth/forgot-password')
+        .send({ email: 'nobody@example.com' });
+
+      expect(response.status).toBe(200);
+      expect(await readMail('nobody@example.com')).toHaveLength(0);
+    });
+
+    test('should let an admin force a reset', async () => {
+      const forbidden = await request(app)
+        .post(`/api/users/${user.id}/reset-password`)
+        .set('Authorization', `Bearer ${userToken}`);
+      expect(forbidden.status).toBe(403);
+
+      await User.create({ name: 'Admin User', email: 'admin@example.com', password: 'password123', role: 'admin' });
+      const adminResponse = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'admin@example.com', password: 'password123' });
+
+      const response = await request(app)
+        .post(`/api/users/${user.id}/reset-password`)
+        .set('Authorization', `Bearer ${adminResponse.body.data.token}`);
+      expect(response.status).toBe(200);
+
+      expect((await login('password123')).status).toBe(401);
+      const message = (await readMail('user@example.com')).find(mail => /reset/i.test(mail.subject));
+      expect(message).toBeDefined();
+
+      const me = await request(app)
+        .get('/api/auth/me')
+        .set('Authorization', `Bearer ${userToken}`);
+      expect(me.status).toBe(401);
+    });
+  });
+});
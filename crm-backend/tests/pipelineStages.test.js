@@ -0,0 +1,159 @@
+const request = require('supertest');
+const { sequelize, Role, Pipeline, PipelineStage, Customer, Lead, User } = require('../models');
+const app = require('../server');
+
+describe('Pipeline Stage Endpoints', () => {
+  let adminToken;
+  let userToken;
+  let pipeline;
+
+  beforeAll(async () => {
+    await sequelize.sync({ force: true });
+  });
+
+  afterAll(async () => {
+    await sequelize.close();
+  });
+
+  beforeEach(async () => {
+    await sequelize.truncate({ cascade: true });
+    await Role.ensureDefaults();
+    pipeline = await Pipeline.ensureDefaults();
+
+    await User.create({ name: 'Admin User', email: 'admin@example.com', password: 'password123', role: 'admin' });
+    const adminResponse = await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'admin@example.com', password: 'password123' });
+    adminToken = adminResponse.body.data.token;
+
+    const userResponse = await request(app)
+      .post('/api/auth/register')
+      .send({
+        name: 'Test User',
+        email: 'test@example.com',
+        password: 'password123'
+      });
+    userToken = userResponse.body.data.token;
+  });
+
+  describe('GET /api/pipeline-stages', () => {
+    test('should list the default stages in order', async () => {
+      const response = await request(app)
+        .get('/api/pipeline-stages')
+        .set('Authorization', `Bearer ${userToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.success).toBe(true);
+      expect(response.body.data.stages.map(stage => stage.key)).toEqual(['lead', 'qualified', 'proposal', 'won', 'lost']);
+    });
+  });
+
+  describe('POST /api/pipeline-stages', () => {
+    test('should append a new stage to the end of the pipeline', async () => {
+      const response = await request(app)
+        .post('/api/pipeline-stages')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          key: 'negotiation',
+          name: 'Negotiation',
+          color: '#EF4444',
+          probability: 80
+        });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data.stage.key).toBe('negotiation');
+      expect(response.body.data.stage.position).toBe(5);
+    });
+
+    test('should reject a stage that is both won and lost', async () => {
+      const response = await request(app)
+        .post('/api/pipeline-stages')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          key: 'limbo',
+          name: 'Limbo',
+          is_won: true,
+          is_lost: true
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('VALIDATION_ERROR');
+    });
+
+    test('should require admin role', async () => {
+      const response = await request(app)
+        .post('/api/pipeline-stages')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({
+          key: 'negotiation',
+          name: 'Negotiation'
+        });
+
+      expect(response.status).toBe(403);
+      expect(response.body.code).toBe('AUTHORIZATION_ERROR');
+    });
+  });
+
+  describe('PUT /api/pipeline-stages/:id', () => {
+    test('should move leads along when a stage key is renamed', async () => {
+      const customer = await Customer.create({ name: 'Test Customer' });
+      const lead = await Lead.create({ title: 'Test Lead', stage: 'proposal', customer_id: customer.id, pipeline_id: pipeline.id });
+      const stage = await PipelineStage.findByKey(pipeline.id, 'proposal');
+
+      const response = await request(app)
+        .put(`/api/pipeline-stages/${stage.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          key: 'quote',
+          name: 'Quote Sent'
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.stage.key).toBe('quote');
+
+      await lead.reload();
+      expect(lead.stage).toBe('quote');
+    });
+  });
+
+  describe('DELETE /api/pipeline-stages/:id', () => {
+    test('should not delete a stage that still has leads', async () => {
+      const customer = await Customer.create({ name: 'Test Customer' });
+      await Lead.create({ title: 'Test Lead', stage: 'lead', customer_id: customer.id, pipeline_id: pipeline.id });
+      const stage = await PipelineStage.findByKey(pipeline.id, 'lead');
+
+      const response = await request(app)
+        .delete(`/api/pipeline-stages/${stage.id}`)
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(response.status).toBe(400);
+      expect(response.body.success).toBe(false);
+    });
+
+    test('should delete an empty stage', async () => {
+      const stage = await PipelineStage.findByKey(pipeline.id, 'qualified');
+
+      const response = await request(app)
+        .delete(`/api/pipeline-stages/${stage.id}`)
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(response.status).toBe(200);
+      expect(await PipelineStage.count()).toBe(4);
+    });
+  });
+
+  describe('PUT /api/leads/:id/stage', () => {
+    test('should reject a stage that is not configured', async () => {
+      const customer = await Customer.create({ name: 'Test Customer' });
+      const lead = await Lead.create({ title: 'Test Lead', stage: 'lead', customer_id: customer.id, pipeline_id: pipeline.id });
+
+      const response = await request(app)
+        .put(`/api/leads/${lead.id}/stage`)
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ stage: 'nowhere' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('VALIDATION_ERROR');
+    });
+  });
+});
@@ -0,0 +1,131 @@
+const request = require('supertest');
+const { sequelize, Role, Pipeline, PipelineStage, Customer, User } = require('../models');
+const app = require('../server');
+
+describe('Pipeline Endpoints', () => {
+  let adminToken;
+  let defaultPipeline;
+  let customer;
+
+  beforeAll(async () => {
+    await sequelize.sync({ force: true });
+  });
+
+  afterAll(async () => {
+    await sequelize.close();
+  });
+
+  beforeEach(async () => {
+    await sequelize.truncate({ cascade: true });
+    await Role.ensureDefaults();
+    defaultPipeline = await Pipeline.ensureDefaults();
+    customer = await Customer.create({ name: 'Test Customer' });
+
+    await User.create({ name: 'Admin User', email: 'admin@example.com', password: 'password123', role: 'admin' });
+    const adminResponse = await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'admin@example.com', password: 'password123' });
+    adminToken = adminResponse.body.data.token;
+  });
+
+  const createRenewalPipeline = () => {
+    return request(app)
+      .post('/api/pipelines')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        name: 'Renewals',
+        stages: [
+          { key: 'upcoming', name: 'Upcoming' },
+          { key: 'renewed', name: 'Renewed', is_won: true },
+          { key: 'churned', name: 'Churned', is_lost: true }
+        ]
+      });
+  };
+
+  describe('POST /api/pipelines', () => {
+    test('should create a pipeline with its own ordered stages', async () => {
+      const response = await createRenewalPipeline();
+
+      expect(response.status).toBe(201);
+      expect(response.body.data.pipeline.name).toBe('Renewals');
+      expect(response.body.data.pipeline.stages.map(stage => stage.key)).toEqual(['upcoming', 'renewed', 'churned']);
+    });
+
+    test('should give a pipeline the standard stages when none are provided', async () => {
+      const response = await request(app)
+        .post('/api/pipelines')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ name: 'Partners' });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data.pipeline.stages).toHaveLength(PipelineStage.DEFAULT_STAGES.length);
+    });
+  });
+
+  describe('GET /api/leads', () => {
+    test('should filter leads by pipeline', async () => {
+      const renewal = (await createRenewalPipeline()).body.data.pipeline;
+
+      await request(app)
+        .post('/api/leads')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ title: 'New Business Deal', customerId: customer.id });
+
+      const renewalLead = await request(app)
+        .post('/api/leads')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ title: 'Renewal Deal', customerId: customer.id, pipelineId: renewal.id });
+
+      expect(renewalLead.status).toBe(201);
+      expect(renewalLead.body.data.lead.stage).toBe('upcoming');
+
+      const response = await request(app)
+        .get(`/api/leads?pipelineId=${renewal.id}`)
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.leads).toHaveLength(1);
+      expect(response.body.data.leads[0].title).toBe('Renewal Deal');
+    });
+
+    test('should reject a stage from another pipeline', async () => {
+      const response = await request(app)
+        .post('/api/leads')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ title: 'New Business Deal', customerId: customer.id, stage: 'upcoming' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('VALIDATION_ERROR');
+    });
+  });
+
+  describe('GET /api/leads/stats/overview', () => {
+    test('should report the stages of the requested pipeline', async () => {
+      const renewal = (await createRenewalPipeline()).body.data.pipeline;
+
+      await request(app)
+        .post('/api/leads')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ title: 'Renewal Deal', customerId: customer.id, pipelineId: renewal.id, stage: 'renewed' });
+
+      const response = await request(app)
+        .get(`/api/leads/stats/overview?pipelineId=${renewal.id}`)
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.stages).toEqual({ upcoming: 0, renewed: 1, churned: 0 });
+      expect(response.body.data.conversionRate).toBe(100);
+    });
+  });
+
+  describe('DELETE /api/pipelines/:id', () => {
+    test('should not delete the default pipeline', async () => {
+      const response = await request(app)
+        .delete(`/api/pipelines/${defaultPipeline.id}`)
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(response.status).toBe(400);
+      expect(response.body.success).toBe(false);
+    });
+  });
+});
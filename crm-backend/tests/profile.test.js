@@ -0,0 +1,114 @@
+const request = require('supertest');
+const { sequelize, Role, User } = require('../models');
+const app = require('../server');
+
+describe('Profile', () => {
+  let session;
+  let user;
+
+  const login = async (email = 'user@example.com', password = 'password123') => {
+    const response = await request(app)
+      .post('/api/auth/login')
+      .send({ email, password });
+    return response.body.data;
+  };
+
+  const updateProfile = (body, token = session.token) => request(app)
+    .put('/api/auth/me')
+    .set('Authorization', `Bearer ${token}`)
+    .send(body);
+
+  const changePassword = (body, token = session.token) => request(app)
+    .put('/api/auth/me/password')
+    .set('Authorization', `Bearer ${token}`)
+    .send(body);
+
+  beforeAll(async () => {
+    await sequelize.sync({ force: true });
+  });
+
+  afterAll(async () => {
+    await sequelize.close();
+  });
+
+  beforeEach(async () => {
+    await sequelize.truncate({ cascade: true });
+    await Role.ensureDefaults();
+
+    user = await User.create({ name: 'Regular User', email: 'user@example.com', password: 'password123', email_verified_at: new Date() });
+    await User.create({ name: 'Other User', email: 'other@example.com', password: 'password123' });
+    session = await login();
+  });
+
+  test('should update the name and preferences', async () => {
+    const response = await updateProfile({
+      name: 'Renamed User',
+      timezone: 'Europe/Paris',
+      locale: 'fr-FR',
+      notificationPreferences: { task_due: false }
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.user).toMatchObject({
+      name: 'Renamed User',
+      timezone: 'Europe/Paris',
+      locale: 'fr-FR',
+      notification_preferences: { task_assigned: true, task_due: false, lead_assigned: true }
+    });
+    expect(response.body.data.user.permissions).toBeDefined();
+
+    const invalid = await updateProfile({ timezone: 'Mars/Olympus_Mons' });
+    expect(invalid.status).toBe(400);
+
+    const unknownNotification = await updateProfile({ notificationPreferences: { carrier_pigeon: true } });
+    expect(unknownNotification.status).toBe(400);
+  });
+
+  test('should take the password to change the email and ask to verify it again', async () => {
+    const withoutPassword = await updateProfile({ email: 'new@example.com' });
+    expect(withoutPassword.status).toBe(400);
+
+    const taken = await updateProfile({ email: 'other@example.com', currentPassword: 'password123' });
+    expect(taken.status).toBe(409);
+
+    const response = await updateProfile({ email: 'new@example.com', currentPassword: 'password123' });
+    expect(response.status).toBe(200);
+    expect(response.body.data.user.email).toBe('new@example.com');
+    expect(response.body.data.user.email_verified_at).toBeNull();
+  });
+
+  test('should change the password and end every other session', async () => {
+    const otherSession = await login();
+
+    const wrongPassword = await changePassword({ currentPassword: 'wrongpassword', newPassword: 'newpassword1' });
+    expect(wrongPassword.status).toBe(400);
+
+    const response = await changePassword({ currentPassword: 'password123', newPassword: 'newpassword1' });
+    expect(response.status).toBe(200);
+    expect(response.body.data.revokedSessions).toBe(1);
+
+    const current = await request(app)
+      .get('/api/auth/me')
+      .set('Authorization', `Bearer ${session.token}`);
+    expect(current.status).toBe(200);
+
+    const other = await request(app)
+      .get('/api/auth/me')
+      .set('Authorization', `Bearer ${otherSession.token}`);
+    expect(other.status).toBe(401);
+
+    expect(await login('user@example.com', 'password123')).toBeUndefined();
+    expect((await login('user@example.com', 'newpassword1')).token).toBeDefined();
+  });
+
+  test('should not let API keys change the password', async () => {
+    const created = await request(app)
+      .post('/api/api-keys')
+      .set('Authorization', `Bearer ${session.token}`)
+      .send({ name: 'Script', scopes: ['customers:view'] });
+
+    const response = await changePassword({ currentPassword: 'password123', newPassword: 'newpassword1' }, created.body.data.key);
+    expect(response.status).toBe(403);
+    expect(await (await User.findByPk(user.id)).comparePassword('password123')).toBe(true);
+  });
+});
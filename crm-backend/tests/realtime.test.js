@@ -0,0 +1,176 @@
+const http = require('http');
+const request = require('supertest');
+const WebSocket = require('ws');
+const { sequelize, Role, Pipeline, User } = require('../models');
+const { attachRealtime } = require('../services/realtime');
+const app = require('../server');
+
+describe('Real-time updates', () => {
+  let server;
+  let baseUrl;
+  let sockets;
+  let adminToken;
+  let userToken;
+  let user;
+
+  const login = async (email) => {
+    const response = await request(app)
+      .post('/api/auth/login')
+      .send({ email, password: 'password123' });
+    return response.body.data.token;
+  };
+
+  // Open a connection that collects the events it receives
+  const connect = (token) => new Promise((resolve, reject) => {
+    const ws = new WebSocket(`${baseUrl}/ws?token=${token}`);
+    ws.events = [];
+    ws.on('message', message => ws.events.push(JSON.parse(message)));
+    ws.on('open', () => resolve(ws));
+    ws.on('error', reject);
+    sockets.push(ws);
+  });
+
+  // Let messages sent by the server arrive
+  const settle = () => new Promise(resolve => setTimeout(resolve, 100));
+
+  const createLead = async (token) => {
+    const customer = await request(app)
+      .post('/api/customers')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ name: 'Acme' });
+    const lead = await request(app)
+      .post('/api/leads')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ title: 'Deal', customerId: customer.body.data.customer.id });
+    return lead.body.data.lead;
+  };
+
+  beforeAll(async () => {
+    await sequelize.sync({ force: true });
+
+    server = http.createServer(app);
+    attachRealtime(server);
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `ws://127.0.0.1:${server.address().port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await sequelize.close();
+  });
+
+  beforeEach(async () => {
+    await sequelize.truncate({ cascade: true });
+    await Role.ensureDefaults();
+    await Pipeline.ensureDefaults();
+
+    sockets = [];
+    await User.create({ name: 'Admin User', email: 'admin@example.com', password: 'password123', role: 'admin' });
+    user = await User.create({ name: 'Regular User', email: 'user@example.com', password: 'password123' });
+    adminToken = await login('admin@example.com');
+    userToken = await login('user@example.com');
+  });
+
+  afterEach(() => {
+    sockets.forEach(ws => ws.terminate());
+  });
+
+  test('should refuse connections without a valid token', async () => {
+    await expect(connect('not-a-token')).rejects.toThrow('401');
+  });
+
+  test('should broadcast lead stage moves to other users', async () => {
+    const lead = await createLead(userToken);
+    const watcher = await connect(adminToken);
+
+    await request(app)
+      .put(`/api/leads/${lead.id}/stage`)
+      .set('Authorization', `Bearer ${userToken}`)
+      .send({ stage: 'qualified' });
+    await settle();
+
+    expect(watcher.events).toHaveLength(1);
+    const [{ event, data }] = watcher.events;
+    expect(event).toBe('lead:stage:updated');
+    expect(data).toMatchObject({ leadId: lead.id, oldStage: 'lead', newStage: 'qualified' });
+    expect(data.lead.stage).toBe('qualified');
+  });
+
+  test('should broadcast task status changes and new interactions', async () => {
+    const watcher = await connect(adminToken);
+
+    const task = await request(app)
+      .post('/api/tasks')
+      .set('Authorization', `Bearer ${userToken}`)
+      .send({ title: 'Kick-off', assignedTo: user.id });
+    await request(app)
+      .put(`/api/tasks/${task.body.data.task.id}/status`)
+      .set('Authorization', `Bearer ${userToken}`)
+      .send({ status: 'completed' });
+
+    const lead = await createLead(userToken);
+    await request(app)
+      .post('/api/interactions')
+      .set('Authorization', `Bearer ${userToken}`)
+      .send({ customerId: lead.customer_id, type: 'call', notes: 'Intro call' });
+    await settle();
+
+    expect(watcher.events.map(({ event }) => event)).toEqual(['task:status:updated', 'interaction:created']);
+    expect(watcher.events[0].data).toMatchObject({ oldStatus: 'pending', newStatus: 'completed' });
+    expect(watcher.events[1].data.customerId).toBe(lead.customer_id);
+  });
+
+  test('should close connections opened while impersonating when it ends', async () => {
+    const impersonation = await request(app)
+      .post('/api/impersonation')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ userId: user.id });
+    const { token } = impersonation.body.data;
+    const ws = await connect(token);
+    const closed = new Promise(resolve => ws.on('close', resolve));
+
+    await request(app)
+      .post('/api/impersonation/end')
+      .set('Authorization', `Bearer ${token}`);
+    expect(await closed).toBe(4401);
+    await expect(connect(token)).rejects.toThrow('401');
+  });
+
+  test('should only send events about records the user can see', async () => {
+    await user.update({ visibility: 'own' });
+    const watcher = await connect(userToken);
+
+    const lead = await createLead(adminToken);
+    await request(app)
+      .put(`/api/leads/${lead.id}/stage`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ stage: 'qualified' });
+    await settle();
+
+    expect(watcher.events).toHaveLength(0);
+  });
+
+  test('should only send new interactions to those who see their creator', async () => {
+    await user.update({ visibility: 'own' });
+    const customer = await request(app)
+      .post('/api/customers')
+      .set('Authorization', `Bearer ${userToken}`)
+      .send({ name: 'Acme' });
+    const customerId = customer.body.data.customer.id;
+    const watcher = await connect(userToken);
+
+    // Logged by someone else on the user's own customer, so hidden from their list
+    const logged = await request(app)
+      .post('/api/interactions')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ customerId, type: 'call', notes: 'Intro call' });
+    const loggedOnCustomer = await request(app)
+      .post(`/api/customers/${customerId}/interactions`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ customerId, type: 'email', notes: 'Follow-up' });
+    await settle();
+
+    expect([logged.status, loggedOnCustomer.status]).toEqual([201, 201]);
+    expect(watcher.events).toHaveLength(0);
+  });
+});
@@ -0,0 +1,271 @@
+const request = require('supertest');
+const { sequelize, Role, Pipeline, User, Customer } = require('../models');
+const app = require('../server');
+
+describe('Roles and permissions', () => {
+  let adminToken;
+  let userToken;
+  let user;
+
+  // Create a user with the given role and sign them in
+  const register = async (name, email, role = 'user') => {
+    await User.create({ name, email, password: 'password123', role });
+    const response = await request(app)
+      .post('/api/auth/login')
+      .send({ email, password: 'password123' });
+    return response.body.data;
+  };
+
+  beforeAll(async () => {
+    await sequelize.sync({ force: true });
+  });
+
+  afterAll(async () => {
+    await sequelize.close();
+  });
+
+  beforeEach(async () => {
+    await sequelize.truncate({ cascade: true });
+    await Role.ensureDefaults();
+    await Pipeline.ensureDefaults();
+
+    adminToken = (await register('Admin User', 'admin@example.com', 'admin')).token;
+    const userData = await register('Regular User', 'user@example.com');
+    userToken = userData.token;
+    user = await User.findByPk(userData.user.id);
+  });
+
+  describe('Role.ensureDefaults', () => {
+    test('should create the built-in roles once', async () => {
+      await Role.ensureDefaults();
+
+      const roles = await Role.findAll({ order: [['name', 'ASC']] });
+      expect(roles.map(role => role.name)).toEqual(['admin', 'user']);
+      expect(roles[0].permissions).toEqual(Role.PERMISSIONS);
+      expect(roles[1].permissions).toContain('leads:delete');
+      expect(roles[1].permissions).not.toContain('users:manage');
+    });
+  });
+
+  describe('Auth responses', () => {
+    test('should include the permissions of the role', async () => {
+      const response = await request(app)
+        .get('/api/auth/me')
+        .set('Authorization', `Bearer ${userToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.user.role).toBe('user');
+      expect(response.body.data.user.permissions).toContain('customers:view');
+      expect(response.body.data.user.permissions).not.toContain('reports:view');
+    });
+
+    test('should not let registrations choose a role', async () => {
+      const response = await request(app)
+        .post('/api/auth/register')
+        .send({ name: 'Someone', email: 'someone@example.com', password: 'password123', role: 'admin' });
+
+      expect(response.status).toBe(400);
+      expect(await User.count({ where: { email: 'someone@example.com' } })).toBe(0);
+    });
+  });
+
+  describe('Role API', () => {
+    test('should create a role and apply its permissions to users', async () => {
+      const createResponse = await request(app)
+        .post('/api/roles')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          name: 'analyst',
+          description: 'Reads reports only',
+          permissions: ['reports:view', 'customers:view']
+        });
+
+      expect(createResponse.status).toBe(201);
+      expect(createResponse.body.data.role.permissions).toEqual(['reports:view', 'customers:view']);
+
+      const assignResponse = await request(app)
+        .put(`/api/users/${user.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ role: 'analyst' });
+      expect(assignResponse.status).toBe(200);
+
+      const reportResponse = await request(app)
+        .get('/api/reports/forecast')
+        .set('Authorization', `Bearer ${userToken}`);
+      expect(reportResponse.status).toBe(200);
+
+      const leadResponse = await request(app)
+        .get('/api/leads')
+        .set('Authorization', `Bearer ${userToken}`);
+      expect(leadResponse.status).toBe(403);
+      expect(leadResponse.body.code).toBe('AUTHORIZATION_ERROR');
+
+      const listResponse = await request(app)
+        .get('/api/roles')
+        .set('Authorization', `Bearer ${adminToken}`);
+      const analyst = listResponse.body.data.roles.find(role => role.name === 'analyst');
+      expect(analyst.userCount).toBe(1);
+    });
+
+    test('should reject unknown permissions and duplicate names', async () => {
+      const invalid = await request(app)
+        .post('/api/roles')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ name: 'broken', permissions: ['leads:fly'] });
+      expect(invalid.status).toBe(400);
+
+      const duplicate = await request(app)
+        .post('/api/roles')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ name: 'user' });
+      expect(duplicate.status).toBe(409);
+    });
+
+    test('should protect built-in and assigned roles', async () => {
+      const adminRole = await Role.findByName('admin');
+      const userRole = await Role.findByName('user');
+
+      const editAdmin = await request(app)
+        .put(`/api/roles/${adminRole.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ permissions: ['reports:view'] });
+      expect(editAdmin.status).toBe(400);
+
+      const deleteBuiltIn = await request(app)
+        .delete(`/api/roles/${userRole.id}`)
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(deleteBuiltIn.status).toBe(400);
+
+      const custom = await Role.create({ name: 'support', permissions: ['customers:view'] });
+      await user.update({ role: 'support' });
+
+      const deleteAssigned = await request(app)
+        .delete(`/api/roles/${custom.id}`)
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(deleteAssigned.status).toBe(400);
+
+      await user.update({ role: 'user' });
+      const deleteUnused = await request(app)
+        .delete(`/api/roles/${custom.id}`)
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(deleteUnused.status).toBe(200);
+    });
+
+    test('should require roles:manage', async () => {
+      const response = await request(app)
+        .post('/api/roles')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ name: 'sneaky', permissions: ['users:manage'] });
+
+      expect(response.status).toBe(403);
+    });
+
+    test('should not let user managers give out roles beyond their own permissions', async () => {
+      const userRole = await Role.findByName('user');
+      await Role.create({ name: 'support', permissions: [...userRole.permissions, 'users:manage'] });
+      const support = await register('Support User', 'support@example.com', 'support');
+
+      const promoteSelf = await request(app)
+        .put(`/api/users/${support.user.id}`)
+        .set('Authorization', `Bearer ${support.token}`)
+        .send({ role: 'admin' });
+      expect(promoteSelf.status).toBe(403);
+
+      const promoteOther = await request(app)
+        .put(`/api/users/${user.id}`)
+        .set('Authorization', `Bearer ${support.token}`)
+        .send({ role: 'admin' });
+      expect(promoteOther.status).toBe(403);
+      expect((await User.findByPk(support.user.id)).role).toBe('support');
+      expect((await User.findByPk(user.id)).role).toBe('user');
+
+      // A role within their own permissions is fine
+      await Role.create({ name: 'viewer', permissions: ['customers:view'] });
+      const assign = await request(app)
+        .put(`/api/users/${user.id}`)
+        .set('Authorization', `Bearer ${support.token}`)
+        .send({ role: 'viewer' });
+      expect(assign.status).toBe(200);
+    });
+
+    test('should not let user managers act on users with more permissions', async () => {
+      const userRole = await Role.findByName('user');
+      await Role.create({ name: 'support', permissions: [...userRole.permissions, 'users:manage'] });
+      const support = await register('Support User', 'support@example.com', 'support');
+      const admin = await User.findOne({ where: { email: 'admin@example.com' } });
+
+      const actions = [
+        ['put', `/api/users/${admin.id}`, { email: 'taken-over@example.com' }],
+        ['post', `/api/users/${admin.id}/reset-password`],
+        ['post', `/api/users/${admin.id}/unlock`],
+        ['post', `/api/users/${admin.id}/deactivate`, {}],
+        ['delete', `/api/users/${admin.id}`]
+      ];
+      for (const [method, path, body] of actions) {
+        const response = await request(app)[method](path)
+          .set('Authorization', `Bearer ${support.token}`)
+          .send(body);
+        expect(response.status).toBe(403);
+      }
+      await admin.reload();
+      expect(admin.email).toBe('admin@example.com');
+      expect(admin.is_active).toBe(true);
+
+      await admin.update({ is_active: false });
+      const reactivate = await request(app)
+        .post(`/api/users/${admin.id}/reactivate`)
+        .set('Authorization', `Bearer ${support.token}`);
+      expect(reactivate.status).toBe(403);
+
+      // Users within their own permissions can still be managed
+      const update = await request(app)
+        .put(`/api/users/${user.id}`)
+        .set('Authorization', `Bearer ${support.token}`)
+        .send({ name: 'Renamed User' });
+      expect(update.status).toBe(200);
+      const reset = await request(app)
+        .post(`/api/users/${user.id}/reset-password`)
+        .set('Authorization', `Bearer ${support.token}`);
+      expect(reset.status).toBe(200);
+    });
+  });
+
+  describe('Permission checks', () => {
+    test('should block deleting leads without leads:delete', async () => {
+      const userRole = await Role.findByName('user');
+      await userRole.update({ permissions: userRole.permissions.filter(permission => permission !== 'leads:delete') });
+      const customer = await Customer.create({ name: 'Acme', owner_id: user.id });
+
+      const createResponse = await request(app)
+        .post('/api/leads')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ title: 'Deal', customerId: customer.id });
+      expect(createResponse.status).toBe(201);
+
+      const deleteResponse = await request(app)
+        .delete(`/api/leads/${createResponse.body.data.lead.id}`)
+        .set('Authorization', `Bearer ${userToken}`);
+      expect(deleteResponse.status).toBe(403);
+    });
+
+    test('should export customers as CSV with customers:export', async () => {
+      await Customer.create({ name: 'Acme, Inc', email: 'hello@acme.com', tags: ['Enterprise'], owner_id: user.id });
+
+      const forbidden = await request(app)
+        .get('/api/customers/export')
+        .set('Authorization', `Bearer ${userToken}`);
+      expect(forbidden.status).toBe(403);
+
+      const response = await request(app)
+        .get('/api/customers/export')
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toMatch(/text\/csv/);
+      const [header, row] = response.text.split('\n');
+      expect(header).toBe('ID,Name,Email,Phone,Company,Owner,Tags,Notes,Created At');
+      expect(row).toContain('"Acme, Inc",hello@acme.com');
+      expect(row).toContain('Regular User,Enterprise');
+    });
+  });
+});
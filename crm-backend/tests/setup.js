@@ -4,5 +4,12 @@ require('dotenv').config({ path: '.env.test' });
 // Set test environment
 process.env.NODE_ENV = 'test';
 
+// Write mail to files the tests can read instead of sending it
+process.env.MAIL_TRANSPORT = 'file';
+process.env.MAIL_DIR = require('path').join(require('os').tmpdir(), 'crm-test-mail');
+
+// Answer failed logins straight away instead of slowing them down
+process.env.LOGIN_DELAY_MS = '0';
+
 // Increase timeout for database operations
 jest.setTimeout(10000); 
\ No newline at end of file
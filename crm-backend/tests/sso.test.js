@@ -0,0 +1,181 @@
+const request = require('supertest');
+const { sequelize, Role, User, SecurityEvent } = require('../models');
+const { createMockOidcProvider } = require('../scripts/mock-oidc-provider');
+const app = require('../server');
+
+describe('OpenID Connect single sign-on', () => {
+  let provider;
+
+  const ssoUser = (claims = {}) => ({
+    sub: 'idp-user-1',
+    email: 'jane@example.com',
+    email_verified: true,
+    name: 'Jane Doe',
+    groups: ['crm-users'],
+    ...claims
+  });
+
+  // Start a sign-in, let the mock provider send the user back and hand the
+  // code to the backend, the way the login page does
+  const startSignIn = async () => {
+    const start = await request(app).get('/api/auth/sso/authorize');
+    expect(start.status).toBe(200);
+
+    const authorizationUrl = new URL(start.body.data.authorizationUrl);
+    const redirect = await request(provider.server).get(authorizationUrl.pathname + authorizationUrl.search);
+    const callbackUrl = new URL(redirect.headers.location);
+
+    return {
+      code: callbackUrl.searchParams.get('code'),
+      state: callbackUrl.searchParams.get('state'),
+      transaction: start.body.data.transaction
+    };
+  };
+
+  const finishSignIn = (body) => request(app)
+    .post('/api/auth/sso/callback')
+    .send(body);
+
+  const signIn = async () => finishSignIn(await startSignIn());
+
+  beforeAll(async () => {
+    await sequelize.sync({ force: true });
+    provider = await createMockOidcProvider({ clientId: 'crm', clientSecret: 'secret' }).start();
+  });
+
+  afterAll(async () => {
+    await provider.stop();
+    await sequelize.close();
+  });
+
+  beforeEach(async () => {
+    await sequelize.truncate({ cascade: true });
+    await Role.ensureDefaults();
+
+    process.env.OIDC_ISSUER_URL = provider.issuer;
+    process.env.OIDC_CLIENT_ID = 'crm';
+    process.env.OIDC_CLIENT_SECRET = 'secret';
+    process.env.OIDC_ROLE_MAPPING = 'crm-admins:admin,crm-users:user';
+    delete process.env.OIDC_AUTO_PROVISION;
+    provider.setUser(ssoUser());
+  });
+
+  afterEach(() => {
+    ['OIDC_ISSUER_URL', 'OIDC_CLIENT_ID', 'OIDC_CLIENT_SECRET', 'OIDC_ROLE_MAPPING', 'OIDC_AUTO_PROVISION']
+      .forEach(name => delete process.env[name]);
+  });
+
+  test('should report whether SSO is configured', async () => {
+    const enabled = await request(app).get('/api/auth/sso');
+    expect(enabled.body.data).toEqual({ enabled: true, providerName: 'SSO' });
+
+    delete process.env.OIDC_ISSUER_URL;
+    const disabled = await request(app).get('/api/auth/sso');
+    expect(disabled.body.data.enabled).toBe(false);
+
+    const authorize = await request(app).get('/api/auth/sso/authorize');
+    expect(authorize.status).toBe(404);
+  });
+
+  test('should send the user to the provider with PKCE', async () => {
+    const response = await request(app).get('/api/auth/sso/authorize');
+
+    const authorizationUrl = new URL(response.body.data.authorizationUrl);
+    expect(authorizationUrl.origin).toBe(provider.issuer);
+    expect(authorizationUrl.searchParams.get('client_id')).toBe('crm');
+    expect(authorizationUrl.searchParams.get('code_challenge_method')).toBe('S256');
+    expect(authorizationUrl.searchParams.get('code_challenge')).toBeTruthy();
+    expect(authorizationUrl.searchParams.get('state')).toBeTruthy();
+    // The verifier stays out of the URL
+    expect(response.body.data.authorizationUrl).not.toContain('code_verifier');
+  });
+
+  test('should provision a new user with the mapped role and start a session', async () => {
+    provider.setUser(ssoUser({ groups: ['crm-admins'] }));
+
+    const response = await signIn();
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.user.email).toBe('jane@example.com');
+    expect(response.body.data.user.role).toBe('admin');
+    expect(response.body.data.user.email_verified_at).not.toBeNull();
+    expect(response.body.data.refreshToken).toBeDefined();
+
+    const me = await request(app)
+      .get('/api/auth/me')
+      .set('Authorization', `Bearer ${response.body.data.token}`);
+    expect(me.status).toBe(200);
+    expect(me.body.data.user.sso_subject).toBe('idp-user-1');
+
+    const event = await SecurityEvent.findOne({ where: { event: 'login_succeeded' } });
+    expect(event.details).toEqual({ method: 'sso', provisioned: true });
+  });
+
+  test('should sign the same user in again and follow role changes at the provider', async () => {
+    await signIn();
+
+    provider.setUser(ssoUser({ email: 'jane.doe@example.com', groups: ['crm-admins'] }));
+    const response = await signIn();
+
+    expect(response.status).toBe(200);
+    expect(await User.count()).toBe(1);
+    expect(response.body.data.user.role).toBe('admin');
+
+    // Unmapped groups leave the role alone
+    provider.setUser(ssoUser({ groups: ['everyone'] }));
+    const unmapped = await signIn();
+    expect(unmapped.body.data.user.role).toBe('admin');
+  });
+
+  test('should link an existing account only for a verified email', async () => {
+    const existing = await User.create({ name: 'Jane Doe', email: 'jane@example.com', password: 'password123', role: 'admin' });
+
+    provider.setUser(ssoUser({ email_verified: false }));
+    const unverified = await signIn();
+    expect(unverified.status).toBe(401);
+
+    provider.setUser(ssoUser({ groups: [] }));
+    const verified = await signIn();
+    expect(verified.status).toBe(200);
+    expect(verified.body.data.user.id).toBe(existing.id);
+    expect(verified.body.data.user.role).toBe('admin');
+
+    await existing.reload();
+    expect(existing.sso_subject).toBe('idp-user-1');
+  });
+
+  test('should only sign in existing users when provisioning is off', async () => {
+    process.env.OIDC_AUTO_PROVISION = 'false';
+
+    const response = await signIn();
+
+    expect(response.status).toBe(403);
+    expect(await User.count()).toBe(0);
+  });
+
+  test('should reject mismatched state, forged transactions and reused codes', async () => {
+    const first = await startSignIn();
+    const second = await startSignIn();
+
+    const mismatched = await finishSignIn({ ...first, transaction: second.transaction });
+    expect(mismatched.status).toBe(401);
+
+    const forged = await finishSignIn({ ...second, transaction: 'not-a-transaction' });
+    expect(forged.status).toBe(401);
+
+    const valid = await finishSignIn(second);
+    expect(valid.status).toBe(200);
+
+    const reused = await finishSignIn(second);
+    expect(reused.status).toBe(401);
+  });
+
+  test('should refuse locked accounts', async () => {
+    await signIn();
+    await User.update({ locked_until: new Date(Date.now() + 60 * 1000) }, { where: { email: 'jane@example.com' } });
+
+    const response = await signIn();
+
+    expect(response.status).toBe(423);
+  });
+});
@@ -0,0 +1,219 @@
+const request = require('supertest');
+const { DataTypes } = require('sequelize');
+const { sequelize, Role, Team, Pipeline, User, Customer, Lead, Task } = require('../models');
+const migrateTeams = require('../scripts/migrate-teams');
+const app = require('../server');
+
+describe('Teams and managers', () => {
+  let adminToken;
+  let managerToken;
+  let manager;
+  let alice;
+  let bob;
+  let pipeline;
+
+  // Create a user with the given role and sign them in
+  const register = async (name, email, role = 'user') => {
+    await User.create({ name, email, password: 'password123', role });
+    const response = await request(app)
+      .post('/api/auth/login')
+      .send({ email, password: 'password123' });
+    return response.body.data;
+  };
+
+  beforeAll(async () => {
+    await sequelize.sync({ force: true });
+  });
+
+  afterAll(async () => {
+    await sequelize.close();
+  });
+
+  beforeEach(async () => {
+    await sequelize.truncate({ cascade: true });
+    await Role.ensureDefaults();
+    pipeline = await Pipeline.ensureDefaults();
+
+    adminToken = (await register('Admin User', 'admin@example.com', 'admin')).token;
+    const managerData = await register('Mona Manager', 'mona@example.com');
+    managerToken = managerData.token;
+    manager = await User.findByPk(managerData.user.id);
+    alice = await User.findByPk((await register('Alice Seller', 'alice@example.com')).user.id);
+    bob = await User.findByPk((await register('Bob Seller', 'bob@example.com')).user.id);
+  });
+
+  const createRecords = async (user, value) => {
+    const customer = await Customer.create({ name: `${user.name} Customer`, owner_id: user.id });
+    await Lead.create({ title: `${user.name} Lead`, stage: 'lead', value, pipeline_id: pipeline.id, customer_id: customer.id, owner_id: user.id });
+    await Task.create({ title: `${user.name} Task`, assignedTo: user.id });
+  };
+
+  describe('Team API', () => {
+    test('should create a team, pick its manager and assign members', async () => {
+      const createResponse = await request(app)
+        .post('/api/teams')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ name: 'EMEA', managerId: manager.id });
+
+      expect(createResponse.status).toBe(201);
+      expect(createResponse.body.data.team.manager.name).toBe('Mona Manager');
+      const teamId = createResponse.body.data.team.id;
+
+      const assignResponse = await request(app)
+        .put(`/api/users/${alice.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ teamId });
+      expect(assignResponse.status).toBe(200);
+      expect(assignResponse.body.data.user.team_id).toBe(teamId);
+
+      const listResponse = await request(app)
+        .get('/api/teams')
+        .set('Authorization', `Bearer ${managerToken}`);
+      expect(listResponse.status).toBe(200);
+      expect(listResponse.body.data.teams[0].members.map(member => member.name)).toEqual(['Alice Seller']);
+
+      const meResponse = await request(app)
+        .get('/api/auth/me')
+        .set('Authorization', `Bearer ${managerToken}`);
+      expect(meResponse.body.data.user.managedTeamIds).toEqual([teamId]);
+    });
+
+    test('should reject duplicate names, unknown managers and non-admins', async () => {
+      await Team.create({ name: 'EMEA' });
+
+      const duplicate = await request(app)
+        .post('/api/teams')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ name: 'emea' });
+      expect(duplicate.status).toBe(409);
+
+      const unknownManager = await request(app)
+        .post('/api/teams')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ name: 'APAC', managerId: 9999 });
+      expect(unknownManager.status).toBe(404);
+
+      const forbidden = await request(app)
+        .post('/api/teams')
+        .set('Authorization', `Bearer ${managerToken}`)
+        .send({ name: 'APAC' });
+      expect(forbidden.status).toBe(403);
+    });
+
+    test('should leave members without a team when the team is deleted', async () => {
+      const team = await Team.create({ name: 'EMEA' });
+      await alice.update({ team_id: team.id });
+
+      const response = await request(app)
+        .delete(`/api/teams/${team.id}`)
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(response.status).toBe(200);
+      await alice.reload();
+      expect(alice.team_id).toBeNull();
+    });
+  });
+
+  describe('Manager visibility', () => {
+    test('should let managers see the records of the teams they manage', async () => {
+      const team = await Team.create({ name: 'EMEA', manager_id: manager.id });
+      await alice.update({ team_id: team.id });
+      await manager.update({ visibility: 'own' });
+      await Promise.all([manager, alice, bob].map(user => createRecords(user, 1000)));
+
+      const leads = await request(app)
+        .get('/api/leads')
+        .set('Authorization', `Bearer ${managerToken}`);
+      expect(leads.body.data.leads.map(lead => lead.title).sort())
+        .toEqual(['Alice Seller Lead', 'Mona Manager Lead']);
+
+      const tasks = await request(app)
+        .get('/api/tasks')
+        .set('Authorization', `Bearer ${managerToken}`);
+      expect(tasks.body.data.tasks.map(task => task.title).sort())
+        .toEqual(['Alice Seller Task', 'Mona Manager Task']);
+    });
+  });
+
+  describe('GET /api/reports/dashboard-stats', () => {
+    test('should limit the statistics to a team', async () => {
+      const team = await Team.create({ name: 'EMEA', manager_id: manager.id });
+      await alice.update({ team_id: team.id });
+      await bob.update({ team_id: team.id });
+      await createRecords(alice, 1000);
+      await createRecords(bob, 2500);
+      await createRecords(manager, 400);
+
+      const response = await request(app)
+        .get(`/api/reports/dashboard-stats?teamId=${team.id}`)
+        .set('Authorization', `Bearer ${managerToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.teamId).toBe(team.id);
+      expect(response.body.data.customers.total).toBe(2);
+      expect(response.body.data.leads.total).toBe(2);
+      expect(response.body.data.leads.totalValue).toBe(3500);
+      expect(response.body.data.tasks.total).toBe(2);
+      expect(response.body.data.pipeline.lead).toBe(2);
+
+      const everything = await request(app)
+        .get('/api/reports/dashboard-stats')
+        .set('Authorization', `Bearer ${managerToken}`);
+      expect(everything.body.data.leads.total).toBe(3);
+      expect(everything.body.data.teamId).toBeNull();
+    });
+
+    test('should only let the manager or records:view_all report on a team', async () => {
+      const team = await Team.create({ name: 'EMEA', manager_id: manager.id });
+      const aliceToken = (await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'alice@example.com', password: 'password123' })).body.data.token;
+
+      const forbidden = await request(app)
+        .get(`/api/reports/dashboard-stats?teamId=${team.id}`)
+        .set('Authorization', `Bearer ${aliceToken}`);
+      expect(forbidden.status).toBe(403);
+
+      const admin = await request(app)
+        .get(`/api/reports/dashboard-stats?teamId=${team.id}`)
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(admin.status).toBe(200);
+
+      const missing = await request(app)
+        .get('/api/reports/dashboard-stats?teamId=9999')
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(missing.status).toBe(404);
+    });
+
+    test('should refuse users who can see no records', async () => {
+      await Role.create({ name: 'auditor', permissions: ['audit:view'] });
+      const { token } = await register('Ada Auditor', 'ada@example.com', 'auditor');
+
+      const response = await request(app)
+        .get('/api/reports/dashboard-stats')
+        .set('Authorization', `Bearer ${token}`);
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('migrate-teams script', () => {
+    test('should turn team names on users into teams', async () => {
+      const queryInterface = sequelize.getQueryInterface();
+      await queryInterface.addColumn('users', 'team', { type: DataTypes.STRING(100), allowNull: true });
+      await sequelize.query(`UPDATE users SET team = 'EMEA' WHERE id = ${alice.id}`);
+      await sequelize.query(`UPDATE users SET team = ' emea ' WHERE id = ${bob.id}`);
+      await sequelize.query(`UPDATE users SET team = 'Americas' WHERE id = ${manager.id}`);
+
+      const summary = await migrateTeams();
+      const rerun = await migrateTeams();
+
+      expect(summary).toEqual({ teamsCreated: 2, usersLinked: 3 });
+      expect(rerun.usersLinked).toBe(0);
+
+      const emea = await Team.findByName('EMEA');
+      await Promise.all([alice, bob].map(user => user.reload()));
+      expect(alice.team_id).toBe(emea.id);
+      expect(bob.team_id).toBe(emea.id);
+    });
+  });
+});
@@ -0,0 +1,304 @@
+const request = require('supertest');
+const { sequelize, Role, Team, Pipeline, User, Account, Customer, Lead, Task, Interaction, LeadStageHistory } = require('../models');
+const app = require('../server');
+
+describe('Record visibility', () => {
+  let adminToken;
+  let aliceToken;
+  let alice;
+  let bob;
+  let carol;
+  let americas;
+
+  // Create a user with the given role and sign them in
+  const register = async (name, email, role = 'user') => {
+    await User.create({ name, email, password: 'password123', role });
+    const response = await request(app)
+      .post('/api/auth/login')
+      .send({ email, password: 'password123' });
+    return response.body.data;
+  };
+
+  beforeAll(async () => {
+    await sequelize.sync({ force: true });
+  });
+
+  afterAll(async () => {
+    await sequelize.close();
+  });
+
+  beforeEach(async () => {
+    await sequelize.truncate({ cascade: true });
+    await Role.ensureDefaults();
+    await Pipeline.ensureDefaults();
+
+    adminToken = (await register('Admin User', 'admin@example.com', 'admin')).token;
+    const aliceData = await register('Alice Seller', 'alice@example.com');
+    aliceToken = aliceData.token;
+    alice = await User.findByPk(aliceData.user.id);
+    bob = await User.findByPk((await register('Bob Seller', 'bob@example.com')).user.id);
+    carol = await User.findByPk((await register('Carol Seller', 'carol@example.com')).user.id);
+
+    const emea = await Team.create({ name: 'EMEA' });
+    americas = await Team.create({ name: 'Americas' });
+    await alice.update({ team_id: emea.id });
+    await bob.update({ team_id: emea.id });
+    await carol.update({ team_id: americas.id });
+  });
+
+  const createRecords = async () => {
+    const records = {};
+    for (const user of [alice, bob, carol]) {
+      const customer = await Customer.create({ name: `${user.name} Customer`, owner_id: user.id });
+      const lead = await Lead.create({ title: `${user.name} Lead`, stage: 'lead', customer_id: customer.id, owner_id: user.id });
+      const task = await Task.create({ title: `${user.name} Task`, assignedTo: user.id });
+      const interaction = await Interaction.create({ type: 'call', customer_id: customer.id, created_by: user.id });
+      records[user.id] = { customer, lead, task, interaction };
+    }
+    return records;
+  };
+
+  const listNames = async (token, path, key, field) => {
+    const response = await request(app)
+      .get(path)
+      .set('Authorization', `Bearer ${token}`);
+    expect(response.status).toBe(200);
+    return response.body.data[key].map(record => record[field]).sort();
+  };
+
+  test('should default to seeing every record', async () => {
+    await createRecords();
+
+    const customers = await listNames(aliceToken, '/api/customers', 'customers', 'name');
+    expect(customers).toHaveLength(3);
+  });
+
+  test('should limit own visibility to owned, assigned and created records', async () => {
+    const records = await createRecords();
+    await alice.update({ visibility: 'own' });
+
+    expect(await listNames(aliceToken, '/api/customers', 'customers', 'name')).toEqual(['Alice Seller Customer']);
+    expect(await listNames(aliceToken, '/api/leads', 'leads', 'title')).toEqual(['Alice Seller Lead']);
+    expect(await listNames(aliceToken, '/api/tasks', 'tasks', 'title')).toEqual(['Alice Seller Task']);
+    const interactions = await listNames(aliceToken, '/api/interactions', 'interactions', 'created_by');
+    expect(interactions).toEqual([alice.id]);
+
+    // A lead assigned to Alice is visible even when someone else owns it
+    await records[bob.id].lead.update({ assigned_to: alice.id });
+    expect(await listNames(aliceToken, '/api/leads', 'leads', 'title')).toEqual(['Alice Seller Lead', 'Bob Seller Lead']);
+  });
+
+  test('should only count visible records in the dashboard stats', async () => {
+    await createRecords();
+    await alice.update({ visibility: 'own' });
+
+    const response = await request(app)
+      .get('/api/reports/dashboard-stats')
+      .set('Authorization', `Bearer ${aliceToken}`);
+    expect(response.status).toBe(200);
+    expect(response.body.data.customers.total).toBe(1);
+    expect(response.body.data.leads.total).toBe(1);
+    expect(response.body.data.tasks.total).toBe(1);
+  });
+
+  test('should only include visible leads, tasks and interactions on a contact', async () => {
+    const records = await createRecords();
+    await alice.update({ visibility: 'own' });
+    const customer = records[alice.id].customer;
+    await Lead.create({ title: 'Bob Lead', stage: 'lead', customer_id: customer.id, owner_id: bob.id });
+    await Task.create({ title: 'Bob Task', customerId: customer.id, assignedTo: bob.id });
+    await Task.create({ title: 'Alice Task', customerId: customer.id, assignedTo: alice.id });
+    await Interaction.create({ type: 'note', customer_id: customer.id, created_by: bob.id });
+
+    const response = await request(app)
+      .get(`/api/customers/${customer.id}`)
+      .set('Authorization', `Bearer ${aliceToken}`);
+    expect(response.status).toBe(200);
+    expect(response.body.data.customer.leads.map(lead => lead.title)).toEqual(['Alice Seller Lead']);
+    expect(response.body.data.customer.tasks.map(task => task.title)).toEqual(['Alice Task']);
+    expect(response.body.data.customer.interactions.map(interaction => interaction.created_by)).toEqual([alice.id]);
+
+    const interactions = await request(app)
+      .get(`/api/customers/${customer.id}/interactions`)
+      .set('Authorization', `Bearer ${aliceToken}`);
+    expect(interactions.body.data.interactions.map(interaction => interaction.created_by)).toEqual([alice.id]);
+
+    // Contacts without visible records still show up
+    await Lead.destroy({ where: { customer_id: customer.id } });
+    const empty = await request(app)
+      .get(`/api/customers/${customer.id}`)
+      .set('Authorization', `Bearer ${aliceToken}`);
+    expect(empty.status).toBe(200);
+    expect(empty.body.data.customer.leads).toEqual([]);
+  });
+
+  test('should leave hidden records out of a contact\'s timeline', async () => {
+    const records = await createRecords();
+    await alice.update({ visibility: 'own' });
+    const customer = records[alice.id].customer;
+    const hiddenLead = await Lead.create({ title: 'Bob Lead', stage: 'lead', customer_id: customer.id, owner_id: bob.id });
+    await LeadStageHistory.create({ lead_id: hiddenLead.id, from_stage: 'lead', to_stage: 'qualified', changed_by: bob.id, changed_at: new Date() });
+    await Interaction.create({ type: 'note', customer_id: customer.id, created_by: bob.id });
+
+    const response = await request(app)
+      .get(`/api/customers/${customer.id}/timeline`)
+      .set('Authorization', `Bearer ${aliceToken}`);
+    expect(response.status).toBe(200);
+    const { timeline } = response.body.data;
+    expect(timeline.map(event => event.type)).toEqual(['interaction']);
+    expect(timeline[0].interaction.id).toBe(records[alice.id].interaction.id);
+  });
+
+  test('should only include visible contacts, leads and interactions on an account', async () => {
+    const records = await createRecords();
+    await alice.update({ visibility: 'own' });
+    const account = await Account.create({ name: 'Acme' });
+    for (const user of [alice, bob]) {
+      const { customer, lead, interaction } = records[user.id];
+      await Promise.all([customer, lead, interaction].map(record => record.update({ account_id: account.id })));
+    }
+
+    const response = await request(app)
+      .get(`/api/accounts/${account.id}`)
+      .set('Authorization', `Bearer ${aliceToken}`);
+    expect(response.status).toBe(200);
+    expect(response.body.data.account.contacts.map(contact => contact.name)).toEqual(['Alice Seller Customer']);
+    expect(response.body.data.account.leads.map(lead => lead.title)).toEqual(['Alice Seller Lead']);
+    expect(response.body.data.account.interactions.map(interaction => interaction.created_by)).toEqual([alice.id]);
+
+    const list = await request(app)
+      .get('/api/accounts')
+      .set('Authorization', `Bearer ${aliceToken}`);
+    expect(list.body.data.accounts.map(({ contacts }) => contacts.map(contact => contact.name))).toEqual([['Alice Seller Customer']]);
+  });
+
+  test('should show team records in team visibility', async () => {
+    await createRecords();
+    await alice.update({ visibility: 'team' });
+
+    expect(await listNames(aliceToken, '/api/customers', 'customers', 'name'))
+      .toEqual(['Alice Seller Customer', 'Bob Seller Customer']);
+    expect(await listNames(aliceToken, '/api/tasks', 'tasks', 'title'))
+      .toEqual(['Alice Seller Task', 'Bob Seller Task']);
+  });
+
+  test('should return 404 when reading, updating or deleting hidden records', async () => {
+    const records = await createRecords();
+    await alice.update({ visibility: 'own' });
+    const { customer, lead, task } = records[carol.id];
+
+    const paths = [
+      ['get', `/api/customers/${customer.id}`],
+      ['put', `/api/customers/${customer.id}`, { name: 'Renamed' }],
+      ['delete', `/api/customers/${customer.id}`],
+      ['get', `/api/customers/${customer.id}/interactions`],
+      ['get', `/api/leads/${lead.id}`],
+      ['get', `/api/leads/${lead.id}/history`],
+      ['put', `/api/leads/${lead.id}`, { title: 'Renamed' }],
+      ['put', `/api/leads/${lead.id}/stage`, { stage: 'contacted' }],
+      ['delete', `/api/leads/${lead.id}`],
+      ['get', `/api/tasks/${task.id}`],
+      ['put', `/api/tasks/${task.id}`, { title: 'Renamed' }],
+      ['put', `/api/tasks/${task.id}/status`, { status: 'completed' }],
+      ['delete', `/api/tasks/${task.id}`]
+    ];
+
+    for (const [method, path, body] of paths) {
+      const response = await request(app)[method](path)
+        .set('Authorization', `Bearer ${aliceToken}`)
+        .send(body);
+      expect(response.status).toBe(404);
+    }
+
+    expect(await Customer.count()).toBe(3);
+    expect(await Lead.count()).toBe(3);
+    expect(await Task.count()).toBe(3);
+  });
+
+  test('should not link new records to hidden contacts', async () => {
+    const records = await createRecords();
+    await alice.update({ visibility: 'own' });
+    const hiddenCustomer = records[carol.id].customer;
+
+    const leadResponse = await request(app)
+      .post('/api/leads')
+      .set('Authorization', `Bearer ${aliceToken}`)
+      .send({ title: 'Poached deal', customerId: hiddenCustomer.id });
+    expect(leadResponse.status).toBe(400);
+    expect(leadResponse.body.error).toBe('Invalid contact');
+
+    const interactionResponse = await request(app)
+      .post('/api/interactions')
+      .set('Authorization', `Bearer ${aliceToken}`)
+      .send({ type: 'note', customerId: hiddenCustomer.id });
+    expect(interactionResponse.status).toBe(404);
+
+    const taskResponse = await request(app)
+      .post('/api/tasks')
+      .set('Authorization', `Bearer ${aliceToken}`)
+      .send({ title: 'Call them', customerId: hiddenCustomer.id });
+    expect(taskResponse.status).toBe(404);
+    expect(taskResponse.body.error).toBe('Customer not found');
+
+    const ownTask = records[alice.id].task;
+    const updateResponse = await request(app)
+      .put(`/api/tasks/${ownTask.id}`)
+      .set('Authorization', `Bearer ${aliceToken}`)
+      .send({ title: ownTask.title, customerId: hiddenCustomer.id });
+    expect(updateResponse.status).toBe(404);
+    await ownTask.reload();
+    expect(ownTask.customerId).toBeNull();
+  });
+
+  test('should make the creator the owner and only let admins change it', async () => {
+    const createResponse = await request(app)
+      .post('/api/customers')
+      .set('Authorization', `Bearer ${aliceToken}`)
+      .send({ name: 'New Customer' });
+
+    expect(createResponse.status).toBe(201);
+    expect(createResponse.body.data.customer.owner_id).toBe(alice.id);
+    expect(createResponse.body.data.customer.owner.name).toBe('Alice Seller');
+    const customerId = createResponse.body.data.customer.id;
+
+    const forbidden = await request(app)
+      .put(`/api/customers/${customerId}`)
+      .set('Authorization', `Bearer ${aliceToken}`)
+      .send({ name: 'New Customer', ownerId: bob.id });
+    expect(forbidden.status).toBe(403);
+    expect(forbidden.body.code).toBe('AUTHORIZATION_ERROR');
+
+    const reassigned = await request(app)
+      .put(`/api/customers/${customerId}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ name: 'New Customer', ownerId: bob.id });
+    expect(reassigned.status).toBe(200);
+    expect(reassigned.body.data.customer.owner_id).toBe(bob.id);
+
+    const taskResponse = await request(app)
+      .post('/api/tasks')
+      .set('Authorization', `Bearer ${aliceToken}`)
+      .send({ title: 'Follow up' });
+    expect(taskResponse.body.data.task.assignedTo).toBe(alice.id);
+  });
+
+  test('should let admins see everything and set visibility', async () => {
+    await createRecords();
+
+    const updateResponse = await request(app)
+      .put(`/api/users/${alice.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ visibility: 'own', teamId: americas.id });
+    expect(updateResponse.status).toBe(200);
+    expect(updateResponse.body.data.user.visibility).toBe('own');
+    expect(updateResponse.body.data.user.team_id).toBe(americas.id);
+
+    const invalid = await request(app)
+      .put(`/api/users/${alice.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ visibility: 'nobody' });
+    expect(invalid.status).toBe(400);
+
+    expect(await listNames(adminToken, '/api/leads', 'leads', 'title')).toHaveLength(3);
+  });
+});
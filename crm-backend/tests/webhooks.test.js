@@ -0,0 +1,206 @@
+const crypto = require('crypto');
+const http = require('http');
+const request = require('supertest');
+const { sequelize, Role, Pipeline, User, WebhookDelivery } = require('../models');
+const { processDue } = require('../services/webhooks');
+const app = require('../server');
+
+describe('Webhooks', () => {
+  let adminToken;
+  let receiver;
+  let receiverUrl;
+  let received;
+  let responseStatus;
+
+  const login = async (email) => {
+    const response = await request(app)
+      .post('/api/auth/login')
+      .send({ email, password: 'password123' });
+    return response.body.data.token;
+  };
+
+  const createWebhook = (body) => request(app)
+    .post('/api/webhooks')
+    .set('Authorization', `Bearer ${adminToken}`)
+    .send({ name: 'Receiver', url: receiverUrl, ...body });
+
+  beforeAll(async () => {
+    await sequelize.sync({ force: true });
+
+    receiver = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => {
+        body += chunk;
+      });
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.writeHead(responseStatus);
+        res.end('ok');
+      });
+    });
+    await new Promise(resolve => receiver.listen(0, '127.0.0.1', resolve));
+    receiverUrl = `http://127.0.0.1:${receiver.address().port}/hooks`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => receiver.close(resolve));
+    await sequelize.close();
+  });
+
+  beforeEach(async () => {
+    await sequelize.truncate({ cascade: true });
+    await Role.ensureDefaults();
+    await Pipeline.ensureDefaults();
+
+    received = [];
+    responseStatus = 200;
+    delete process.env.WEBHOOK_MAX_ATTEMPTS;
+
+    await User.create({ name: 'Admin User', email: 'admin@example.com', password: 'password123', role: 'admin' });
+    await User.create({ name: 'Regular User', email: 'user@example.com', password: 'password123' });
+    adminToken = await login('admin@example.com');
+  });
+
+  test('should manage webhooks without exposing their secret', async () => {
+    const created = await createWebhook({ events: ['customer.created'] });
+    expect(created.status).toBe(201);
+    expect(created.body.data.secret).toMatch(/^whsec_/);
+    expect(created.body.data.webhook.secret).toBeUndefined();
+
+    const list = await request(app)
+      .get('/api/webhooks')
+      .set('Authorization', `Bearer ${adminToken}`);
+    expect(list.body.data.webhooks).toHaveLength(1);
+    expect(list.body.data.webhooks[0].secret).toBeUndefined();
+
+    const invalid = await createWebhook({ events: ['customer.deleted'] });
+    expect(invalid.status).toBe(400);
+
+    const userToken = await login('user@example.com');
+    const forbidden = await request(app)
+      .get('/api/webhooks')
+      .set('Authorization', `Bearer ${userToken}`);
+    expect(forbidden.status).toBe(403);
+  });
+
+  test('should send a signed payload when a lead changes stage', async () => {
+    const created = await createWebhook({ events: ['lead.stage_changed'] });
+    const { secret, webhook } = created.body.data;
+
+    // Not subscribed, so nothing is queued for it
+    const customer = await request(app)
+      .post('/api/customers')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ name: 'Acme' });
+
+    const lead = await request(app)
+      .post('/api/leads')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ title: 'Deal', customerId: customer.body.data.customer.id });
+    await request(app)
+      .put(`/api/leads/${lead.body.data.lead.id}/stage`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ stage: 'qualified' });
+    await processDue();
+
+    expect(received).toHaveLength(1);
+    const { headers, body } = received[0];
+    expect(headers['x-webhook-event']).toBe('lead.stage_changed');
+    const expected = crypto.createHmac('sha256', secret)
+      .update(`${headers['x-webhook-timestamp']}.${body}`)
+      .digest('hex');
+    expect(headers['x-webhook-signature']).toBe(`sha256=${expected}`);
+
+    const payload = JSON.parse(body);
+    expect(payload.event).toBe('lead.stage_changed');
+    expect(payload.data.lead.id).toBe(lead.body.data.lead.id);
+    expect(payload.data.fromStage).toBe('lead');
+    expect(payload.data.toStage).toBe('qualified');
+
+    const deliveries = await request(app)
+      .get(`/api/webhooks/${webhook.id}/deliveries`)
+      .set('Authorization', `Bearer ${adminToken}`);
+    expect(deliveries.body.data.deliveries).toHaveLength(1);
+    expect(deliveries.body.data.deliveries[0].status).toBe('succeeded');
+    expect(deliveries.body.data.deliveries[0].response_status).toBe(200);
+  });
+
+  test('should retry failed deliveries with backoff and replay them', async () => {
+    process.env.WEBHOOK_MAX_ATTEMPTS = '2';
+    responseStatus = 500;
+    await createWebhook({ events: ['customer.created'] });
+
+    await request(app)
+      .post('/api/customers')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ name: 'Acme' });
+    await processDue();
+
+    const delivery = await WebhookDelivery.findOne();
+    expect(delivery.status).toBe('pending');
+    expect(delivery.attempts).toBe(1);
+    expect(delivery.response_status).toBe(500);
+    expect(delivery.next_attempt_at.getTime()).toBeGreaterThan(Date.now());
+
+    // Not due yet
+    await processDue();
+    expect(received).toHaveLength(1);
+
+    await delivery.update({ next_attempt_at: new Date(Date.now() - 1000) });
+    await processDue();
+    await delivery.reload();
+    expect(delivery.status).toBe('failed');
+    expect(delivery.attempts).toBe(2);
+    expect(delivery.next_attempt_at).toBeNull();
+
+    responseStatus = 200;
+    const replayed = await request(app)
+      .post(`/api/webhooks/deliveries/${delivery.id}/replay`)
+      .set('Authorization', `Bearer ${adminToken}`);
+    expect(replayed.status).toBe(201);
+    await processDue();
+
+    const copy = await WebhookDelivery.findByPk(replayed.body.data.delivery.id);
+    expect(copy.status).toBe('succeeded');
+    expect(copy.replay_of).toBe(delivery.id);
+    expect(received).toHaveLength(3);
+    expect(JSON.parse(received[2].body).id).toBe(delivery.payload.id);
+  });
+
+  test('should send task and interaction events only when they happen', async () => {
+    await createWebhook({ events: ['task.completed', 'interaction.created'] });
+
+    const task = await request(app)
+      .post('/api/tasks')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ title: 'Kick-off' });
+    const taskId = task.body.data.task.id;
+
+    await request(app)
+      .put(`/api/tasks/${taskId}/status`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ status: 'in-progress' });
+    await request(app)
+      .put(`/api/tasks/${taskId}/status`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ status: 'completed' });
+    // Already completed, so this is not announced again
+    await request(app)
+      .put(`/api/tasks/${taskId}/status`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ status: 'completed' });
+
+    const customer = await request(app)
+      .post('/api/customers')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ name: 'Acme' });
+    await request(app)
+      .post('/api/interactions')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ customerId: customer.body.data.customer.id, type: 'call', notes: 'Intro call' });
+    await processDue();
+
+    const events = received.map(({ body }) => JSON.parse(body).event).sort();
+    expect(events).toEqual(['interaction.created', 'task.completed']);
+  });
+});
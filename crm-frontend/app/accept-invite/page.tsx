@@ -0,0 +1,202 @@
+'use client'
+
+import { Suspense, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { useForm } from 'react-hook-form'
+import { toast } from 'react-hot-toast'
+import { Loader2 } from 'lucide-react'
+import { useAuth } from '@/contexts/AuthContext'
+import api from '@/lib/api'
+
+interface AcceptInviteForm {
+  name: string
+  password: string
+  confirmPassword: string
+}
+
+interface InvitationDetails {
+  email: string
+  name?: string | null
+  role: string
+}
+
+function AcceptInviteForm() {
+  const [isLoading, setIsLoading] = useState(false)
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null)
+  const [error, setError] = useState('')
+  const { completeLogin } = useAuth()
+  const router = useRouter()
+  const token = useSearchParams().get('token')
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    reset,
+    formState: { errors },
+  } = useForm<AcceptInviteForm>()
+
+  useEffect(() => {
+    if (!token) return
+
+    api.post('/auth/invitation', { token })
+      .then(response => {
+        const details = response.data.data.invitation
+        setInvitation(details)
+        reset({ name: details.name || '', password: '', confirmPassword: '' })
+      })
+      .catch((error: any) => {
+        setError(error.response?.data?.error || 'Failed to load invitation')
+      })
+  }, [token])
+
+  const onSubmit = async (data: AcceptInviteForm) => {
+    setIsLoading(true)
+    try {
+      const result = await completeLogin('/auth/accept-invite', {
+        token: token!,
+        name: data.name,
+        password: data.password
+      })
+      if (result.challenge) {
+        toast.success('Account created, sign in to set up two-factor authentication')
+        router.push('/login')
+        return
+      }
+      toast.success('Welcome to L2 CRM!')
+      router.push('/dashboard')
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to accept invitation')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  if (!token || error) {
+    return (
+      <p className="text-center text-sm text-gray-700">
+        {token ? error : 'This invitation link is incomplete.'}{' '}
+        Ask an administrator to send you a new invitation, or{' '}
+        <Link href="/login" className="font-medium text-primary-600 hover:text-primary-500">
+          sign in
+        </Link>
+        {' '}if you already have an account.
+      </p>
+    )
+  }
+
+  if (!invitation) {
+    return (
+      <div className="text-center">
+        <Loader2 className="h-8 w-8 animate-spin mx-auto text-primary-600" />
+      </div>
+    )
+  }
+
+  return (
+    <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
+      <p className="text-center text-sm text-gray-700">
+        Create the account for <span className="font-medium">{invitation.email}</span> with the{' '}
+        <span className="font-medium">{invitation.role}</span> role.
+      </p>
+      <div className="space-y-4">
+        <div>
+          <label htmlFor="name" className="sr-only">
+            Name
+          </label>
+          <input
+            {...register('name', {
+              required: 'Name is required',
+              minLength: {
+                value: 2,
+                message: 'Name must be at least 2 characters',
+              },
+            })}
+            id="name"
+            autoComplete="name"
+            className={`input rounded-md ${errors.name ? 'border-red-500' : ''}`}
+            placeholder="Your name"
+          />
+          {errors.name && (
+            <p className="mt-1 text-sm text-red-600">{errors.name.message}</p>
+          )}
+        </div>
+        <div>
+          <label htmlFor="password" className="sr-only">
+            Password
+          </label>
+          <input
+            {...register('password', {
+              required: 'Password is required',
+              minLength: {
+                value: 6,
+                message: 'Password must be at least 6 characters',
+              },
+            })}
+            id="password"
+            type="password"
+            autoComplete="new-password"
+            className={`input rounded-md ${errors.password ? 'border-red-500' : ''}`}
+            placeholder="Password"
+          />
+          {errors.password && (
+            <p className="mt-1 text-sm text-red-600">{errors.password.message}</p>
+          )}
+        </div>
+        <div>
+          <label htmlFor="confirmPassword" className="sr-only">
+            Confirm password
+          </label>
+          <input
+            {...register('confirmPassword', {
+              validate: (value) => value === watch('password') || 'Passwords do not match',
+            })}
+            id="confirmPassword"
+            type="password"
+            autoComplete="new-password"
+            className={`input rounded-md ${errors.confirmPassword ? 'border-red-500' : ''}`}
+            placeholder="Confirm password"
+          />
+          {errors.confirmPassword && (
+            <p className="mt-1 text-sm text-red-600">{errors.confirmPassword.message}</p>
+          )}
+        </div>
+      </div>
+
+      <div>
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isLoading ? (
+            <Loader2 className="h-5 w-5 animate-spin" />
+          ) : (
+            'Create account'
+          )}
+        </button>
+      </div>
+    </form>
+  )
+}
+
+export default function AcceptInvitePage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            Accept your invitation
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            Welcome to L2 CRM
+          </p>
+        </div>
+        <Suspense>
+          <AcceptInviteForm />
+        </Suspense>
+      </div>
+    </div>
+  )
+}
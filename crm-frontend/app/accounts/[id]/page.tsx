@@ -0,0 +1,237 @@
+'use client'
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import Layout from '@/components/layout/Layout';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import {
+  ArrowLeft,
+  Globe,
+  Phone,
+  Mail,
+  Users,
+  Target,
+  MessageSquare
+} from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import api from '@/lib/api';
+import { formatCurrency, formatDate, formatDateTime } from '@/lib/utils';
+
+interface AccountDetail {
+  id: number;
+  name: string;
+  website?: string;
+  industry?: string;
+  phone?: string;
+  notes?: string;
+  contacts: {
+    id: number;
+    name: string;
+    email?: string;
+    phone?: string;
+  }[];
+  leads: {
+    id: number;
+    title: string;
+    stage: string;
+    value?: number;
+    expected_close_date?: string | null;
+    customer?: { id: number; name: string } | null;
+    assignedUser?: { id: number; name: string } | null;
+  }[];
+  interactions: {
+    id: number;
+    type: 'call' | 'email' | 'meeting' | 'note';
+    notes?: string;
+    date: string;
+    customer?: { id: number; name: string } | null;
+    createdByUser?: { id: number; name: string } | null;
+  }[];
+}
+
+export default function AccountDetailPage() {
+  const params = useParams();
+  const [account, setAccount] = useState<AccountDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchAccount();
+  }, [params.id]);
+
+  const fetchAccount = async () => {
+    try {
+      const response = await api.get(`/accounts/${params.id}`);
+      setAccount(response.data.data.account);
+    } catch (error) {
+      toast.error('Failed to fetch account');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 mx-auto"></div>
+            <p className="mt-2 text-gray-600">Loading account...</p>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (!account) {
+    return (
+      <Layout>
+        <Card>
+          <CardContent className="p-8 text-center">
+            <p className="text-gray-500">Account not found</p>
+          </CardContent>
+        </Card>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <Link href="/accounts" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-2">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Accounts
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-900">{account.name}</h1>
+          <div className="flex flex-wrap gap-4 mt-1 text-sm text-gray-600">
+            {account.industry && <span>{account.industry}</span>}
+            {account.website && (
+              <span className="flex items-center">
+                <Globe className="h-4 w-4 mr-1" />
+                {account.website}
+              </span>
+            )}
+            {account.phone && (
+              <span className="flex items-center">
+                <Phone className="h-4 w-4 mr-1" />
+                {account.phone}
+              </span>
+            )}
+          </div>
+          {account.notes && <p className="mt-2 text-gray-600">{account.notes}</p>}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Contacts */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Users className="h-5 w-5 mr-2" />
+                Contacts ({account.contacts.length})
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {account.contacts.length === 0 ? (
+                <p className="text-sm text-gray-500">No contacts at this account</p>
+              ) : (
+                <div className="divide-y divide-gray-200">
+                  {account.contacts.map((contact) => (
+                    <div key={contact.id} className="py-3">
+                      <p className="font-medium text-gray-900">{contact.name}</p>
+                      <div className="flex flex-wrap gap-4 text-sm text-gray-600">
+                        {contact.email && (
+                          <span className="flex items-center">
+                            <Mail className="h-4 w-4 mr-1" />
+                            {contact.email}
+                          </span>
+                        )}
+                        {contact.phone && (
+                          <span className="flex items-center">
+                            <Phone className="h-4 w-4 mr-1" />
+                            {contact.phone}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Leads */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Target className="h-5 w-5 mr-2" />
+                Leads ({account.leads.length})
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {account.leads.length === 0 ? (
+                <p className="text-sm text-gray-500">No leads for this account</p>
+              ) : (
+                <div className="divide-y divide-gray-200">
+                  {account.leads.map((lead) => (
+                    <div key={lead.id} className="py-3 flex justify-between items-start">
+                      <div>
+                        <p className="font-medium text-gray-900">{lead.title}</p>
+                        <p className="text-sm text-gray-600">
+                          <span className="capitalize">{lead.stage}</span>
+                          {lead.customer && ` · ${lead.customer.name}`}
+                          {lead.expected_close_date && ` · Expected close ${formatDate(lead.expected_close_date)}`}
+                        </p>
+                      </div>
+                      {lead.value && (
+                        <span className="text-sm font-medium text-green-600">
+                          {formatCurrency(lead.value)}
+                        </span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Interactions */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <MessageSquare className="h-5 w-5 mr-2" />
+              Interactions ({account.interactions.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {account.interactions.length === 0 ? (
+              <p className="text-sm text-gray-500">No interactions with this account</p>
+            ) : (
+              <div className="divide-y divide-gray-200">
+                {account.interactions.map((interaction) => (
+                  <div key={interaction.id} className="py-3">
+                    <div className="flex justify-between text-sm">
+                      <span className="font-medium text-gray-900 capitalize">
+                        {interaction.type}
+                        {interaction.customer && ` with ${interaction.customer.name}`}
+                      </span>
+                      <span className="text-gray-500">{formatDateTime(interaction.date)}</span>
+                    </div>
+                    {interaction.notes && (
+                      <p className="text-sm text-gray-600 mt-1">{interaction.notes}</p>
+                    )}
+                    {interaction.createdByUser && (
+                      <p className="text-xs text-gray-500 mt-1">By {interaction.createdByUser.name}</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,286 @@
+'use client'
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useData, Account } from '@/contexts/DataContext';
+import { useAuth } from '@/contexts/AuthContext';
+import Layout from '@/components/layout/Layout';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Input from '@/components/ui/Input';
+import {
+  Plus,
+  Search,
+  Edit,
+  Trash2,
+  Globe,
+  Phone,
+  Users
+} from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import api from '@/lib/api';
+import { formatDate } from '@/lib/utils';
+
+export default function AccountsPage() {
+  const { accounts, fetchAccounts } = useData();
+  const { hasPermission } = useAuth();
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [editingAccount, setEditingAccount] = useState<Account | null>(null);
+  const [formData, setFormData] = useState({
+    name: '',
+    website: '',
+    industry: '',
+    phone: '',
+    notes: ''
+  });
+
+  useEffect(() => {
+    fetchAccounts().finally(() => setLoading(false));
+  }, []);
+
+  const handleCreate = async () => {
+    try {
+      await api.post('/accounts', formData);
+      await fetchAccounts();
+      setShowCreateModal(false);
+      resetForm();
+      toast.success('Account created successfully');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to create account');
+    }
+  };
+
+  const handleUpdate = async () => {
+    if (!editingAccount) return;
+
+    try {
+      await api.put(`/accounts/${editingAccount.id}`, formData);
+      await fetchAccounts();
+      setEditingAccount(null);
+      resetForm();
+      toast.success('Account updated successfully');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to update account');
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    if (!confirm('Are you sure you want to delete this account? Its contacts will be kept.')) return;
+
+    try {
+      await api.delete(`/accounts/${id}`);
+      await fetchAccounts();
+      toast.success('Account deleted successfully');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to delete account');
+    }
+  };
+
+  const resetForm = () => {
+    setFormData({
+      name: '',
+      website: '',
+      industry: '',
+      phone: '',
+      notes: ''
+    });
+  };
+
+  const filteredAccounts = accounts.filter(account =>
+    !searchTerm ||
+    account.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    account.industry?.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 mx-auto"></div>
+            <p className="mt-2 text-gray-600">Loading accounts...</p>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Accounts</h1>
+            <p className="text-gray-600">Organisations you do business with</p>
+          </div>
+          <Button onClick={() => setShowCreateModal(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Account
+          </Button>
+        </div>
+
+        {/* Search */}
+        <Card>
+          <CardContent className="p-4">
+            <div className="relative">
+              <input
+                type="text"
+                placeholder="Search accounts..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="w-full px-3 py-2 pl-10 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              />
+              <Search className="h-4 w-4 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Accounts Grid */}
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {filteredAccounts.map((account) => (
+            <Card key={account.id} className="hover:shadow-md transition-shadow">
+              <CardHeader>
+                <div className="flex justify-between items-start">
+                  <div>
+                    <CardTitle className="text-lg">
+                      <Link href={`/accounts/${account.id}`} className="hover:text-primary-600">
+                        {account.name}
+                      </Link>
+                    </CardTitle>
+                    {account.industry && (
+                      <p className="text-sm text-gray-600 mt-1">{account.industry}</p>
+                    )}
+                  </div>
+                  <div className="flex space-x-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        setEditingAccount(account);
+                        setFormData({
+                          name: account.name,
+                          website: account.website || '',
+                          industry: account.industry || '',
+                          phone: account.phone || '',
+                          notes: account.notes || ''
+                        });
+                      }}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    {hasPermission('accounts:delete') && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(account.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-2">
+                  {account.website && (
+                    <div className="flex items-center text-sm text-gray-600">
+                      <Globe className="h-4 w-4 mr-2" />
+                      {account.website}
+                    </div>
+                  )}
+                  {account.phone && (
+                    <div className="flex items-center text-sm text-gray-600">
+                      <Phone className="h-4 w-4 mr-2" />
+                      {account.phone}
+                    </div>
+                  )}
+                  <div className="flex items-center text-sm text-gray-600">
+                    <Users className="h-4 w-4 mr-2" />
+                    {account.contacts?.length || 0} contacts
+                  </div>
+                  <div className="text-xs text-gray-500 mt-2">
+                    Created {formatDate(account.createdAt)}
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {filteredAccounts.length === 0 && (
+          <Card>
+            <CardContent className="p-8 text-center">
+              <p className="text-gray-500">No accounts found</p>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      {/* Create/Edit Modal */}
+      {(showCreateModal || editingAccount) && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-md">
+            <h2 className="text-xl font-bold mb-4">
+              {editingAccount ? 'Edit Account' : 'Add Account'}
+            </h2>
+            <div className="space-y-4">
+              <Input
+                label="Name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                required
+              />
+              <Input
+                label="Website"
+                value={formData.website}
+                onChange={(e) => setFormData({ ...formData, website: e.target.value })}
+              />
+              <Input
+                label="Industry"
+                value={formData.industry}
+                onChange={(e) => setFormData({ ...formData, industry: e.target.value })}
+              />
+              <Input
+                label="Phone"
+                value={formData.phone}
+                onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+              />
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Notes
+                </label>
+                <textarea
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                  rows={3}
+                  value={formData.notes}
+                  onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="flex justify-end space-x-2 mt-6">
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setShowCreateModal(false);
+                  setEditingAccount(null);
+                  resetForm();
+                }}
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={editingAccount ? handleUpdate : handleCreate}
+                disabled={!formData.name}
+              >
+                {editingAccount ? 'Update' : 'Create'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </Layout>
+  );
+}
@@ -0,0 +1,294 @@
+'use client'
+
+import { useState, useEffect } from 'react';
+import Layout from '@/components/layout/Layout';
+import PermissionGuard from '@/components/auth/PermissionGuard';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Input from '@/components/ui/Input';
+import { toast } from 'react-hot-toast';
+import api from '@/lib/api';
+import { formatDateTime } from '@/lib/utils';
+
+type AuditAction = 'create' | 'update' | 'delete';
+
+interface AuditEntry {
+  id: number;
+  actor_id?: number | null;
+  actor?: { id: number; name: string; email: string } | null;
+  impersonator?: { id: number; name: string; email: string } | null;
+  entity_type: string;
+  entity_id: number;
+  action: AuditAction;
+  changes: Record<string, { before: unknown; after: unknown }>;
+  ip_address?: string | null;
+  request_id?: string | null;
+  createdAt: string;
+}
+
+interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  pages: number;
+}
+
+const entityTypes = ['user', 'customer', 'lead', 'task', 'interaction'];
+
+const actionColors: Record<AuditAction, string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  delete: 'bg-red-100 text-red-800'
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') {
+    return '—';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+export default function AuditPage() {
+  const { hasPermission } = useAuth();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [users, setUsers] = useState<{ id: number; name: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [page, setPage] = useState(1);
+  const [filters, setFilters] = useState({
+    entityType: '',
+    actorId: '',
+    startDate: '',
+    endDate: ''
+  });
+
+  useEffect(() => {
+    fetchEntries();
+  }, [filters, page]);
+
+  useEffect(() => {
+    if (hasPermission('users:manage')) {
+      fetchUsers();
+    }
+  }, []);
+
+  const fetchEntries = async () => {
+    try {
+      const params: Record<string, string | number> = { page };
+      if (filters.entityType) params.entityType = filters.entityType;
+      if (filters.actorId) params.actorId = filters.actorId;
+      if (filters.startDate) params.startDate = new Date(filters.startDate).toISOString();
+      if (filters.endDate) params.endDate = new Date(`${filters.endDate}T23:59:59`).toISOString();
+
+      const response = await api.get('/audit', { params });
+      setEntries(response.data.data.entries);
+      setPagination(response.data.data.pagination);
+    } catch (error) {
+      toast.error('Failed to fetch audit log');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchUsers = async () => {
+    try {
+      const response = await api.get('/users', { params: { limit: 100 } });
+      setUsers(response.data.data.users);
+    } catch (error) {
+      console.error('Failed to fetch users:', error);
+    }
+  };
+
+  const updateFilter = (key: keyof typeof filters, value: string) => {
+    setFilters({ ...filters, [key]: value });
+    setPage(1);
+  };
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 mx-auto"></div>
+            <p className="mt-2 text-gray-600">Loading audit log...</p>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <PermissionGuard permissions={['audit:view']}>
+        <div className="space-y-6">
+          {/* Header */}
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Audit Log</h1>
+            <p className="text-gray-600">Who changed what, and when</p>
+          </div>
+
+          {/* Filters */}
+          <Card>
+            <CardContent className="p-4">
+              <div className="grid grid-cols-1 gap-4 md:grid-cols-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Entity
+                  </label>
+                  <select
+                    value={filters.entityType}
+                    onChange={(e) => updateFilter('entityType', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  >
+                    <option value="">All entities</option>
+                    {entityTypes.map((entityType) => (
+                      <option key={entityType} value={entityType}>
+                        {entityType}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Changed by
+                  </label>
+                  <select
+                    value={filters.actorId}
+                    onChange={(e) => updateFilter('actorId', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  >
+                    <option value="">Anyone</option>
+                    {users.map((user) => (
+                      <option key={user.id} value={user.id}>
+                        {user.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <Input
+                  label="From"
+                  type="date"
+                  value={filters.startDate}
+                  onChange={(e) => updateFilter('startDate', e.target.value)}
+                />
+                <Input
+                  label="To"
+                  type="date"
+                  value={filters.endDate}
+                  onChange={(e) => updateFilter('endDate', e.target.value)}
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Entries */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Changes</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {entries.length === 0 ? (
+                <p className="text-sm text-gray-500">No changes match these filters</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          When
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Who
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Action
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Record
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Changes
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {entries.map((entry) => (
+                        <tr key={entry.id} className="align-top hover:bg-gray-50">
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                            {formatDateTime(entry.createdAt)}
+                            {entry.ip_address && (
+                              <div className="text-xs text-gray-500">{entry.ip_address}</div>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {entry.actor?.name || <span className="text-gray-500">System</span>}
+                            {entry.impersonator && (
+                              <div className="text-xs text-gray-500">Impersonated by {entry.impersonator.name}</div>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${actionColors[entry.action]}`}>
+                              {entry.action}
+                            </span>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                            {entry.entity_type} #{entry.entity_id}
+                          </td>
+                          <td className="px-6 py-4 text-sm text-gray-700">
+                            <button
+                              className="text-primary-600 hover:underline"
+                              onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                            >
+                              {Object.keys(entry.changes).length} field(s)
+                            </button>
+                            {expandedId === entry.id && (
+                              <dl className="mt-2 space-y-1">
+                                {Object.entries(entry.changes).map(([attribute, change]) => (
+                                  <div key={attribute} className="text-xs">
+                                    <dt className="inline font-medium text-gray-900">{attribute}: </dt>
+                                    <dd className="inline text-gray-600">
+                                      {entry.action !== 'create' && (
+                                        <span className="line-through">{formatValue(change.before)}</span>
+                                      )}
+                                      {entry.action === 'update' && ' → '}
+                                      {entry.action !== 'delete' && formatValue(change.after)}
+                                    </dd>
+                                  </div>
+                                ))}
+                                {entry.request_id && (
+                                  <div className="text-xs text-gray-400">Request {entry.request_id}</div>
+                                )}
+                              </dl>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {pagination && pagination.pages > 1 && (
+                <div className="flex justify-between items-center mt-4">
+                  <p className="text-sm text-gray-600">
+                    Page {pagination.page} of {pagination.pages}
+                  </p>
+                  <div className="flex space-x-2">
+                    <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                      Previous
+                    </Button>
+                    <Button variant="outline" size="sm" disabled={page >= pagination.pages} onClick={() => setPage(page + 1)}>
+                      Next
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </PermissionGuard>
+    </Layout>
+  );
+}
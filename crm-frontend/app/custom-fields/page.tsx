@@ -0,0 +1,375 @@
+'use client'
+
+import { useState, useEffect } from 'react';
+import {
+  useData,
+  CustomFieldDefinition,
+  CustomFieldEntity,
+  CustomFieldType
+} from '@/contexts/DataContext';
+import Layout from '@/components/layout/Layout';
+import PermissionGuard from '@/components/auth/PermissionGuard';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Input from '@/components/ui/Input';
+import { Plus, Edit, Trash2 } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import api from '@/lib/api';
+
+const entities: { value: CustomFieldEntity; label: string }[] = [
+  { value: 'customer', label: 'Contacts' },
+  { value: 'lead', label: 'Leads' },
+  { value: 'task', label: 'Tasks' }
+];
+
+const fieldTypes: { value: CustomFieldType; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'date', label: 'Date' },
+  { value: 'select', label: 'Select' },
+  { value: 'multi-select', label: 'Multi-select' },
+  { value: 'boolean', label: 'Yes / No' }
+];
+
+const hasOptions = (type: CustomFieldType) => type === 'select' || type === 'multi-select';
+
+export default function CustomFieldsPage() {
+  const { fetchCustomFieldDefinitions } = useData();
+  const [fields, setFields] = useState<CustomFieldDefinition[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [editingField, setEditingField] = useState<CustomFieldDefinition | null>(null);
+  const [formData, setFormData] = useState({
+    entity: 'customer' as CustomFieldEntity,
+    key: '',
+    label: '',
+    type: 'text' as CustomFieldType,
+    options: '',
+    required: false,
+    is_active: true
+  });
+
+  useEffect(() => {
+    fetchFields();
+  }, []);
+
+  const fetchFields = async () => {
+    try {
+      const response = await api.get('/custom-fields', { params: { includeInactive: true } });
+      setFields(response.data.data.customFields);
+    } catch (error) {
+      toast.error('Failed to fetch custom fields');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Keep the fields used by the record modals in sync
+  const refresh = async () => {
+    await fetchFields();
+    await fetchCustomFieldDefinitions();
+  };
+
+  const parseOptions = () => formData.options
+    .split(',')
+    .map(option => option.trim())
+    .filter(Boolean);
+
+  const handleCreate = async () => {
+    try {
+      await api.post('/custom-fields', {
+        entity: formData.entity,
+        key: formData.key,
+        label: formData.label,
+        type: formData.type,
+        options: hasOptions(formData.type) ? parseOptions() : undefined,
+        required: formData.required,
+        is_active: formData.is_active
+      });
+      await refresh();
+      setShowCreateModal(false);
+      resetForm();
+      toast.success('Custom field created successfully');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to create custom field');
+    }
+  };
+
+  const handleUpdate = async () => {
+    if (!editingField) return;
+
+    try {
+      await api.put(`/custom-fields/${editingField.id}`, {
+        label: formData.label,
+        options: hasOptions(editingField.type) ? parseOptions() : undefined,
+        required: formData.required,
+        is_active: formData.is_active
+      });
+      await refresh();
+      setEditingField(null);
+      resetForm();
+      toast.success('Custom field updated successfully');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to update custom field');
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    if (!confirm('Are you sure you want to delete this custom field? Stored values will no longer be shown.')) return;
+
+    try {
+      await api.delete(`/custom-fields/${id}`);
+      await refresh();
+      toast.success('Custom field deleted successfully');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to delete custom field');
+    }
+  };
+
+  const resetForm = () => {
+    setFormData({
+      entity: 'customer',
+      key: '',
+      label: '',
+      type: 'text',
+      options: '',
+      required: false,
+      is_active: true
+    });
+  };
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 mx-auto"></div>
+            <p className="mt-2 text-gray-600">Loading custom fields...</p>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <PermissionGuard permissions={['settings:manage']}>
+        <div className="space-y-6">
+          {/* Header */}
+          <div className="flex justify-between items-center">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Custom Fields</h1>
+              <p className="text-gray-600">Extra attributes for contacts, leads and tasks</p>
+            </div>
+            <Button onClick={() => setShowCreateModal(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Field
+            </Button>
+          </div>
+
+          {entities.map((entity) => {
+            const entityFields = fields.filter(field => field.entity === entity.value);
+            return (
+              <Card key={entity.value}>
+                <CardHeader>
+                  <CardTitle>{entity.label}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {entityFields.length === 0 ? (
+                    <p className="text-sm text-gray-500">No custom fields</p>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              Field
+                            </th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              Type
+                            </th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              Options
+                            </th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              Status
+                            </th>
+                            <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              Actions
+                            </th>
+                          </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                          {entityFields.map((field) => (
+                            <tr key={field.id} className="hover:bg-gray-50">
+                              <td className="px-6 py-4 whitespace-nowrap">
+                                <div className="text-sm font-medium text-gray-900">
+                                  {field.label}
+                                  {field.required && <span className="ml-1 text-red-600">*</span>}
+                                </div>
+                                <div className="text-sm text-gray-500">{field.key}</div>
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                                {fieldTypes.find(type => type.value === field.type)?.label}
+                              </td>
+                              <td className="px-6 py-4 text-sm text-gray-500">
+                                {field.options.join(', ') || '—'}
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap">
+                                <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                                  field.is_active
+                                    ? 'bg-green-100 text-green-800'
+                                    : 'bg-gray-100 text-gray-800'
+                                }`}>
+                                  {field.is_active ? 'Active' : 'Inactive'}
+                                </span>
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                                <div className="flex justify-end space-x-2">
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => {
+                                      setEditingField(field);
+                                      setFormData({
+                                        entity: field.entity,
+                                        key: field.key,
+                                        label: field.label,
+                                        type: field.type,
+                                        options: field.options.join(', '),
+                                        required: field.required,
+                                        is_active: field.is_active
+                                      });
+                                    }}
+                                  >
+                                    <Edit className="h-4 w-4" />
+                                  </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => handleDelete(field.id)}
+                                  >
+                                    <Trash2 className="h-4 w-4" />
+                                  </Button>
+                                </div>
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+
+        {/* Create/Edit Modal */}
+        {(showCreateModal || editingField) && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-lg p-6 w-full max-w-md">
+              <h2 className="text-xl font-bold mb-4">
+                {editingField ? 'Edit Custom Field' : 'Add Custom Field'}
+              </h2>
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Applies To
+                  </label>
+                  <select
+                    value={formData.entity}
+                    onChange={(e) => setFormData({ ...formData, entity: e.target.value as CustomFieldEntity })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                    disabled={!!editingField}
+                  >
+                    {entities.map((entity) => (
+                      <option key={entity.value} value={entity.value}>
+                        {entity.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <Input
+                  label="Label"
+                  value={formData.label}
+                  onChange={(e) => setFormData({ ...formData, label: e.target.value })}
+                  required
+                />
+                <Input
+                  label="Key"
+                  value={formData.key}
+                  onChange={(e) => setFormData({ ...formData, key: e.target.value })}
+                  helperText="Lowercase letters, numbers and underscores, e.g. contract_end"
+                  disabled={!!editingField}
+                  required
+                />
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Type
+                  </label>
+                  <select
+                    value={formData.type}
+                    onChange={(e) => setFormData({ ...formData, type: e.target.value as CustomFieldType })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                    disabled={!!editingField}
+                  >
+                    {fieldTypes.map((type) => (
+                      <option key={type.value} value={type.value}>
+                        {type.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                {hasOptions(formData.type) && (
+                  <Input
+                    label="Options"
+                    value={formData.options}
+                    onChange={(e) => setFormData({ ...formData, options: e.target.value })}
+                    helperText="Comma-separated, e.g. Americas, EMEA, APAC"
+                  />
+                )}
+                <label className="flex items-center text-sm">
+                  <input
+                    type="checkbox"
+                    className="mr-2"
+                    checked={formData.required}
+                    onChange={(e) => setFormData({ ...formData, required: e.target.checked })}
+                  />
+                  Required
+                </label>
+                <label className="flex items-center text-sm">
+                  <input
+                    type="checkbox"
+                    className="mr-2"
+                    checked={formData.is_active}
+                    onChange={(e) => setFormData({ ...formData, is_active: e.target.checked })}
+                  />
+                  Active
+                </label>
+              </div>
+              <div className="flex justify-end space-x-2 mt-6">
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    setShowCreateModal(false);
+                    setEditingField(null);
+                    resetForm();
+                  }}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  onClick={editingField ? handleUpdate : handleCreate}
+                  disabled={!formData.label || !formData.key}
+                >
+                  {editingField ? 'Update' : 'Create'}
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </PermissionGuard>
+    </Layout>
+  );
+}
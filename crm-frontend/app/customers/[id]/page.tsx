@@ -0,0 +1,499 @@
+'use client'
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import Layout from '@/components/layout/Layout';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Input from '@/components/ui/Input';
+import {
+  ArrowLeft,
+  ArrowRight,
+  Building2,
+  Calendar,
+  CheckCircle,
+  Clock,
+  Mail,
+  MessageSquare,
+  Pencil,
+  Phone,
+  StickyNote,
+  Target,
+  User
+} from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import api from '@/lib/api';
+import { formatCurrency, formatDate, formatDateTime, formatUserName } from '@/lib/utils';
+
+interface CustomerDetail {
+  id: number;
+  name: string;
+  email?: string;
+  phone?: string;
+  company?: string;
+  tags: string[];
+  notes?: string;
+  account?: { id: number; name: string } | null;
+  owner?: { id: number; name: string } | null;
+  leads: {
+    id: number;
+    title: string;
+    stage: string;
+    value?: number;
+  }[];
+  tasks: {
+    id: number;
+    title: string;
+    status: 'pending' | 'in-progress' | 'completed';
+    priority: 'low' | 'medium' | 'high';
+    dueDate?: string | null;
+  }[];
+}
+
+type TimelineUser = { id: number; name: string; is_active?: boolean } | null;
+
+type TimelineEvent =
+  | {
+      id: string;
+      type: 'interaction';
+      date: string;
+      user: TimelineUser;
+      interaction: { id: number; type: 'call' | 'email' | 'meeting' | 'note'; notes?: string | null };
+    }
+  | {
+      id: string;
+      type: 'stage_change';
+      date: string;
+      user: TimelineUser;
+      lead: { id: number; title?: string };
+      fromStage: string | null;
+      toStage: string;
+    }
+  | {
+      id: string;
+      type: 'task_completed';
+      date: string;
+      user: TimelineUser;
+      task: { id: number; title?: string };
+    }
+  | {
+      id: string;
+      type: 'field_edit';
+      date: string;
+      user: TimelineUser;
+      changes: Record<string, { before: unknown; after: unknown }>;
+    };
+
+type Composer = 'call' | 'note' | 'task';
+
+const interactionIcons = {
+  call: Phone,
+  email: Mail,
+  meeting: Calendar,
+  note: StickyNote
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') {
+    return 'empty';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+export default function CustomerDetailPage() {
+  const params = useParams();
+  const { hasPermission } = useAuth();
+  const [customer, setCustomer] = useState<CustomerDetail | null>(null);
+  const [timeline, setTimeline] = useState<TimelineEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [composer, setComposer] = useState<Composer>('call');
+  const [saving, setSaving] = useState(false);
+  const [notes, setNotes] = useState('');
+  const [taskData, setTaskData] = useState({
+    title: '',
+    dueDate: '',
+    priority: 'medium'
+  });
+
+  const canLogInteractions = hasPermission('interactions:edit');
+  const canAddTasks = hasPermission('tasks:edit');
+
+  useEffect(() => {
+    fetchCustomer();
+  }, [params.id]);
+
+  useEffect(() => {
+    if (!canLogInteractions && canAddTasks) {
+      setComposer('task');
+    }
+  }, [canLogInteractions, canAddTasks]);
+
+  const fetchCustomer = async () => {
+    try {
+      const [customerResponse, timelineResponse] = await Promise.all([
+        api.get(`/customers/${params.id}`),
+        api.get(`/customers/${params.id}/timeline`)
+      ]);
+      setCustomer(customerResponse.data.data.customer);
+      setTimeline(timelineResponse.data.data.timeline);
+    } catch (error) {
+      toast.error('Failed to fetch contact');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleLogInteraction = async () => {
+    if (!customer) return;
+
+    setSaving(true);
+    try {
+      await api.post('/interactions', {
+        customerId: customer.id,
+        type: composer,
+        notes
+      });
+      setNotes('');
+      await fetchCustomer();
+      toast.success(composer === 'call' ? 'Call logged' : 'Note added');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to save interaction');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddTask = async () => {
+    if (!customer) return;
+
+    setSaving(true);
+    try {
+      await api.post('/tasks', {
+        title: taskData.title,
+        priority: taskData.priority,
+        dueDate: taskData.dueDate || null,
+        customerId: customer.id
+      });
+      setTaskData({ title: '', dueDate: '', priority: 'medium' });
+      await fetchCustomer();
+      toast.success('Task added');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to add task');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderEvent = (event: TimelineEvent) => {
+    switch (event.type) {
+      case 'interaction': {
+        const Icon = interactionIcons[event.interaction.type] || MessageSquare;
+        return {
+          icon: <Icon className="h-4 w-4 text-blue-600" />,
+          title: <span className="capitalize">{event.interaction.type}</span>,
+          body: event.interaction.notes && <p className="text-sm text-gray-600 mt-1">{event.interaction.notes}</p>
+        };
+      }
+      case 'stage_change':
+        return {
+          icon: <Target className="h-4 w-4 text-purple-600" />,
+          title: (
+            <>
+              {event.lead.title || 'Lead'}{' '}
+              {event.fromStage ? (
+                <span className="text-gray-600">
+                  moved from <span className="capitalize">{event.fromStage}</span>
+                  <ArrowRight className="inline h-3 w-3 mx-1" />
+                  <span className="capitalize">{event.toStage}</span>
+                </span>
+              ) : (
+                <span className="text-gray-600">
+                  created in <span className="capitalize">{event.toStage}</span>
+                </span>
+              )}
+            </>
+          ),
+          body: null
+        };
+      case 'task_completed':
+        return {
+          icon: <CheckCircle className="h-4 w-4 text-green-600" />,
+          title: <>Completed task {event.task.title || `#${event.task.id}`}</>,
+          body: null
+        };
+      case 'field_edit':
+        return {
+          icon: <Pencil className="h-4 w-4 text-gray-600" />,
+          title: <>Updated {Object.keys(event.changes).join(', ')}</>,
+          body: (
+            <ul className="mt-1 space-y-0.5">
+              {Object.entries(event.changes).map(([attribute, change]) => (
+                <li key={attribute} className="text-xs text-gray-600">
+                  <span className="font-medium">{attribute}:</span>{' '}
+                  <span className="line-through">{formatValue(change.before)}</span> → {formatValue(change.after)}
+                </li>
+              ))}
+            </ul>
+          )
+        };
+    }
+  };
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 mx-auto"></div>
+            <p className="mt-2 text-gray-600">Loading contact...</p>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (!customer) {
+    return (
+      <Layout>
+        <Card>
+          <CardContent className="p-8 text-center">
+            <p className="text-gray-500">Contact not found</p>
+          </CardContent>
+        </Card>
+      </Layout>
+    );
+  }
+
+  const openTasks = customer.tasks.filter(task => task.status !== 'completed');
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <Link href="/customers" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-2">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Contacts
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-900">{customer.name}</h1>
+          <div className="flex flex-wrap gap-4 mt-1 text-sm text-gray-600">
+            {customer.account ? (
+              <Link href={`/accounts/${customer.account.id}`} className="flex items-center text-primary-600 hover:text-primary-700">
+                <Building2 className="h-4 w-4 mr-1" />
+                {customer.account.name}
+              </Link>
+            ) : customer.company && (
+              <span className="flex items-center">
+                <Building2 className="h-4 w-4 mr-1" />
+                {customer.company}
+              </span>
+            )}
+            {customer.email && (
+              <span className="flex items-center">
+                <Mail className="h-4 w-4 mr-1" />
+                {customer.email}
+              </span>
+            )}
+            {customer.phone && (
+              <span className="flex items-center">
+                <Phone className="h-4 w-4 mr-1" />
+                {customer.phone}
+              </span>
+            )}
+            {customer.owner && (
+              <span className="flex items-center">
+                <User className="h-4 w-4 mr-1" />
+                Owner: {customer.owner.name}
+              </span>
+            )}
+          </div>
+          {customer.tags.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-2">
+              {customer.tags.map((tag) => (
+                <span key={tag} className="inline-flex px-2 py-1 text-xs font-medium rounded-full bg-blue-100 text-blue-800">
+                  {tag}
+                </span>
+              ))}
+            </div>
+          )}
+          {customer.notes && <p className="mt-2 text-gray-600">{customer.notes}</p>}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-6">
+            {/* Composers */}
+            {(canLogInteractions || canAddTasks) && (
+              <Card>
+                <CardContent className="p-4 space-y-3">
+                  <div className="flex space-x-2">
+                    {canLogInteractions && (
+                      <>
+                        <Button variant={composer === 'call' ? 'primary' : 'outline'} size="sm" onClick={() => setComposer('call')}>
+                          <Phone className="h-4 w-4 mr-1" />
+                          Log call
+                        </Button>
+                        <Button variant={composer === 'note' ? 'primary' : 'outline'} size="sm" onClick={() => setComposer('note')}>
+                          <StickyNote className="h-4 w-4 mr-1" />
+                          Add note
+                        </Button>
+                      </>
+                    )}
+                    {canAddTasks && (
+                      <Button variant={composer === 'task' ? 'primary' : 'outline'} size="sm" onClick={() => setComposer('task')}>
+                        <CheckCircle className="h-4 w-4 mr-1" />
+                        Add task
+                      </Button>
+                    )}
+                  </div>
+
+                  {composer === 'task' ? (
+                    <div className="space-y-3">
+                      <Input
+                        placeholder="What needs to be done?"
+                        value={taskData.title}
+                        onChange={(e) => setTaskData({ ...taskData, title: e.target.value })}
+                      />
+                      <div className="flex space-x-2">
+                        <input
+                          type="date"
+                          value={taskData.dueDate}
+                          onChange={(e) => setTaskData({ ...taskData, dueDate: e.target.value })}
+                          className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                        />
+                        <select
+                          value={taskData.priority}
+                          onChange={(e) => setTaskData({ ...taskData, priority: e.target.value })}
+                          className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                        >
+                          <option value="low">Low</option>
+                          <option value="medium">Medium</option>
+                          <option value="high">High</option>
+                        </select>
+                        <Button onClick={handleAddTask} disabled={saving || taskData.title.trim().length < 2}>
+                          Add task
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="space-y-3">
+                      <textarea
+                        value={notes}
+                        onChange={(e) => setNotes(e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                        rows={3}
+                        placeholder={composer === 'call' ? 'How did the call go?' : 'Write a note...'}
+                      />
+                      <div className="flex justify-end">
+                        <Button onClick={handleLogInteraction} disabled={saving || (composer === 'note' && !notes.trim())}>
+                          {composer === 'call' ? 'Log call' : 'Add note'}
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Timeline */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Clock className="h-5 w-5 mr-2" />
+                  Activity
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {timeline.length === 0 ? (
+                  <p className="text-sm text-gray-500">No activity yet</p>
+                ) : (
+                  <ol className="relative border-l border-gray-200 ml-2">
+                    {timeline.map((event) => {
+                      const { icon, title, body } = renderEvent(event);
+                      return (
+                        <li key={event.id} className="mb-6 ml-6">
+                          <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-gray-100 ring-4 ring-white">
+                            {icon}
+                          </span>
+                          <div className="flex justify-between text-sm">
+                            <span className="font-medium text-gray-900">{title}</span>
+                            <span className="text-gray-500 whitespace-nowrap ml-4">{formatDateTime(event.date)}</span>
+                          </div>
+                          {body}
+                          {event.user && (
+                            <p className="text-xs text-gray-500 mt-1">By {formatUserName(event.user)}</p>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ol>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="space-y-6">
+            {/* Leads */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Target className="h-5 w-5 mr-2" />
+                  Leads ({customer.leads.length})
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {customer.leads.length === 0 ? (
+                  <p className="text-sm text-gray-500">No leads for this contact</p>
+                ) : (
+                  <div className="divide-y divide-gray-200">
+                    {customer.leads.map((lead) => (
+                      <div key={lead.id} className="py-3 flex justify-between items-start">
+                        <div>
+                          <p className="font-medium text-gray-900">{lead.title}</p>
+                          <p className="text-sm text-gray-600 capitalize">{lead.stage}</p>
+                        </div>
+                        {lead.value && (
+                          <span className="text-sm font-medium text-green-600">
+                            {formatCurrency(lead.value)}
+                          </span>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Open tasks */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <CheckCircle className="h-5 w-5 mr-2" />
+                  Open Tasks ({openTasks.length})
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {openTasks.length === 0 ? (
+                  <p className="text-sm text-gray-500">No open tasks</p>
+                ) : (
+                  <div className="divide-y divide-gray-200">
+                    {openTasks.map((task) => (
+                      <div key={task.id} className="py-3">
+                        <p className="font-medium text-gray-900">{task.title}</p>
+                        <p className="text-sm text-gray-600">
+                          <span className="capitalize">{task.priority}</span> priority
+                          {task.dueDate && ` · Due ${formatDate(task.dueDate)}`}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+}
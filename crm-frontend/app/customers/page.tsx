@@ -1,11 +1,14 @@
 'use client'
 
 import { useState, useEffect } from 'react';
-import { useData } from '@/contexts/DataContext';
+import Link from 'next/link';
+import { useData, CustomFieldValues } from '@/contexts/DataContext';
+import { useAuth } from '@/contexts/AuthContext';
 import Layout from '@/components/layout/Layout';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
 import Button from '@/components/ui/Button';
 import Input from '@/components/ui/Input';
+import CustomFieldInputs from '@/components/ui/CustomFieldInputs';
 import { 
   Plus, 
   Search, 
@@ -15,7 +18,8 @@ import {
   Eye,
   Building2,
   Mail,
-  Phone
+  Phone,
+  Download
 } from 'lucide-react';
 import { toast } from 'react-hot-toast';
 import api from '@/lib/api';
@@ -27,14 +31,26 @@ interface Customer {
   email?: string;
   phone?: string;
   company?: string;
+  account_id?: number | null;
+  account?: { id: number; name: string } | null;
+  owner?: { id: number; name: string } | null;
   tags: string[];
   notes?: string;
+  custom_fields?: CustomFieldValues;
   createdAt: string;
   updatedAt: string;
 }
 
 export default function CustomersPage() {
-  const { customers, setCustomers } = useData();
+  const {
+    customers,
+    setCustomers,
+    accounts,
+    fetchAccounts,
+    customFieldDefinitions,
+    fetchCustomFieldDefinitions
+  } = useData();
+  const { hasPermission } = useAuth();
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [showCreateModal, setShowCreateModal] = useState(false);
@@ -50,21 +66,31 @@ export default function CustomersPage() {
     name: '',
     email: '',
     phone: '',
-    company: '',
+    accountId: '' as number | '',
     tags: [] as string[],
-    notes: ''
+    notes: '',
+    customFields: {} as CustomFieldValues
   });
 
   useEffect(() => {
     fetchCustomers();
+    fetchAccounts();
+    fetchCustomFieldDefinitions();
   }, []);
 
+  const customerFields = customFieldDefinitions.filter(field => field.entity === 'customer');
+
+  const toPayload = () => ({
+    ...formData,
+    accountId: formData.accountId || null
+  });
+
   const fetchCustomers = async () => {
     try {
       const response = await api.get('/customers');
       setCustomers(response.data.data.customers);
     } catch (error) {
-      toast.error('Failed to fetch customers');
+      toast.error('Failed to fetch contacts');
     } finally {
       setLoading(false);
     }
@@ -72,13 +98,13 @@ export default function CustomersPage() {
 
   const handleCreate = async () => {
     try {
-      const response = await api.post('/customers', formData);
+      const response = await api.post('/customers', toPayload());
       setCustomers([...customers, response.data.data.customer]);
       setShowCreateModal(false);
       resetForm();
-      toast.success('Customer created successfully');
+      toast.success('Contact created successfully');
     } catch (error: any) {
-      toast.error(error.response?.data?.error || 'Failed to create customer');
+      toast.error(error.response?.data?.error || 'Failed to create contact');
     }
   };
 
@@ -86,27 +112,41 @@ export default function CustomersPage() {
     if (!editingCustomer) return;
     
     try {
-      const response = await api.put(`/customers/${editingCustomer.id}`, formData);
+      const response = await api.put(`/customers/${editingCustomer.id}`, toPayload());
       setCustomers(customers.map(c => 
         c.id === editingCustomer.id ? response.data.data.customer : c
       ));
       setEditingCustomer(null);
       resetForm();
-      toast.success('Customer updated successfully');
+      toast.success('Contact updated successfully');
     } catch (error: any) {
-      toast.error(error.response?.data?.error || 'Failed to update customer');
+      toast.error(error.response?.data?.error || 'Failed to update contact');
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      const response = await api.get('/customers/export', { responseType: 'blob' });
+      const url = URL.createObjectURL(response.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'customers.csv';
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast.error('Failed to export contacts');
     }
   };
 
   const handleDelete = async (id: number) => {
-    if (!confirm('Are you sure you want to delete this customer?')) return;
+    if (!confirm('Are you sure you want to delete this contact?')) return;
     
     try {
       await api.delete(`/customers/${id}`);
       setCustomers(customers.filter(c => c.id !== id));
-      toast.success('Customer deleted successfully');
+      toast.success('Contact deleted successfully');
     } catch (error: any) {
-      toast.error(error.response?.data?.error || 'Failed to delete customer');
+      toast.error(error.response?.data?.error || 'Failed to delete contact');
     }
   };
 
@@ -115,9 +155,10 @@ export default function CustomersPage() {
       name: '',
       email: '',
       phone: '',
-      company: '',
+      accountId: '',
       tags: [],
-      notes: ''
+      notes: '',
+      customFields: {}
     });
   };
 
@@ -164,7 +205,7 @@ export default function CustomersPage() {
         <div className="flex items-center justify-center h-64">
           <div className="text-center">
             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 mx-auto"></div>
-            <p className="mt-2 text-gray-600">Loading customers...</p>
+            <p className="mt-2 text-gray-600">Loading contacts...</p>
           </div>
         </div>
       </Layout>
@@ -177,13 +218,21 @@ export default function CustomersPage() {
         {/* Header */}
         <div className="flex justify-between items-center">
           <div>
-            <h1 className="text-2xl font-bold text-gray-900">Customers</h1>
-            <p className="text-gray-600">Manage your customer relationships</p>
+            <h1 className="text-2xl font-bold text-gray-900">Contacts</h1>
+            <p className="text-gray-600">Manage the people at your accounts</p>
+          </div>
+          <div className="flex space-x-2">
+            {hasPermission('customers:export') && (
+              <Button variant="outline" onClick={handleExport}>
+                <Download className="h-4 w-4 mr-2" />
+                Export CSV
+              </Button>
+            )}
+            <Button onClick={() => setShowCreateModal(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Contact
+            </Button>
           </div>
-          <Button onClick={() => setShowCreateModal(true)}>
-            <Plus className="h-4 w-4 mr-2" />
-            Add Customer
-          </Button>
         </div>
 
         {/* Search and Filters */}
@@ -194,7 +243,7 @@ export default function CustomersPage() {
                 <div className="relative">
                   <input
                     type="text"
-                    placeholder="Search customers..."
+                    placeholder="Search contacts..."
                     value={searchTerm}
                     onChange={(e) => setSearchTerm(e.target.value)}
                     className="w-full px-3 py-2 pl-10 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
@@ -261,7 +310,7 @@ export default function CustomersPage() {
         {/* Results Counter */}
         <div className="flex items-center justify-between">
           <div className="text-sm text-gray-600">
-            Showing {filteredCustomers.length} of {customers.length} customers
+            Showing {filteredCustomers.length} of {customers.length} contacts
             {(filterData.company || filterData.tags.length > 0 || filterData.hasEmail || filterData.hasPhone) && (
               <span className="ml-2 text-blue-600">(filtered)</span>
             )}
@@ -275,8 +324,20 @@ export default function CustomersPage() {
               <CardHeader>
                 <div className="flex justify-between items-start">
                   <div>
-                    <CardTitle className="text-lg">{customer.name}</CardTitle>
-                    {customer.company && (
+                    <CardTitle className="text-lg">
+                      <Link href={`/customers/${customer.id}`} className="hover:text-primary-600">
+                        {customer.name}
+                      </Link>
+                    </CardTitle>
+                    {customer.account ? (
+                      <Link
+                        href={`/accounts/${customer.account.id}`}
+                        className="flex items-center text-sm text-primary-600 hover:text-primary-700 mt-1"
+                      >
+                        <Building2 className="h-4 w-4 mr-1" />
+                        {customer.account.name}
+                      </Link>
+                    ) : customer.company && (
                       <div className="flex items-center text-sm text-gray-600 mt-1">
                         <Building2 className="h-4 w-4 mr-1" />
                         {customer.company}
@@ -293,21 +354,24 @@ export default function CustomersPage() {
                           name: customer.name,
                           email: customer.email || '',
                           phone: customer.phone || '',
-                          company: customer.company || '',
+                          accountId: customer.account_id || '',
                           tags: customer.tags,
-                          notes: customer.notes || ''
+                          notes: customer.notes || '',
+                          customFields: customer.custom_fields || {}
                         });
                       }}
                     >
                       <Edit className="h-4 w-4" />
                     </Button>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => handleDelete(customer.id)}
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
+                    {hasPermission('customers:delete') && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(customer.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
                   </div>
                 </div>
               </CardHeader>
@@ -325,6 +389,11 @@ export default function CustomersPage() {
                       {customer.phone}
                     </div>
                   )}
+                  {customer.owner && (
+                    <div className="text-xs text-gray-500">
+                      Owner: {customer.owner.name}
+                    </div>
+                  )}
                   {customer.tags.length > 0 && (
                     <div className="flex flex-wrap gap-1 mt-2">
                       {customer.tags.map((tag, index) => (
@@ -349,7 +418,7 @@ export default function CustomersPage() {
         {filteredCustomers.length === 0 && (
           <Card>
             <CardContent className="p-8 text-center">
-              <p className="text-gray-500">No customers found</p>
+              <p className="text-gray-500">No contacts found</p>
             </CardContent>
           </Card>
         )}
@@ -358,9 +427,9 @@ export default function CustomersPage() {
       {/* Create/Edit Modal */}
       {(showCreateModal || editingCustomer) && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-          <div className="bg-white rounded-lg p-6 w-full max-w-md">
+          <div className="bg-white rounded-lg p-6 w-full max-w-md max-h-[90vh] overflow-y-auto">
             <h2 className="text-xl font-bold mb-4">
-              {editingCustomer ? 'Edit Customer' : 'Add Customer'}
+              {editingCustomer ? 'Edit Contact' : 'Add Contact'}
             </h2>
             <div className="space-y-4">
               <Input
@@ -380,11 +449,23 @@ export default function CustomersPage() {
                 value={formData.phone}
                 onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
               />
-              <Input
-                label="Company"
-                value={formData.company}
-                onChange={(e) => setFormData({ ...formData, company: e.target.value })}
-              />
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Account
+                </label>
+                <select
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                  value={formData.accountId}
+                  onChange={(e) => setFormData({ ...formData, accountId: e.target.value ? parseInt(e.target.value) : '' })}
+                >
+                  <option value="">No account</option>
+                  {accounts.map((account) => (
+                    <option key={account.id} value={account.id}>
+                      {account.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   Notes
@@ -396,6 +477,11 @@ export default function CustomersPage() {
                   onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
                 />
               </div>
+              <CustomFieldInputs
+                definitions={customerFields}
+                values={formData.customFields}
+                onChange={(customFields) => setFormData({ ...formData, customFields })}
+              />
             </div>
             <div className="flex justify-end space-x-2 mt-6">
               <Button
@@ -423,7 +509,7 @@ export default function CustomersPage() {
       {showFilterModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white rounded-lg p-6 w-full max-w-md">
-            <h2 className="text-xl font-bold mb-4">Filter Customers</h2>
+            <h2 className="text-xl font-bold mb-4">Filter Contacts</h2>
             <div className="space-y-4">
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
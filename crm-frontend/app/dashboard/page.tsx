@@ -14,10 +14,17 @@ import {
 } from 'lucide-react'
 import api from '@/lib/api'
 
+interface Team {
+  id: number
+  name: string
+}
+
 export default function DashboardPage() {
-  const { user, loading: authLoading } = useAuth()
+  const { user, loading: authLoading, hasPermission } = useAuth()
   const [stats, setStats] = useState<any>(null)
   const [loading, setLoading] = useState(true)
+  const [teams, setTeams] = useState<Team[]>([])
+  const [teamId, setTeamId] = useState('')
 
   useEffect(() => {
     if (!authLoading && user) {
@@ -25,11 +32,32 @@ export default function DashboardPage() {
     } else if (!authLoading && !user) {
       setLoading(false)
     }
-  }, [authLoading, user])
+  }, [authLoading, user, teamId])
+
+  // Managers can scope the dashboard to the teams they manage
+  useEffect(() => {
+    if (user && (user.managedTeamIds?.length || hasPermission('records:view_all'))) {
+      fetchTeams()
+    }
+  }, [user])
+
+  const fetchTeams = async () => {
+    try {
+      const response = await api.get('/teams')
+      const allTeams: Team[] = response.data.data.teams
+      setTeams(hasPermission('records:view_all')
+        ? allTeams
+        : allTeams.filter(team => user?.managedTeamIds.includes(team.id)))
+    } catch (error) {
+      console.error('Failed to fetch teams:', error)
+    }
+  }
 
   const fetchDashboardStats = async () => {
     try {
-      const response = await api.get('/reports/dashboard-stats')
+      const response = await api.get('/reports/dashboard-stats', {
+        params: teamId ? { teamId } : undefined
+      })
       console.log('Dashboard stats response:', response.data)
       setStats(response.data.data)
     } catch (error: any) {
@@ -57,7 +85,8 @@ export default function DashboardPage() {
           lead: 5,
           qualified: 3,
           proposal: 2,
-          closed: 1
+          won: 1,
+          lost: 1
         }
       });
     } finally {
@@ -116,9 +145,25 @@ export default function DashboardPage() {
     <Layout>
       <div className="space-y-6">
         {/* Header */}
-        <div>
-          <h1 className="text-2xl font-bold text-gray-900">Dashboard</h1>
-          <p className="text-gray-600">Welcome back, {user?.name}</p>
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Dashboard</h1>
+            <p className="text-gray-600">Welcome back, {user?.name}</p>
+          </div>
+          {teams.length > 0 && (
+            <select
+              value={teamId}
+              onChange={(e) => setTeamId(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="">All records</option>
+              {teams.map((team) => (
+                <option key={team.id} value={team.id}>
+                  Team: {team.name}
+                </option>
+              ))}
+            </select>
+          )}
         </div>
         {/* Stats Cards */}
         <div className="grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-4">
@@ -0,0 +1,100 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useForm } from 'react-hook-form'
+import { toast } from 'react-hot-toast'
+import { Loader2 } from 'lucide-react'
+import api from '@/lib/api'
+
+interface ForgotPasswordForm {
+  email: string
+}
+
+export default function ForgotPasswordPage() {
+  const [isLoading, setIsLoading] = useState(false)
+  const [sent, setSent] = useState(false)
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<ForgotPasswordForm>()
+
+  const onSubmit = async (data: ForgotPasswordForm) => {
+    setIsLoading(true)
+    try {
+      await api.post('/auth/forgot-password', data)
+      setSent(true)
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to send reset link')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            Forgot your password?
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            Enter your email and we will send you a link to choose a new one
+          </p>
+        </div>
+        {sent ? (
+          <p className="text-center text-sm text-gray-700">
+            If an account exists for this email, a reset link is on its way. The link works once.
+          </p>
+        ) : (
+          <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
+            <div>
+              <label htmlFor="email" className="sr-only">
+                Email address
+              </label>
+              <input
+                {...register('email', {
+                  required: 'Email is required',
+                  pattern: {
+                    value: /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i,
+                    message: 'Invalid email address',
+                  },
+                })}
+                id="email"
+                name="email"
+                type="email"
+                autoComplete="email"
+                className={`input rounded-md ${errors.email ? 'border-red-500' : ''}`}
+                placeholder="Email address"
+              />
+              {errors.email && (
+                <p className="mt-1 text-sm text-red-600">{errors.email.message}</p>
+              )}
+            </div>
+
+            <div>
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isLoading ? (
+                  <Loader2 className="h-5 w-5 animate-spin" />
+                ) : (
+                  'Send reset link'
+                )}
+              </button>
+            </div>
+          </form>
+        )}
+        <p className="text-center text-sm">
+          <Link href="/login" className="font-medium text-primary-600 hover:text-primary-500">
+            Back to sign in
+          </Link>
+        </p>
+      </div>
+    </div>
+  )
+}
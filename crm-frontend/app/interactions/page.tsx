@@ -17,6 +17,7 @@ import {
 } from 'lucide-react';
 import { toast } from 'react-hot-toast';
 import api from '@/lib/api';
+import { subscribeToRealtime } from '@/lib/realtime';
 import { formatDateTime } from '@/lib/utils';
 
 interface Interaction {
@@ -70,6 +71,14 @@ export default function InteractionsPage() {
     fetchCustomers();
   }, []);
 
+  // Add interactions logged by others; our own are already in the list
+  useEffect(() => subscribeToRealtime(({ event, data }) => {
+    if (event !== 'interaction:created') return;
+    setInteractions(prev => prev.some(interaction => interaction.id === data.interaction.id)
+      ? prev
+      : [data.interaction, ...prev]);
+  }), []);
+
   const fetchInteractions = async () => {
     try {
       const response = await api.get('/interactions');
@@ -1,20 +1,155 @@
 'use client'
 
 import { useState } from 'react'
+import Link from 'next/link'
 import { useRouter } from 'next/navigation'
 import { useForm } from 'react-hook-form'
-import { useAuth } from '@/contexts/AuthContext'
+import { useAuth, LoginChallenge } from '@/contexts/AuthContext'
+import { MfaProvisioning, MfaProvisioningDetails, RecoveryCodeList } from '@/components/auth/MfaSetup'
+import { SsoLogin } from '@/components/auth/SsoLogin'
 import { toast } from 'react-hot-toast'
 import { Eye, EyeOff, Loader2 } from 'lucide-react'
+import api from '@/lib/api'
 
 interface LoginForm {
   email: string
   password: string
 }
 
+const submitButtonClassName = 'group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed'
+
+// Second step of a login: a code from the authenticator app or a recovery
+// code, or setting MFA up when the user's role requires it
+function MfaStep({ challenge, onDone, onCancel }: {
+  challenge: LoginChallenge
+  onDone: () => void
+  onCancel: () => void
+}) {
+  const { completeLogin } = useAuth()
+  const [code, setCode] = useState('')
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false)
+  const [provisioning, setProvisioning] = useState<MfaProvisioning | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const enrolling = challenge.challenge === 'mfa_enrollment'
+
+  const startEnrollment = async () => {
+    setIsLoading(true)
+    try {
+      const response = await api.post('/auth/login/mfa/setup', { challengeToken: challenge.challengeToken })
+      setProvisioning(response.data.data)
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to start setup')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const onSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setIsLoading(true)
+    try {
+      const { challengeToken } = challenge
+      if (enrolling) {
+        const data = await completeLogin('/auth/login/mfa/enable', { challengeToken, code })
+        setRecoveryCodes(data.recoveryCodes)
+        return
+      }
+
+      const data = await completeLogin('/auth/login/mfa', useRecoveryCode
+        ? { challengeToken, recoveryCode: code }
+        : { challengeToken, code })
+      if (data.recoveryCodesRemaining !== undefined) {
+        toast(`${data.recoveryCodesRemaining} recovery codes left`)
+      }
+      onDone()
+    } catch (error: any) {
+      toast.error(error.message || 'Verification failed')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  if (recoveryCodes) {
+    return (
+      <div className="mt-8 space-y-6">
+        <RecoveryCodeList codes={recoveryCodes} />
+        <button type="button" onClick={onDone} className={submitButtonClassName}>
+          Continue
+        </button>
+      </div>
+    )
+  }
+
+  if (enrolling && !provisioning) {
+    return (
+      <div className="mt-8 space-y-6">
+        <p className="text-center text-sm text-gray-700">
+          Your role requires two-factor authentication. Set it up to finish signing in.
+        </p>
+        <button type="button" onClick={startEnrollment} disabled={isLoading} className={submitButtonClassName}>
+          {isLoading ? <Loader2 className="h-5 w-5 animate-spin" /> : 'Set up two-factor authentication'}
+        </button>
+        <p className="text-center text-sm">
+          <button type="button" onClick={onCancel} className="font-medium text-primary-600 hover:text-primary-500">
+            Back to sign in
+          </button>
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <form className="mt-8 space-y-6" onSubmit={onSubmit}>
+      {provisioning && <MfaProvisioningDetails provisioning={provisioning} />}
+      <div>
+        <label htmlFor="code" className="block text-sm text-gray-700 mb-2">
+          {useRecoveryCode
+            ? 'Enter one of your recovery codes'
+            : 'Enter the 6-digit code from your authenticator app'}
+        </label>
+        <input
+          id="code"
+          value={code}
+          onChange={(e) => setCode(e.target.value.trim())}
+          autoComplete="one-time-code"
+          inputMode={useRecoveryCode ? 'text' : 'numeric'}
+          className="input rounded-md"
+          placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+          autoFocus
+          required
+        />
+      </div>
+
+      <button type="submit" disabled={isLoading || !code} className={submitButtonClassName}>
+        {isLoading ? <Loader2 className="h-5 w-5 animate-spin" /> : 'Verify'}
+      </button>
+
+      <div className="flex justify-between text-sm">
+        <button type="button" onClick={onCancel} className="font-medium text-primary-600 hover:text-primary-500">
+          Back to sign in
+        </button>
+        {!enrolling && (
+          <button
+            type="button"
+            onClick={() => {
+              setUseRecoveryCode(!useRecoveryCode)
+              setCode('')
+            }}
+            className="font-medium text-primary-600 hover:text-primary-500"
+          >
+            {useRecoveryCode ? 'Use authenticator code' : 'Use a recovery code'}
+          </button>
+        )}
+      </div>
+    </form>
+  )
+}
+
 export default function LoginPage() {
   const [showPassword, setShowPassword] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
+  const [challenge, setChallenge] = useState<LoginChallenge | null>(null)
   const { login } = useAuth()
   const router = useRouter()
 
@@ -27,7 +162,11 @@ export default function LoginPage() {
   const onSubmit = async (data: LoginForm) => {
     setIsLoading(true)
     try {
-      await login(data)
+      const pendingChallenge = await login(data)
+      if (pendingChallenge) {
+        setChallenge(pendingChallenge)
+        return
+      }
       toast.success('Login successful!')
       router.push('/dashboard')
     } catch (error: any) {
@@ -45,88 +184,107 @@ export default function LoginPage() {
             Sign in to your account
           </h2>
           <p className="mt-2 text-center text-sm text-gray-600">
-            Welcome to L2 CRM
+            {challenge ? 'Two-factor authentication' : 'Welcome to L2 CRM'}
           </p>
         </div>
-        <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
-          <div className="rounded-md shadow-sm -space-y-px">
-            <div>
-              <label htmlFor="email" className="sr-only">
-                Email address
-              </label>
-              <input
-                {...register('email', {
-                  required: 'Email is required',
-                  pattern: {
-                    value: /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i,
-                    message: 'Invalid email address',
-                  },
-                })}
-                id="email"
-                name="email"
-                type="email"
-                autoComplete="email"
-                className={`input rounded-t-md ${
-                  errors.email ? 'border-red-500' : ''
-                }`}
-                placeholder="Email address"
-              />
-              {errors.email && (
-                <p className="mt-1 text-sm text-red-600">{errors.email.message}</p>
-              )}
+        {challenge ? (
+          <MfaStep
+            challenge={challenge}
+            onDone={() => {
+              toast.success('Login successful!')
+              router.push('/dashboard')
+            }}
+            onCancel={() => setChallenge(null)}
+          />
+        ) : (
+          <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
+            <div className="rounded-md shadow-sm -space-y-px">
+              <div>
+                <label htmlFor="email" className="sr-only">
+                  Email address
+                </label>
+                <input
+                  {...register('email', {
+                    required: 'Email is required',
+                    pattern: {
+                      value: /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i,
+                      message: 'Invalid email address',
+                    },
+                  })}
+                  id="email"
+                  name="email"
+                  type="email"
+                  autoComplete="email"
+                  className={`input rounded-t-md ${
+                    errors.email ? 'border-red-500' : ''
+                  }`}
+                  placeholder="Email address"
+                />
+                {errors.email && (
+                  <p className="mt-1 text-sm text-red-600">{errors.email.message}</p>
+                )}
+              </div>
+              <div className="relative">
+                <label htmlFor="password" className="sr-only">
+                  Password
+                </label>
+                <input
+                  {...register('password', {
+                    required: 'Password is required',
+                    minLength: {
+                      value: 6,
+                      message: 'Password must be at least 6 characters',
+                    },
+                  })}
+                  id="password"
+                  name="password"
+                  type={showPassword ? 'text' : 'password'}
+                  autoComplete="current-password"
+                  className={`input rounded-b-md pr-10 ${
+                    errors.password ? 'border-red-500' : ''
+                  }`}
+                  placeholder="Password"
+                />
+                <button
+                  type="button"
+                  className="absolute inset-y-0 right-0 pr-3 flex items-center"
+                  onClick={() => setShowPassword(!showPassword)}
+                >
+                  {showPassword ? (
+                    <EyeOff className="h-5 w-5 text-gray-400" />
+                  ) : (
+                    <Eye className="h-5 w-5 text-gray-400" />
+                  )}
+                </button>
+                {errors.password && (
+                  <p className="mt-1 text-sm text-red-600">{errors.password.message}</p>
+                )}
+              </div>
             </div>
-            <div className="relative">
-              <label htmlFor="password" className="sr-only">
-                Password
-              </label>
-              <input
-                {...register('password', {
-                  required: 'Password is required',
-                  minLength: {
-                    value: 6,
-                    message: 'Password must be at least 6 characters',
-                  },
-                })}
-                id="password"
-                name="password"
-                type={showPassword ? 'text' : 'password'}
-                autoComplete="current-password"
-                className={`input rounded-b-md pr-10 ${
-                  errors.password ? 'border-red-500' : ''
-                }`}
-                placeholder="Password"
-              />
+
+            <div className="flex justify-end text-sm">
+              <Link href="/forgot-password" className="font-medium text-primary-600 hover:text-primary-500">
+                Forgot your password?
+              </Link>
+            </div>
+
+            <div>
               <button
-                type="button"
-                className="absolute inset-y-0 right-0 pr-3 flex items-center"
-                onClick={() => setShowPassword(!showPassword)}
+                type="submit"
+                disabled={isLoading}
+                className={submitButtonClassName}
               >
-                {showPassword ? (
-                  <EyeOff className="h-5 w-5 text-gray-400" />
+                {isLoading ? (
+                  <Loader2 className="h-5 w-5 animate-spin" />
                 ) : (
-                  <Eye className="h-5 w-5 text-gray-400" />
+                  'Sign in'
                 )}
               </button>
-              {errors.password && (
-                <p className="mt-1 text-sm text-red-600">{errors.password.message}</p>
-              )}
             </div>
-          </div>
-
-          <div>
-            <button
-              type="submit"
-              disabled={isLoading}
-              className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              {isLoading ? (
-                <Loader2 className="h-5 w-5 animate-spin" />
-              ) : (
-                'Sign in'
-              )}
-            </button>
-          </div>
-        </form>
+
+            <SsoLogin />
+          </form>
+        )}
       </div>
     </div>
   )
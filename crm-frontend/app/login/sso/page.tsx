@@ -0,0 +1,82 @@
+'use client'
+
+import { Suspense, useEffect, useRef, useState } from 'react'
+import Link from 'next/link'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { toast } from 'react-hot-toast'
+import { Loader2, XCircle } from 'lucide-react'
+import { useAuth } from '@/contexts/AuthContext'
+import { SSO_TRANSACTION_KEY } from '@/components/auth/SsoLogin'
+
+// Where the identity provider sends the user back to, with the code to
+// finish the single sign-on or the reason it failed
+function SsoCallback() {
+  const searchParams = useSearchParams()
+  const { completeLogin } = useAuth()
+  const router = useRouter()
+  const [error, setError] = useState('')
+  // The code is single-use, so make sure it is only sent once
+  const requested = useRef(false)
+
+  useEffect(() => {
+    if (requested.current) return
+    requested.current = true
+
+    const code = searchParams.get('code')
+    const state = searchParams.get('state')
+    const transaction = sessionStorage.getItem(SSO_TRANSACTION_KEY)
+    sessionStorage.removeItem(SSO_TRANSACTION_KEY)
+
+    if (searchParams.get('error')) {
+      setError(searchParams.get('error_description') || 'The identity provider did not sign you in.')
+      return
+    }
+    if (!code || !state || !transaction) {
+      setError('This sign-in link is incomplete or was already used.')
+      return
+    }
+
+    completeLogin('/auth/sso/callback', { code, state, transaction })
+      .then(() => {
+        toast.success('Login successful!')
+        router.push('/dashboard')
+      })
+      .catch((error: any) => {
+        setError(error.message || 'Single sign-on failed')
+      })
+  }, [searchParams])
+
+  if (!error) {
+    return (
+      <div className="text-center">
+        <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4 text-primary-600" />
+        <p className="text-gray-600">Signing you in...</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="text-center space-y-4">
+      <XCircle className="h-10 w-10 mx-auto text-red-600" />
+      <p className="text-gray-700">{error}</p>
+      <Link href="/login" className="inline-block font-medium text-primary-600 hover:text-primary-500">
+        Back to sign in
+      </Link>
+    </div>
+  )
+}
+
+export default function SsoCallbackPage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+          Single sign-on
+        </h2>
+        <Suspense>
+          <SsoCallback />
+        </Suspense>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,455 @@
+'use client'
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import Layout from '@/components/layout/Layout';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Input from '@/components/ui/Input';
+import {
+  ArrowLeft,
+  ArrowRight,
+  Building2,
+  Calendar,
+  CheckCircle,
+  DollarSign,
+  History,
+  Mail,
+  MessageSquare,
+  Phone,
+  StickyNote,
+  User
+} from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import api from '@/lib/api';
+import { formatCurrency, formatDate, formatDateTime, formatUserName } from '@/lib/utils';
+
+interface LeadDetail {
+  id: number;
+  title: string;
+  description?: string;
+  stage: string;
+  value?: number;
+  expected_close_date?: string | null;
+  close_reason?: string | null;
+  customer?: { id: number; name: string; email?: string; company?: string; phone?: string } | null;
+  account?: { id: number; name: string } | null;
+  owner?: { id: number; name: string; is_active?: boolean } | null;
+  assignedUser?: { id: number; name: string; email: string; is_active?: boolean } | null;
+  pipeline?: { id: number; name: string } | null;
+  tasks: {
+    id: number;
+    title: string;
+    status: 'pending' | 'in-progress' | 'completed';
+    priority: 'low' | 'medium' | 'high';
+    dueDate?: string | null;
+    assignedUser?: { id: number; name: string; is_active?: boolean } | null;
+  }[];
+  interactions: {
+    id: number;
+    type: 'call' | 'email' | 'meeting' | 'note';
+    notes?: string | null;
+    date: string;
+    createdByUser?: { id: number; name: string; is_active?: boolean } | null;
+  }[];
+  stageHistory: {
+    id: number;
+    from_stage: string | null;
+    to_stage: string;
+    changed_at: string;
+    changedByUser?: { id: number; name: string; is_active?: boolean } | null;
+  }[];
+}
+
+type Composer = 'call' | 'note' | 'task';
+
+const interactionIcons = {
+  call: Phone,
+  email: Mail,
+  meeting: Calendar,
+  note: StickyNote
+};
+
+const taskStatusColors = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  'in-progress': 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800'
+};
+
+export default function LeadDetailPage() {
+  const params = useParams();
+  const { hasPermission } = useAuth();
+  const [lead, setLead] = useState<LeadDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [composer, setComposer] = useState<Composer>('call');
+  const [saving, setSaving] = useState(false);
+  const [notes, setNotes] = useState('');
+  const [taskData, setTaskData] = useState({
+    title: '',
+    dueDate: '',
+    priority: 'medium'
+  });
+
+  const canLogInteractions = hasPermission('interactions:edit');
+  const canAddTasks = hasPermission('tasks:edit');
+
+  useEffect(() => {
+    fetchLead();
+  }, [params.id]);
+
+  useEffect(() => {
+    if (!canLogInteractions && canAddTasks) {
+      setComposer('task');
+    }
+  }, [canLogInteractions, canAddTasks]);
+
+  const fetchLead = async () => {
+    try {
+      const response = await api.get(`/leads/${params.id}`);
+      setLead(response.data.data.lead);
+    } catch (error) {
+      toast.error('Failed to fetch lead');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleLogInteraction = async () => {
+    if (!lead) return;
+
+    setSaving(true);
+    try {
+      await api.post('/interactions', {
+        leadId: lead.id,
+        type: composer,
+        notes
+      });
+      setNotes('');
+      await fetchLead();
+      toast.success(composer === 'call' ? 'Call logged' : 'Note added');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to save interaction');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddTask = async () => {
+    if (!lead) return;
+
+    setSaving(true);
+    try {
+      await api.post('/tasks', {
+        title: taskData.title,
+        priority: taskData.priority,
+        dueDate: taskData.dueDate || null,
+        leadId: lead.id
+      });
+      setTaskData({ title: '', dueDate: '', priority: 'medium' });
+      await fetchLead();
+      toast.success('Task added');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to add task');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 mx-auto"></div>
+            <p className="mt-2 text-gray-600">Loading lead...</p>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (!lead) {
+    return (
+      <Layout>
+        <Card>
+          <CardContent className="p-8 text-center">
+            <p className="text-gray-500">Lead not found</p>
+          </CardContent>
+        </Card>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <Link href="/pipeline" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-2">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Pipeline
+          </Link>
+          <div className="flex items-center space-x-3">
+            <h1 className="text-2xl font-bold text-gray-900">{lead.title}</h1>
+            <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-purple-100 text-purple-800 capitalize">
+              {lead.stage}
+            </span>
+          </div>
+          <div className="flex flex-wrap gap-4 mt-1 text-sm text-gray-600">
+            {lead.pipeline && <span>{lead.pipeline.name} pipeline</span>}
+            {lead.value && (
+              <span className="flex items-center font-medium text-green-600">
+                <DollarSign className="h-4 w-4 mr-1" />
+                {formatCurrency(lead.value)}
+              </span>
+            )}
+            {lead.expected_close_date && (
+              <span className="flex items-center">
+                <Calendar className="h-4 w-4 mr-1" />
+                Expected close {formatDate(lead.expected_close_date)}
+              </span>
+            )}
+            {lead.owner && (
+              <span className="flex items-center">
+                <User className="h-4 w-4 mr-1" />
+                Owner: {formatUserName(lead.owner)}
+              </span>
+            )}
+          </div>
+          {lead.description && <p className="mt-2 text-gray-600">{lead.description}</p>}
+          {lead.close_reason && <p className="mt-1 text-sm text-gray-600 italic">{lead.close_reason}</p>}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-6">
+            {/* Composers */}
+            {(canLogInteractions || canAddTasks) && (
+              <Card>
+                <CardContent className="p-4 space-y-3">
+                  <div className="flex space-x-2">
+                    {canLogInteractions && (
+                      <>
+                        <Button variant={composer === 'call' ? 'primary' : 'outline'} size="sm" onClick={() => setComposer('call')}>
+                          <Phone className="h-4 w-4 mr-1" />
+                          Log call
+                        </Button>
+                        <Button variant={composer === 'note' ? 'primary' : 'outline'} size="sm" onClick={() => setComposer('note')}>
+                          <StickyNote className="h-4 w-4 mr-1" />
+                          Add note
+                        </Button>
+                      </>
+                    )}
+                    {canAddTasks && (
+                      <Button variant={composer === 'task' ? 'primary' : 'outline'} size="sm" onClick={() => setComposer('task')}>
+                        <CheckCircle className="h-4 w-4 mr-1" />
+                        Add task
+                      </Button>
+                    )}
+                  </div>
+
+                  {composer === 'task' ? (
+                    <div className="space-y-3">
+                      <Input
+                        placeholder="What needs to be done?"
+                        value={taskData.title}
+                        onChange={(e) => setTaskData({ ...taskData, title: e.target.value })}
+                      />
+                      <div className="flex space-x-2">
+                        <input
+                          type="date"
+                          value={taskData.dueDate}
+                          onChange={(e) => setTaskData({ ...taskData, dueDate: e.target.value })}
+                          className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                        />
+                        <select
+                          value={taskData.priority}
+                          onChange={(e) => setTaskData({ ...taskData, priority: e.target.value })}
+                          className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                        >
+                          <option value="low">Low</option>
+                          <option value="medium">Medium</option>
+                          <option value="high">High</option>
+                        </select>
+                        <Button onClick={handleAddTask} disabled={saving || taskData.title.trim().length < 2}>
+                          Add task
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="space-y-3">
+                      <textarea
+                        value={notes}
+                        onChange={(e) => setNotes(e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                        rows={3}
+                        placeholder={composer === 'call' ? 'How did the call go?' : 'Write a note...'}
+                      />
+                      <div className="flex justify-end">
+                        <Button onClick={handleLogInteraction} disabled={saving || (composer === 'note' && !notes.trim())}>
+                          {composer === 'call' ? 'Log call' : 'Add note'}
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Interactions */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <MessageSquare className="h-5 w-5 mr-2" />
+                  Interactions ({lead.interactions.length})
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {lead.interactions.length === 0 ? (
+                  <p className="text-sm text-gray-500">No interactions logged against this lead</p>
+                ) : (
+                  <div className="divide-y divide-gray-200">
+                    {lead.interactions.map((interaction) => {
+                      const Icon = interactionIcons[interaction.type] || MessageSquare;
+                      return (
+                        <div key={interaction.id} className="py-3 flex items-start space-x-3">
+                          <Icon className="h-4 w-4 mt-1 text-blue-600" />
+                          <div className="flex-1">
+                            <div className="flex justify-between text-sm">
+                              <span className="font-medium text-gray-900 capitalize">{interaction.type}</span>
+                              <span className="text-gray-500">{formatDateTime(interaction.date)}</span>
+                            </div>
+                            {interaction.notes && <p className="text-sm text-gray-600 mt-1">{interaction.notes}</p>}
+                            {interaction.createdByUser && (
+                              <p className="text-xs text-gray-500 mt-1">By {formatUserName(interaction.createdByUser)}</p>
+                            )}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Tasks */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <CheckCircle className="h-5 w-5 mr-2" />
+                  Tasks ({lead.tasks.length})
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {lead.tasks.length === 0 ? (
+                  <p className="text-sm text-gray-500">No tasks for this lead</p>
+                ) : (
+                  <div className="divide-y divide-gray-200">
+                    {lead.tasks.map((task) => (
+                      <div key={task.id} className="py-3 flex justify-between items-start">
+                        <div>
+                          <p className="font-medium text-gray-900">{task.title}</p>
+                          <p className="text-sm text-gray-600">
+                            <span className="capitalize">{task.priority}</span> priority
+                            {task.dueDate && ` · Due ${formatDate(task.dueDate)}`}
+                            {task.assignedUser && ` · ${formatUserName(task.assignedUser)}`}
+                          </p>
+                        </div>
+                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${taskStatusColors[task.status]}`}>
+                          {task.status}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="space-y-6">
+            {/* Contact */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Building2 className="h-5 w-5 mr-2" />
+                  Contact
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                {lead.customer ? (
+                  <>
+                    <Link href={`/customers/${lead.customer.id}`} className="font-medium text-primary-600 hover:text-primary-700">
+                      {lead.customer.name}
+                    </Link>
+                    {lead.customer.email && (
+                      <p className="flex items-center text-gray-600">
+                        <Mail className="h-4 w-4 mr-2" />
+                        {lead.customer.email}
+                      </p>
+                    )}
+                    {lead.customer.phone && (
+                      <p className="flex items-center text-gray-600">
+                        <Phone className="h-4 w-4 mr-2" />
+                        {lead.customer.phone}
+                      </p>
+                    )}
+                  </>
+                ) : (
+                  <p className="text-gray-500">No contact</p>
+                )}
+                {lead.account && (
+                  <Link href={`/accounts/${lead.account.id}`} className="flex items-center text-primary-600 hover:text-primary-700">
+                    <Building2 className="h-4 w-4 mr-2" />
+                    {lead.account.name}
+                  </Link>
+                )}
+                <p className="flex items-center text-gray-600 pt-2 border-t border-gray-200">
+                  <User className="h-4 w-4 mr-2" />
+                  {lead.assignedUser ? `Assigned to ${formatUserName(lead.assignedUser)}` : 'Unassigned'}
+                </p>
+              </CardContent>
+            </Card>
+
+            {/* Stage history */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <History className="h-5 w-5 mr-2" />
+                  Stage History
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {lead.stageHistory.length === 0 ? (
+                  <p className="text-sm text-gray-500">No stage changes recorded</p>
+                ) : (
+                  <ol className="space-y-3">
+                    {[...lead.stageHistory].reverse().map((entry) => (
+                      <li key={entry.id} className="text-sm">
+                        <p className="text-gray-900">
+                          {entry.from_stage ? (
+                            <>
+                              <span className="capitalize">{entry.from_stage}</span>
+                              <ArrowRight className="inline h-3 w-3 mx-1" />
+                              <span className="capitalize">{entry.to_stage}</span>
+                            </>
+                          ) : (
+                            <>Created in <span className="capitalize">{entry.to_stage}</span></>
+                          )}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {formatDateTime(entry.changed_at)}
+                          {entry.changedByUser && ` · ${formatUserName(entry.changedByUser)}`}
+                        </p>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+}
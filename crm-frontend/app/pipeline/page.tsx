@@ -1,11 +1,13 @@
 'use client'
 
 import { useState, useEffect } from 'react';
-import { useData } from '@/contexts/DataContext';
+import Link from 'next/link';
+import { useData, PipelineStage, CustomFieldValues } from '@/contexts/DataContext';
 import { useAuth } from '@/contexts/AuthContext';
 import Layout from '@/components/layout/Layout';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
 import Button from '@/components/ui/Button';
+import CustomFieldInputs from '@/components/ui/CustomFieldInputs';
 import { 
   Plus, 
   DollarSign, 
@@ -13,7 +15,6 @@ import {
   Building2,
   Target,
   CheckCircle,
-  Clock,
   AlertCircle,
   Edit,
   Trash2,
@@ -27,9 +28,15 @@ interface Lead {
   id: number;
   title: string;
   description?: string;
-  stage: 'lead' | 'qualified' | 'proposal' | 'closed';
+  stage: string;
   value?: number;
+  expected_close_date?: string | null;
+  closed_at?: string | null;
+  close_reason?: string | null;
+  custom_fields?: CustomFieldValues;
   customerId: number;
+  customer_id?: number | null;
+  account_id?: number | null;
   assignedTo?: number;
   customer?: {
     id: number;
@@ -37,45 +44,85 @@ interface Lead {
     email?: string;
     company?: string;
   };
+  account?: {
+    id: number;
+    name: string;
+  } | null;
   assignedUser?: {
     id: number;
     name: string;
     email: string;
   };
+  owner?: {
+    id: number;
+    name: string;
+  } | null;
   createdAt: string;
   updatedAt: string;
 }
 
-const stages = [
-  { key: 'lead', name: 'Leads', color: 'bg-blue-100 text-blue-800' },
-  { key: 'qualified', name: 'Qualified', color: 'bg-yellow-100 text-yellow-800' },
-  { key: 'proposal', name: 'Proposal', color: 'bg-purple-100 text-purple-800' },
-  { key: 'closed', name: 'Closed', color: 'bg-green-100 text-green-800' }
-];
-
 export default function PipelinePage() {
-  const { leads, setLeads, customers } = useData();
-  const { user } = useAuth();
+  const {
+    leads,
+    setLeads,
+    customers,
+    accounts,
+    fetchAccounts,
+    pipelines,
+    fetchPipelines,
+    pipelineStages,
+    fetchPipelineStages,
+    lossReasons,
+    fetchLossReasons,
+    customFieldDefinitions,
+    fetchCustomFieldDefinitions
+  } = useData();
+  const { user, hasPermission } = useAuth();
   const [loading, setLoading] = useState(true);
+  const [selectedPipelineId, setSelectedPipelineId] = useState<number | undefined>(undefined);
   const [draggedLead, setDraggedLead] = useState<Lead | null>(null);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
   const [editingLead, setEditingLead] = useState<Lead | null>(null);
+  const [closingLead, setClosingLead] = useState<{ lead: Lead; stage: PipelineStage } | null>(null);
+  const [closeReason, setCloseReason] = useState('');
   const [formData, setFormData] = useState({
     title: '',
     description: '',
-    stage: 'lead' as 'lead' | 'qualified' | 'proposal' | 'closed',
+    stage: '',
     value: '',
-    customerId: ''
+    customerId: '',
+    accountId: '',
+    expectedCloseDate: '',
+    closeReason: '',
+    customFields: {} as CustomFieldValues
   });
 
   useEffect(() => {
-    fetchLeads();
+    fetchPipelines();
+    fetchLossReasons();
+    fetchAccounts();
+    fetchCustomFieldDefinitions();
   }, []);
 
+  // Start on the default pipeline once the pipelines are loaded
+  useEffect(() => {
+    if (!selectedPipelineId && pipelines.length > 0) {
+      setSelectedPipelineId((pipelines.find(p => p.is_default) || pipelines[0]).id);
+    }
+  }, [pipelines]);
+
+  useEffect(() => {
+    if (!selectedPipelineId) return;
+    fetchLeads();
+    fetchPipelineStages(selectedPipelineId);
+  }, [selectedPipelineId]);
+
   const fetchLeads = async () => {
     try {
-      const response = await api.get('/leads');
+      const response = await api.get('/leads', {
+        params: { pipelineId: selectedPipelineId }
+      });
       setLeads(response.data.data.leads);
     } catch (error) {
       toast.error('Failed to fetch leads');
@@ -92,39 +139,78 @@ export default function PipelinePage() {
     e.preventDefault();
   };
 
-  const handleDrop = async (e: React.DragEvent, newStage: string) => {
+  const handleDrop = async (e: React.DragEvent, newStage: PipelineStage) => {
     e.preventDefault();
-    if (!draggedLead || draggedLead.stage === newStage) return;
+    if (!draggedLead || draggedLead.stage === newStage.key) return;
+
+    // Won and lost columns ask for the outcome before moving the lead
+    if (newStage.is_won || newStage.is_lost) {
+      setClosingLead({ lead: draggedLead, stage: newStage });
+      setCloseReason('');
+      setDraggedLead(null);
+      return;
+    }
+
+    await moveLead(draggedLead, newStage.key);
+    setDraggedLead(null);
+  };
 
+  const moveLead = async (movedLead: Lead, newStage: string, reason?: string) => {
     try {
-      const response = await api.put(`/leads/${draggedLead.id}/stage`, {
-        stage: newStage
+      const response = await api.put(`/leads/${movedLead.id}/stage`, {
+        stage: newStage,
+        closeReason: reason || undefined
       });
       
       setLeads(leads.map(lead => 
-        lead.id === draggedLead.id ? response.data.data.lead : lead
+        lead.id === movedLead.id ? response.data.data.lead : lead
       ));
-      setDraggedLead(null);
       toast.success('Lead stage updated successfully');
-    } catch (error) {
-      toast.error('Failed to update lead stage');
+      return true;
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to update lead stage');
+      return false;
     }
   };
 
+  const handleClose = async () => {
+    if (!closingLead) return;
+
+    if (await moveLead(closingLead.lead, closingLead.stage.key, closeReason)) {
+      setClosingLead(null);
+      setCloseReason('');
+    }
+  };
+
+  const isLostStage = (key: string) => {
+    return pipelineStages.some(stage => stage.key === key && stage.is_lost);
+  };
+
+  const isClosedStage = (key: string) => {
+    return pipelineStages.some(stage => stage.key === key && (stage.is_won || stage.is_lost));
+  };
+
   const handleCreate = async () => {
     try {
       const leadData: any = {
         title: formData.title,
         description: formData.description,
-        stage: formData.stage,
+        stage: formData.stage || undefined,
         value: formData.value ? parseFloat(formData.value) : undefined,
-        assignedTo: user?.id || null
+        assignedTo: user?.id || null,
+        pipelineId: selectedPipelineId,
+        expectedCloseDate: formData.expectedCloseDate || null,
+        closeReason: formData.closeReason || undefined,
+        customFields: formData.customFields
       };
 
       // Only add customerId if it's not empty
       if (formData.customerId && formData.customerId !== '') {
         leadData.customerId = parseInt(formData.customerId);
       }
+      if (formData.accountId && formData.accountId !== '') {
+        leadData.accountId = parseInt(formData.accountId);
+      }
 
       const response = await api.post('/leads', leadData);
       
@@ -144,15 +230,21 @@ export default function PipelinePage() {
       const leadData: any = {
         title: formData.title,
         description: formData.description,
-        stage: formData.stage,
+        stage: formData.stage || undefined,
         value: formData.value ? parseFloat(formData.value) : undefined,
-        assignedTo: user?.id || null
+        assignedTo: user?.id || null,
+        expectedCloseDate: formData.expectedCloseDate || null,
+        closeReason: formData.closeReason || undefined,
+        customFields: formData.customFields
       };
 
       // Only add customerId if it's not empty
       if (formData.customerId && formData.customerId !== '') {
         leadData.customerId = parseInt(formData.customerId);
       }
+      if (formData.accountId && formData.accountId !== '') {
+        leadData.accountId = parseInt(formData.accountId);
+      }
 
       const response = await api.put(`/leads/${editingLead.id}`, leadData);
       
@@ -184,12 +276,18 @@ export default function PipelinePage() {
     setFormData({
       title: '',
       description: '',
-      stage: 'lead',
+      stage: '',
       value: '',
-      customerId: ''
+      customerId: '',
+      accountId: '',
+      expectedCloseDate: '',
+      closeReason: '',
+      customFields: {}
     });
   };
 
+  const leadFields = customFieldDefinitions.filter(field => field.entity === 'lead');
+
   const getLeadsByStage = (stage: string) => {
     return leads.filter(lead => lead.stage === stage);
   };
@@ -225,15 +323,30 @@ export default function PipelinePage() {
             <h1 className="text-2xl font-bold text-gray-900">Sales Pipeline</h1>
             <p className="text-gray-600">Manage your sales leads and opportunities</p>
           </div>
-          <Button onClick={() => setShowCreateModal(true)}>
-            <Plus className="h-4 w-4 mr-2" />
-            Add Lead
-          </Button>
+          <div className="flex items-center space-x-2">
+            {pipelines.length > 1 && (
+              <select
+                value={selectedPipelineId ?? ''}
+                onChange={(e) => setSelectedPipelineId(parseInt(e.target.value))}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+              >
+                {pipelines.map((pipeline) => (
+                  <option key={pipeline.id} value={pipeline.id}>
+                    {pipeline.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            <Button onClick={() => setShowCreateModal(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Lead
+            </Button>
+          </div>
         </div>
 
         {/* Pipeline Stats */}
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-          {stages.map((stage) => {
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          {pipelineStages.map((stage) => {
             const stats = getStageStats(stage.key);
             return (
               <Card key={stage.key}>
@@ -244,11 +357,13 @@ export default function PipelinePage() {
                       <p className="text-2xl font-bold text-gray-900">{stats.count}</p>
                       <p className="text-sm text-gray-500">{formatCurrency(stats.value)}</p>
                     </div>
-                    <div className={`p-2 rounded-full ${stage.color}`}>
-                      {stage.key === 'lead' && <Target className="h-5 w-5" />}
-                      {stage.key === 'qualified' && <CheckCircle className="h-5 w-5" />}
-                      {stage.key === 'proposal' && <Clock className="h-5 w-5" />}
-                      {stage.key === 'closed' && <AlertCircle className="h-5 w-5" />}
+                    <div
+                      className="p-2 rounded-full"
+                      style={{ backgroundColor: `${stage.color}20`, color: stage.color }}
+                    >
+                      {stage.is_won && <CheckCircle className="h-5 w-5" />}
+                      {stage.is_lost && <AlertCircle className="h-5 w-5" />}
+                      {!stage.is_won && !stage.is_lost && <Target className="h-5 w-5" />}
                     </div>
                   </div>
                 </CardContent>
@@ -258,18 +373,24 @@ export default function PipelinePage() {
         </div>
 
         {/* Kanban Board */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-          {stages.map((stage) => (
-            <div key={stage.key} className="space-y-4">
+        <div className="flex gap-6 overflow-x-auto pb-4">
+          {pipelineStages.map((stage) => (
+            <div key={stage.key} className="w-72 flex-shrink-0 space-y-4">
               <div className="flex items-center justify-between">
-                <h3 className="text-lg font-semibold text-gray-900">{stage.name}</h3>
+                <h3 className="flex items-center text-lg font-semibold text-gray-900">
+                  <span
+                    className="w-3 h-3 rounded-full mr-2"
+                    style={{ backgroundColor: stage.color }}
+                  />
+                  {stage.name}
+                </h3>
                 <span className="text-sm text-gray-500">{getStageStats(stage.key).count}</span>
               </div>
               
               <div
                 className="min-h-[500px] bg-gray-50 rounded-lg p-4"
                 onDragOver={handleDragOver}
-                onDrop={(e) => handleDrop(e, stage.key)}
+                onDrop={(e) => handleDrop(e, stage)}
               >
                 <div className="space-y-3">
                   {getLeadsByStage(stage.key).map((lead) => (
@@ -282,7 +403,11 @@ export default function PipelinePage() {
                       <CardContent className="p-4">
                         <div className="space-y-2">
                           <div className="flex items-start justify-between">
-                            <h4 className="font-medium text-gray-900">{lead.title}</h4>
+                            <h4 className="font-medium text-gray-900">
+                              <Link href={`/pipeline/${lead.id}`} className="hover:text-primary-600">
+                                {lead.title}
+                              </Link>
+                            </h4>
                             <div className="flex space-x-1">
                               <Button
                                 variant="ghost"
@@ -295,23 +420,29 @@ export default function PipelinePage() {
                                     description: lead.description || '',
                                     stage: lead.stage,
                                     value: lead.value?.toString() || '',
-                                    customerId: lead.customerId?.toString() || ''
+                                    customerId: (lead.customer_id ?? lead.customerId)?.toString() || '',
+                                    accountId: lead.account_id?.toString() || '',
+                                    expectedCloseDate: lead.expected_close_date || '',
+                                    closeReason: lead.close_reason || '',
+                                    customFields: lead.custom_fields || {}
                                   });
                                   setShowEditModal(true);
                                 }}
                               >
                                 <Edit className="h-4 w-4" />
                               </Button>
-                              <Button
-                                variant="ghost"
-                                size="sm"
-                                onClick={(e) => {
-                                  e.stopPropagation();
-                                  handleDelete(lead.id);
-                                }}
-                              >
-                                <Trash2 className="h-4 w-4" />
-                              </Button>
+                              {hasPermission('leads:delete') && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    handleDelete(lead.id);
+                                  }}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              )}
                             </div>
                           </div>
                           
@@ -324,7 +455,7 @@ export default function PipelinePage() {
                           <div className="flex items-center justify-between text-sm">
                             <div className="flex items-center text-gray-600">
                               <Building2 className="h-4 w-4 mr-1" />
-                              {lead.customer?.company || lead.customer?.name}
+                              {lead.account?.name || lead.customer?.company || lead.customer?.name}
                             </div>
                             {lead.value && (
                               <div className="flex items-center font-medium text-green-600">
@@ -334,15 +465,29 @@ export default function PipelinePage() {
                             )}
                           </div>
                           
+                          {lead.close_reason && (
+                            <p className="text-sm text-gray-600 italic">
+                              {lead.close_reason}
+                            </p>
+                          )}
+                          
                           {lead.assignedUser && (
                             <div className="flex items-center text-sm text-gray-500">
                               <User className="h-4 w-4 mr-1" />
                               {lead.assignedUser.name}
                             </div>
                           )}
+
+                          {lead.owner && lead.owner.id !== lead.assignedUser?.id && (
+                            <div className="text-xs text-gray-500">
+                              Owner: {lead.owner.name}
+                            </div>
+                          )}
                           
                           <div className="text-xs text-gray-400">
-                            {formatDate(lead.createdAt)}
+                            {lead.expected_close_date && !lead.closed_at
+                              ? `Expected close ${formatDate(lead.expected_close_date)}`
+                              : formatDate(lead.createdAt)}
                           </div>
                         </div>
                       </CardContent>
@@ -364,7 +509,7 @@ export default function PipelinePage() {
       {/* Create Lead Modal */}
       {showCreateModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-          <div className="bg-white rounded-lg p-6 w-full max-w-md">
+          <div className="bg-white rounded-lg p-6 w-full max-w-md max-h-[90vh] overflow-y-auto">
             <h2 className="text-xl font-bold mb-4">Add New Lead</h2>
             <div className="space-y-4">
               <div>
@@ -398,15 +543,46 @@ export default function PipelinePage() {
                 </label>
                 <select
                   value={formData.stage}
-                  onChange={(e) => setFormData({ ...formData, stage: e.target.value as any })}
+                  onChange={(e) => setFormData({ ...formData, stage: e.target.value })}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
                 >
-                  <option value="lead">Lead</option>
-                  <option value="qualified">Qualified</option>
-                  <option value="proposal">Proposal</option>
-                  <option value="closed">Closed</option>
+                  {pipelineStages.map((stage) => (
+                    <option key={stage.key} value={stage.key}>
+                      {stage.name}
+                    </option>
+                  ))}
                 </select>
               </div>
+
+              {isClosedStage(formData.stage) && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    {isLostStage(formData.stage) ? 'Loss Reason' : 'Win Notes (optional)'}
+                  </label>
+                  {isLostStage(formData.stage) ? (
+                    <select
+                      value={formData.closeReason}
+                      onChange={(e) => setFormData({ ...formData, closeReason: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                    >
+                      <option value="">Select a reason</option>
+                      {lossReasons.map((reason) => (
+                        <option key={reason.id} value={reason.name}>
+                          {reason.name}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <input
+                      type="text"
+                      value={formData.closeReason}
+                      onChange={(e) => setFormData({ ...formData, closeReason: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                      placeholder="Why did we win?"
+                    />
+                  )}
+                </div>
+              )}
               
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -420,24 +596,63 @@ export default function PipelinePage() {
                   placeholder="0.00"
                 />
               </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Expected Close Date
+                </label>
+                <input
+                  type="date"
+                  value={formData.expectedCloseDate}
+                  onChange={(e) => setFormData({ ...formData, expectedCloseDate: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                />
+              </div>
               
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Customer (optional)
+                  Account
                 </label>
                 <select
-                  value={formData.customerId}
-                  onChange={(e) => setFormData({ ...formData, customerId: e.target.value })}
+                  value={formData.accountId}
+                  onChange={(e) => setFormData({ ...formData, accountId: e.target.value })}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
                 >
-                  <option value="">Select a customer</option>
-                  {customers.map((customer) => (
-                    <option key={customer.id} value={customer.id}>
-                      {customer.name} {customer.company && `(${customer.company})`}
+                  <option value="">Select an account</option>
+                  {accounts.map((account) => (
+                    <option key={account.id} value={account.id}>
+                      {account.name}
                     </option>
                   ))}
                 </select>
               </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Contact
+                </label>
+                <select
+                  value={formData.customerId}
+                  onChange={(e) => setFormData({ ...formData, customerId: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                >
+                  <option value="">Select a contact</option>
+                  {customers
+                    .filter((customer) => !formData.accountId || customer.account_id === parseInt(formData.accountId))
+                    .map((customer) => (
+                      <option key={customer.id} value={customer.id}>
+                        {customer.name} {customer.company && `(${customer.company})`}
+                      </option>
+                    ))}
+                </select>
+                <p className="mt-1 text-xs text-gray-500">A lead needs an account, a contact or both</p>
+              </div>
+
+              <CustomFieldInputs
+                definitions={leadFields}
+                values={formData.customFields}
+                onChange={(customFields) => setFormData({ ...formData, customFields })}
+              />
             </div>
             <div className="flex justify-end space-x-2 mt-6">
               <Button
@@ -460,10 +675,68 @@ export default function PipelinePage() {
         </div>
       )}
 
+      {/* Close Lead Dialog */}
+      {closingLead && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-md">
+            <h2 className="text-xl font-bold mb-4">
+              {closingLead.stage.is_lost ? 'Mark Lead as Lost' : 'Mark Lead as Won'}
+            </h2>
+            <p className="text-sm text-gray-600 mb-4">
+              Move <span className="font-medium">{closingLead.lead.title}</span> to {closingLead.stage.name}.
+            </p>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                {closingLead.stage.is_lost ? 'Loss Reason' : 'Win Notes (optional)'}
+              </label>
+              {closingLead.stage.is_lost ? (
+                <select
+                  value={closeReason}
+                  onChange={(e) => setCloseReason(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                >
+                  <option value="">Select a reason</option>
+                  {lossReasons.map((reason) => (
+                    <option key={reason.id} value={reason.name}>
+                      {reason.name}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  type="text"
+                  value={closeReason}
+                  onChange={(e) => setCloseReason(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  placeholder="Why did we win?"
+                />
+              )}
+            </div>
+            <div className="flex justify-end space-x-2 mt-6">
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setClosingLead(null);
+                  setCloseReason('');
+                }}
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={handleClose}
+                disabled={closingLead.stage.is_lost && !closeReason}
+              >
+                {closingLead.stage.is_lost ? 'Mark as Lost' : 'Mark as Won'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Edit Lead Modal */}
       {showEditModal && editingLead && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-          <div className="bg-white rounded-lg p-6 w-full max-w-md">
+          <div className="bg-white rounded-lg p-6 w-full max-w-md max-h-[90vh] overflow-y-auto">
             <h2 className="text-xl font-bold mb-4">Edit Lead</h2>
             <div className="space-y-4">
               <div>
@@ -497,15 +770,46 @@ export default function PipelinePage() {
                 </label>
                 <select
                   value={formData.stage}
-                  onChange={(e) => setFormData({ ...formData, stage: e.target.value as any })}
+                  onChange={(e) => setFormData({ ...formData, stage: e.target.value })}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
                 >
-                  <option value="lead">Lead</option>
-                  <option value="qualified">Qualified</option>
-                  <option value="proposal">Proposal</option>
-                  <option value="closed">Closed</option>
+                  {pipelineStages.map((stage) => (
+                    <option key={stage.key} value={stage.key}>
+                      {stage.name}
+                    </option>
+                  ))}
                 </select>
               </div>
+
+              {isClosedStage(formData.stage) && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    {isLostStage(formData.stage) ? 'Loss Reason' : 'Win Notes (optional)'}
+                  </label>
+                  {isLostStage(formData.stage) ? (
+                    <select
+                      value={formData.closeReason}
+                      onChange={(e) => setFormData({ ...formData, closeReason: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                    >
+                      <option value="">Select a reason</option>
+                      {lossReasons.map((reason) => (
+                        <option key={reason.id} value={reason.name}>
+                          {reason.name}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <input
+                      type="text"
+                      value={formData.closeReason}
+                      onChange={(e) => setFormData({ ...formData, closeReason: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                      placeholder="Why did we win?"
+                    />
+                  )}
+                </div>
+              )}
               
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -519,24 +823,63 @@ export default function PipelinePage() {
                   placeholder="0.00"
                 />
               </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Expected Close Date
+                </label>
+                <input
+                  type="date"
+                  value={formData.expectedCloseDate}
+                  onChange={(e) => setFormData({ ...formData, expectedCloseDate: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                />
+              </div>
               
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Customer (optional)
+                  Account
                 </label>
                 <select
-                  value={formData.customerId}
-                  onChange={(e) => setFormData({ ...formData, customerId: e.target.value })}
+                  value={formData.accountId}
+                  onChange={(e) => setFormData({ ...formData, accountId: e.target.value })}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
                 >
-                  <option value="">Select a customer</option>
-                  {customers.map((customer) => (
-                    <option key={customer.id} value={customer.id}>
-                      {customer.name} {customer.company && `(${customer.company})`}
+                  <option value="">Select an account</option>
+                  {accounts.map((account) => (
+                    <option key={account.id} value={account.id}>
+                      {account.name}
                     </option>
                   ))}
                 </select>
               </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Contact
+                </label>
+                <select
+                  value={formData.customerId}
+                  onChange={(e) => setFormData({ ...formData, customerId: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                >
+                  <option value="">Select a contact</option>
+                  {customers
+                    .filter((customer) => !formData.accountId || customer.account_id === parseInt(formData.accountId))
+                    .map((customer) => (
+                      <option key={customer.id} value={customer.id}>
+                        {customer.name} {customer.company && `(${customer.company})`}
+                      </option>
+                    ))}
+                </select>
+                <p className="mt-1 text-xs text-gray-500">A lead needs an account, a contact or both</p>
+              </div>
+
+              <CustomFieldInputs
+                definitions={leadFields}
+                values={formData.customFields}
+                onChange={(customFields) => setFormData({ ...formData, customFields })}
+              />
             </div>
             <div className="flex justify-end space-x-2 mt-6">
               <Button
@@ -2,8 +2,9 @@
 
 import { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
+import { useData } from '@/contexts/DataContext';
 import Layout from '@/components/layout/Layout';
-import RoleGuard from '@/components/auth/RoleGuard';
+import PermissionGuard from '@/components/auth/PermissionGuard';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
 import { 
   BarChart, 
@@ -28,6 +29,7 @@ import {
   AlertCircle
 } from 'lucide-react';
 import api from '@/lib/api';
+import { formatCurrency } from '@/lib/utils';
 
 interface DashboardStats {
   customers: {
@@ -44,24 +46,89 @@ interface DashboardStats {
     completed: number;
     pending: number;
   };
-  pipeline: {
-    lead: number;
-    qualified: number;
-    proposal: number;
-    closed: number;
+  pipeline: Record<string, number>;
+}
+
+interface WinRateStats {
+  won: number;
+  lost: number;
+  winRate: number;
+  wonValue: number;
+  lostValue: number;
+  byUser: {
+    userId: number | null;
+    name: string;
+    won: number;
+    lost: number;
+    winRate: number;
+  }[];
+}
+
+interface ForecastPeriod {
+  period: string;
+  deals: number;
+  pipelineValue: number;
+  forecast: number;
+  closedWon: number;
+}
+
+interface ForecastStats {
+  periods: ForecastPeriod[];
+  totals: {
+    deals: number;
+    pipelineValue: number;
+    forecast: number;
   };
 }
 
-const COLORS = ['#3B82F6', '#F59E0B', '#8B5CF6', '#10B981'];
+interface VelocityStats {
+  stalledDays: number;
+  timeInStage: {
+    stage: string;
+    name: string;
+    averageDays: number;
+    transitions: number;
+  }[];
+  funnel: {
+    stage: string;
+    name: string;
+    reached: number;
+    conversionRate: number;
+  }[];
+  stalledDeals: {
+    id: number;
+    title: string;
+    stage: string;
+    value: number;
+    assignedUser?: { id: number; name: string } | null;
+    daysInStage: number;
+  }[];
+}
+
+interface LossReasonStat {
+  reason: string;
+  count: number;
+  value: number;
+  percentage: number;
+}
 
 export default function ReportsPage() {
   const { user, loading: authLoading } = useAuth();
+  const { pipelineStages, fetchPipelineStages } = useData();
   const [stats, setStats] = useState<DashboardStats | null>(null);
+  const [winRate, setWinRate] = useState<WinRateStats | null>(null);
+  const [lossReasons, setLossReasons] = useState<LossReasonStat[]>([]);
+  const [forecast, setForecast] = useState<ForecastStats | null>(null);
+  const [velocity, setVelocity] = useState<VelocityStats | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     if (!authLoading && user) {
       fetchStats();
+      fetchOutcomes();
+      fetchForecast();
+      fetchVelocity();
+      fetchPipelineStages();
     } else if (!authLoading && !user) {
       setLoading(false);
     }
@@ -96,7 +163,8 @@ export default function ReportsPage() {
           lead: 5,
           qualified: 3,
           proposal: 2,
-          closed: 1
+          won: 1,
+          lost: 1
         }
       });
     } finally {
@@ -104,12 +172,51 @@ export default function ReportsPage() {
     }
   };
 
-  const pipelineData = stats ? [
-    { name: 'Leads', value: stats.pipeline.lead },
-    { name: 'Qualified', value: stats.pipeline.qualified },
-    { name: 'Proposal', value: stats.pipeline.proposal },
-    { name: 'Closed', value: stats.pipeline.closed }
-  ] : [];
+  const fetchOutcomes = async () => {
+    try {
+      const [winRateResponse, lossReasonResponse] = await Promise.all([
+        api.get('/reports/win-rate'),
+        api.get('/reports/loss-reasons')
+      ]);
+      setWinRate(winRateResponse.data.data);
+      setLossReasons(lossReasonResponse.data.data.lossReasons);
+    } catch (error) {
+      console.error('Failed to fetch outcome reports:', error);
+    }
+  };
+
+  const fetchForecast = async () => {
+    try {
+      const response = await api.get('/reports/forecast');
+      setForecast(response.data.data);
+    } catch (error) {
+      console.error('Failed to fetch forecast:', error);
+    }
+  };
+
+  const fetchVelocity = async () => {
+    try {
+      const response = await api.get('/reports/velocity');
+      setVelocity(response.data.data);
+    } catch (error) {
+      console.error('Failed to fetch velocity:', error);
+    }
+  };
+
+  const stageName = (key: string) => {
+    return pipelineStages.find(stage => stage.key === key)?.name || key;
+  };
+
+  const forecastData = forecast ? forecast.periods.map(period => ({
+    ...period,
+    month: new Date(`${period.period}-01T00:00:00`).toLocaleDateString('en-US', { month: 'short', year: '2-digit' })
+  })) : [];
+
+  const pipelineData = stats ? pipelineStages.map(stage => ({
+    name: stage.name,
+    value: stats.pipeline[stage.key] || 0,
+    color: stage.color
+  })) : [];
 
   const conversionData = [
     { month: 'Jan', rate: 15 },
@@ -169,7 +276,7 @@ export default function ReportsPage() {
 
   return (
     <Layout>
-      <RoleGuard allowedRoles={['admin']}>
+      <PermissionGuard permissions={['reports:view']}>
         <div className="space-y-6">
           {/* Header */}
           <div>
@@ -240,6 +347,34 @@ export default function ReportsPage() {
           </Card>
         </div>
 
+        {/* Forecast vs Closed Won */}
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              Forecast vs Closed Won
+              {forecast && (
+                <span className="ml-2 text-sm text-gray-500 font-normal">
+                  {formatCurrency(forecast.totals.forecast)} weighted from {forecast.totals.deals} open deals
+                </span>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="h-80">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={forecastData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="month" />
+                  <YAxis />
+                  <Tooltip formatter={(value: number) => formatCurrency(value)} />
+                  <Bar dataKey="forecast" name="Weighted forecast" fill="#3B82F6" />
+                  <Bar dataKey="closedWon" name="Closed won" fill="#10B981" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </CardContent>
+        </Card>
+
         {/* Charts */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           {/* Pipeline Distribution */}
@@ -262,7 +397,7 @@ export default function ReportsPage() {
                       dataKey="value"
                     >
                       {pipelineData.map((entry, index) => (
-                        <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                        <Cell key={`cell-${index}`} fill={entry.color} />
                       ))}
                     </Pie>
                     <Tooltip />
@@ -299,6 +434,141 @@ export default function ReportsPage() {
           </Card>
         </div>
 
+        {/* Won / Lost Outcomes */}
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Win Rate by User */}
+          <Card>
+            <CardHeader>
+              <CardTitle>
+                Win Rate {winRate && <span className="text-gray-500 font-normal">({winRate.winRate}% overall)</span>}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="h-80">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={winRate?.byUser || []}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="name" />
+                    <YAxis allowDecimals={false} />
+                    <Tooltip />
+                    <Bar dataKey="won" name="Won" stackId="outcome" fill="#10B981" />
+                    <Bar dataKey="lost" name="Lost" stackId="outcome" fill="#EF4444" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Loss Reasons */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Loss Reasons</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="h-80">
+                {lossReasons.length === 0 ? (
+                  <div className="flex items-center justify-center h-full text-gray-500">
+                    <p>No lost deals yet</p>
+                  </div>
+                ) : (
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={lossReasons} layout="vertical">
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis type="number" allowDecimals={false} />
+                      <YAxis type="category" dataKey="reason" width={140} />
+                      <Tooltip />
+                      <Bar dataKey="count" name="Lost deals" fill="#EF4444" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Pipeline Velocity */}
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Average Time in Stage */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Average Days in Stage</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={velocity?.timeInStage || []}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="name" />
+                    <YAxis />
+                    <Tooltip />
+                    <Bar dataKey="averageDays" name="Days" fill="#8B5CF6" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Stage Funnel */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Stage Funnel</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">
+                {velocity?.funnel.map((step) => (
+                  <div key={step.stage}>
+                    <div className="flex items-center justify-between text-sm mb-1">
+                      <span className="font-medium">{step.name}</span>
+                      <span className="text-gray-600">
+                        {step.reached} <span className="text-gray-400">({step.conversionRate}%)</span>
+                      </span>
+                    </div>
+                    <div className="w-full bg-gray-100 rounded-full h-2">
+                      <div
+                        className="bg-blue-500 h-2 rounded-full"
+                        style={{ width: `${velocity.funnel[0].reached > 0 ? (step.reached / velocity.funnel[0].reached) * 100 : 0}%` }}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Stalled Deals */}
+          <Card>
+            <CardHeader>
+              <CardTitle>
+                Stalled Deals
+                {velocity && (
+                  <span className="ml-2 text-sm text-gray-500 font-normal">
+                    no movement in {velocity.stalledDays}+ days
+                  </span>
+                )}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {!velocity || velocity.stalledDeals.length === 0 ? (
+                <p className="text-sm text-gray-500">No stalled deals</p>
+              ) : (
+                <div className="space-y-3">
+                  {velocity.stalledDeals.slice(0, 8).map((deal) => (
+                    <div key={deal.id} className="flex items-center justify-between text-sm">
+                      <div>
+                        <p className="font-medium text-gray-900">{deal.title}</p>
+                        <p className="text-gray-500">
+                          {stageName(deal.stage)}{deal.assignedUser && ` · ${deal.assignedUser.name}`}
+                        </p>
+                      </div>
+                      <span className="text-yellow-600 font-medium">{deal.daysInStage}d</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
         {/* Detailed Metrics */}
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Pipeline Stages */}
@@ -308,12 +578,12 @@ export default function ReportsPage() {
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
-                {pipelineData.map((stage, index) => (
+                {pipelineData.map((stage) => (
                   <div key={stage.name} className="flex items-center justify-between">
                     <div className="flex items-center">
                       <div 
                         className="w-3 h-3 rounded-full mr-3"
-                        style={{ backgroundColor: COLORS[index] }}
+                        style={{ backgroundColor: stage.color }}
                       />
                       <span className="text-sm font-medium">{stage.name}</span>
                     </div>
@@ -386,7 +656,7 @@ export default function ReportsPage() {
           </Card>
         </div>
       </div>
-      </RoleGuard>
+      </PermissionGuard>
     </Layout>
   );
 } 
\ No newline at end of file
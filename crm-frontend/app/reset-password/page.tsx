@@ -0,0 +1,132 @@
+'use client'
+
+import { Suspense, useState } from 'react'
+import Link from 'next/link'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { useForm } from 'react-hook-form'
+import { toast } from 'react-hot-toast'
+import { Loader2 } from 'lucide-react'
+import api from '@/lib/api'
+
+interface ResetPasswordForm {
+  password: string
+  confirmPassword: string
+}
+
+function ResetPasswordForm() {
+  const [isLoading, setIsLoading] = useState(false)
+  const router = useRouter()
+  const token = useSearchParams().get('token')
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors },
+  } = useForm<ResetPasswordForm>()
+
+  const onSubmit = async (data: ResetPasswordForm) => {
+    setIsLoading(true)
+    try {
+      await api.post('/auth/reset-password', { token, password: data.password })
+      toast.success('Password reset, please sign in')
+      router.push('/login')
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to reset password')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  if (!token) {
+    return (
+      <p className="text-center text-sm text-gray-700">
+        This reset link is incomplete.{' '}
+        <Link href="/forgot-password" className="font-medium text-primary-600 hover:text-primary-500">
+          Request a new one
+        </Link>
+      </p>
+    )
+  }
+
+  return (
+    <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
+      <div className="space-y-4">
+        <div>
+          <label htmlFor="password" className="sr-only">
+            New password
+          </label>
+          <input
+            {...register('password', {
+              required: 'Password is required',
+              minLength: {
+                value: 6,
+                message: 'Password must be at least 6 characters',
+              },
+            })}
+            id="password"
+            type="password"
+            autoComplete="new-password"
+            className={`input rounded-md ${errors.password ? 'border-red-500' : ''}`}
+            placeholder="New password"
+          />
+          {errors.password && (
+            <p className="mt-1 text-sm text-red-600">{errors.password.message}</p>
+          )}
+        </div>
+        <div>
+          <label htmlFor="confirmPassword" className="sr-only">
+            Confirm new password
+          </label>
+          <input
+            {...register('confirmPassword', {
+              validate: (value) => value === watch('password') || 'Passwords do not match',
+            })}
+            id="confirmPassword"
+            type="password"
+            autoComplete="new-password"
+            className={`input rounded-md ${errors.confirmPassword ? 'border-red-500' : ''}`}
+            placeholder="Confirm new password"
+          />
+          {errors.confirmPassword && (
+            <p className="mt-1 text-sm text-red-600">{errors.confirmPassword.message}</p>
+          )}
+        </div>
+      </div>
+
+      <div>
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isLoading ? (
+            <Loader2 className="h-5 w-5 animate-spin" />
+          ) : (
+            'Set new password'
+          )}
+        </button>
+      </div>
+    </form>
+  )
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            Choose a new password
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            You will be signed out everywhere else
+          </p>
+        </div>
+        <Suspense>
+          <ResetPasswordForm />
+        </Suspense>
+      </div>
+    </div>
+  )
+}
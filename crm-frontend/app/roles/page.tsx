@@ -0,0 +1,329 @@
+'use client'
+
+import { useState, useEffect } from 'react';
+import Layout from '@/components/layout/Layout';
+import PermissionGuard from '@/components/auth/PermissionGuard';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Input from '@/components/ui/Input';
+import { Plus, Edit, Trash2, ShieldCheck } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import api from '@/lib/api';
+
+interface Role {
+  id: number;
+  name: string;
+  description?: string | null;
+  permissions: string[];
+  is_system: boolean;
+  mfa_required: boolean;
+  userCount: number;
+}
+
+// Group permissions such as leads:view and leads:edit under their area
+const groupPermissions = (permissions: string[]) => {
+  const groups: Record<string, string[]> = {};
+  permissions.forEach((permission) => {
+    const [area] = permission.split(':');
+    groups[area] = [...(groups[area] || []), permission];
+  });
+  return groups;
+};
+
+export default function RolesPage() {
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [permissions, setPermissions] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [editingRole, setEditingRole] = useState<Role | null>(null);
+  const [formData, setFormData] = useState({
+    name: '',
+    description: '',
+    permissions: [] as string[],
+    mfaRequired: false
+  });
+
+  useEffect(() => {
+    fetchRoles();
+  }, []);
+
+  const fetchRoles = async () => {
+    try {
+      const [rolesResponse, permissionsResponse] = await Promise.all([
+        api.get('/roles'),
+        api.get('/roles/permissions')
+      ]);
+      setRoles(rolesResponse.data.data.roles);
+      setPermissions(permissionsResponse.data.data.permissions);
+    } catch (error) {
+      toast.error('Failed to fetch roles');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    try {
+      await api.post('/roles', formData);
+      await fetchRoles();
+      setShowCreateModal(false);
+      resetForm();
+      toast.success('Role created successfully');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to create role');
+    }
+  };
+
+  const handleUpdate = async () => {
+    if (!editingRole) return;
+
+    try {
+      await api.put(`/roles/${editingRole.id}`, {
+        description: formData.description,
+        permissions: editingRole.name === 'admin' ? undefined : formData.permissions,
+        mfaRequired: formData.mfaRequired
+      });
+      await fetchRoles();
+      setEditingRole(null);
+      resetForm();
+      toast.success('Role updated successfully');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to update role');
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    if (!confirm('Are you sure you want to delete this role?')) return;
+
+    try {
+      await api.delete(`/roles/${id}`);
+      setRoles(roles.filter(role => role.id !== id));
+      toast.success('Role deleted successfully');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to delete role');
+    }
+  };
+
+  const togglePermission = (permission: string) => {
+    setFormData({
+      ...formData,
+      permissions: formData.permissions.includes(permission)
+        ? formData.permissions.filter(p => p !== permission)
+        : [...formData.permissions, permission]
+    });
+  };
+
+  const resetForm = () => {
+    setFormData({
+      name: '',
+      description: '',
+      permissions: [],
+      mfaRequired: false
+    });
+  };
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 mx-auto"></div>
+            <p className="mt-2 text-gray-600">Loading roles...</p>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  const permissionsLocked = editingRole?.name === 'admin';
+
+  return (
+    <Layout>
+      <PermissionGuard permissions={['roles:manage']}>
+        <div className="space-y-6">
+          {/* Header */}
+          <div className="flex justify-between items-center">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Roles</h1>
+              <p className="text-gray-600">Decide what each role is allowed to do</p>
+            </div>
+            <Button onClick={() => setShowCreateModal(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Role
+            </Button>
+          </div>
+
+          {/* Roles List */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Roles</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Role
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Permissions
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Users
+                      </th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Actions
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {roles.map((role) => (
+                      <tr key={role.id} className="hover:bg-gray-50">
+                        <td className="px-6 py-4">
+                          <div className="text-sm font-medium text-gray-900">
+                            {role.name}
+                            {role.is_system && (
+                              <span className="ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-gray-100 text-gray-700">
+                                Built-in
+                              </span>
+                            )}
+                            {role.mfa_required && (
+                              <span className="ml-2 inline-flex items-center px-2 py-0.5 text-xs font-semibold rounded-full bg-green-100 text-green-800">
+                                <ShieldCheck className="h-3 w-3 mr-1" />
+                                MFA required
+                              </span>
+                            )}
+                          </div>
+                          {role.description && (
+                            <div className="text-sm text-gray-500">{role.description}</div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-700">
+                          {role.permissions.length} of {permissions.length}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                          {role.userCount}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                          <div className="flex justify-end space-x-2">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => {
+                                setEditingRole(role);
+                                setFormData({
+                                  name: role.name,
+                                  description: role.description || '',
+                                  permissions: role.permissions,
+                                  mfaRequired: role.mfa_required
+                                });
+                              }}
+                            >
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            {!role.is_system && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleDelete(role.id)}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Create/Edit Modal */}
+        {(showCreateModal || editingRole) && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-lg p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto">
+              <h2 className="text-xl font-bold mb-4">
+                {editingRole ? 'Edit Role' : 'Add Role'}
+              </h2>
+              <div className="space-y-4">
+                <Input
+                  label="Name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  helperText="Lowercase letters, numbers, dashes and underscores, e.g. sales-manager"
+                  disabled={!!editingRole}
+                  required
+                />
+                <Input
+                  label="Description"
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                />
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    className="mr-2"
+                    checked={formData.mfaRequired}
+                    onChange={(e) => setFormData({ ...formData, mfaRequired: e.target.checked })}
+                  />
+                  Require two-factor authentication to sign in
+                </label>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Permissions
+                  </label>
+                  {permissionsLocked && (
+                    <p className="mb-2 text-xs text-gray-500">The admin role always has every permission</p>
+                  )}
+                  <div className="space-y-3">
+                    {Object.entries(groupPermissions(permissions)).map(([area, areaPermissions]) => (
+                      <div key={area}>
+                        <p className="text-xs font-semibold uppercase text-gray-500 mb-1">{area}</p>
+                        <div className="flex flex-wrap gap-3">
+                          {areaPermissions.map((permission) => (
+                            <label key={permission} className="flex items-center text-sm">
+                              <input
+                                type="checkbox"
+                                className="mr-2"
+                                checked={formData.permissions.includes(permission)}
+                                onChange={() => togglePermission(permission)}
+                                disabled={permissionsLocked}
+                              />
+                              {permission.split(':')[1].replace('_', ' ')}
+                            </label>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+              <div className="flex justify-end space-x-2 mt-6">
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    setShowCreateModal(false);
+                    setEditingRole(null);
+                    resetForm();
+                  }}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  onClick={editingRole ? handleUpdate : handleCreate}
+                  disabled={!formData.name}
+                >
+                  {editingRole ? 'Update' : 'Create'}
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </PermissionGuard>
+    </Layout>
+  );
+}
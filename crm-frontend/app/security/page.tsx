@@ -0,0 +1,262 @@
+'use client'
+
+import { useState, useEffect } from 'react';
+import Layout from '@/components/layout/Layout';
+import PermissionGuard from '@/components/auth/PermissionGuard';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Input from '@/components/ui/Input';
+import { toast } from 'react-hot-toast';
+import api from '@/lib/api';
+import { formatDateTime } from '@/lib/utils';
+
+type SecurityEventType = 'login_succeeded' | 'login_failed' | 'login_blocked' | 'account_locked' | 'account_unlocked';
+
+interface SecurityEvent {
+  id: number;
+  event: SecurityEventType;
+  user_id?: number | null;
+  user?: { id: number; name: string; email: string } | null;
+  email?: string | null;
+  actor?: { id: number; name: string; email: string } | null;
+  details: { reason?: string; failedAttempts?: number; minutes?: number };
+  ip_address?: string | null;
+  user_agent?: string | null;
+  createdAt: string;
+}
+
+interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  pages: number;
+}
+
+const eventLabels: Record<SecurityEventType, string> = {
+  login_succeeded: 'Signed in',
+  login_failed: 'Failed login',
+  login_blocked: 'Login blocked',
+  account_locked: 'Account locked',
+  account_unlocked: 'Account unlocked'
+};
+
+const eventColors: Record<SecurityEventType, string> = {
+  login_succeeded: 'bg-green-100 text-green-800',
+  login_failed: 'bg-yellow-100 text-yellow-800',
+  login_blocked: 'bg-orange-100 text-orange-800',
+  account_locked: 'bg-red-100 text-red-800',
+  account_unlocked: 'bg-blue-100 text-blue-800'
+};
+
+const reasonLabels: Record<string, string> = {
+  unknown_email: 'Unknown email',
+  invalid_password: 'Wrong password',
+  invalid_mfa_code: 'Wrong authenticator code',
+  invalid_recovery_code: 'Wrong recovery code',
+  account_locked: 'Account is locked',
+  ip_blocked: 'Too many failures from this address',
+  admin: 'Unlocked by an admin',
+  password_reset: 'Password was reset'
+};
+
+const describeEvent = (entry: SecurityEvent) => {
+  if (entry.event === 'account_locked') {
+    return `${entry.details.failedAttempts} failed attempts, locked for ${entry.details.minutes} minutes`;
+  }
+  const reason = entry.details.reason ? reasonLabels[entry.details.reason] || entry.details.reason : '';
+  return entry.actor ? `${reason} (${entry.actor.name})` : reason;
+};
+
+export default function SecurityLogPage() {
+  const [events, setEvents] = useState<SecurityEvent[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [page, setPage] = useState(1);
+  const [filters, setFilters] = useState({
+    event: '',
+    email: '',
+    ip: '',
+    startDate: '',
+    endDate: ''
+  });
+
+  useEffect(() => {
+    fetchEvents();
+  }, [filters, page]);
+
+  const fetchEvents = async () => {
+    try {
+      const params: Record<string, string | number> = { page };
+      if (filters.event) params.event = filters.event;
+      if (filters.email) params.email = filters.email;
+      if (filters.ip) params.ip = filters.ip;
+      if (filters.startDate) params.startDate = new Date(filters.startDate).toISOString();
+      if (filters.endDate) params.endDate = new Date(`${filters.endDate}T23:59:59`).toISOString();
+
+      const response = await api.get('/security-events', { params });
+      setEvents(response.data.data.events);
+      setPagination(response.data.data.pagination);
+    } catch (error) {
+      toast.error('Failed to fetch security log');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateFilter = (key: keyof typeof filters, value: string) => {
+    setFilters({ ...filters, [key]: value });
+    setPage(1);
+  };
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 mx-auto"></div>
+            <p className="mt-2 text-gray-600">Loading security log...</p>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <PermissionGuard permissions={['audit:view']}>
+        <div className="space-y-6">
+          {/* Header */}
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Security Log</h1>
+            <p className="text-gray-600">Sign-in attempts, lockouts and unlocks</p>
+          </div>
+
+          {/* Filters */}
+          <Card>
+            <CardContent className="p-4">
+              <div className="grid grid-cols-1 gap-4 md:grid-cols-5">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Event
+                  </label>
+                  <select
+                    value={filters.event}
+                    onChange={(e) => updateFilter('event', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  >
+                    <option value="">All events</option>
+                    {Object.entries(eventLabels).map(([event, label]) => (
+                      <option key={event} value={event}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <Input
+                  label="Email"
+                  value={filters.email}
+                  onChange={(e) => updateFilter('email', e.target.value)}
+                />
+                <Input
+                  label="IP address"
+                  value={filters.ip}
+                  onChange={(e) => updateFilter('ip', e.target.value)}
+                />
+                <Input
+                  label="From"
+                  type="date"
+                  value={filters.startDate}
+                  onChange={(e) => updateFilter('startDate', e.target.value)}
+                />
+                <Input
+                  label="To"
+                  type="date"
+                  value={filters.endDate}
+                  onChange={(e) => updateFilter('endDate', e.target.value)}
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Events */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Events</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {events.length === 0 ? (
+                <p className="text-sm text-gray-500">No events match these filters</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          When
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Event
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Account
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Details
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {events.map((entry) => (
+                        <tr key={entry.id} className="align-top hover:bg-gray-50">
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                            {formatDateTime(entry.createdAt)}
+                            {entry.ip_address && (
+                              <div className="text-xs text-gray-500">{entry.ip_address}</div>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${eventColors[entry.event]}`}>
+                              {eventLabels[entry.event]}
+                            </span>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {entry.user?.name || <span className="text-gray-500">Unknown account</span>}
+                            <div className="text-xs text-gray-500">{entry.email}</div>
+                          </td>
+                          <td className="px-6 py-4 text-sm text-gray-700">
+                            {describeEvent(entry)}
+                            {entry.user_agent && (
+                              <div className="text-xs text-gray-400 truncate max-w-xs" title={entry.user_agent}>
+                                {entry.user_agent}
+                              </div>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {pagination && pagination.pages > 1 && (
+                <div className="flex justify-between items-center mt-4">
+                  <p className="text-sm text-gray-600">
+                    Page {pagination.page} of {pagination.pages}
+                  </p>
+                  <div className="flex space-x-2">
+                    <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                      Previous
+                    </Button>
+                    <Button variant="outline" size="sm" disabled={page >= pagination.pages} onClick={() => setPage(page + 1)}>
+                      Next
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </PermissionGuard>
+    </Layout>
+  );
+}
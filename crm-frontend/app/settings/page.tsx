@@ -0,0 +1,667 @@
+'use client'
+
+import { useState, useEffect } from 'react';
+import Layout from '@/components/layout/Layout';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Input from '@/components/ui/Input';
+import { MfaProvisioning, MfaProvisioningDetails, RecoveryCodeList } from '@/components/auth/MfaSetup';
+import { useAuth } from '@/contexts/AuthContext';
+import { ShieldCheck, ShieldOff, KeyRound, Plus, Trash2, User, Lock, SlidersHorizontal } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import api from '@/lib/api';
+import { formatDateTime } from '@/lib/utils';
+
+type MfaAction = 'enroll' | 'recovery-codes' | 'disable' | null;
+
+interface ApiKey {
+  id: number;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  expires_at: string;
+  last_used_at?: string | null;
+  last_used_ip?: string | null;
+  revoked_at?: string | null;
+  createdAt: string;
+}
+
+const locales = ['en-US', 'en-GB', 'de-DE', 'es-ES', 'fr-FR', 'it-IT', 'nl-NL', 'pt-BR', 'ja-JP'];
+
+const notificationLabels: Record<string, string> = {
+  task_assigned: 'A task is assigned to me',
+  task_due: 'A task of mine is due',
+  lead_assigned: 'A lead is assigned to me'
+};
+
+const apiKeyStatus = (apiKey: ApiKey) => {
+  if (apiKey.revoked_at) return { label: 'Revoked', className: 'bg-gray-100 text-gray-700' };
+  if (new Date(apiKey.expires_at) <= new Date()) return { label: 'Expired', className: 'bg-yellow-100 text-yellow-800' };
+  return { label: 'Active', className: 'bg-green-100 text-green-800' };
+};
+
+function ProfileCard() {
+  const { user, refreshUser } = useAuth();
+  const [name, setName] = useState(user?.name || '');
+  const [email, setEmail] = useState(user?.email || '');
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const emailChanged = !!user && email !== user.email;
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await api.put('/auth/me', emailChanged ? { name, email, currentPassword } : { name });
+      await refreshUser();
+      setCurrentPassword('');
+      toast.success(emailChanged ? 'Profile updated, check your inbox to verify the new email' : 'Profile updated');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to update profile');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="max-w-2xl">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <User className="h-5 w-5 mr-2 text-gray-500" />
+          Profile
+        </CardTitle>
+        <CardDescription>
+          Your name as others see it, and the email you sign in with.
+          {user && !user.email_verified_at && ' Your email is not verified yet.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Input label="Name" value={name} onChange={(e) => setName(e.target.value)} autoComplete="name" />
+        <Input label="Email" type="email" value={email} onChange={(e) => setEmail(e.target.value)} autoComplete="email" />
+        {emailChanged && (
+          <Input
+            label="Current password"
+            type="password"
+            value={currentPassword}
+            onChange={(e) => setCurrentPassword(e.target.value)}
+            autoComplete="current-password"
+            helperText="Needed to change your email. You will be asked to verify the new address."
+          />
+        )}
+        <div className="flex justify-end">
+          <Button
+            onClick={handleSave}
+            loading={saving}
+            disabled={name.trim().length < 2 || !email || (emailChanged && !currentPassword)}
+          >
+            Save
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function PasswordCard() {
+  const [formData, setFormData] = useState({ currentPassword: '', newPassword: '', confirmPassword: '' });
+  const [saving, setSaving] = useState(false);
+
+  const mismatch = !!formData.confirmPassword && formData.newPassword !== formData.confirmPassword;
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const response = await api.put('/auth/me/password', {
+        currentPassword: formData.currentPassword,
+        newPassword: formData.newPassword
+      });
+      const { revokedSessions } = response.data.data;
+      setFormData({ currentPassword: '', newPassword: '', confirmPassword: '' });
+      toast.success(revokedSessions
+        ? `Password changed, ${revokedSessions} other sessions signed out`
+        : 'Password changed');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to change password');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="max-w-2xl">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Lock className="h-5 w-5 mr-2 text-gray-500" />
+          Password
+        </CardTitle>
+        <CardDescription>
+          Changing your password signs you out everywhere else.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Input
+          label="Current password"
+          type="password"
+          value={formData.currentPassword}
+          onChange={(e) => setFormData({ ...formData, currentPassword: e.target.value })}
+          autoComplete="current-password"
+        />
+        <Input
+          label="New password"
+          type="password"
+          value={formData.newPassword}
+          onChange={(e) => setFormData({ ...formData, newPassword: e.target.value })}
+          autoComplete="new-password"
+          helperText="At least 6 characters"
+        />
+        <Input
+          label="Confirm new password"
+          type="password"
+          value={formData.confirmPassword}
+          onChange={(e) => setFormData({ ...formData, confirmPassword: e.target.value })}
+          autoComplete="new-password"
+          error={mismatch ? 'Passwords do not match' : undefined}
+        />
+        <div className="flex justify-end">
+          <Button
+            onClick={handleSave}
+            loading={saving}
+            disabled={!formData.currentPassword || formData.newPassword.length < 6 || formData.newPassword !== formData.confirmPassword}
+          >
+            Change password
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function PreferencesCard() {
+  const { user, refreshUser } = useAuth();
+  const [timezone, setTimezone] = useState(user?.timezone || '');
+  const [locale, setLocale] = useState(user?.locale || '');
+  const [notifications, setNotifications] = useState<Record<string, boolean>>(user?.notification_preferences || {});
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await api.put('/auth/me', {
+        timezone: timezone || null,
+        locale: locale || null,
+        notificationPreferences: notifications
+      });
+      await refreshUser();
+      toast.success('Preferences saved');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to save preferences');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="max-w-2xl">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <SlidersHorizontal className="h-5 w-5 mr-2 text-gray-500" />
+          Preferences
+        </CardTitle>
+        <CardDescription>
+          How dates and amounts are shown, and which emails you get.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Time zone</label>
+            <select
+              value={timezone}
+              onChange={(e) => setTimezone(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="">Browser default</option>
+              {Intl.supportedValuesOf('timeZone').map((zone) => (
+                <option key={zone} value={zone}>{zone}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Language and region</label>
+            <select
+              value={locale}
+              onChange={(e) => setLocale(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="">Browser default</option>
+              {locales.map((tag) => (
+                <option key={tag} value={tag}>
+                  {new Intl.DisplayNames([tag], { type: 'language' }).of(tag)}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <div>
+          <div className="text-sm font-medium text-gray-700 mb-2">Email me when</div>
+          <div className="space-y-2">
+            {Object.entries(notificationLabels).map(([type, label]) => (
+              <label key={type} className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={notifications[type] ?? true}
+                  onChange={(e) => setNotifications({ ...notifications, [type]: e.target.checked })}
+                  className="mr-2 rounded border-gray-300"
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+        </div>
+        <div className="flex justify-end">
+          <Button onClick={handleSave} loading={saving}>Save</Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function TwoFactorCard() {
+  const { user, refreshUser } = useAuth();
+  const [action, setAction] = useState<MfaAction>(null);
+  const [provisioning, setProvisioning] = useState<MfaProvisioning | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const reset = () => {
+    setAction(null);
+    setProvisioning(null);
+    setCode('');
+    setPassword('');
+  };
+
+  const startEnrollment = async () => {
+    setSaving(true);
+    try {
+      const response = await api.post('/auth/mfa/setup');
+      setProvisioning(response.data.data);
+      setRecoveryCodes(null);
+      setAction('enroll');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to start setup');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEnable = async () => {
+    setSaving(true);
+    try {
+      const response = await api.post('/auth/mfa/enable', { code });
+      setRecoveryCodes(response.data.data.recoveryCodes);
+      reset();
+      await refreshUser();
+      toast.success('Two-factor authentication enabled');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to enable two-factor authentication');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    setSaving(true);
+    try {
+      const response = await api.post('/auth/mfa/recovery-codes', { code });
+      setRecoveryCodes(response.data.data.recoveryCodes);
+      reset();
+      toast.success('New recovery codes generated');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to generate recovery codes');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    setSaving(true);
+    try {
+      await api.post('/auth/mfa/disable', { password });
+      setRecoveryCodes(null);
+      reset();
+      await refreshUser();
+      toast.success('Two-factor authentication disabled');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to disable two-factor authentication');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="max-w-2xl">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          {user?.mfa_enabled ? (
+            <ShieldCheck className="h-5 w-5 mr-2 text-green-600" />
+          ) : (
+            <ShieldOff className="h-5 w-5 mr-2 text-gray-400" />
+          )}
+          Two-factor authentication
+        </CardTitle>
+        <CardDescription>
+          {user?.mfa_enabled
+            ? 'On. Signing in asks for a code from your authenticator app.'
+            : 'Off. Add a code from an authenticator app to your sign in.'}
+          {user?.mfaRequired && ' Your role requires it.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {recoveryCodes && <RecoveryCodeList codes={recoveryCodes} />}
+
+        {action === 'enroll' && provisioning && (
+          <div className="space-y-4">
+            <MfaProvisioningDetails provisioning={provisioning} />
+            <Input
+              label="Code from the app"
+              value={code}
+              onChange={(e) => setCode(e.target.value.trim())}
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              placeholder="123456"
+            />
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={reset}>Cancel</Button>
+              <Button onClick={handleEnable} loading={saving} disabled={!code}>Enable</Button>
+            </div>
+          </div>
+        )}
+
+        {action === 'recovery-codes' && (
+          <div className="space-y-4">
+            <Input
+              label="Code from your authenticator app"
+              value={code}
+              onChange={(e) => setCode(e.target.value.trim())}
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              placeholder="123456"
+              helperText="Your current recovery codes stop working"
+            />
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={reset}>Cancel</Button>
+              <Button onClick={handleRegenerate} loading={saving} disabled={!code}>Generate</Button>
+            </div>
+          </div>
+        )}
+
+        {action === 'disable' && (
+          <div className="space-y-4">
+            <Input
+              label="Current password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete="current-password"
+            />
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={reset}>Cancel</Button>
+              <Button variant="danger" onClick={handleDisable} loading={saving} disabled={!password}>
+                Disable
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {!action && (
+          <div className="flex space-x-2">
+            {user?.mfa_enabled ? (
+              <>
+                <Button variant="outline" onClick={() => setAction('recovery-codes')}>
+                  New recovery codes
+                </Button>
+                {!user.mfaRequired && (
+                  <Button variant="danger" onClick={() => setAction('disable')}>
+                    Disable
+                  </Button>
+                )}
+              </>
+            ) : (
+              <Button onClick={startEnrollment} loading={saving}>
+                Set up two-factor authentication
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Personal API keys let scripts act as the user with a subset of their permissions
+function ApiKeysCard() {
+  const { user } = useAuth();
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [showCreate, setShowCreate] = useState(false);
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState({
+    name: '',
+    scopes: [] as string[],
+    expiresInDays: '90'
+  });
+
+  useEffect(() => {
+    fetchApiKeys();
+  }, []);
+
+  const fetchApiKeys = async () => {
+    try {
+      const response = await api.get('/api-keys');
+      setApiKeys(response.data.data.apiKeys);
+    } catch (error) {
+      toast.error('Failed to fetch API keys');
+    }
+  };
+
+  const toggleScope = (scope: string) => {
+    setFormData({
+      ...formData,
+      scopes: formData.scopes.includes(scope)
+        ? formData.scopes.filter(s => s !== scope)
+        : [...formData.scopes, scope]
+    });
+  };
+
+  const handleCreate = async () => {
+    setSaving(true);
+    try {
+      const response = await api.post('/api-keys', {
+        name: formData.name,
+        scopes: formData.scopes,
+        expiresInDays: parseInt(formData.expiresInDays)
+      });
+      setApiKeys([response.data.data.apiKey, ...apiKeys]);
+      setCreatedKey(response.data.data.key);
+      setShowCreate(false);
+      setFormData({ name: '', scopes: [], expiresInDays: '90' });
+      toast.success('API key created');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to create API key');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async (id: number) => {
+    if (!confirm('Revoke this API key? Scripts using it will stop working.')) return;
+
+    try {
+      const response = await api.delete(`/api-keys/${id}`);
+      setApiKeys(apiKeys.map(apiKey => apiKey.id === id ? response.data.data.apiKey : apiKey));
+      toast.success('API key revoked');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to revoke API key');
+    }
+  };
+
+  const copyKey = async () => {
+    if (!createdKey) return;
+    try {
+      await navigator.clipboard.writeText(createdKey);
+      toast.success('API key copied');
+    } catch (error) {
+      toast.error('Failed to copy API key');
+    }
+  };
+
+  return (
+    <Card className="max-w-2xl">
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <div>
+            <CardTitle className="flex items-center">
+              <KeyRound className="h-5 w-5 mr-2 text-gray-500" />
+              API keys
+            </CardTitle>
+            <CardDescription>
+              For scripts and integrations. Send a key in the X-API-Key header.
+            </CardDescription>
+          </div>
+          {!showCreate && (
+            <Button size="sm" onClick={() => setShowCreate(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              New key
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {createdKey && (
+          <div className="space-y-2 rounded-md border border-green-200 bg-green-50 p-4">
+            <p className="text-sm text-green-800">
+              Copy your new key now. It will not be shown again.
+            </p>
+            <code className="block break-all rounded bg-white px-3 py-2 text-sm text-gray-800">{createdKey}</code>
+            <div className="flex space-x-2">
+              <Button size="sm" variant="outline" onClick={copyKey}>Copy</Button>
+              <Button size="sm" variant="ghost" onClick={() => setCreatedKey(null)}>Done</Button>
+            </div>
+          </div>
+        )}
+
+        {showCreate && (
+          <div className="space-y-4">
+            <Input
+              label="Name"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              placeholder="Nightly export"
+            />
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Expires after
+              </label>
+              <select
+                value={formData.expiresInDays}
+                onChange={(e) => setFormData({ ...formData, expiresInDays: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              >
+                <option value="7">7 days</option>
+                <option value="30">30 days</option>
+                <option value="90">90 days</option>
+                <option value="365">1 year</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Scopes
+              </label>
+              <div className="flex flex-wrap gap-3">
+                {(user?.permissions || []).map((permission) => (
+                  <label key={permission} className="flex items-center text-sm">
+                    <input
+                      type="checkbox"
+                      className="mr-2"
+                      checked={formData.scopes.includes(permission)}
+                      onChange={() => toggleScope(permission)}
+                    />
+                    {permission}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setShowCreate(false)}>Cancel</Button>
+              <Button
+                onClick={handleCreate}
+                loading={saving}
+                disabled={!formData.name || formData.scopes.length === 0}
+              >
+                Create
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {apiKeys.length === 0 ? (
+          <p className="text-sm text-gray-500">You have no API keys</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {apiKeys.map((apiKey) => {
+              const status = apiKeyStatus(apiKey);
+              return (
+                <li key={apiKey.id} className="flex justify-between items-start py-3">
+                  <div>
+                    <div className="text-sm font-medium text-gray-900">
+                      {apiKey.name}
+                      <span className={`ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${status.className}`}>
+                        {status.label}
+                      </span>
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      <code>{apiKey.prefix}…</code> · {apiKey.scopes.join(', ')}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {apiKey.last_used_at
+                        ? `Last used ${formatDateTime(apiKey.last_used_at)}${apiKey.last_used_ip ? ` from ${apiKey.last_used_ip}` : ''}`
+                        : 'Never used'}
+                      {' · '}Expires {formatDateTime(apiKey.expires_at)}
+                    </div>
+                  </div>
+                  {status.label === 'Active' && (
+                    <Button variant="ghost" size="sm" title="Revoke" onClick={() => handleRevoke(apiKey.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function SettingsPage() {
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Settings</h1>
+          <p className="text-gray-600">Manage your profile, preferences, sign-in and API access</p>
+        </div>
+
+        <ProfileCard />
+        <PasswordCard />
+        <PreferencesCard />
+        <TwoFactorCard />
+        <ApiKeysCard />
+      </div>
+    </Layout>
+  );
+}
@@ -1,11 +1,12 @@
 'use client'
 
 import { useState, useEffect } from 'react';
-import { useData } from '@/contexts/DataContext';
+import { useData, CustomFieldValues } from '@/contexts/DataContext';
 import { useAuth } from '@/contexts/AuthContext';
 import Layout from '@/components/layout/Layout';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
 import Button from '@/components/ui/Button';
+import CustomFieldInputs from '@/components/ui/CustomFieldInputs';
 import { 
   Plus, 
   CheckCircle, 
@@ -31,6 +32,7 @@ interface Task {
   dueDate?: string;
   assignedTo?: number;
   customerId?: number;
+  customFields?: CustomFieldValues;
   customer?: {
     id: number;
     name: string;
@@ -58,8 +60,8 @@ const priorityColors = {
 };
 
 export default function TasksPage() {
-  const { tasks, setTasks, customers, fetchCustomers } = useData();
-  const { user, loading: authLoading } = useAuth();
+  const { tasks, setTasks, customers, fetchCustomers, customFieldDefinitions, fetchCustomFieldDefinitions } = useData();
+  const { user, loading: authLoading, hasPermission } = useAuth();
   const [loading, setLoading] = useState(true);
   const [filterStatus, setFilterStatus] = useState<string>('all');
   const [filterPriority, setFilterPriority] = useState<string>('all');
@@ -72,13 +74,15 @@ export default function TasksPage() {
     status: 'pending' as 'pending' | 'in-progress' | 'completed',
     priority: 'medium' as 'low' | 'medium' | 'high',
     dueDate: '',
-    customerId: ''
+    customerId: '',
+    customFields: {} as CustomFieldValues
   });
 
   useEffect(() => {
     if (!authLoading && user) {
       fetchTasks();
       fetchCustomers();
+      fetchCustomFieldDefinitions();
     } else if (!authLoading && !user) {
       setLoading(false);
       toast.error('Please log in to view tasks');
@@ -174,10 +178,13 @@ export default function TasksPage() {
       status: 'pending',
       priority: 'medium',
       dueDate: '',
-      customerId: ''
+      customerId: '',
+      customFields: {}
     });
   };
 
+  const taskFields = customFieldDefinitions.filter(field => field.entity === 'task');
+
   const isOverdue = (dueDate: string) => {
     return new Date(dueDate) < new Date() && new Date(dueDate).getTime() !== 0;
   };
@@ -408,20 +415,23 @@ export default function TasksPage() {
                           status: task.status,
                           priority: task.priority,
                           dueDate: task.dueDate || '',
-                          customerId: task.customerId?.toString() || ''
+                          customerId: task.customerId?.toString() || '',
+                          customFields: task.customFields || {}
                         });
                         setShowEditModal(true);
                       }}
                     >
                       <Edit className="h-4 w-4" />
                     </Button>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => handleDelete(task.id)}
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
+                    {hasPermission('tasks:delete') && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(task.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
                     {task.status !== 'completed' && (
                       <Button
                         size="sm"
@@ -458,7 +468,7 @@ export default function TasksPage() {
       {/* Create Task Modal */}
       {showCreateModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-          <div className="bg-white rounded-lg p-6 w-full max-w-md">
+          <div className="bg-white rounded-lg p-6 w-full max-w-md max-h-[90vh] overflow-y-auto">
             <h2 className="text-xl font-bold mb-4">Add New Task</h2>
             <div className="space-y-4">
               <div>
@@ -530,6 +540,12 @@ export default function TasksPage() {
                   ))}
                 </select>
               </div>
+
+              <CustomFieldInputs
+                definitions={taskFields}
+                values={formData.customFields}
+                onChange={(customFields) => setFormData({ ...formData, customFields })}
+              />
             </div>
             <div className="flex justify-end space-x-2 mt-6">
               <Button
@@ -555,7 +571,7 @@ export default function TasksPage() {
       {/* Edit Task Modal */}
       {showEditModal && editingTask && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-          <div className="bg-white rounded-lg p-6 w-full max-w-md">
+          <div className="bg-white rounded-lg p-6 w-full max-w-md max-h-[90vh] overflow-y-auto">
             <h2 className="text-xl font-bold mb-4">Edit Task</h2>
             <div className="space-y-4">
               <div>
@@ -642,6 +658,12 @@ export default function TasksPage() {
                   ))}
                 </select>
               </div>
+
+              <CustomFieldInputs
+                definitions={taskFields}
+                values={formData.customFields}
+                onChange={(customFields) => setFormData({ ...formData, customFields })}
+              />
             </div>
             <div className="flex justify-end space-x-2 mt-6">
               <Button
@@ -1,9 +1,10 @@
 'use client'
 
 import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
 import Layout from '@/components/layout/Layout';
-import RoleGuard from '@/components/auth/RoleGuard';
+import PermissionGuard from '@/components/auth/PermissionGuard';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
 import Button from '@/components/ui/Button';
 import { 
@@ -12,34 +13,113 @@ import {
   Trash2, 
   Shield,
   User,
-  Mail
+  Mail,
+  KeyRound,
+  Unlock,
+  Send,
+  UserX,
+  UserCheck,
+  Eye
 } from 'lucide-react';
 import { toast } from 'react-hot-toast';
 import api from '@/lib/api';
+import { formatDateTime } from '@/lib/utils';
+
+type Visibility = 'own' | 'team' | 'everyone';
 
 interface User {
   id: number;
   name: string;
   email: string;
-  role: 'admin' | 'user';
+  role: string;
+  visibility: Visibility;
+  team_id?: number | null;
+  team?: { id: number; name: string } | null;
+  failed_login_count: number;
+  locked_until?: string | null;
+  is_active: boolean;
+  deactivated_at?: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+interface OpenWork {
+  leads: number;
+  tasks: number;
+}
+
+interface ApiKey {
+  id: number;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  expires_at: string;
+  last_used_at?: string | null;
+  revoked_at?: string | null;
+  user: { id: number; name: string; email: string };
+}
+
+interface Invitation {
+  id: number;
+  email: string;
+  name?: string | null;
+  role: string;
+  expires_at: string;
+  status: 'pending' | 'accepted' | 'revoked' | 'expired';
+  inviter?: { id: number; name: string } | null;
+  createdAt: string;
+}
+
+interface Team {
+  id: number;
+  name: string;
+  manager_id?: number | null;
+  manager?: { id: number; name: string } | null;
+  members: { id: number; name: string }[];
+}
+
+interface Role {
+  id: number;
+  name: string;
+  permissions: string[];
+}
+
+const visibilityLabels: Record<Visibility, string> = {
+  own: 'Own records',
+  team: 'Team records',
+  everyone: 'Everyone'
+};
+
 export default function UsersPage() {
-  const { user: currentUser } = useAuth();
+  const { user: currentUser, hasPermission, startImpersonation } = useAuth();
+  const router = useRouter();
   const [users, setUsers] = useState<User[]>([]);
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [inviteExpiresInDays, setInviteExpiresInDays] = useState(7);
+  const [newTeamName, setNewTeamName] = useState('');
   const [loading, setLoading] = useState(true);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [editingUser, setEditingUser] = useState<User | null>(null);
+  const [deactivatingUser, setDeactivatingUser] = useState<User | null>(null);
+  const [openWork, setOpenWork] = useState<OpenWork | null>(null);
+  const [reassignTo, setReassignTo] = useState<number | ''>('');
   const [formData, setFormData] = useState({
     name: '',
     email: '',
-    role: 'user' as 'admin' | 'user'
+    role: 'user',
+    visibility: 'everyone' as Visibility,
+    teamId: '' as number | ''
   });
 
   useEffect(() => {
     fetchUsers();
+    fetchRoles();
+    fetchTeams();
+    fetchApiKeys();
+    fetchInvitations();
   }, []);
 
   const fetchUsers = async () => {
@@ -53,15 +133,79 @@ export default function UsersPage() {
     }
   };
 
-  const handleCreate = async () => {
+  const fetchRoles = async () => {
     try {
-      const response = await api.post('/auth/register', formData);
-      setUsers([...users, response.data.data.user]);
+      const response = await api.get('/roles');
+      setRoles(response.data.data.roles);
+    } catch (error) {
+      toast.error('Failed to fetch roles');
+    }
+  };
+
+  const fetchTeams = async () => {
+    try {
+      const response = await api.get('/teams');
+      setTeams(response.data.data.teams);
+    } catch (error) {
+      toast.error('Failed to fetch teams');
+    }
+  };
+
+  const fetchApiKeys = async () => {
+    try {
+      const response = await api.get('/api-keys/all');
+      setApiKeys(response.data.data.apiKeys);
+    } catch (error) {
+      toast.error('Failed to fetch API keys');
+    }
+  };
+
+  const fetchInvitations = async () => {
+    try {
+      const response = await api.get('/invitations');
+      setInvitations(response.data.data.invitations);
+    } catch (error) {
+      toast.error('Failed to fetch invitations');
+    }
+  };
+
+  // Roles with records:view_all ignore the visibility setting
+  const seesEveryRecord = (roleName: string) =>
+    !!roles.find(role => role.name === roleName)?.permissions.includes('records:view_all');
+
+  // New users get an email with a link to choose their password
+  const handleInvite = async () => {
+    try {
+      const { name, email, role } = formData;
+      await api.post('/invitations', { name, email, role, expiresInDays: inviteExpiresInDays });
+      await fetchInvitations();
       setShowCreateModal(false);
       resetForm();
-      toast.success('User created successfully');
+      toast.success(`Invitation sent to ${email}`);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to send invitation');
+    }
+  };
+
+  const handleResendInvitation = async (id: number) => {
+    try {
+      await api.post(`/invitations/${id}/resend`);
+      await fetchInvitations();
+      toast.success('Invitation sent again');
     } catch (error: any) {
-      toast.error(error.response?.data?.error || 'Failed to create user');
+      toast.error(error.response?.data?.error || 'Failed to resend invitation');
+    }
+  };
+
+  const handleRevokeInvitation = async (id: number) => {
+    if (!confirm('Revoke this invitation? Its link will stop working.')) return;
+
+    try {
+      await api.delete(`/invitations/${id}`);
+      await fetchInvitations();
+      toast.success('Invitation revoked');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to revoke invitation');
     }
   };
 
@@ -69,10 +213,9 @@ export default function UsersPage() {
     if (!editingUser) return;
     
     try {
-      const response = await api.put(`/users/${editingUser.id}`, formData);
-      setUsers(users.map(u => 
-        u.id === editingUser.id ? response.data.data.user : u
-      ));
+      const { teamId, ...attributes } = formData;
+      await api.put(`/users/${editingUser.id}`, { ...attributes, teamId: teamId || null });
+      await Promise.all([fetchUsers(), fetchTeams()]);
       setEditingUser(null);
       resetForm();
       toast.success('User updated successfully');
@@ -93,15 +236,142 @@ export default function UsersPage() {
     }
   };
 
+  const handleForceReset = async (id: number) => {
+    if (!confirm('Reset this user\'s password? They will be signed out and emailed a link to choose a new one.')) return;
+
+    try {
+      await api.post(`/users/${id}/reset-password`);
+      toast.success('Password reset email sent');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to reset password');
+    }
+  };
+
+  const handleUnlock = async (id: number) => {
+    try {
+      const response = await api.post(`/users/${id}/unlock`);
+      setUsers(users.map(user => user.id === id ? { ...user, ...response.data.data.user } : user));
+      toast.success('User unlocked successfully');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to unlock user');
+    }
+  };
+
+  const openDeactivateWizard = async (user: User) => {
+    setDeactivatingUser(user);
+    setOpenWork(null);
+    setReassignTo('');
+    try {
+      const response = await api.get(`/users/${user.id}/open-work`);
+      setOpenWork(response.data.data.openWork);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to load open work');
+      setDeactivatingUser(null);
+    }
+  };
+
+  const handleDeactivate = async () => {
+    if (!deactivatingUser) return;
+
+    try {
+      const response = await api.post(`/users/${deactivatingUser.id}/deactivate`, { reassignTo: reassignTo || null });
+      const { user, reassigned } = response.data.data;
+      setUsers(users.map(existing => existing.id === user.id ? { ...existing, ...user } : existing));
+      setDeactivatingUser(null);
+      toast.success(reassigned.leads || reassigned.tasks
+        ? `User deactivated, ${reassigned.leads} leads and ${reassigned.tasks} tasks reassigned`
+        : 'User deactivated successfully');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to deactivate user');
+    }
+  };
+
+  const handleReactivate = async (id: number) => {
+    try {
+      const response = await api.post(`/users/${id}/reactivate`);
+      setUsers(users.map(user => user.id === id ? { ...user, ...response.data.data.user } : user));
+      toast.success('User reactivated successfully');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to reactivate user');
+    }
+  };
+
+  const handleImpersonate = async (user: User) => {
+    try {
+      await startImpersonation(user.id);
+      toast.success(`Now viewing the CRM as ${user.name}`);
+      router.push('/dashboard');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to impersonate user');
+    }
+  };
+
+  const handleRevokeApiKey = async (id: number) => {
+    if (!confirm('Revoke this API key? Scripts using it will stop working.')) return;
+
+    try {
+      await api.delete(`/api-keys/${id}`);
+      setApiKeys(apiKeys.filter(apiKey => apiKey.id !== id));
+      toast.success('API key revoked');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to revoke API key');
+    }
+  };
+
+  const isLocked = (user: User) => !!user.locked_until && new Date(user.locked_until) > new Date();
+
+  const handleCreateTeam = async () => {
+    try {
+      const response = await api.post('/teams', { name: newTeamName });
+      setTeams([...teams, response.data.data.team]);
+      setNewTeamName('');
+      toast.success('Team created successfully');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to create team');
+    }
+  };
+
+  const handleChangeManager = async (team: Team, managerId: string) => {
+    try {
+      const response = await api.put(`/teams/${team.id}`, { managerId: managerId ? parseInt(managerId) : null });
+      setTeams(teams.map(t => t.id === team.id ? response.data.data.team : t));
+      toast.success('Team manager updated');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to update team');
+    }
+  };
+
+  const handleDeleteTeam = async (id: number) => {
+    if (!confirm('Are you sure you want to delete this team? Its members will be left without a team.')) return;
+
+    try {
+      await api.delete(`/teams/${id}`);
+      setTeams(teams.filter(t => t.id !== id));
+      await fetchUsers();
+      toast.success('Team deleted successfully');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to delete team');
+    }
+  };
+
   const resetForm = () => {
     setFormData({
       name: '',
       email: '',
-      role: 'user'
+      role: 'user',
+      visibility: 'everyone',
+      teamId: ''
     });
+    setInviteExpiresInDays(7);
   };
 
+  const openInvitations = invitations.filter(invitation =>
+    invitation.status === 'pending' || invitation.status === 'expired'
+  );
 
+  const activeApiKeys = apiKeys.filter(apiKey =>
+    !apiKey.revoked_at && new Date(apiKey.expires_at) > new Date()
+  );
 
   if (loading) {
     return (
@@ -118,7 +388,7 @@ export default function UsersPage() {
 
   return (
     <Layout>
-      <RoleGuard allowedRoles={['admin']}>
+      <PermissionGuard permissions={['users:manage']}>
         <div className="space-y-6">
         {/* Header */}
         <div className="flex justify-between items-center">
@@ -128,7 +398,7 @@ export default function UsersPage() {
           </div>
           <Button onClick={() => setShowCreateModal(true)}>
             <Plus className="h-4 w-4 mr-2" />
-            Add User
+            Invite User
           </Button>
         </div>
 
@@ -148,6 +418,9 @@ export default function UsersPage() {
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Role
                     </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Visibility
+                    </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Created
                     </th>
@@ -167,7 +440,25 @@ export default function UsersPage() {
                             </span>
                           </div>
                           <div className="ml-4">
-                            <div className="text-sm font-medium text-gray-900">{user.name}</div>
+                            <div className="text-sm font-medium text-gray-900">
+                              {user.name}
+                              {isLocked(user) && (
+                                <span
+                                  className="ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800"
+                                  title={`Locked until ${new Date(user.locked_until!).toLocaleString()}`}
+                                >
+                                  Locked
+                                </span>
+                              )}
+                              {!user.is_active && (
+                                <span
+                                  className="ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-gray-100 text-gray-700"
+                                  title={user.deactivated_at ? `Deactivated ${formatDateTime(user.deactivated_at)}` : undefined}
+                                >
+                                  Deactivated
+                                </span>
+                              )}
+                            </div>
                             <div className="text-sm text-gray-500">{user.email}</div>
                           </div>
                         </div>
@@ -181,6 +472,12 @@ export default function UsersPage() {
                           {user.role}
                         </span>
                       </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                        {seesEveryRecord(user.role) ? 'Everyone' : visibilityLabels[user.visibility]}
+                        {user.team && (
+                          <div className="text-xs text-gray-500">Team: {user.team.name}</div>
+                        )}
+                      </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                         {new Date(user.createdAt).toLocaleDateString()}
                       </td>
@@ -194,21 +491,72 @@ export default function UsersPage() {
                               setFormData({
                                 name: user.name,
                                 email: user.email,
-                                role: user.role
+                                role: user.role,
+                                visibility: user.visibility,
+                                teamId: user.team_id || ''
                               });
                             }}
                           >
                             <Edit className="h-4 w-4" />
                           </Button>
-                          {user.id !== currentUser?.id && (
+                          {isLocked(user) && (
                             <Button
                               variant="ghost"
                               size="sm"
-                              onClick={() => handleDelete(user.id)}
+                              title="Unlock account"
+                              onClick={() => handleUnlock(user.id)}
                             >
-                              <Trash2 className="h-4 w-4" />
+                              <Unlock className="h-4 w-4" />
                             </Button>
                           )}
+                          {user.id !== currentUser?.id && (
+                            <>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Force password reset"
+                                onClick={() => handleForceReset(user.id)}
+                              >
+                                <KeyRound className="h-4 w-4" />
+                              </Button>
+                              {user.is_active && hasPermission('users:impersonate') && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  title="Impersonate user"
+                                  onClick={() => handleImpersonate(user)}
+                                >
+                                  <Eye className="h-4 w-4" />
+                                </Button>
+                              )}
+                              {user.is_active ? (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  title="Deactivate user"
+                                  onClick={() => openDeactivateWizard(user)}
+                                >
+                                  <UserX className="h-4 w-4" />
+                                </Button>
+                              ) : (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  title="Reactivate user"
+                                  onClick={() => handleReactivate(user.id)}
+                                >
+                                  <UserCheck className="h-4 w-4" />
+                                </Button>
+                              )}
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleDelete(user.id)}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -218,26 +566,264 @@ export default function UsersPage() {
             </div>
           </CardContent>
         </Card>
+
+        {/* Invitations */}
+        {openInvitations.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Open Invitations</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Invitee
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Role
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Invited by
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Expires
+                      </th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Actions
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {openInvitations.map((invitation) => (
+                      <tr key={invitation.id} className="hover:bg-gray-50">
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="text-sm font-medium text-gray-900">{invitation.name || invitation.email}</div>
+                          {invitation.name && <div className="text-sm text-gray-500">{invitation.email}</div>}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                          {invitation.role}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                          {invitation.inviter?.name || '—'}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                          {invitation.status === 'expired' ? (
+                            <span className="inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-gray-100 text-gray-700">
+                              Expired
+                            </span>
+                          ) : (
+                            <span className="text-gray-500">{formatDateTime(invitation.expires_at)}</span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                          <div className="flex justify-end space-x-2">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Send again"
+                              onClick={() => handleResendInvitation(invitation.id)}
+                            >
+                              <Send className="h-4 w-4" />
+                            </Button>
+                            {invitation.status === 'pending' && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Revoke invitation"
+                                onClick={() => handleRevokeInvitation(invitation.id)}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Teams */}
+        <Card>
+          <CardHeader>
+            <div className="flex justify-between items-center">
+              <CardTitle>Teams</CardTitle>
+              <div className="flex space-x-2">
+                <input
+                  type="text"
+                  value={newTeamName}
+                  onChange={(e) => setNewTeamName(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  placeholder="New team name"
+                />
+                <Button onClick={handleCreateTeam} disabled={!newTeamName.trim()}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Team
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {teams.length === 0 ? (
+              <p className="text-sm text-gray-500">No teams yet</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Team
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Members
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Manager
+                      </th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Actions
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {teams.map((team) => (
+                      <tr key={team.id} className="hover:bg-gray-50">
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                          {team.name}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-700">
+                          {team.members.length > 0
+                            ? team.members.map(member => member.name).join(', ')
+                            : <span className="text-gray-400">No members</span>}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <select
+                            value={team.manager_id || ''}
+                            onChange={(e) => handleChangeManager(team, e.target.value)}
+                            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                          >
+                            <option value="">No manager</option>
+                            {users.map((user) => (
+                              <option key={user.id} value={user.id}>
+                                {user.name}
+                              </option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDeleteTeam(team.id)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* API Keys */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Active API Keys</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {activeApiKeys.length === 0 ? (
+              <p className="text-sm text-gray-500">No active API keys</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Key
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Owner
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Scopes
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Last used
+                      </th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Actions
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {activeApiKeys.map((apiKey) => (
+                      <tr key={apiKey.id} className="hover:bg-gray-50">
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="text-sm font-medium text-gray-900">{apiKey.name}</div>
+                          <div className="text-xs text-gray-500">
+                            <code>{apiKey.prefix}…</code> · expires {formatDateTime(apiKey.expires_at)}
+                          </div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                          {apiKey.user.name}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-700">
+                          {apiKey.scopes.join(', ')}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {apiKey.last_used_at ? formatDateTime(apiKey.last_used_at) : 'Never'}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Revoke API key"
+                            onClick={() => handleRevokeApiKey(apiKey.id)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
       </div>
 
-      {/* Create/Edit Modal */}
+      {/* Invite/Edit Modal */}
       {(showCreateModal || editingUser) && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white rounded-lg p-6 w-full max-w-md">
             <h2 className="text-xl font-bold mb-4">
-              {editingUser ? 'Edit User' : 'Add User'}
+              {editingUser ? 'Edit User' : 'Invite User'}
             </h2>
+            {!editingUser && (
+              <p className="text-sm text-gray-600 mb-4">
+                They will get an email with a link to choose a password and sign in.
+              </p>
+            )}
             <div className="space-y-4">
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Name
+                  {editingUser ? 'Name' : 'Name (optional)'}
                 </label>
                 <input
                   type="text"
                   value={formData.name}
                   onChange={(e) => setFormData({ ...formData, name: e.target.value })}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
-                  required
+                  required={!!editingUser}
                 />
               </div>
               
@@ -260,13 +846,78 @@ export default function UsersPage() {
                 </label>
                 <select
                   value={formData.role}
-                  onChange={(e) => setFormData({ ...formData, role: e.target.value as 'admin' | 'user' })}
+                  onChange={(e) => setFormData({ ...formData, role: e.target.value })}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
                 >
-                  <option value="user">User</option>
-                  <option value="admin">Admin</option>
+                  {roles.map((role) => (
+                    <option key={role.id} value={role.name}>
+                      {role.name}
+                    </option>
+                  ))}
                 </select>
               </div>
+
+              {!editingUser && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Link expires after
+                  </label>
+                  <select
+                    value={inviteExpiresInDays}
+                    onChange={(e) => setInviteExpiresInDays(parseInt(e.target.value))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  >
+                    {[1, 3, 7, 14, 30].map((days) => (
+                      <option key={days} value={days}>
+                        {days === 1 ? '1 day' : `${days} days`}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {editingUser && (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Record Visibility
+                    </label>
+                    <select
+                      value={formData.visibility}
+                      onChange={(e) => setFormData({ ...formData, visibility: e.target.value as Visibility })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                      disabled={seesEveryRecord(formData.role)}
+                    >
+                      {(Object.keys(visibilityLabels) as Visibility[]).map((visibility) => (
+                        <option key={visibility} value={visibility}>
+                          {visibilityLabels[visibility]}
+                        </option>
+                      ))}
+                    </select>
+                    {seesEveryRecord(formData.role) && (
+                      <p className="mt-1 text-xs text-gray-500">This role sees every record</p>
+                    )}
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Team
+                    </label>
+                    <select
+                      value={formData.teamId}
+                      onChange={(e) => setFormData({ ...formData, teamId: e.target.value ? parseInt(e.target.value) : '' })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                    >
+                      <option value="">No team</option>
+                      {teams.map((team) => (
+                        <option key={team.id} value={team.id}>
+                          {team.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </>
+              )}
             </div>
             <div className="flex justify-end space-x-2 mt-6">
               <Button
@@ -280,16 +931,70 @@ export default function UsersPage() {
                 Cancel
               </Button>
               <Button
-                onClick={editingUser ? handleUpdate : handleCreate}
-                disabled={!formData.name || !formData.email}
+                onClick={editingUser ? handleUpdate : handleInvite}
+                disabled={!formData.email || (!!editingUser && !formData.name)}
+              >
+                {editingUser ? 'Update' : 'Send Invitation'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Deactivate Modal */}
+      {deactivatingUser && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-md">
+            <h2 className="text-xl font-bold mb-4">
+              Deactivate {deactivatingUser.name}
+            </h2>
+            <p className="text-sm text-gray-600 mb-4">
+              They will be signed out and can no longer sign in. Their customers, closed leads and history stay as they are.
+            </p>
+            {!openWork ? (
+              <p className="text-sm text-gray-500">Checking open work...</p>
+            ) : openWork.leads + openWork.tasks > 0 ? (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Move {openWork.leads} open leads and {openWork.tasks} open tasks to
+                </label>
+                <select
+                  value={reassignTo}
+                  onChange={(e) => setReassignTo(e.target.value ? parseInt(e.target.value) : '')}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                >
+                  <option value="">Choose a user</option>
+                  {users
+                    .filter(user => user.is_active && user.id !== deactivatingUser.id)
+                    .map((user) => (
+                      <option key={user.id} value={user.id}>
+                        {user.name}
+                      </option>
+                    ))}
+                </select>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">They have no open leads or tasks to hand over.</p>
+            )}
+            <div className="flex justify-end space-x-2 mt-6">
+              <Button
+                variant="outline"
+                onClick={() => setDeactivatingUser(null)}
+              >
+                Cancel
+              </Button>
+              <Button
+                variant="danger"
+                onClick={handleDeactivate}
+                disabled={!openWork || (openWork.leads + openWork.tasks > 0 && !reassignTo)}
               >
-                {editingUser ? 'Update' : 'Create'}
+                Deactivate
               </Button>
             </div>
           </div>
         </div>
       )}
-      </RoleGuard>
+      </PermissionGuard>
     </Layout>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,84 @@
+'use client'
+
+import { Suspense, useEffect, useRef, useState } from 'react'
+import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
+import { CheckCircle, Loader2, XCircle } from 'lucide-react'
+import { useAuth } from '@/contexts/AuthContext'
+import api from '@/lib/api'
+
+type Status = 'verifying' | 'verified' | 'failed'
+
+function VerifyEmailStatus() {
+  const token = useSearchParams().get('token')
+  const { refreshUser } = useAuth()
+  const [status, setStatus] = useState<Status>('verifying')
+  const [error, setError] = useState('')
+  // The token is single-use, so make sure it is only sent once
+  const requested = useRef(false)
+
+  useEffect(() => {
+    if (requested.current) return
+    requested.current = true
+
+    if (!token) {
+      setError('This verification link is incomplete.')
+      setStatus('failed')
+      return
+    }
+
+    api.post('/auth/verify-email', { token })
+      .then(() => {
+        setStatus('verified')
+        refreshUser().catch(() => {})
+      })
+      .catch((error: any) => {
+        setError(error.response?.data?.error || 'Failed to verify email')
+        setStatus('failed')
+      })
+  }, [token])
+
+  if (status === 'verifying') {
+    return (
+      <div className="text-center">
+        <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4 text-primary-600" />
+        <p className="text-gray-600">Verifying your email...</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="text-center space-y-4">
+      {status === 'verified' ? (
+        <>
+          <CheckCircle className="h-10 w-10 mx-auto text-green-600" />
+          <p className="text-gray-700">Your email address is verified.</p>
+        </>
+      ) : (
+        <>
+          <XCircle className="h-10 w-10 mx-auto text-red-600" />
+          <p className="text-gray-700">{error}</p>
+          <p className="text-sm text-gray-600">Sign in to send yourself a new verification link.</p>
+        </>
+      )}
+      <Link href="/dashboard" className="inline-block font-medium text-primary-600 hover:text-primary-500">
+        Continue to L2 CRM
+      </Link>
+    </div>
+  )
+}
+
+export default function VerifyEmailPage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+          Email verification
+        </h2>
+        <Suspense>
+          <VerifyEmailStatus />
+        </Suspense>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,575 @@
+'use client'
+
+import { useState, useEffect } from 'react';
+import Layout from '@/components/layout/Layout';
+import PermissionGuard from '@/components/auth/PermissionGuard';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Input from '@/components/ui/Input';
+import { Plus, Edit, Trash2, History, RotateCcw } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import api from '@/lib/api';
+import { formatDateTime } from '@/lib/utils';
+
+type DeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+interface Webhook {
+  id: number;
+  name: string;
+  url: string;
+  events: string[];
+  is_active: boolean;
+  creator?: { id: number; name: string; email: string } | null;
+  createdAt: string;
+}
+
+interface WebhookDelivery {
+  id: number;
+  webhook_id: number;
+  event: string;
+  payload: Record<string, unknown>;
+  status: DeliveryStatus;
+  attempts: number;
+  next_attempt_at?: string | null;
+  last_attempt_at?: string | null;
+  response_status?: number | null;
+  response_body?: string | null;
+  error?: string | null;
+  replay_of?: number | null;
+  createdAt: string;
+}
+
+interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  pages: number;
+}
+
+const eventLabels: Record<string, string> = {
+  'lead.stage_changed': 'Lead moved to another stage',
+  'customer.created': 'Contact created',
+  'task.completed': 'Task completed',
+  'interaction.created': 'Interaction logged'
+};
+
+const statusColors: Record<DeliveryStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  succeeded: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800'
+};
+
+const emptyForm = {
+  name: '',
+  url: '',
+  events: [] as string[],
+  secret: '',
+  isActive: true
+};
+
+export default function WebhooksPage() {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [events, setEvents] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [editingWebhook, setEditingWebhook] = useState<Webhook | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [createdSecret, setCreatedSecret] = useState<string | null>(null);
+  const [selectedWebhook, setSelectedWebhook] = useState<Webhook | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [page, setPage] = useState(1);
+  const [statusFilter, setStatusFilter] = useState('');
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  useEffect(() => {
+    fetchWebhooks();
+    fetchEvents();
+  }, []);
+
+  useEffect(() => {
+    if (selectedWebhook) {
+      fetchDeliveries(selectedWebhook);
+    }
+  }, [selectedWebhook, page, statusFilter]);
+
+  const fetchWebhooks = async () => {
+    try {
+      const response = await api.get('/webhooks');
+      setWebhooks(response.data.data.webhooks);
+    } catch (error) {
+      toast.error('Failed to fetch webhooks');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchEvents = async () => {
+    try {
+      const response = await api.get('/webhooks/events');
+      setEvents(response.data.data.events);
+    } catch (error) {
+      console.error('Failed to fetch webhook events:', error);
+    }
+  };
+
+  const fetchDeliveries = async (webhook: Webhook) => {
+    try {
+      const params: Record<string, string | number> = { page };
+      if (statusFilter) params.status = statusFilter;
+
+      const response = await api.get(`/webhooks/${webhook.id}/deliveries`, { params });
+      setDeliveries(response.data.data.deliveries);
+      setPagination(response.data.data.pagination);
+    } catch (error) {
+      toast.error('Failed to fetch deliveries');
+    }
+  };
+
+  const handleCreate = async () => {
+    try {
+      const response = await api.post('/webhooks', {
+        name: formData.name,
+        url: formData.url,
+        events: formData.events,
+        secret: formData.secret || undefined,
+        isActive: formData.isActive
+      });
+      await fetchWebhooks();
+      setCreatedSecret(response.data.data.secret);
+      closeModal();
+      toast.success('Webhook created successfully');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to create webhook');
+    }
+  };
+
+  const handleUpdate = async () => {
+    if (!editingWebhook) return;
+
+    try {
+      await api.put(`/webhooks/${editingWebhook.id}`, {
+        name: formData.name,
+        url: formData.url,
+        events: formData.events,
+        secret: formData.secret || undefined,
+        isActive: formData.isActive
+      });
+      await fetchWebhooks();
+      closeModal();
+      toast.success('Webhook updated successfully');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to update webhook');
+    }
+  };
+
+  const handleDelete = async (webhook: Webhook) => {
+    if (!confirm(`Delete the webhook "${webhook.name}" and its delivery log?`)) return;
+
+    try {
+      await api.delete(`/webhooks/${webhook.id}`);
+      if (selectedWebhook?.id === webhook.id) {
+        setSelectedWebhook(null);
+      }
+      await fetchWebhooks();
+      toast.success('Webhook deleted successfully');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to delete webhook');
+    }
+  };
+
+  const handleReplay = async (delivery: WebhookDelivery) => {
+    try {
+      await api.post(`/webhooks/deliveries/${delivery.id}/replay`);
+      toast.success('Delivery queued for replay');
+      if (selectedWebhook) {
+        setPage(1);
+        await fetchDeliveries(selectedWebhook);
+      }
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to replay delivery');
+    }
+  };
+
+  const copySecret = async () => {
+    if (!createdSecret) return;
+    try {
+      await navigator.clipboard.writeText(createdSecret);
+      toast.success('Signing secret copied');
+    } catch (error) {
+      toast.error('Failed to copy signing secret');
+    }
+  };
+
+  const toggleEvent = (event: string) => {
+    setFormData({
+      ...formData,
+      events: formData.events.includes(event)
+        ? formData.events.filter(e => e !== event)
+        : [...formData.events, event]
+    });
+  };
+
+  const showDeliveries = (webhook: Webhook) => {
+    setSelectedWebhook(webhook);
+    setPage(1);
+    setStatusFilter('');
+    setExpandedId(null);
+  };
+
+  const closeModal = () => {
+    setShowCreateModal(false);
+    setEditingWebhook(null);
+    setFormData(emptyForm);
+  };
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 mx-auto"></div>
+            <p className="mt-2 text-gray-600">Loading webhooks...</p>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <PermissionGuard permissions={['webhooks:manage']}>
+        <div className="space-y-6">
+          {/* Header */}
+          <div className="flex justify-between items-center">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Webhooks</h1>
+              <p className="text-gray-600">Send CRM events to other systems as they happen</p>
+            </div>
+            <Button onClick={() => setShowCreateModal(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Webhook
+            </Button>
+          </div>
+
+          {createdSecret && (
+            <div className="space-y-2 rounded-md border border-green-200 bg-green-50 p-4">
+              <p className="text-sm text-green-800">
+                Copy the signing secret now. It will not be shown again. Receivers use it to check the X-Webhook-Signature header.
+              </p>
+              <code className="block break-all rounded bg-white px-3 py-2 text-sm text-gray-800">{createdSecret}</code>
+              <div className="flex space-x-2">
+                <Button size="sm" variant="outline" onClick={copySecret}>Copy</Button>
+                <Button size="sm" variant="ghost" onClick={() => setCreatedSecret(null)}>Done</Button>
+              </div>
+            </div>
+          )}
+
+          <Card>
+            <CardContent className="pt-6">
+              {webhooks.length === 0 ? (
+                <p className="text-sm text-gray-500">No webhooks yet</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Webhook
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Events
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Status
+                        </th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Actions
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {webhooks.map((webhook) => (
+                        <tr key={webhook.id} className="hover:bg-gray-50">
+                          <td className="px-6 py-4">
+                            <div className="text-sm font-medium text-gray-900">{webhook.name}</div>
+                            <div className="text-sm text-gray-500 break-all">{webhook.url}</div>
+                          </td>
+                          <td className="px-6 py-4 text-sm text-gray-700">
+                            {webhook.events.join(', ')}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                              webhook.is_active
+                                ? 'bg-green-100 text-green-800'
+                                : 'bg-gray-100 text-gray-800'
+                            }`}>
+                              {webhook.is_active ? 'Active' : 'Disabled'}
+                            </span>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                            <div className="flex justify-end space-x-2">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Delivery log"
+                                onClick={() => showDeliveries(webhook)}
+                              >
+                                <History className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => {
+                                  setEditingWebhook(webhook);
+                                  setFormData({
+                                    name: webhook.name,
+                                    url: webhook.url,
+                                    events: webhook.events,
+                                    secret: '',
+                                    isActive: webhook.is_active
+                                  });
+                                }}
+                              >
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleDelete(webhook)}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Delivery log */}
+          {selectedWebhook && (
+            <Card>
+              <CardHeader>
+                <div className="flex justify-between items-center">
+                  <div>
+                    <CardTitle>Deliveries to {selectedWebhook.name}</CardTitle>
+                    <CardDescription>Failed attempts are retried with increasing delays</CardDescription>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <select
+                      value={statusFilter}
+                      onChange={(e) => {
+                        setStatusFilter(e.target.value);
+                        setPage(1);
+                      }}
+                      className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                    >
+                      <option value="">All statuses</option>
+                      <option value="pending">Pending</option>
+                      <option value="succeeded">Succeeded</option>
+                      <option value="failed">Failed</option>
+                    </select>
+                    <Button variant="outline" size="sm" onClick={() => fetchDeliveries(selectedWebhook)}>
+                      Refresh
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setSelectedWebhook(null)}>
+                      Close
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {deliveries.length === 0 ? (
+                  <p className="text-sm text-gray-500">No deliveries</p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Created
+                          </th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Event
+                          </th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Status
+                          </th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Last attempt
+                          </th>
+                          <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Actions
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody className="bg-white divide-y divide-gray-200">
+                        {deliveries.map((delivery) => (
+                          <tr
+                            key={delivery.id}
+                            className="hover:bg-gray-50 cursor-pointer align-top"
+                            onClick={() => setExpandedId(expandedId === delivery.id ? null : delivery.id)}
+                          >
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                              {formatDateTime(delivery.createdAt)}
+                              {delivery.replay_of && (
+                                <div className="text-xs text-gray-500">Replay of #{delivery.replay_of}</div>
+                              )}
+                            </td>
+                            <td className="px-6 py-4 text-sm text-gray-700">
+                              {eventLabels[delivery.event] || delivery.event}
+                              {expandedId === delivery.id && (
+                                <pre className="mt-2 max-w-xl overflow-x-auto rounded bg-gray-50 p-2 text-xs text-gray-800">
+                                  {JSON.stringify(delivery.payload, null, 2)}
+                                </pre>
+                              )}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap">
+                              <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${statusColors[delivery.status]}`}>
+                                {delivery.status}
+                              </span>
+                              <div className="mt-1 text-xs text-gray-500">
+                                {delivery.attempts} {delivery.attempts === 1 ? 'attempt' : 'attempts'}
+                              </div>
+                              {delivery.status === 'pending' && delivery.next_attempt_at && (
+                                <div className="text-xs text-gray-500">Next {formatDateTime(delivery.next_attempt_at)}</div>
+                              )}
+                            </td>
+                            <td className="px-6 py-4 text-sm text-gray-700">
+                              {delivery.last_attempt_at ? (
+                                <>
+                                  <div>{formatDateTime(delivery.last_attempt_at)}</div>
+                                  <div className="text-xs text-gray-500">
+                                    {delivery.response_status ? `HTTP ${delivery.response_status}` : delivery.error}
+                                  </div>
+                                  {expandedId === delivery.id && delivery.response_body && (
+                                    <pre className="mt-2 max-w-md overflow-x-auto rounded bg-gray-50 p-2 text-xs text-gray-800">
+                                      {delivery.response_body}
+                                    </pre>
+                                  )}
+                                </>
+                              ) : '—'}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Replay"
+                                disabled={!selectedWebhook.is_active}
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  handleReplay(delivery);
+                                }}
+                              >
+                                <RotateCcw className="h-4 w-4" />
+                              </Button>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                {pagination && pagination.pages > 1 && (
+                  <div className="flex justify-between items-center mt-4">
+                    <p className="text-sm text-gray-600">
+                      Page {pagination.page} of {pagination.pages}
+                    </p>
+                    <div className="flex space-x-2">
+                      <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                        Previous
+                      </Button>
+                      <Button variant="outline" size="sm" disabled={page >= pagination.pages} onClick={() => setPage(page + 1)}>
+                        Next
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
+        {/* Create/Edit Modal */}
+        {(showCreateModal || editingWebhook) && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-lg p-6 w-full max-w-md">
+              <h2 className="text-xl font-bold mb-4">
+                {editingWebhook ? 'Edit Webhook' : 'Add Webhook'}
+              </h2>
+              <div className="space-y-4">
+                <Input
+                  label="Name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  required
+                />
+                <Input
+                  label="URL"
+                  type="url"
+                  value={formData.url}
+                  onChange={(e) => setFormData({ ...formData, url: e.target.value })}
+                  placeholder="https://hooks.example.com/crm"
+                  required
+                />
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Events
+                  </label>
+                  <div className="space-y-2">
+                    {events.map((event) => (
+                      <label key={event} className="flex items-center text-sm">
+                        <input
+                          type="checkbox"
+                          className="mr-2"
+                          checked={formData.events.includes(event)}
+                          onChange={() => toggleEvent(event)}
+                        />
+                        {eventLabels[event] || event}
+                        <span className="ml-2 text-xs text-gray-500">{event}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                <Input
+                  label={editingWebhook ? 'New signing secret' : 'Signing secret'}
+                  value={formData.secret}
+                  onChange={(e) => setFormData({ ...formData, secret: e.target.value })}
+                  helperText={editingWebhook
+                    ? 'Leave empty to keep the current secret'
+                    : 'Leave empty to generate one'}
+                />
+                <label className="flex items-center text-sm">
+                  <input
+                    type="checkbox"
+                    className="mr-2"
+                    checked={formData.isActive}
+                    onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+                  />
+                  Active
+                </label>
+              </div>
+              <div className="flex justify-end space-x-2 mt-6">
+                <Button variant="outline" onClick={closeModal}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={editingWebhook ? handleUpdate : handleCreate}
+                  disabled={!formData.name || !formData.url || formData.events.length === 0}
+                >
+                  {editingWebhook ? 'Update' : 'Create'}
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </PermissionGuard>
+    </Layout>
+  );
+}
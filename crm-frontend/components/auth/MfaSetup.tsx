@@ -0,0 +1,62 @@
+'use client'
+
+import { toast } from 'react-hot-toast'
+import { Copy } from 'lucide-react'
+
+export interface MfaProvisioning {
+  secret: string
+  otpauthUrl: string
+  qrCode: string
+}
+
+// QR code and secret for adding the account to an authenticator app
+export function MfaProvisioningDetails({ provisioning }: { provisioning: MfaProvisioning }) {
+  return (
+    <div className="space-y-3 text-center">
+      <p className="text-sm text-gray-600">
+        Scan this QR code with an authenticator app such as Google Authenticator or 1Password.
+      </p>
+      <img src={provisioning.qrCode} alt="Authenticator QR code" className="mx-auto h-48 w-48" />
+      <p className="text-xs text-gray-500">
+        Can&apos;t scan it? Enter this key instead:
+      </p>
+      <code className="block break-all rounded bg-gray-100 px-3 py-2 text-sm text-gray-800">
+        {provisioning.secret}
+      </code>
+    </div>
+  )
+}
+
+// Recovery codes are only shown once, so make them easy to copy
+export function RecoveryCodeList({ codes }: { codes: string[] }) {
+  const copyCodes = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join('\n'))
+      toast.success('Recovery codes copied')
+    } catch (error) {
+      toast.error('Failed to copy recovery codes')
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-600">
+        Keep these recovery codes somewhere safe. Each one signs you in once if you lose your
+        authenticator. They will not be shown again.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 rounded bg-gray-100 p-3 font-mono text-sm text-gray-800">
+        {codes.map((code) => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+      <button
+        type="button"
+        onClick={copyCodes}
+        className="flex items-center text-sm font-medium text-primary-600 hover:text-primary-500"
+      >
+        <Copy className="h-4 w-4 mr-1" />
+        Copy codes
+      </button>
+    </div>
+  )
+}
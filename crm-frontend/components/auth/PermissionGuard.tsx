@@ -0,0 +1,30 @@
+'use client'
+
+import { ReactNode } from 'react'
+import { useAuth } from '@/contexts/AuthContext'
+
+interface PermissionGuardProps {
+  children: ReactNode
+  // Access is granted when the user's role has any of these permissions
+  permissions: string[]
+  fallback?: ReactNode
+}
+
+export default function PermissionGuard({ children, permissions, fallback }: PermissionGuardProps) {
+  const { user, hasPermission } = useAuth()
+
+  if (!user) {
+    return fallback || <div>Please log in to access this feature.</div>
+  }
+
+  if (!permissions.some(hasPermission)) {
+    return fallback || (
+      <div className="text-center p-8">
+        <h3 className="text-lg font-semibold text-gray-900 mb-2">Access Denied</h3>
+        <p className="text-gray-600">You don't have permission to access this feature.</p>
+      </div>
+    )
+  }
+
+  return <>{children}</>
+}
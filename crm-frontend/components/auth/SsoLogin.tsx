@@ -0,0 +1,62 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { toast } from 'react-hot-toast'
+import { Loader2 } from 'lucide-react'
+import api from '@/lib/api'
+
+// Key the pending single sign-on is kept under until the provider sends the
+// user back to /login/sso
+export const SSO_TRANSACTION_KEY = 'ssoTransaction'
+
+// "Sign in with SSO", shown when the backend has an identity provider set up
+export function SsoLogin() {
+  const [providerName, setProviderName] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  useEffect(() => {
+    api.get('/auth/sso')
+      .then(response => {
+        if (response.data.data.enabled) {
+          setProviderName(response.data.data.providerName)
+        }
+      })
+      .catch(() => {})
+  }, [])
+
+  const startSso = async () => {
+    setIsLoading(true)
+    try {
+      const response = await api.get('/auth/sso/authorize')
+      const { authorizationUrl, transaction } = response.data.data
+      sessionStorage.setItem(SSO_TRANSACTION_KEY, transaction)
+      window.location.href = authorizationUrl
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to start single sign-on')
+      setIsLoading(false)
+    }
+  }
+
+  if (!providerName) return null
+
+  return (
+    <div className="space-y-6">
+      <div className="relative">
+        <div className="absolute inset-0 flex items-center">
+          <div className="w-full border-t border-gray-300" />
+        </div>
+        <div className="relative flex justify-center text-sm">
+          <span className="px-2 bg-gray-50 text-gray-500">or</span>
+        </div>
+      </div>
+      <button
+        type="button"
+        onClick={startSso}
+        disabled={isLoading}
+        className="w-full flex justify-center py-2 px-4 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isLoading ? <Loader2 className="h-5 w-5 animate-spin" /> : `Sign in with ${providerName}`}
+      </button>
+    </div>
+  )
+}
@@ -1,26 +1,39 @@
 'use client'
 
 import { useState } from 'react';
+import Link from 'next/link';
 import { useAuth } from '@/contexts/AuthContext';
 import { 
   Bell, 
   User, 
   LogOut, 
   Settings,
-  ChevronDown
+  ChevronDown,
+  Eye
 } from 'lucide-react';
 import Button from '@/components/ui/Button';
 
 export default function Header() {
-  const { user, logout } = useAuth();
+  const { user, logout, stopImpersonation } = useAuth();
   const [userMenuOpen, setUserMenuOpen] = useState(false);
 
-  const handleLogout = () => {
-    logout();
+  const handleLogout = (everywhere = false) => {
+    logout(everywhere);
   };
 
   return (
     <header className="bg-white shadow-sm border-b border-gray-200">
+      {user?.impersonator && (
+        <div className="flex items-center justify-between bg-yellow-100 px-4 py-2 text-sm text-yellow-900 sm:px-6 lg:px-8">
+          <span className="flex items-center">
+            <Eye className="h-4 w-4 mr-2" />
+            Viewing the CRM as {user.name} ({user.email}). Signed in as {user.impersonator.name}.
+          </span>
+          <Button variant="outline" size="sm" onClick={() => stopImpersonation()}>
+            Stop impersonating
+          </Button>
+        </div>
+      )}
       <div className="flex h-16 items-center justify-between px-4 sm:px-6 lg:px-8">
         <div className="flex items-center">
           <h1 className="text-xl font-semibold text-gray-900 lg:hidden">L2 CRM</h1>
@@ -55,13 +68,27 @@ export default function Header() {
                   <div className="text-gray-500">{user?.email}</div>
                   <div className="text-xs text-gray-400 capitalize">{user?.role}</div>
                 </div>
+                <Link
+                  href="/settings"
+                  className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center"
+                >
+                  <Settings className="h-4 w-4 mr-2" />
+                  Profile & settings
+                </Link>
                 <button
-                  onClick={handleLogout}
+                  onClick={() => handleLogout()}
                   className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center"
                 >
                   <LogOut className="h-4 w-4 mr-2" />
                   Sign out
                 </button>
+                <button
+                  onClick={() => handleLogout(true)}
+                  className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center"
+                >
+                  <LogOut className="h-4 w-4 mr-2" />
+                  Sign out everywhere
+                </button>
               </div>
             )}
           </div>
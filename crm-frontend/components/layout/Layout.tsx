@@ -1,11 +1,13 @@
 'use client'
 
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
 import Sidebar from './Sidebar';
 import Header from './Header';
 import { Loader2 } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import api from '@/lib/api';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -14,6 +16,7 @@ interface LayoutProps {
 export default function Layout({ children }: LayoutProps) {
   const { user, loading } = useAuth();
   const router = useRouter();
+  const [verificationSent, setVerificationSent] = useState(false);
 
   useEffect(() => {
     if (!loading && !user) {
@@ -36,12 +39,35 @@ export default function Layout({ children }: LayoutProps) {
     return null;
   }
 
+  const resendVerification = async () => {
+    try {
+      await api.post('/auth/resend-verification');
+      setVerificationSent(true);
+      toast.success('Verification email sent');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to send verification email');
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gray-50">
       <Sidebar />
       
       <div className="lg:pl-64">
         <Header />
+
+        {!user.email_verified_at && (
+          <div className="bg-yellow-50 border-b border-yellow-200 px-4 py-2 text-sm text-yellow-800 sm:px-6 lg:px-8">
+            Please verify your email address.{' '}
+            {verificationSent ? (
+              'Check your inbox for the link.'
+            ) : (
+              <button onClick={resendVerification} className="font-medium underline hover:text-yellow-900">
+                Resend verification email
+              </button>
+            )}
+          </div>
+        )}
         
         <main className="py-6">
           <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8">
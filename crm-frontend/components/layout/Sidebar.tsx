@@ -13,38 +13,42 @@ import {
   Menu, 
   X,
   Building2,
-  MessageSquare
+  MessageSquare,
+  SlidersHorizontal,
+  Shield,
+  History,
+  ShieldAlert,
+  Webhook
 } from 'lucide-react';
 
-const userNavigation = [
+// Items with a permission are only shown to users whose role grants it
+const navigationItems = [
   { name: 'Dashboard', href: '/dashboard', icon: BarChart3 },
-  { name: 'Customers', href: '/customers', icon: Users },
-  { name: 'Pipeline', href: '/pipeline', icon: Target },
-  { name: 'Tasks', href: '/tasks', icon: CheckSquare },
-  { name: 'Interactions', href: '/interactions', icon: MessageSquare },
-];
-
-const adminNavigation = [
-  { name: 'Dashboard', href: '/dashboard', icon: BarChart3 },
-  { name: 'Customers', href: '/customers', icon: Users },
-  { name: 'Pipeline', href: '/pipeline', icon: Target },
-  { name: 'Tasks', href: '/tasks', icon: CheckSquare },
-  { name: 'Reports', href: '/reports', icon: BarChart3 },
-  { name: 'Interactions', href: '/interactions', icon: MessageSquare },
-  { name: 'Users', href: '/users', icon: Settings },
+  { name: 'Accounts', href: '/accounts', icon: Building2, permission: 'accounts:view' },
+  { name: 'Contacts', href: '/customers', icon: Users, permission: 'customers:view' },
+  { name: 'Pipeline', href: '/pipeline', icon: Target, permission: 'leads:view' },
+  { name: 'Tasks', href: '/tasks', icon: CheckSquare, permission: 'tasks:view' },
+  { name: 'Reports', href: '/reports', icon: BarChart3, permission: 'reports:view' },
+  { name: 'Interactions', href: '/interactions', icon: MessageSquare, permission: 'interactions:view' },
+  { name: 'Users', href: '/users', icon: Settings, permission: 'users:manage' },
+  { name: 'Roles', href: '/roles', icon: Shield, permission: 'roles:manage' },
+  { name: 'Custom Fields', href: '/custom-fields', icon: SlidersHorizontal, permission: 'settings:manage' },
+  { name: 'Webhooks', href: '/webhooks', icon: Webhook, permission: 'webhooks:manage' },
+  { name: 'Audit Log', href: '/audit', icon: History, permission: 'audit:view' },
+  { name: 'Security Log', href: '/security', icon: ShieldAlert, permission: 'audit:view' },
 ];
 
 export default function Sidebar() {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const pathname = usePathname();
-  const { user } = useAuth();
+  const { hasPermission } = useAuth();
 
   const isActive = (href: string) => {
     return pathname === href;
   };
 
-  // Determine which navigation to show based on user role
-  const navigation = user?.role === 'admin' ? adminNavigation : userNavigation;
+  // Determine which navigation to show based on the user's permissions
+  const navigation = navigationItems.filter(item => !item.permission || hasPermission(item.permission));
 
   return (
     <>
@@ -0,0 +1,128 @@
+import React from 'react';
+import Input from '@/components/ui/Input';
+import { CustomFieldDefinition, CustomFieldValues } from '@/contexts/DataContext';
+
+interface CustomFieldInputsProps {
+  definitions: CustomFieldDefinition[];
+  values: CustomFieldValues;
+  onChange: (values: CustomFieldValues) => void;
+}
+
+const selectClassName = 'w-full rounded-md border border-gray-300 px-3 py-2 text-sm';
+
+// Renders an input for each custom field; empty values are left out so that
+// the API reports missing required fields
+export default function CustomFieldInputs({ definitions, values, onChange }: CustomFieldInputsProps) {
+  const setValue = (key: string, value: CustomFieldValues[string] | undefined) => {
+    const next = { ...values };
+    if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) {
+      delete next[key];
+    } else {
+      next[key] = value;
+    }
+    onChange(next);
+  };
+
+  if (definitions.length === 0) {
+    return null;
+  }
+
+  return (
+    <>
+      {definitions.map((definition) => {
+        const value = values[definition.key];
+        const label = definition.required ? `${definition.label} *` : definition.label;
+
+        switch (definition.type) {
+          case 'number':
+            return (
+              <Input
+                key={definition.key}
+                label={label}
+                type="number"
+                value={value === undefined || value === null ? '' : String(value)}
+                onChange={(e) => setValue(definition.key, e.target.value === '' ? undefined : parseFloat(e.target.value))}
+              />
+            );
+          case 'date':
+            return (
+              <Input
+                key={definition.key}
+                label={label}
+                type="date"
+                value={typeof value === 'string' ? value.slice(0, 10) : ''}
+                onChange={(e) => setValue(definition.key, e.target.value)}
+              />
+            );
+          case 'select':
+            return (
+              <div key={definition.key}>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  {label}
+                </label>
+                <select
+                  className={selectClassName}
+                  value={typeof value === 'string' ? value : ''}
+                  onChange={(e) => setValue(definition.key, e.target.value)}
+                >
+                  <option value="">Select...</option>
+                  {definition.options.map((option) => (
+                    <option key={option} value={option}>
+                      {option}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            );
+          case 'multi-select': {
+            const selected = Array.isArray(value) ? value : [];
+            return (
+              <div key={definition.key}>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  {label}
+                </label>
+                <div className="flex flex-wrap gap-3">
+                  {definition.options.map((option) => (
+                    <label key={option} className="flex items-center text-sm">
+                      <input
+                        type="checkbox"
+                        className="mr-2"
+                        checked={selected.includes(option)}
+                        onChange={(e) => setValue(
+                          definition.key,
+                          e.target.checked ? [...selected, option] : selected.filter(o => o !== option)
+                        )}
+                      />
+                      {option}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            );
+          }
+          case 'boolean':
+            return (
+              <label key={definition.key} className="flex items-center text-sm font-medium text-gray-700">
+                <input
+                  type="checkbox"
+                  className="mr-2"
+                  checked={value === true}
+                  onChange={(e) => setValue(definition.key, e.target.checked)}
+                />
+                {label}
+              </label>
+            );
+          default:
+            return (
+              <Input
+                key={definition.key}
+                label={label}
+                value={typeof value === 'string' ? value : ''}
+                onChange={(e) => setValue(definition.key, e.target.value)}
+              />
+            );
+        }
+      })}
+    </>
+  );
+}
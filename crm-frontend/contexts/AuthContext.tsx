@@ -2,19 +2,46 @@
 
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react'
 import api from '@/lib/api'
+import { setDisplayPreferences } from '@/lib/utils'
 
 interface User {
   id: number
   name: string
   email: string
-  role: 'admin' | 'user'
+  role: string
+  permissions: string[]
+  team_id?: number | null
+  email_verified_at?: string | null
+  mfa_enabled?: boolean
+  mfaRequired?: boolean
+  managedTeamIds: number[]
+  timezone?: string | null
+  locale?: string | null
+  notification_preferences?: Record<string, boolean>
+  // Admin acting as this user, while impersonating
+  impersonator?: { id: number; name: string; email: string } | null
 }
 
+// Second step a login can ask for before the session starts
+export interface LoginChallenge {
+  challenge: 'mfa' | 'mfa_enrollment'
+  challengeToken: string
+}
+
+// Endpoints that finish a login: the MFA steps, single sign-on and
+// accepting an invitation
+type CompleteLoginPath = '/auth/login/mfa' | '/auth/login/mfa/enable' | '/auth/sso/callback' | '/auth/accept-invite'
+
 interface AuthContextType {
   user: User | null
   loading: boolean
-  login: (credentials: { email: string; password: string }) => Promise<void>
-  logout: () => void
+  login: (credentials: { email: string; password: string }) => Promise<LoginChallenge | null>
+  completeLogin: (path: CompleteLoginPath, body: Record<string, string>) => Promise<any>
+  logout: (everywhere?: boolean) => Promise<void>
+  refreshUser: () => Promise<void>
+  startImpersonation: (userId: number) => Promise<void>
+  stopImpersonation: () => Promise<void>
+  hasPermission: (permission: string) => boolean
   isAuthenticated: boolean
 }
 
@@ -34,6 +61,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         } catch (error) {
           console.error('Auth initialization failed:', error)
           localStorage.removeItem('token')
+          localStorage.removeItem('refreshToken')
         }
       }
       setLoading(false)
@@ -42,28 +70,104 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     initAuth()
   }, [])
 
+  // Show dates and amounts the way the user chose. Set while rendering so
+  // the pages below already format with it.
+  setDisplayPreferences({ locale: user?.locale, timezone: user?.timezone })
+
+  const startSession = (data: { token: string; refreshToken: string; user: User }) => {
+    localStorage.setItem('token', data.token)
+    localStorage.setItem('refreshToken', data.refreshToken)
+    setUser(data.user)
+  }
+
+  // Resolves with the challenge when the login still needs a second step
   const login = async (credentials: { email: string; password: string }) => {
     try {
       const response = await api.post('/auth/login', credentials)
-      const { token, user } = response.data.data
-      
-      localStorage.setItem('token', token)
-      setUser(user)
+      const data = response.data.data
+      if (data.challenge) {
+        return data as LoginChallenge
+      }
+
+      startSession(data)
+      return null
     } catch (error: any) {
       throw new Error(error.response?.data?.error || 'Login failed')
     }
   }
 
-  const logout = () => {
+  // Finish a challenged login and start the session; resolves with the
+  // response data, which may hold recovery codes to show the user, or a
+  // further challenge, in which case no session starts yet
+  const completeLogin = async (path: CompleteLoginPath, body: Record<string, string>) => {
+    try {
+      const response = await api.post(path, body)
+      const data = response.data.data
+      if (!data.challenge) {
+        startSession(data)
+      }
+      return data
+    } catch (error: any) {
+      throw new Error(error.response?.data?.error || 'Login failed')
+    }
+  }
+
+  // Act as another user. The admin's own token is put aside until the
+  // impersonation stops.
+  const startImpersonation = async (userId: number) => {
+    const response = await api.post('/impersonation', { userId })
+    localStorage.setItem('impersonatorToken', localStorage.getItem('token') || '')
+    localStorage.setItem('token', response.data.data.token)
+    await refreshUser()
+  }
+
+  const stopImpersonation = async () => {
+    const impersonatorToken = localStorage.getItem('impersonatorToken')
+    if (!impersonatorToken) return
+
+    try {
+      await api.post('/impersonation/end')
+    } catch (error) {
+      console.error('Ending impersonation failed:', error)
+    }
+    localStorage.setItem('token', impersonatorToken)
+    localStorage.removeItem('impersonatorToken')
+    await refreshUser()
+  }
+
+  // End this session on the server, or every session of the user
+  const logout = async (everywhere = false) => {
+    await stopImpersonation()
+    try {
+      await api.post(everywhere ? '/auth/logout-all' : '/auth/logout')
+    } catch (error) {
+      console.error('Logout failed:', error)
+    }
     localStorage.removeItem('token')
+    localStorage.removeItem('refreshToken')
+    localStorage.removeItem('impersonatorToken')
     setUser(null)
   }
 
+  // Reload the current user after their profile changed elsewhere
+  const refreshUser = async () => {
+    if (!localStorage.getItem('token')) return
+    const response = await api.get('/auth/me')
+    setUser(response.data.data.user)
+  }
+
+  const hasPermission = (permission: string) => !!user?.permissions?.includes(permission)
+
   const value = {
     user,
     loading,
     login,
+    completeLogin,
     logout,
+    refreshUser,
+    startImpersonation,
+    stopImpersonation,
+    hasPermission,
     isAuthenticated: !!user
   }
 
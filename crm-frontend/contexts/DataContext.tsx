@@ -1,7 +1,39 @@
 'use client'
 
-import { createContext, useContext, useState, ReactNode } from 'react'
+import { createContext, useContext, useState, useEffect, ReactNode } from 'react'
 import api from '@/lib/api'
+import { subscribeToRealtime } from '@/lib/realtime'
+import { useAuth } from '@/contexts/AuthContext'
+
+export type CustomFieldEntity = 'customer' | 'lead' | 'task'
+
+export type CustomFieldType = 'text' | 'number' | 'date' | 'select' | 'multi-select' | 'boolean'
+
+export type CustomFieldValues = Record<string, string | number | boolean | string[] | null>
+
+export interface CustomFieldDefinition {
+  id: number
+  entity: CustomFieldEntity
+  key: string
+  label: string
+  type: CustomFieldType
+  options: string[]
+  required: boolean
+  position: number
+  is_active: boolean
+}
+
+export interface Account {
+  id: number
+  name: string
+  website?: string
+  industry?: string
+  phone?: string
+  notes?: string
+  contacts?: Customer[]
+  createdAt: string
+  updatedAt: string
+}
 
 interface Customer {
   id: number
@@ -9,21 +41,63 @@ interface Customer {
   email: string
   phone?: string
   company?: string
+  account_id?: number | null
+  account?: Pick<Account, 'id' | 'name'> | null
+  owner_id?: number | null
+  owner?: { id: number; name: string } | null
   tags: string[]
+  custom_fields?: CustomFieldValues
   notes?: string
   createdAt: string
   updatedAt: string
 }
 
+export interface PipelineStage {
+  id: number
+  pipeline_id: number
+  key: string
+  name: string
+  position: number
+  color: string
+  probability: number
+  is_won: boolean
+  is_lost: boolean
+}
+
+export interface Pipeline {
+  id: number
+  name: string
+  description?: string
+  is_default: boolean
+  stages: PipelineStage[]
+}
+
+export interface LossReason {
+  id: number
+  name: string
+  position: number
+  is_active: boolean
+}
+
 interface Lead {
   id: number
   title: string
   description?: string
-  stage: 'lead' | 'qualified' | 'proposal' | 'closed'
+  stage: string
+  pipeline_id?: number
   value?: number
+  expected_close_date?: string | null
+  closed_at?: string | null
+  close_reason?: string | null
   customerId: number
+  customer_id?: number | null
+  account_id?: number | null
   assignedTo?: number
   customer?: Customer
+  account?: Pick<Account, 'id' | 'name'> | null
+  owner_id?: number | null
+  owner?: { id: number; name: string } | null
+  custom_fields?: CustomFieldValues
   assignedUser?: {
     id: number
     name: string
@@ -42,7 +116,9 @@ interface Task {
   dueDate?: string
   assignedTo?: number
   customerId?: number
+  leadId?: number
   customer?: Customer
+  customFields?: CustomFieldValues
   assignedUser?: {
     id: number
     name: string
@@ -53,28 +129,55 @@ interface Task {
 }
 
 interface DataContextType {
+  accounts: Account[]
   customers: Customer[]
   leads: Lead[]
   tasks: Task[]
+  pipelines: Pipeline[]
+  pipelineStages: PipelineStage[]
+  lossReasons: LossReason[]
+  customFieldDefinitions: CustomFieldDefinition[]
   setCustomers: (customers: Customer[]) => void
   setLeads: (leads: Lead[]) => void
   setTasks: (tasks: Task[]) => void
+  fetchAccounts: () => Promise<void>
   fetchCustomers: () => Promise<void>
+  fetchPipelines: () => Promise<void>
+  fetchPipelineStages: (pipelineId?: number) => Promise<void>
+  fetchLossReasons: () => Promise<void>
+  fetchCustomFieldDefinitions: () => Promise<void>
   updateCustomer: (updatedCustomer: Customer) => void
   addCustomer: (newCustomer: Customer) => void
   updateLead: (updatedLead: Lead) => void
   addLead: (newLead: Lead) => void
   updateTask: (updatedTask: Task) => void
   addTask: (newTask: Task) => void
-  updateLeadStage: (leadId: number, oldStage: string, newStage: string, lead: Lead) => void
+  updateLeadStage: (leadId: number, oldStage: string | null, newStage: string, lead: Lead) => void
 }
 
 const DataContext = createContext<DataContextType | undefined>(undefined)
 
 export function DataProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth()
+  const [accounts, setAccounts] = useState<Account[]>([])
   const [customers, setCustomers] = useState<Customer[]>([])
   const [leads, setLeads] = useState<Lead[]>([])
   const [tasks, setTasks] = useState<Task[]>([])
+  const [pipelines, setPipelines] = useState<Pipeline[]>([])
+  const [pipelineStages, setPipelineStages] = useState<PipelineStage[]>([])
+  const [lossReasons, setLossReasons] = useState<LossReason[]>([])
+  const [customFieldDefinitions, setCustomFieldDefinitions] = useState<CustomFieldDefinition[]>([])
+
+  const fetchAccounts = async () => {
+    try {
+      const response = await api.get('/accounts', { params: { limit: 1000 } })
+      if (response.data.success) {
+        setAccounts(response.data.data.accounts)
+      }
+    } catch (error) {
+      console.error('Failed to fetch accounts:', error)
+    }
+  }
 
   const fetchCustomers = async () => {
     try {
@@ -87,6 +190,50 @@ export function DataProvider({ children }: { children: ReactNode }) {
     }
   }
 
+  const fetchPipelines = async () => {
+    try {
+      const response = await api.get('/pipelines')
+      if (response.data.success) {
+        setPipelines(response.data.data.pipelines)
+      }
+    } catch (error) {
+      console.error('Failed to fetch pipelines:', error)
+    }
+  }
+
+  const fetchPipelineStages = async (pipelineId?: number) => {
+    try {
+      const response = await api.get('/pipeline-stages', { params: { pipelineId } })
+      if (response.data.success) {
+        setPipelineStages(response.data.data.stages)
+      }
+    } catch (error) {
+      console.error('Failed to fetch pipeline stages:', error)
+    }
+  }
+
+  const fetchLossReasons = async () => {
+    try {
+      const response = await api.get('/loss-reasons')
+      if (response.data.success) {
+        setLossReasons(response.data.data.lossReasons)
+      }
+    } catch (error) {
+      console.error('Failed to fetch loss reasons:', error)
+    }
+  }
+
+  const fetchCustomFieldDefinitions = async () => {
+    try {
+      const response = await api.get('/custom-fields')
+      if (response.data.success) {
+        setCustomFieldDefinitions(response.data.data.customFields)
+      }
+    } catch (error) {
+      console.error('Failed to fetch custom fields:', error)
+    }
+  }
+
   const updateCustomer = (updatedCustomer: Customer) => {
     setCustomers(prev => 
       prev.map(c => c.id === updatedCustomer.id ? updatedCustomer : c)
@@ -117,21 +264,45 @@ export function DataProvider({ children }: { children: ReactNode }) {
     setTasks(prev => [...prev, newTask])
   }
 
-  const updateLeadStage = (leadId: number, oldStage: string, newStage: string, lead: Lead) => {
-    setLeads(prev => {
-      const filtered = prev.filter(l => !(l.id === leadId && l.stage === oldStage))
-      return [...filtered, lead]
-    })
+  // Apply a stage move to a listed lead; one moved to another pipeline leaves the board
+  const updateLeadStage = (leadId: number, oldStage: string | null, newStage: string, lead: Lead) => {
+    setLeads(prev => prev.flatMap(l => {
+      if (l.id !== leadId) return [l]
+      return l.pipeline_id === lead.pipeline_id ? [{ ...lead, stage: newStage }] : []
+    }))
   }
 
+  // Show other users' pipeline moves and task updates as they happen
+  useEffect(() => {
+    if (!user) return
+
+    return subscribeToRealtime(({ event, data }) => {
+      if (event === 'lead:stage:updated') {
+        updateLeadStage(data.leadId, data.oldStage, data.newStage, data.lead)
+      } else if (event === 'task:status:updated') {
+        updateTask(data.task)
+      }
+    })
+  }, [user?.id])
+
   const value = {
+    accounts,
     customers,
     leads,
     tasks,
+    pipelines,
+    pipelineStages,
+    lossReasons,
+    customFieldDefinitions,
     setCustomers,
     setLeads,
     setTasks,
+    fetchAccounts,
     fetchCustomers,
+    fetchPipelines,
+    fetchPipelineStages,
+    fetchLossReasons,
+    fetchCustomFieldDefinitions,
     updateCustomer,
     addCustomer,
     updateLead,
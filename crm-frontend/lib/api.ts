@@ -1,4 +1,4 @@
-import axios from 'axios'
+import axios, { InternalAxiosRequestConfig } from 'axios'
 
 const api = axios.create({
   baseURL: process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000/api',
@@ -8,6 +8,36 @@ const api = axios.create({
   },
 })
 
+// Requests that do not run inside a session, so a 401 from them is final
+const sessionlessUrls = [
+  '/auth/login',
+  '/auth/login/mfa',
+  '/auth/login/mfa/setup',
+  '/auth/login/mfa/enable',
+  '/auth/sso/callback',
+  '/auth/register',
+  '/auth/invitation',
+  '/auth/accept-invite',
+  '/auth/refresh'
+]
+
+// Requests that failed with an expired access token all wait on the same refresh
+let refreshRequest: Promise<string> | null = null
+
+const refreshAccessToken = async () => {
+  const refreshToken = localStorage.getItem('refreshToken')
+  if (!refreshToken) {
+    throw new Error('No refresh token')
+  }
+
+  // Go around the interceptors so a failed refresh does not try to refresh itself
+  const response = await axios.post(`${api.defaults.baseURL}/auth/refresh`, { refreshToken })
+  const { token, refreshToken: nextRefreshToken } = response.data.data
+  localStorage.setItem('token', token)
+  localStorage.setItem('refreshToken', nextRefreshToken)
+  return token as string
+}
+
 // Request interceptor for authentication
 api.interceptors.request.use(
   (config) => {
@@ -23,12 +53,41 @@ api.interceptors.request.use(
 // Response interceptor for error handling
 api.interceptors.response.use(
   (response) => response,
-  (error) => {
-    if (error.response?.status === 401) {
-      // Token expired or invalid
+  async (error) => {
+    const originalRequest = error.config as (InternalAxiosRequestConfig & { _retried?: boolean }) | undefined
+    const isSessionRequest = !!originalRequest && !sessionlessUrls.includes(originalRequest.url || '')
+
+    if (error.response?.status === 401 && isSessionRequest) {
+      // Impersonation tokens cannot be refreshed; once one stops working the
+      // admin's own token takes over again
+      const impersonatorToken = localStorage.getItem('impersonatorToken')
+      if (impersonatorToken) {
+        localStorage.setItem('token', impersonatorToken)
+        localStorage.removeItem('impersonatorToken')
+        if (typeof window !== 'undefined') {
+          window.location.href = '/users'
+        }
+        return Promise.reject(error)
+      }
+
+      // Access token expired: refresh it once and replay the request
+      if (!originalRequest._retried) {
+        originalRequest._retried = true
+        try {
+          refreshRequest = refreshRequest || refreshAccessToken().finally(() => {
+            refreshRequest = null
+          })
+          const token = await refreshRequest
+          originalRequest.headers.Authorization = `Bearer ${token}`
+          return api(originalRequest)
+        } catch (refreshError) {
+          // The session is gone; fall through to signing out
+        }
+      }
+
       localStorage.removeItem('token')
-      if (typeof window !== 'undefined') {
-        // Use Next.js router for proper navigation
+      localStorage.removeItem('refreshToken')
+      if (typeof window !== 'undefined' && window.location.pathname !== '/login') {
         window.location.href = '/login'
       }
     }
@@ -36,4 +95,4 @@ api.interceptors.response.use(
   }
 )
 
-export default api 
\ No newline at end of file
+export default api
@@ -0,0 +1,99 @@
+import api from '@/lib/api'
+
+export interface RealtimeMessage {
+  event: 'lead:stage:updated' | 'task:status:updated' | 'interaction:created'
+  data: any
+}
+
+type Listener = (message: RealtimeMessage) => void
+
+// The server closes the connection with this code when its access token expires
+const CLOSE_TOKEN_EXPIRED = 4401
+const MAX_RECONNECT_DELAY_MS = 30000
+
+// ws://host/ws next to the API, unless configured separately
+const socketUrl = () => {
+  if (process.env.NEXT_PUBLIC_WS_URL) {
+    return process.env.NEXT_PUBLIC_WS_URL
+  }
+  const apiUrl = new URL(api.defaults.baseURL || 'http://localhost:5000/api', window.location.href)
+  apiUrl.protocol = apiUrl.protocol === 'https:' ? 'wss:' : 'ws:'
+  apiUrl.pathname = '/ws'
+  return apiUrl.toString()
+}
+
+// One connection shared by every listener; it opens with the first and
+// closes with the last
+const listeners = new Set<Listener>()
+let socket: WebSocket | null = null
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null
+let failures = 0
+
+const connect = () => {
+  reconnectTimer = null
+  const token = localStorage.getItem('token')
+  if (!token || listeners.size === 0) return
+
+  const ws = new WebSocket(`${socketUrl()}?token=${encodeURIComponent(token)}`)
+  socket = ws
+
+  ws.onopen = () => {
+    failures = 0
+  }
+
+  ws.onmessage = (message) => {
+    try {
+      const parsed = JSON.parse(message.data) as RealtimeMessage
+      listeners.forEach(listener => listener(parsed))
+    } catch (error) {
+      console.error('Invalid real-time message:', error)
+    }
+  }
+
+  ws.onclose = async (event) => {
+    if (socket !== ws || listeners.size === 0) return
+    socket = null
+
+    // Any API call refreshes an expired access token before reconnecting;
+    // a failed refresh signs the user out instead
+    if (event.code === CLOSE_TOKEN_EXPIRED || failures > 0) {
+      try {
+        await api.get('/auth/me')
+      } catch (error) {
+        return
+      }
+    }
+
+    const delay = Math.min(1000 * 2 ** failures, MAX_RECONNECT_DELAY_MS)
+    failures += 1
+    reconnectTimer = setTimeout(connect, delay)
+  }
+}
+
+const disconnect = () => {
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer)
+    reconnectTimer = null
+  }
+  if (socket) {
+    const ws = socket
+    socket = null
+    ws.close()
+  }
+  failures = 0
+}
+
+// Receive live updates; returns a function that stops them
+export const subscribeToRealtime = (listener: Listener) => {
+  listeners.add(listener)
+  if (!socket && !reconnectTimer) {
+    connect()
+  }
+
+  return () => {
+    listeners.delete(listener)
+    if (listeners.size === 0) {
+      disconnect()
+    }
+  }
+}
@@ -5,31 +5,48 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
+// Locale and time zone from the signed-in user's preferences; undefined
+// falls back to the browser's
+let displayLocale: string | undefined;
+let displayTimeZone: string | undefined;
+
+export function setDisplayPreferences({ locale, timezone }: { locale?: string | null; timezone?: string | null }) {
+  displayLocale = locale || undefined;
+  displayTimeZone = timezone || undefined;
+}
+
 export function formatCurrency(amount: number): string {
-  return new Intl.NumberFormat('en-US', {
+  return new Intl.NumberFormat(displayLocale, {
     style: 'currency',
     currency: 'USD',
   }).format(amount);
 }
 
 export function formatDate(date: string | Date): string {
-  return new Intl.DateTimeFormat('en-US', {
+  return new Intl.DateTimeFormat(displayLocale, {
     year: 'numeric',
     month: 'short',
     day: 'numeric',
+    timeZone: displayTimeZone,
   }).format(new Date(date));
 }
 
 export function formatDateTime(date: string | Date): string {
-  return new Intl.DateTimeFormat('en-US', {
+  return new Intl.DateTimeFormat(displayLocale, {
     year: 'numeric',
     month: 'short',
     day: 'numeric',
     hour: '2-digit',
     minute: '2-digit',
+    timeZone: displayTimeZone,
   }).format(new Date(date));
 }
 
+// Name of a user in history, marked when they no longer have an account
+export function formatUserName(user: { name: string; is_active?: boolean }): string {
+  return user.is_active === false ? `${user.name} (deactivated)` : user.name;
+}
+
 export function truncateText(text: string, maxLength: number): string {
   if (text.length <= maxLength) return text;
   return text.slice(0, maxLength) + '...';